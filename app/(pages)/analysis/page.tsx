@@ -0,0 +1,40 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import MobileAppLayout from '../../components/common/MobileAppLayout';
+import AnalysisBoard from '../../components/features/AnalysisBoard';
+import { getRequestedLibraryGameId } from '../../hooks/useGameAutosave';
+import { getLibraryGame, getLibraryGameHeaders, restoreGameState } from '../../lib/gameLibrary';
+import { MoveTree, moveTreeFromState } from '../../lib/moveTree';
+
+export default function AnalysisPage() {
+  // Game opened from the library, if any
+  const [libraryGame, setLibraryGame] = useState<{ id: string; tree: MoveTree } | null>(null);
+
+  useEffect(() => {
+    const requestedId = getRequestedLibraryGameId();
+    if (!requestedId) return;
+    getLibraryGame(requestedId)
+      .then((game) => {
+        if (!game) return;
+        setLibraryGame({ id: game.id, tree: moveTreeFromState(restoreGameState(game), getLibraryGameHeaders(game)) });
+      })
+      .catch((error) => console.error('Could not open game:', error));
+  }, []);
+
+  return (
+    <MobileAppLayout>
+      {/* Top App Bar */}
+      <div className="flex items-center dark:bg-background-dark p-4 pb-2 justify-between">
+        <h2 className="text-white text-lg font-bold leading-tight tracking-[-0.015em] flex-1 text-center">Analysis Board</h2>
+        <Link href="/library" className="text-white flex items-center" aria-label="Game library">
+          <span className="material-symbols-outlined">library_books</span>
+        </Link>
+      </div>
+      <main className="max-w-md mx-auto w-full pb-24">
+        <AnalysisBoard key={libraryGame?.id ?? 'new'} initialTree={libraryGame?.tree} />
+      </main>
+    </MobileAppLayout>
+  );
+}
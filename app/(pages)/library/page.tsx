@@ -0,0 +1,14 @@
+'use client';
+
+import MobileAppLayout from '../../components/common/MobileAppLayout';
+import GameLibrary from '../../components/features/GameLibrary';
+
+export default function LibraryPage() {
+  return (
+    <MobileAppLayout>
+      <main className="max-w-md mx-auto w-full pb-24">
+        <GameLibrary />
+      </main>
+    </MobileAppLayout>
+  );
+}
@@ -1,23 +1,177 @@
 
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
 import MobileAppLayout from '../../components/common/MobileAppLayout';
 import ChessBoard from '../../components/chess/ChessBoardNew';
 import GameControls from '../../components/features/GameControls';
-import { createInitialState, GameState } from '../../lib/chessEngine';
+import {
+  ChessVariant,
+  createInitialState,
+  GameState,
+  getVariant,
+  isDecisiveStatus,
+  isGameOverStatus,
+  Move,
+  makeMove,
+  stateToFEN,
+  undoMove,
+} from '../../lib/chessEngine';
+import { Difficulty, EngineStrength, MATE_SCORE, strengthToRating } from '../../lib/chessAI';
+import { useChessEngine } from '../../hooks/useChessEngine';
+import { useChessClock } from '../../hooks/useChessClock';
+import { getRequestedLibraryGameId, useGameAutosave } from '../../hooks/useGameAutosave';
+import { trackActivity } from '../../lib/achievements';
+import {
+  DEFAULT_TIME_CONTROL,
+  TimeControl,
+  formatClockTime,
+  getFlagResult,
+  getTimeControlById,
+} from '../../lib/chessClock';
+import { LibraryGameMode } from '../../lib/gameLibrary';
+
+// Saved games keep the engine strength as a preset name or a rating
+function parseStrength(saved: string): EngineStrength {
+  const rating = Number(saved);
+  return Number.isNaN(rating) ? saved as Difficulty : rating;
+}
+
+// Chess960 games start from a random position, so theirs is kept for the library
+function getStartFEN(state: GameState): string | undefined {
+  return getVariant(state) === 'chess960' ? stateToFEN(state) : undefined;
+}
 
 export default function PlayPage() {
   // Game state for demo (replace with real logic as needed)
   const [gameState, setGameState] = useState<GameState>(createInitialState());
   const [isPlayerWhite, setIsPlayerWhite] = useState(true);
+  const [lastMove, setLastMove] = useState<Move | null>(null);
+  const [strength, setStrength] = useState<EngineStrength>('medium');
+  const [timeControl, setTimeControl] = useState<TimeControl>(DEFAULT_TIME_CONTROL);
+  // Against the engine, or pass and play on one device
+  const [mode, setMode] = useState<Exclude<LibraryGameMode, 'online'>>('ai');
+  const [startFEN, setStartFEN] = useState<string | undefined>();
+  const { getBestMove, stop, cancel, newGame, isThinking, progress } = useChessEngine();
+
+  const variant = getVariant(gameState);
+  const isBoardOver = isGameOverStatus(gameState.status);
+  const { clock, whiteMs, blackMs, flagged } = useChessClock(timeControl, {
+    moveCount: gameState.moveHistory.length,
+    isWhiteTurn: gameState.isWhiteTurn,
+    isGameOver: isBoardOver,
+  });
+  const isGameOver = isBoardOver || flagged !== null;
+  const isEngineTurn = mode === 'ai' && !isGameOver && gameState.isWhiteTurn !== isPlayerWhite;
+
+  // Every move is saved to the game library
+  const flagResult = flagged ? getFlagResult(gameState.board, flagged) : null;
+  const { startNewGame, resumeGame } = useGameAutosave(gameState, {
+    mode,
+    opponent: mode === 'ai' ? `Engine (${strength})` : 'Pass and play',
+    playerColor: isPlayerWhite ? 'white' : 'black',
+    difficulty: mode === 'ai' ? String(strength) : undefined,
+    timeControl: timeControl.id,
+    variant: variant !== 'standard' ? variant : undefined,
+    startFEN,
+    result: flagResult === 'draw' ? '1/2-1/2' : flagResult ? (flagged === 'white' ? '0-1' : '1-0') : undefined,
+    termination: flagged ? 'time forfeit' : undefined,
+  });
+
+  // Continue a game opened from the library
+  useEffect(() => {
+    const requestedId = getRequestedLibraryGameId();
+    if (!requestedId) return;
+    resumeGame(requestedId)
+      .then((resumed) => {
+        if (!resumed || resumed.game.mode === 'online') return;
+        const { game, state } = resumed;
+        setMode(game.mode === 'local' ? 'local' : 'ai');
+        setIsPlayerWhite(game.playerColor === 'white');
+        if (game.difficulty) setStrength(parseStrength(game.difficulty));
+        const control = game.timeControl ? getTimeControlById(game.timeControl) : undefined;
+        if (control) setTimeControl(control);
+        setStartFEN(game.startFEN);
+        setGameState(state);
+        setLastMove(state.moveHistory[state.moveHistory.length - 1] ?? null);
+      })
+      .catch((error) => console.error('Could not resume game:', error));
+  }, [resumeGame]);
+
+  // Let the engine reply whenever it is its turn; the search runs in a worker
+  useEffect(() => {
+    if (!isEngineTurn) return;
+
+    let active = true;
+    getBestMove(gameState, strength)
+      .then((move) => {
+        if (!active || !move) return;
+        setGameState(makeMove(gameState, move));
+        setLastMove(move);
+      })
+      .catch((error) => console.error('Engine search failed:', error));
+
+    return () => {
+      active = false;
+      cancel();
+    };
+  }, [gameState, isEngineTurn, strength, getBestMove, cancel]);
+
+  // Beating the engine, by mate or a variant's own win, counts towards achievements for its rating
+  const engineMated = mode === 'ai' && isDecisiveStatus(gameState.status) && gameState.isWhiteTurn !== isPlayerWhite;
+  useEffect(() => {
+    if (engineMated) trackActivity({ type: 'aiWin', rating: strengthToRating(strength) });
+    // Only the moment of mate matters, not later strength changes
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [engineMated]);
+
+  const handleMove = useCallback((move: Move) => {
+    setGameState((state) => makeMove(state, move));
+    setLastMove(move);
+  }, []);
+
+  // A new game keeps the current variant; Chess960 deals a fresh start position
+  const startGame = useCallback((nextVariant: ChessVariant) => {
+    const state = createInitialState(nextVariant);
+    newGame();
+    startNewGame();
+    setStartFEN(getStartFEN(state));
+    setGameState(state);
+    setLastMove(null);
+  }, [newGame, startNewGame]);
+
+  const handleNewGame = useCallback(() => startGame(variant), [startGame, variant]);
+
+  // Take back to the player's previous turn (engine reply included); one move in pass and play
+  const handleUndo = useCallback(() => {
+    cancel();
+    setGameState((state) => {
+      let next = undoMove(state);
+      if (mode === 'ai' && next.isWhiteTurn !== isPlayerWhite && next.moveHistory.length > 0) {
+        next = undoMove(next);
+      }
+      return next;
+    });
+    setLastMove(null);
+  }, [cancel, isPlayerWhite, mode]);
+
+  const formatScore = (score: number) => {
+    // Progress scores are from the engine's side; show them from White's
+    const whiteScore = isPlayerWhite ? -score : score;
+    if (Math.abs(whiteScore) > MATE_SCORE - 1000) {
+      const mateIn = Math.ceil((MATE_SCORE - Math.abs(whiteScore)) / 2);
+      return `${whiteScore > 0 ? '' : '-'}#${mateIn}`;
+    }
+    return `${whiteScore >= 0 ? '+' : ''}${(whiteScore / 100).toFixed(2)}`;
+  };
 
   // Demo player/opponent info
   const player = {
     name: 'Grandmaster_X',
     avatar: 'https://lh3.googleusercontent.com/aida-public/AB6AXuBQ3HQrFfrNdnKSHXU4A49F9JihIeW9yKHIE07EjgOZ-OkNcksLfCqi07k7sOLht6noRlaIFyyAMgXVJrkPrWL_I_3-yvR2jyYe0E0batDnzQ-gqZHLzm7dsRcnHc67-uXKRTAwpYKb7EMTn5RlhoSsSoTbmitkNHcv_oD-FZXJCCIdGAJUYI3HLoTsTGDaldKtuwkYYkrFPVr45KlEdCKhDCuOJVKIgxscRbYkLIzG9InVYPmwyLMRWnkJ95bAZ1gdYiuqBpBeHkOW',
     elo: 2450,
-    time: '03:42',
+    time: formatClockTime(isPlayerWhite ? blackMs : whiteMs),
     material: '♙♙♘',
     materialDiff: '+1 material',
   };
@@ -37,6 +191,9 @@ export default function PlayPage() {
           </div>
         </div>
         <div className="flex w-12 items-center justify-end">
+          <Link href="/library" className="flex items-center justify-center h-12 text-white" aria-label="Game library">
+            <span className="material-symbols-outlined">library_books</span>
+          </Link>
           <button className="flex max-w-[480px] cursor-pointer items-center justify-center overflow-hidden rounded-lg h-12 bg-transparent text-white gap-2 text-base font-bold leading-normal tracking-[0.015em] min-w-0 p-0">
             <span className="material-symbols-outlined">settings</span>
           </button>
@@ -64,17 +221,29 @@ export default function PlayPage() {
         <div className="flex gap-1 text-zinc-400">
           <span className="text-lg">{player.material}</span>
         </div>
-        <div className="text-xs font-bold text-zinc-500">{player.materialDiff}</div>
+        {isThinking ? (
+          <div className="flex items-center gap-2 text-xs font-bold text-zinc-400">
+            <span>
+              Thinking{progress ? ` · depth ${progress.depth} · ${formatScore(progress.score)}` : '…'}
+            </span>
+            <button className="px-2 py-1 rounded bg-zinc-800 text-white" onClick={stop}>
+              Move now
+            </button>
+          </div>
+        ) : (
+          <div className="text-xs font-bold text-zinc-500">{player.materialDiff}</div>
+        )}
       </div>
       {/* Chessboard Area */}
       <div className="flex-1 flex items-center justify-center p-2 bg-zinc-900/40">
         <div className="w-full aspect-square rounded-lg overflow-hidden shadow-2xl shadow-primary/20 border-4 border-zinc-800 flex items-center justify-center">
           <ChessBoard
             gameState={gameState}
-            onMove={() => {}}
+            onMove={handleMove}
             isPlayerWhite={isPlayerWhite}
-            disabled={false}
-            lastMove={null}
+            disabled={isThinking || isGameOver}
+            freePlay={mode === 'local'}
+            lastMove={lastMove}
             showCoordinates={false}
             highlightLegalMoves={true}
           />
@@ -84,12 +253,30 @@ export default function PlayPage() {
       <div className="w-full px-4 pb-4">
         <GameControls
           gameState={gameState}
-          onNewGame={() => setGameState(createInitialState())}
-          onUndo={() => {}}
+          onNewGame={handleNewGame}
+          onUndo={handleUndo}
           onFlipBoard={() => setIsPlayerWhite((w) => !w)}
+          strength={strength}
+          onStrengthChange={setStrength}
           isPlayerWhite={isPlayerWhite}
-          isSinglePlayer={true}
+          isSinglePlayer={mode === 'ai'}
+          clock={{ whiteMs, blackMs, active: clock.active, flagged }}
+          timeControl={timeControl}
+          onTimeControlChange={setTimeControl}
+          onVariantChange={startGame}
         />
+        <div className="flex gap-2 mt-2">
+          {(['ai', 'local'] as const).map((option) => (
+            <button
+              key={option}
+              className={`flex-1 rounded-lg py-2 text-sm font-bold ${mode === option ? 'bg-primary text-white' : 'bg-zinc-800 text-zinc-400'}`}
+              onClick={() => setMode(option)}
+              disabled={gameState.moveHistory.length > 0}
+            >
+              {option === 'ai' ? 'vs Engine' : 'Pass & Play'}
+            </button>
+          ))}
+        </div>
       </div>
     </MobileAppLayout>
   );
@@ -1,5 +1,6 @@
 'use client';
 
+import Link from 'next/link';
 import MobileAppLayout from '../../components/common/MobileAppLayout';
 import PuzzleTraining from '../../components/features/PuzzleTraining';
 
@@ -62,6 +63,20 @@ export default function PuzzlesPage() {
           </div>
         </div>
 
+        {/* Puzzle Rush Entry */}
+        <div className="px-4">
+          <Link href="/puzzles/rush" className="flex items-center justify-between rounded-xl border border-primary/20 bg-primary/10 p-4">
+            <div className="flex items-center gap-3">
+              <span className="material-symbols-outlined text-primary">timer</span>
+              <div>
+                <p className="text-sm font-bold text-slate-900 dark:text-white">Puzzle Rush</p>
+                <p className="text-[11px] text-slate-600 dark:text-slate-400">3 or 5 minute runs, or Survival</p>
+              </div>
+            </div>
+            <span className="material-symbols-outlined text-slate-400">chevron_right</span>
+          </Link>
+        </div>
+
         {/* Training Grounds Section */}
         <div className="px-4 pt-4 pb-2 flex items-center justify-between">
           <h2 className="text-xl font-bold tracking-tight">Training Grounds</h2>
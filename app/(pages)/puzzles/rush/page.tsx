@@ -0,0 +1,14 @@
+'use client';
+
+import MobileAppLayout from '../../../components/common/MobileAppLayout';
+import PuzzleRush from '../../../components/features/PuzzleRush';
+
+export default function PuzzleRushPage() {
+  return (
+    <MobileAppLayout>
+      <main className="max-w-md mx-auto w-full pb-24">
+        <PuzzleRush />
+      </main>
+    </MobileAppLayout>
+  );
+}
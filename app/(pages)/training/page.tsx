@@ -1,8 +1,23 @@
 'use client';
 
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
 import MobileAppLayout from '../../components/common/MobileAppLayout';
+import {
+  addLessonReviews,
+  getDueItems,
+  loadCompletedLessonIds,
+  loadReviewQueue,
+} from '../../lib/reviewQueue';
 
 export default function TrainingPage() {
+  const [reviewsDue, setReviewsDue] = useState(0);
+
+  useEffect(() => {
+    const queue = addLessonReviews(loadReviewQueue(), loadCompletedLessonIds());
+    setReviewsDue(getDueItems(queue).length);
+  }, []);
+
   const lessons = [
     {
       id: 1,
@@ -79,6 +94,20 @@ export default function TrainingPage() {
             ))}
           </div>
 
+          {/* Spaced Repetition Review */}
+          <Link href="/training/review" className="flex items-center justify-between rounded-xl border border-primary/20 bg-primary/10 p-3 mb-4">
+            <div className="flex items-center gap-3">
+              <span className="material-symbols-outlined text-primary">history</span>
+              <div>
+                <p className="text-sm font-bold">Review due</p>
+                <p className="text-[11px] text-slate-600 dark:text-slate-400">
+                  {reviewsDue > 0 ? `${reviewsDue} missed puzzles and lesson positions` : 'All caught up'}
+                </p>
+              </div>
+            </div>
+            <span className="text-sm font-black text-primary">{reviewsDue}</span>
+          </Link>
+
           <h1 className="text-2xl font-bold tracking-tight mb-4">My Curriculum</h1>
 
           {/* Filter Tabs */}
@@ -0,0 +1,14 @@
+'use client';
+
+import MobileAppLayout from '../../../components/common/MobileAppLayout';
+import ReviewSession from '../../../components/features/ReviewSession';
+
+export default function ReviewPage() {
+  return (
+    <MobileAppLayout>
+      <main className="max-w-md mx-auto w-full pb-24">
+        <ReviewSession />
+      </main>
+    </MobileAppLayout>
+  );
+}
@@ -1,5 +1,41 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getGeminiMove } from '@/app/lib/genkitChessAI';
+import { Difficulty, getBestMove } from '@/app/lib/chessAI';
+import { GameState, Move, generateLegalMoves } from '@/app/lib/chessEngine';
+
+// Which engine produced the move in the response
+type MoveSource = 'gemini' | 'engine';
+
+const TIMEOUT_MS = 7000;
+const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error('AI timeout')), ms);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+}
+
+// Minimal shape check before the state reaches the move generator
+function isGameState(value: unknown): value is GameState {
+  if (!value || typeof value !== 'object') return false;
+  const state = value as Partial<GameState>;
+  return Array.isArray(state.board) &&
+    state.board.length === 64 &&
+    typeof state.isWhiteTurn === 'boolean' &&
+    !!state.castlingRights &&
+    Array.isArray(state.moveHistory) &&
+    Array.isArray(state.positionHistory);
+}
 
 export async function POST(request: NextRequest) {
   const startTime = Date.now();
@@ -7,7 +43,7 @@ export async function POST(request: NextRequest) {
 
   try {
     const body = await request.json();
-    const { gameState, difficulty } = body;
+    const { gameState, difficulty, rating } = body;
 
     if (!gameState) {
       console.error('[AI API] Missing game state');
@@ -17,22 +53,79 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get the best move from Gemini with a timeout to avoid long hangs
-    console.log('[AI API] Calling getGeminiMove with difficulty:', difficulty);
-    const TIMEOUT_MS = 7000;
-    const result = await Promise.race([
-      getGeminiMove(gameState, difficulty || 'medium'),
-      new Promise((_, reject) => setTimeout(() => reject(new Error('AI timeout')), TIMEOUT_MS)),
-    ]);
+    if (!isGameState(gameState)) {
+      return NextResponse.json(
+        { error: 'Invalid game state' },
+        { status: 400 }
+      );
+    }
+
+    if (rating !== undefined && (typeof rating !== 'number' || !Number.isFinite(rating))) {
+      return NextResponse.json(
+        { error: 'Rating must be a number' },
+        { status: 400 }
+      );
+    }
+
+    if (difficulty !== undefined && !DIFFICULTIES.includes(difficulty)) {
+      return NextResponse.json(
+        { error: 'Difficulty must be easy, medium or hard' },
+        { status: 400 }
+      );
+    }
+
+    const legalMoves = generateLegalMoves(gameState);
+    if (legalMoves.length === 0) {
+      return NextResponse.json(
+        { error: 'No legal moves available' },
+        { status: 400 }
+      );
+    }
+
+    // A numeric rating takes precedence over the difficulty preset
+    const strength = rating ?? difficulty ?? 'medium';
+
+    let move: Move | null = null;
+    let source: MoveSource = 'gemini';
+    let reasoning: string | undefined;
+    let fallbackReason: string | undefined;
+
+    // Get the move from Gemini with a timeout to avoid long hangs
+    try {
+      console.log('[AI API] Calling getGeminiMove with strength:', strength);
+      const result = await withTimeout(getGeminiMove(gameState, strength), TIMEOUT_MS);
+      move = result.move;
+      reasoning = result.reasoning;
+    } catch (error) {
+      fallbackReason = error instanceof Error ? error.message : 'Unknown error';
+      console.warn('[AI API] Gemini unavailable, using local engine:', fallbackReason);
+    }
+
+    // Every move is checked against the legal moves, whichever source produced it
+    const isLegal = (candidate: Move) =>
+      legalMoves.some((m) => m.from === candidate.from && m.to === candidate.to && m.promotion === candidate.promotion);
+    if (!move || !isLegal(move)) {
+      move = getBestMove(gameState, strength);
+      source = 'engine';
+      reasoning = 'Move chosen by the local engine';
+    }
+
+    if (!move) {
+      throw new Error('No move could be generated');
+    }
+
     const elapsed = Date.now() - startTime;
-    console.log('[AI API] Success', { elapsed: `${elapsed}ms`, from: result.from, to: result.to });
+    console.log('[AI API] Success', { elapsed: `${elapsed}ms`, source, from: move.from, to: move.to });
 
     return NextResponse.json({
       move: {
-        from: result.from,
-        to: result.to,
+        from: move.from,
+        to: move.to,
+        promotion: move.promotion,
       },
-      reasoning: result.reasoning,
+      source,
+      reasoning,
+      fallbackReason,
     });
   } catch (error) {
     const elapsed = Date.now() - startTime;
@@ -27,6 +27,7 @@ interface ChessBoardProps {
   lastMove?: Move | null;
   showCoordinates?: boolean;
   highlightLegalMoves?: boolean;
+  freePlay?: boolean; // Either side may move (analysis mode)
 }
 
 export default function ChessBoard({
@@ -37,6 +38,7 @@ export default function ChessBoard({
   lastMove = null,
   showCoordinates = true,
   highlightLegalMoves = true,
+  freePlay = false,
 }: ChessBoardProps) {
   const [selectedSquare, setSelectedSquare] = useState<number | null>(null);
   const [legalMoves, setLegalMoves] = useState<Move[]>([]);
@@ -45,13 +47,15 @@ export default function ChessBoard({
   const [dragPosition, setDragPosition] = useState<{ x: number; y: number } | null>(null);
 
   const { board, isWhiteTurn } = gameState;
-  const isMyTurn = isWhiteTurn === isPlayerWhite;
+  const isMyTurn = freePlay || isWhiteTurn === isPlayerWhite;
+  // Colour whose pieces can be picked up
+  const moverIsWhite = freePlay ? isWhiteTurn : isPlayerWhite;
 
-  // Reset selection when turn changes
+  // Reset selection when the position changes
   useEffect(() => {
     setSelectedSquare(null);
     setLegalMoves([]);
-  }, [isWhiteTurn]);
+  }, [isWhiteTurn, gameState.zobristKey]);
 
   const handleSquareClick = useCallback((position: number) => {
     if (disabled || !isMyTurn) return;
@@ -94,7 +98,7 @@ export default function ChessBoard({
       // If clicking another piece of the same color, select it instead
       if (piece !== 0) {
         const clickedIsWhite = isWhitePiece(piece);
-        if (clickedIsWhite === isPlayerWhite) {
+        if (clickedIsWhite === moverIsWhite) {
           setSelectedSquare(position);
           const moves = getLegalMovesForSquare(gameState, position);
           setLegalMoves(moves);
@@ -110,13 +114,13 @@ export default function ChessBoard({
       if (piece === 0) return; // Empty square
 
       const pieceIsWhite = isWhitePiece(piece);
-      if (pieceIsWhite === isPlayerWhite) {
+      if (pieceIsWhite === moverIsWhite) {
         setSelectedSquare(position);
         const moves = getLegalMovesForSquare(gameState, position);
         setLegalMoves(moves);
       }
     }
-  }, [disabled, isMyTurn, board, selectedSquare, legalMoves, promotionMove, isPlayerWhite, gameState, onMove]);
+  }, [disabled, isMyTurn, board, selectedSquare, legalMoves, promotionMove, moverIsWhite, gameState, onMove]);
 
   const handlePromotion = (pieceType: number) => {
     if (!promotionMove) return;
@@ -149,7 +153,7 @@ export default function ChessBoard({
     }
     
     const pieceIsWhite = isWhitePiece(piece);
-    if (pieceIsWhite !== isPlayerWhite) {
+    if (pieceIsWhite !== moverIsWhite) {
       e.preventDefault();
       return;
     }
@@ -220,7 +224,7 @@ export default function ChessBoard({
         {piece !== 0 && !isDragging && (
           <div 
             className={`${styles.piece} ${piece <= 6 ? styles.white : styles.black}`}
-            draggable={isMyTurn && !disabled && isWhitePiece(piece) === isPlayerWhite}
+            draggable={isMyTurn && !disabled && isWhitePiece(piece) === moverIsWhite}
             onDragStart={(e) => handleDragStart(e as React.DragEvent<HTMLDivElement>, position)}
             onDrag={(e) => handleDrag(e as React.DragEvent<HTMLDivElement>)}
             onDragEnd={handleDragEnd}
@@ -251,7 +255,7 @@ export default function ChessBoard({
   const renderPromotionDialog = () => {
     if (!promotionMove) return null;
     
-    const pieces = isPlayerWhite 
+    const pieces = moverIsWhite
       ? [Piece.WQueen, Piece.WRook, Piece.WBishop, Piece.WKnight]
       : [Piece.BQueen, Piece.BRook, Piece.BBishop, Piece.BKnight];
     
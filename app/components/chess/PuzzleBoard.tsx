@@ -9,8 +9,18 @@ interface PuzzleBoardProps {
   lastMove?: Move | null;
   highlightLegalMoves?: boolean;
   playerColor: 'white' | 'black';
+  hintSquares?: number[]; // Squares highlighted by a hint
+  highlightSquares?: number[]; // Squares marked by a lesson
+  arrows?: { from: number; to: number; color?: string }[];
 }
 
+const ARROW_COLORS: Record<string, string> = {
+  green: 'rgba(21, 128, 61, 0.8)',
+  red: 'rgba(220, 38, 38, 0.8)',
+  blue: 'rgba(37, 99, 235, 0.8)',
+  yellow: 'rgba(234, 179, 8, 0.85)',
+};
+
 const PIECE_SYMBOLS: Record<number, string> = {
   [PieceType.WPawn]: '♙',
   [PieceType.WKnight]: '♘',
@@ -32,7 +42,10 @@ export default function PuzzleBoard({
   disabled = false,
   lastMove,
   highlightLegalMoves = true,
-  playerColor
+  playerColor,
+  hintSquares = [],
+  highlightSquares = [],
+  arrows = []
 }: PuzzleBoardProps) {
   const [selectedSquare, setSelectedSquare] = useState<number | null>(null);
   const [legalMoves, setLegalMoves] = useState<Move[]>([]);
@@ -96,6 +109,8 @@ export default function PuzzleBoard({
     const isSelected = selectedSquare === index;
     const isLegalMove = legalMoves.some(m => m.to === index);
     const isLastMove = lastMove && (lastMove.from === index || lastMove.to === index);
+    const isHint = hintSquares.includes(index);
+    const isHighlighted = highlightSquares.includes(index);
 
     const squareClasses = [
       styles.square,
@@ -103,6 +118,8 @@ export default function PuzzleBoard({
       isSelected ? styles.selected : '',
       isLegalMove ? styles.legalMove : '',
       isLastMove ? styles.lastMove : '',
+      isHint ? styles.hint : '',
+      isHighlighted ? styles.highlight : '',
     ].filter(Boolean).join(' ');
 
     return (
@@ -134,6 +151,45 @@ export default function PuzzleBoard({
     );
   };
 
+  // Centre of a square in board units, matching the flipped rendering order
+  const squareCenter = (index: number) => {
+    const displayIndex = playerColor === 'black' ? 63 - index : index;
+    return { x: (displayIndex % 8) + 0.5, y: Math.floor(displayIndex / 8) + 0.5 };
+  };
+
+  const renderArrows = () => (
+    <svg className={styles.arrowLayer} viewBox="0 0 8 8">
+      {arrows.map((arrow, i) => {
+        const from = squareCenter(arrow.from);
+        const to = squareCenter(arrow.to);
+        const color = ARROW_COLORS[arrow.color ?? 'green'] ?? arrow.color;
+        const markerId = `arrowhead-${i}`;
+        // Stop the shaft short so the head ends near the target square's centre
+        const length = Math.hypot(to.x - from.x, to.y - from.y);
+        const scale = length > 0 ? (length - 0.3) / length : 0;
+        return (
+          <g key={i}>
+            <defs>
+              <marker id={markerId} markerWidth="3" markerHeight="3" refX="0.5" refY="1.5" orient="auto">
+                <path d="M0,0 L3,1.5 L0,3 Z" fill={color} />
+              </marker>
+            </defs>
+            <line
+              x1={from.x}
+              y1={from.y}
+              x2={from.x + (to.x - from.x) * scale}
+              y2={from.y + (to.y - from.y) * scale}
+              stroke={color}
+              strokeWidth={0.15}
+              strokeLinecap="round"
+              markerEnd={`url(#${markerId})`}
+            />
+          </g>
+        );
+      })}
+    </svg>
+  );
+
   return (
     <div className={styles.board}>
       <div className={styles.boardGrid}>
@@ -142,6 +198,7 @@ export default function PuzzleBoard({
           const actualIndex = playerColor === 'black' ? 63 - i : i;
           return renderSquare(actualIndex);
         })}
+        {arrows.length > 0 && renderArrows()}
       </div>
     </div>
   );
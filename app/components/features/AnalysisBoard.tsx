@@ -0,0 +1,307 @@
+"use client";
+import { useState, useEffect, useCallback, ReactNode } from 'react';
+import ChessBoard from '../chess/ChessBoardNew';
+import { GameState, Move, isGameOverStatus, makeMove, moveToAlgebraic } from '../../lib/chessEngine';
+import { MATE_SCORE, SearchProgress } from '../../lib/chessAI';
+import { useChessEngine } from '../../hooks/useChessEngine';
+import {
+  MoveTree,
+  MoveTreeNode,
+  addMove,
+  createMoveTree,
+  deleteVariation,
+  exportMoveTree,
+  getMainline,
+  getNodePath,
+  importMoveTree,
+  isMainlineNode,
+  promoteVariation,
+  setNodeComment,
+} from '../../lib/moveTree';
+import styles from './AnalysisBoard.module.css';
+
+interface AnalysisBoardProps {
+  initialTree?: MoveTree;
+  analysisTimeMs?: number; // Engine time per position
+}
+
+// Engine output for one node, with the score from White's point of view
+interface NodeEvaluation {
+  depth: number;
+  score: number;
+  pv: Move[];
+}
+
+function formatScore(score: number): string {
+  if (Math.abs(score) > MATE_SCORE - 1000) {
+    const mateIn = Math.ceil((MATE_SCORE - Math.abs(score)) / 2);
+    return `${score > 0 ? '' : '-'}#${mateIn}`;
+  }
+  return `${score >= 0 ? '+' : ''}${(score / 100).toFixed(2)}`;
+}
+
+// Share of the bar filled by White (0-100)
+function whiteBarPercent(score: number): number {
+  if (Math.abs(score) > MATE_SCORE - 1000) return score > 0 ? 100 : 0;
+  return 50 + 50 * (2 / (1 + Math.exp(-0.004 * score)) - 1);
+}
+
+// Principal variation in SAN with move numbers
+function formatLine(state: GameState, pv: Move[]): string {
+  const parts: string[] = [];
+  let current = state;
+  pv.forEach((move, i) => {
+    if (current.isWhiteTurn) {
+      parts.push(`${current.fullMoveNumber}.`);
+    } else if (i === 0) {
+      parts.push(`${current.fullMoveNumber}...`);
+    }
+    parts.push(moveToAlgebraic(move, current.board));
+    current = makeMove(current, move);
+  });
+  return parts.join(' ');
+}
+
+function isGameOver(state: GameState): boolean {
+  return isGameOverStatus(state.status);
+}
+
+export default function AnalysisBoard({ initialTree, analysisTimeMs = 3000 }: AnalysisBoardProps) {
+  const [tree, setTree] = useState<MoveTree>(() => initialTree ?? createMoveTree());
+  const [currentId, setCurrentId] = useState<string>(tree.rootId);
+  const [isPlayerWhite, setIsPlayerWhite] = useState(true);
+  const [evaluations, setEvaluations] = useState<{ [nodeId: string]: NodeEvaluation }>({});
+  const [commentDraft, setCommentDraft] = useState('');
+  const [pgnText, setPgnText] = useState('');
+  const [pgnError, setPgnError] = useState<string | null>(null);
+  const { search, cancel, newGame, isThinking } = useChessEngine();
+
+  const currentNode = tree.nodes[currentId];
+  const currentState = currentNode.state;
+  const evaluation = evaluations[currentId];
+
+  useEffect(() => {
+    setCommentDraft(currentNode.comment ?? '');
+  }, [currentNode]);
+
+  // Analyse the selected position; results are kept per node so revisits are instant
+  useEffect(() => {
+    if (isGameOver(currentState)) return;
+
+    const nodeId = currentId;
+    const sign = currentState.isWhiteTurn ? 1 : -1;
+    const record = (progress: SearchProgress) => {
+      setEvaluations((evals) => {
+        const previous = evals[nodeId];
+        if (previous && previous.depth > progress.depth) return evals;
+        return { ...evals, [nodeId]: { depth: progress.depth, score: sign * progress.score, pv: progress.pv } };
+      });
+    };
+
+    search(currentState, { timeLimitMs: analysisTimeMs, onProgress: record })
+      .catch((error) => console.error('Analysis failed:', error));
+
+    return () => cancel();
+  }, [currentId, currentState, analysisTimeMs, search, cancel]);
+
+  const handleMove = useCallback((move: Move) => {
+    const result = addMove(tree, currentId, move);
+    setTree(result.tree);
+    setCurrentId(result.nodeId);
+  }, [tree, currentId]);
+
+  const goBack = () => {
+    if (currentNode.parentId) setCurrentId(currentNode.parentId);
+  };
+
+  const goForward = () => {
+    if (currentNode.children.length > 0) setCurrentId(currentNode.children[0]);
+  };
+
+  const goToEnd = () => {
+    const line = getMainline(tree, currentId);
+    if (line.length > 0) setCurrentId(line[line.length - 1].id);
+  };
+
+  const handlePromote = () => {
+    setTree(promoteVariation(tree, currentId));
+  };
+
+  const handleDelete = () => {
+    if (!currentNode.parentId) return;
+    setTree(deleteVariation(tree, currentId));
+    setCurrentId(currentNode.parentId);
+  };
+
+  const handleSaveComment = () => {
+    setTree(setNodeComment(tree, currentId, commentDraft));
+  };
+
+  const handleExport = () => {
+    setPgnText(exportMoveTree(tree));
+    setPgnError(null);
+  };
+
+  const handleImport = () => {
+    try {
+      const imported = importMoveTree(pgnText);
+      newGame();
+      setTree(imported);
+      setCurrentId(imported.rootId);
+      setEvaluations({});
+      setPgnError(null);
+    } catch (error) {
+      setPgnError(error instanceof Error ? error.message : 'Invalid PGN');
+    }
+  };
+
+  const renderMove = (node: MoveTreeNode, showNumber: boolean): ReactNode => {
+    const parent = tree.nodes[node.parentId!];
+    const isWhiteMove = parent.state.isWhiteTurn;
+    const nodeEval = evaluations[node.id];
+
+    return (
+      <span key={node.id} className={styles.moveToken}>
+        {(isWhiteMove || showNumber) && (
+          <span className={styles.moveNumber}>
+            {parent.state.fullMoveNumber}{isWhiteMove ? '.' : '...'}
+          </span>
+        )}
+        <button
+          className={`${styles.move} ${node.id === currentId ? styles.currentMove : ''}`}
+          onClick={() => setCurrentId(node.id)}
+        >
+          {node.san}
+        </button>
+        {nodeEval && <span className={styles.evalBadge}>{formatScore(nodeEval.score)}</span>}
+        {node.comment && <span className={styles.comment}>{node.comment}</span>}
+      </span>
+    );
+  };
+
+  // A line from the given node: each move, then the alternatives to it, then the continuation
+  const renderLine = (startId: string, depth: number): ReactNode[] => {
+    const tokens: ReactNode[] = [];
+    let node: MoveTreeNode | undefined = tree.nodes[startId];
+    let showNumber = true;
+    let first = true;
+
+    while (node) {
+      tokens.push(renderMove(node, showNumber));
+      showNumber = !!node.comment;
+
+      const siblings = !first || depth === 0 ? tree.nodes[node.parentId!].children.slice(1) : [];
+      for (const siblingId of siblings) {
+        tokens.push(
+          <span key={`var-${siblingId}`} className={styles.variation}>
+            ({renderLine(siblingId, depth + 1)})
+          </span>
+        );
+        showNumber = true;
+      }
+
+      first = false;
+      node = node.children.length > 0 ? tree.nodes[node.children[0]] : undefined;
+    }
+    return tokens;
+  };
+
+  const root = tree.nodes[tree.rootId];
+  const path = getNodePath(tree, currentId);
+  const barPercent = evaluation ? whiteBarPercent(evaluation.score) : 50;
+
+  return (
+    <div className={styles.container}>
+      <div className={styles.boardRow}>
+        <div className={styles.evalBar} title={evaluation ? formatScore(evaluation.score) : ''}>
+          <div
+            className={styles.evalWhite}
+            style={isPlayerWhite ? { height: `${barPercent}%`, bottom: 0 } : { height: `${barPercent}%`, top: 0 }}
+          />
+        </div>
+        <div className={styles.board}>
+          <ChessBoard
+            gameState={currentState}
+            onMove={handleMove}
+            isPlayerWhite={isPlayerWhite}
+            disabled={isGameOver(currentState)}
+            lastMove={currentNode.move}
+            freePlay={true}
+          />
+        </div>
+      </div>
+
+      <div className={styles.engineLine}>
+        {evaluation ? (
+          <>
+            <span className={styles.engineScore}>{formatScore(evaluation.score)}</span>
+            <span className={styles.engineDepth}>depth {evaluation.depth}{isThinking ? '…' : ''}</span>
+            <span className={styles.enginePv}>{formatLine(currentState, evaluation.pv)}</span>
+          </>
+        ) : (
+          <span className={styles.engineDepth}>
+            {isGameOver(currentState) ? 'Game over' : 'Analysing…'}
+          </span>
+        )}
+      </div>
+
+      <div className={styles.navigation}>
+        <button onClick={() => setCurrentId(tree.rootId)} disabled={!currentNode.parentId}>⏮</button>
+        <button onClick={goBack} disabled={!currentNode.parentId}>◀</button>
+        <button onClick={goForward} disabled={currentNode.children.length === 0}>▶</button>
+        <button onClick={goToEnd} disabled={currentNode.children.length === 0}>⏭</button>
+        <button onClick={() => setIsPlayerWhite((w) => !w)}>Flip</button>
+      </div>
+
+      <div className={styles.moveTree}>
+        <h3 className={styles.title}>Moves</h3>
+        {root.children.length === 0 ? (
+          <p className={styles.hint}>Play a move on the board to start analysing</p>
+        ) : (
+          <div className={styles.moveList}>{renderLine(root.children[0], 0)}</div>
+        )}
+      </div>
+
+      {currentNode.parentId && (
+        <div className={styles.nodeActions}>
+          <span className={styles.hint}>
+            {path.length - 1} ply · {isMainlineNode(tree, currentId) ? 'main line' : 'variation'}
+          </span>
+          <button onClick={handlePromote} disabled={isMainlineNode(tree, currentId)}>Promote variation</button>
+          <button className={styles.danger} onClick={handleDelete}>Delete from here</button>
+        </div>
+      )}
+
+      <div className={styles.section}>
+        <label className={styles.label} htmlFor="analysis-comment">Comment</label>
+        <textarea
+          id="analysis-comment"
+          className={styles.textarea}
+          value={commentDraft}
+          onChange={(e) => setCommentDraft(e.target.value)}
+          rows={2}
+        />
+        <button onClick={handleSaveComment} disabled={commentDraft === (currentNode.comment ?? '')}>
+          Save comment
+        </button>
+      </div>
+
+      <div className={styles.section}>
+        <label className={styles.label} htmlFor="analysis-pgn">PGN</label>
+        <textarea
+          id="analysis-pgn"
+          className={styles.textarea}
+          value={pgnText}
+          onChange={(e) => setPgnText(e.target.value)}
+          rows={6}
+          placeholder="Paste a PGN to import, or export the current analysis"
+        />
+        {pgnError && <p className={styles.error}>{pgnError}</p>}
+        <div className={styles.pgnActions}>
+          <button onClick={handleImport} disabled={pgnText.trim() === ''}>Import</button>
+          <button onClick={handleExport}>Export</button>
+        </div>
+      </div>
+    </div>
+  );
+}
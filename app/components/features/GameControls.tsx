@@ -1,8 +1,26 @@
 "use client";
-import { Difficulty } from '../../lib/genkitChessAI';
-import { GameState, GameStatus } from '../../lib/chessEngine';
+import { Difficulty, EngineStrength, MAX_ENGINE_RATING, MIN_ENGINE_RATING, strengthToRating } from '../../lib/chessAI';
+import { ChessVariant, GameState, GameStatus, getVariant, isDecisiveStatus, isGameOverStatus } from '../../lib/chessEngine';
+import { VARIANTS } from '../../lib/chessVariants';
+import {
+  ClockColor,
+  TimeControl,
+  TIME_CONTROL_PRESETS,
+  formatClockTime,
+  getFlagResult,
+} from '../../lib/chessClock';
 import styles from './GameControls.module.css';
 
+export interface ClockDisplay {
+  whiteMs: number;
+  blackMs: number;
+  active: ClockColor | null;
+  flagged: ClockColor | null;
+}
+
+// Clocks show seconds in red below this
+const LOW_TIME_MS = 20000;
+
 interface GameControlsProps {
   gameState: GameState;
   onNewGame: () => void;
@@ -10,11 +28,15 @@ interface GameControlsProps {
   onFlipBoard: () => void;
   onResign?: () => void;
   onOfferDraw?: () => void;
-  difficulty?: Difficulty;
-  onDifficultyChange?: (difficulty: Difficulty) => void;
+  strength?: EngineStrength; // A preset or a target rating
+  onStrengthChange?: (strength: EngineStrength) => void;
   isPlayerWhite: boolean;
   isSinglePlayer?: boolean;
   canUndo?: boolean;
+  clock?: ClockDisplay;
+  timeControl?: TimeControl;
+  onTimeControlChange?: (control: TimeControl) => void;
+  onVariantChange?: (variant: ChessVariant) => void;
 }
 
 export default function GameControls({
@@ -24,19 +46,35 @@ export default function GameControls({
   onFlipBoard,
   onResign,
   onOfferDraw,
-  difficulty = 'medium',
-  onDifficultyChange,
+  strength = 'medium',
+  onStrengthChange,
   isPlayerWhite,
   isSinglePlayer = true,
   canUndo = true,
+  clock,
+  timeControl,
+  onTimeControlChange,
+  onVariantChange,
 }: GameControlsProps) {
   const { status, isWhiteTurn, moveHistory } = gameState;
-  const isGameOver = status === GameStatus.Checkmate || status === GameStatus.Stalemate || status === GameStatus.Draw;
+  const variant = getVariant(gameState);
+  const flagged = clock?.flagged ?? null;
+  const isGameOver = isGameOverStatus(status) || flagged !== null;
   
   const getStatusText = () => {
+    if (flagged) {
+      const loser = flagged === 'white' ? 'White' : 'Black';
+      return getFlagResult(gameState.board, flagged) === 'draw'
+        ? `⏱️ ${loser} ran out of time - Draw (no mating material)`
+        : `⏱️ ${loser} ran out of time - ${flagged === 'white' ? 'Black' : 'White'} Wins!`;
+    }
     switch (status) {
       case GameStatus.Checkmate:
         return isWhiteTurn ? '♚ Black Wins by Checkmate!' : '♔ White Wins by Checkmate!';
+      case GameStatus.VariantWin: {
+        const winner = isWhiteTurn ? '♚ Black Wins' : '♔ White Wins';
+        return variant === 'kingOfTheHill' ? `${winner} - King of the Hill!` : `${winner} by Three Checks!`;
+      }
       case GameStatus.Stalemate:
         return '½-½ Stalemate - Draw';
       case GameStatus.Draw:
@@ -49,7 +87,12 @@ export default function GameControls({
   };
 
   const getStatusClass = () => {
-    if (status === GameStatus.Checkmate) {
+    if (flagged) {
+      return getFlagResult(gameState.board, flagged) === 'draw'
+        ? styles.draw
+        : flagged === 'white' ? styles.blackWins : styles.whiteWins;
+    }
+    if (isDecisiveStatus(status)) {
       return isWhiteTurn ? styles.blackWins : styles.whiteWins;
     }
     if (status === GameStatus.Check) {
@@ -68,22 +111,93 @@ export default function GameControls({
         {getStatusText()}
       </div>
 
+      {/* Clocks, with the player's own clock last */}
+      {clock && (
+        <div className={styles.clocks}>
+          {(isPlayerWhite ? ['black', 'white'] as ClockColor[] : ['white', 'black'] as ClockColor[]).map((color) => {
+            const ms = color === 'white' ? clock.whiteMs : clock.blackMs;
+            return (
+              <div
+                key={color}
+                className={`${styles.clock} ${clock.active === color ? styles.clockActive : ''} ${ms < LOW_TIME_MS ? styles.clockLow : ''}`}
+              >
+                <span className={styles.clockLabel}>{color === 'white' ? '♔ White' : '♚ Black'}</span>
+                <span className={styles.clockTime}>{formatClockTime(ms)}</span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Variant Selector */}
+      {onVariantChange && (
+        <div className={styles.difficultySection}>
+          <label className={styles.label}>Variant:</label>
+          <div className={styles.difficultyButtons}>
+            {VARIANTS.map((info) => (
+              <button
+                key={info.id}
+                className={`${styles.difficultyBtn} ${variant === info.id ? styles.active : ''}`}
+                onClick={() => onVariantChange(info.id)}
+                disabled={moveHistory.length > 0}
+                title={info.description}
+              >
+                {info.name}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Time Control Selector */}
+      {timeControl && onTimeControlChange && (
+        <div className={styles.difficultySection}>
+          <label className={styles.label}>Time Control:</label>
+          <div className={`${styles.difficultyButtons} ${styles.timeControls}`}>
+            {TIME_CONTROL_PRESETS.map((control) => (
+              <button
+                key={control.id}
+                className={`${styles.difficultyBtn} ${timeControl.id === control.id ? styles.active : ''}`}
+                onClick={() => onTimeControlChange(control)}
+                disabled={moveHistory.length > 0}
+              >
+                {control.name}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Difficulty Selector (Single Player Only) */}
-      {isSinglePlayer && onDifficultyChange && (
+      {isSinglePlayer && onStrengthChange && (
         <div className={styles.difficultySection}>
           <label className={styles.label}>AI Difficulty:</label>
           <div className={styles.difficultyButtons}>
             {(['easy', 'medium', 'hard'] as Difficulty[]).map((level) => (
               <button
                 key={level}
-                className={`${styles.difficultyBtn} ${difficulty === level ? styles.active : ''}`}
-                onClick={() => onDifficultyChange(level)}
+                className={`${styles.difficultyBtn} ${strength === level ? styles.active : ''}`}
+                onClick={() => onStrengthChange(level)}
                 disabled={moveHistory.length > 0}
               >
                 {level.charAt(0).toUpperCase() + level.slice(1)}
               </button>
             ))}
           </div>
+          {/* Any rating between the presets */}
+          <label className={`${styles.label} ${styles.ratingLabel}`}>
+            Engine Rating: <span className={styles.ratingValue}>{strengthToRating(strength)}</span>
+          </label>
+          <input
+            type="range"
+            min={MIN_ENGINE_RATING}
+            max={MAX_ENGINE_RATING}
+            step={50}
+            value={strengthToRating(strength)}
+            onChange={(e) => onStrengthChange(parseInt(e.target.value))}
+            disabled={moveHistory.length > 0}
+            className={styles.ratingSlider}
+          />
         </div>
       )}
 
@@ -147,6 +261,12 @@ export default function GameControls({
           <span className={styles.infoLabel}>Playing as:</span>
           <span className={styles.infoValue}>{isPlayerWhite ? '♔ White' : '♚ Black'}</span>
         </div>
+        {variant === 'threeCheck' && gameState.checksGiven && (
+          <div className={styles.infoItem}>
+            <span className={styles.infoLabel}>Checks:</span>
+            <span className={styles.infoValue}>♔ {gameState.checksGiven.white} · ♚ {gameState.checksGiven.black}</span>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,214 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import {
+  LibraryFilter,
+  LibraryGame,
+  LibraryGameMode,
+  LibraryOutcome,
+  deleteLibraryGame,
+  exportLibraryGame,
+  getLibraryOutcome,
+  listLibraryGames,
+  restoreGameState,
+  saveLibraryGame,
+} from '../../lib/gameLibrary';
+import { analyzeGame } from '../../lib/gameAnalysis';
+import { hasGameMistakes, recordGameMistakes } from '../../lib/recommendations';
+import { trackActivity } from '../../lib/achievements';
+import { useChessEngine } from '../../hooks/useChessEngine';
+import styles from './GameLibrary.module.css';
+
+const MODE_LABELS: { [mode in LibraryGameMode]: string } = {
+  ai: 'vs Engine',
+  local: 'Pass & Play',
+  online: 'Online',
+};
+
+const OUTCOME_LABELS: { [outcome in LibraryOutcome]: string } = {
+  win: 'Won',
+  loss: 'Lost',
+  draw: 'Draw',
+  unfinished: 'In progress',
+};
+
+function downloadPGN(game: LibraryGame) {
+  const blob = new Blob([exportLibraryGame(game)], { type: 'application/x-chess-pgn' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${game.id}.pgn`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function GameLibrary() {
+  const [games, setGames] = useState<LibraryGame[]>([]);
+  const [filter, setFilter] = useState<LibraryFilter>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Game being reviewed and how many of its positions have been searched
+  const [reviewing, setReviewing] = useState<{ id: string; analyzed: number; total: number } | null>(null);
+  const { search } = useChessEngine();
+
+  const loadGames = useCallback(() => {
+    listLibraryGames(filter)
+      .then((list) => {
+        setGames(list);
+        setError(null);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Could not open the game library'))
+      .finally(() => setIsLoading(false));
+  }, [filter]);
+
+  useEffect(() => {
+    loadGames();
+  }, [loadGames]);
+
+  const handleDelete = async (game: LibraryGame) => {
+    if (!window.confirm('Delete this game from your library?')) return;
+    await deleteLibraryGame(game.id);
+    loadGames();
+  };
+
+  const handleExport = (game: LibraryGame) => {
+    try {
+      downloadPGN(game);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not export game');
+    }
+  };
+
+  // Analyze a finished game in the engine worker and keep the player's mistakes for lesson recommendations
+  const handleReview = async (game: LibraryGame) => {
+    setReviewing({ id: game.id, analyzed: 0, total: game.moves.length + 1 });
+    try {
+      const analysis = await analyzeGame(restoreGameState(game), {
+        search,
+        onProgress: (analyzed, total) => setReviewing({ id: game.id, analyzed, total }),
+      });
+      const isWhite = game.playerColor === 'white';
+      const isNew = !hasGameMistakes(game.id);
+      recordGameMistakes(analysis, isWhite, game.id);
+      const player = isWhite ? analysis.white : analysis.black;
+      await saveLibraryGame({
+        ...game,
+        review: {
+          analyzedAt: Date.now(),
+          accuracy: player.accuracy,
+          mistakes: player.counts.mistake,
+          blunders: player.counts.blunder,
+        },
+      });
+      if (isNew) trackActivity({ type: 'gameAnalyzed' });
+      loadGames();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not review game');
+    } finally {
+      setReviewing(null);
+    }
+  };
+
+  const updateFilter = (changes: Partial<LibraryFilter>) => {
+    setFilter((current) => ({ ...current, ...changes }));
+  };
+
+  return (
+    <div className={styles.container}>
+      <h1 className={styles.title}>Game Library</h1>
+
+      <div className={styles.filters}>
+        <select
+          className={styles.select}
+          value={filter.mode ?? ''}
+          onChange={(e) => updateFilter({ mode: (e.target.value || undefined) as LibraryGameMode | undefined })}
+        >
+          <option value="">All games</option>
+          {(Object.keys(MODE_LABELS) as LibraryGameMode[]).map((mode) => (
+            <option key={mode} value={mode}>{MODE_LABELS[mode]}</option>
+          ))}
+        </select>
+        <select
+          className={styles.select}
+          value={filter.outcome ?? ''}
+          onChange={(e) => updateFilter({ outcome: (e.target.value || undefined) as LibraryOutcome | undefined })}
+        >
+          <option value="">Any result</option>
+          {(Object.keys(OUTCOME_LABELS) as LibraryOutcome[]).map((outcome) => (
+            <option key={outcome} value={outcome}>{OUTCOME_LABELS[outcome]}</option>
+          ))}
+        </select>
+        <input
+          className={styles.search}
+          type="search"
+          placeholder="Opponent"
+          value={filter.opponent ?? ''}
+          onChange={(e) => updateFilter({ opponent: e.target.value || undefined })}
+        />
+      </div>
+
+      {error && <p className={styles.error}>{error}</p>}
+
+      {isLoading ? (
+        <p className={styles.empty}>Loading games...</p>
+      ) : games.length === 0 ? (
+        <p className={styles.empty}>No saved games yet. Games are saved automatically as you play.</p>
+      ) : (
+        <ul className={styles.list}>
+          {games.map((game) => {
+            const outcome = getLibraryOutcome(game);
+            return (
+              <li key={game.id} className={styles.game}>
+                <div className={styles.gameHeader}>
+                  <span className={styles.opponent}>{game.opponent}</span>
+                  <span className={`${styles.outcome} ${styles[outcome]}`}>{OUTCOME_LABELS[outcome]}</span>
+                </div>
+                <div className={styles.meta}>
+                  <span>{MODE_LABELS[game.mode]}</span>
+                  <span>{game.playerColor === 'white' ? '♔ White' : '♚ Black'}</span>
+                  <span>{Math.ceil(game.moves.length / 2)} moves</span>
+                  {game.timeControl && <span>{game.timeControl}</span>}
+                  <span>{new Date(game.updatedAt).toLocaleDateString()}</span>
+                  {game.review && (
+                    <span>
+                      {game.review.accuracy}% accuracy · {game.review.mistakes} mistakes · {game.review.blunders} blunders
+                    </span>
+                  )}
+                </div>
+                <div className={styles.actions}>
+                  {outcome === 'unfinished' && game.mode !== 'online' && (
+                    <Link className={`${styles.actionBtn} ${styles.primary}`} href={`/play?game=${game.id}`}>
+                      Resume
+                    </Link>
+                  )}
+                  <Link className={styles.actionBtn} href={`/analysis?game=${game.id}`}>
+                    Analyze
+                  </Link>
+                  {/* Pass-and-play games have no single player whose mistakes to record */}
+                  {outcome !== 'unfinished' && game.mode !== 'local' && !game.review && (
+                    <button
+                      className={styles.actionBtn}
+                      onClick={() => handleReview(game)}
+                      disabled={reviewing !== null}
+                    >
+                      {reviewing?.id === game.id ? `Reviewing ${reviewing.analyzed}/${reviewing.total}` : 'Review mistakes'}
+                    </button>
+                  )}
+                  {outcome !== 'unfinished' && (
+                    <button className={styles.actionBtn} onClick={() => handleExport(game)}>
+                      Export PGN
+                    </button>
+                  )}
+                  <button className={`${styles.actionBtn} ${styles.danger}`} onClick={() => handleDelete(game)}>
+                    Delete
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
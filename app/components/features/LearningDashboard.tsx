@@ -8,9 +8,24 @@ import {
   type Lesson,
   type LearningPath,
   getLessonById,
-  getLearningPathById,
-  checkAchievementUnlocked
+  getLearningPathById
 } from '../../lib/lessonData';
+import {
+  ActivityLog,
+  AchievementUnlockedEvent,
+  createActivityLog,
+  emitAchievementUnlocked,
+  getCurrentStreak,
+  getLongestStreak,
+  loadActivityLog,
+  onAchievementUnlocked,
+  recordActivity,
+  saveActivityLog,
+  unlockAchievements,
+} from '../../lib/achievements';
+import { GameMistakeSummary, getRecommendations, loadGameMistakes } from '../../lib/recommendations';
+import { ReviewItem, loadReviewQueue } from '../../lib/reviewQueue';
+import LessonExercises from './LessonExercises';
 import styles from './LearningDashboard.module.css';
 
 type ViewMode = 'dashboard' | 'lesson' | 'path';
@@ -31,7 +46,14 @@ export default function LearningDashboard() {
   const [selectedLessonId, setSelectedLessonId] = useState<number | null>(null);
   const [selectedPathId, setSelectedPathId] = useState<number | null>(null);
   const [completedLessons, setCompletedLessons] = useState<Set<number>>(new Set());
-  const [unlockedAchievements, setUnlockedAchievements] = useState<Set<number>>(new Set());
+  // Null until loaded, so nothing is saved over the stored log
+  const [activity, setActivity] = useState<ActivityLog | null>(null);
+  const [recentUnlocks, setRecentUnlocks] = useState<AchievementUnlockedEvent[]>([]);
+  // Lessons whose board exercises were solved in this session
+  const [solvedExercises, setSolvedExercises] = useState<Set<number>>(new Set());
+  // Recommender inputs kept in localStorage by the puzzle trainer and game analysis
+  const [reviewItems, setReviewItems] = useState<ReviewItem[]>([]);
+  const [gameMistakes, setGameMistakes] = useState<GameMistakeSummary[]>([]);
   const [localProgress, setLocalProgress] = useState<LocalProgress>({
     completedLessons: [],
     gamesAnalyzed: 0,
@@ -41,36 +63,66 @@ export default function LearningDashboard() {
     skillLevels: {}
   });
 
-  // Load local progress from localStorage
+  // Load local progress and the achievement activity log from localStorage
   useEffect(() => {
+    let log = loadActivityLog();
     const saved = localStorage.getItem('learningProgress');
     if (saved) {
       const progress = JSON.parse(saved);
       setLocalProgress(progress);
       setCompletedLessons(new Set(progress.completedLessons));
+      // Lessons completed before the activity log existed still count towards achievements
+      const missing = (progress.completedLessons as number[]).filter(id => !log.completedLessons.includes(id));
+      if (missing.length > 0) {
+        log = { ...log, completedLessons: [...log.completedLessons, ...missing] };
+        saveActivityLog(log);
+      }
     }
+    setActivity(log);
+    setReviewItems(Object.values(loadReviewQueue().items));
+    setGameMistakes(loadGameMistakes());
   }, []);
 
+  // Show unlocks from anywhere in the app, including mirrored on-chain ones
+  useEffect(() => onAchievementUnlocked((event) => {
+    setRecentUnlocks(prev => [event, ...prev.filter(e => e.achievementId !== event.achievementId)]);
+    setActivity(loadActivityLog());
+  }), []);
+
   // Parse player stats (use blockchain or local)
   const gamesAnalyzed = playerStats ? Number(playerStats[0]) : localProgress.gamesAnalyzed;
   const lessonsCompleted = playerStats ? Number(playerStats[1]) : localProgress.lessonsCompleted;
-  const currentStreak = playerStats ? Number(playerStats[2]) : localProgress.currentStreak;
-  const longestStreak = playerStats ? Number(playerStats[3]) : localProgress.longestStreak;
+  const activityLog = activity ?? createActivityLog();
+  const currentStreak = playerStats ? Number(playerStats[2]) : getCurrentStreak(activityLog);
+  const longestStreak = playerStats
+    ? Number(playerStats[3])
+    : Math.max(localProgress.longestStreak, getLongestStreak(activityLog));
+  const unlockedAchievements = new Set(Object.keys(activityLog.unlocked).map(Number));
+  const currentSkillLevels = SKILL_CATEGORY_NAMES.map((_, category) => skillLevels
+    ? Number(skillLevels[category])
+    : localProgress.skillLevels[category] || 0);
+  const recommendations = getRecommendations({
+    skillLevels: currentSkillLevels,
+    completedLessons: Array.from(completedLessons),
+    reviewItems,
+    games: gameMistakes,
+  });
 
-  // Check unlocked achievements
+  // Unlock achievements whose criteria are now met
   useEffect(() => {
-    const unlocked = new Set<number>();
-    ACHIEVEMENTS.forEach(achievement => {
-      const skillLevel = skillLevels 
-        ? Number(skillLevels[achievement.category]) 
-        : (localProgress.skillLevels[achievement.category] || 0);
-      
-      if (checkAchievementUnlocked(achievement, gamesAnalyzed, lessonsCompleted, skillLevel)) {
-        unlocked.add(achievement.id);
-      }
+    if (!activity) return;
+    const result = unlockAchievements(activity, {
+      skillLevels: SKILL_CATEGORY_NAMES.map((_, category) => skillLevels
+        ? Number(skillLevels[category])
+        : localProgress.skillLevels[category] || 0),
+      gamesAnalyzed,
+      lessonsCompleted,
     });
-    setUnlockedAchievements(unlocked);
-  }, [playerStats, skillLevels, gamesAnalyzed, lessonsCompleted, localProgress]);
+    if (result.events.length === 0) return;
+    saveActivityLog(result.log);
+    setActivity(result.log);
+    emitAchievementUnlocked(result.events);
+  }, [activity, skillLevels, gamesAnalyzed, lessonsCompleted, localProgress]);
 
   const handleStartLesson = (lessonId: number) => {
     setSelectedLessonId(lessonId);
@@ -82,14 +134,26 @@ export default function LearningDashboard() {
     setViewMode('path');
   };
 
+  // Lessons with board exercises can only be completed once every exercise is solved
+  const canCompleteLesson = (lesson: Lesson) =>
+    !lesson.content.steps?.length || solvedExercises.has(lesson.id);
+
   const handleCompleteLesson = async (lessonId: number) => {
+    const lesson = getLessonById(lessonId);
+    if (!lesson || !canCompleteLesson(lesson)) return;
+
+    // Streaks count calendar days with activity, not lessons
+    const newActivity = recordActivity(activity ?? loadActivityLog(), { type: 'lesson', lessonId });
+    saveActivityLog(newActivity);
+    setActivity(newActivity);
+
     // Update local progress
     const newProgress = {
       ...localProgress,
       completedLessons: [...localProgress.completedLessons, lessonId],
       lessonsCompleted: localProgress.lessonsCompleted + 1,
-      currentStreak: localProgress.currentStreak + 1,
-      longestStreak: Math.max(localProgress.longestStreak, localProgress.currentStreak + 1)
+      currentStreak: getCurrentStreak(newActivity),
+      longestStreak: Math.max(localProgress.longestStreak, getLongestStreak(newActivity))
     };
     setLocalProgress(newProgress);
     localStorage.setItem('learningProgress', JSON.stringify(newProgress));
@@ -115,8 +179,8 @@ export default function LearningDashboard() {
     setSelectedPathId(null);
   };
 
-  // Lesson View Component
-  const LessonView = ({ lesson }: { lesson: Lesson }) => (
+  // Lesson view; a render helper rather than a nested component, so its subtree is not remounted on every render
+  const renderLessonView = (lesson: Lesson) => (
     <div className={styles.lessonView}>
       <button className={styles.backButton} onClick={handleBackToDashboard}>
         ← Back to Dashboard
@@ -159,6 +223,17 @@ export default function LearningDashboard() {
           </div>
         </section>
 
+        {lesson.content.steps && lesson.content.steps.length > 0 && (
+          <section className={styles.section}>
+            <h2>Exercises</h2>
+            <LessonExercises
+              key={lesson.id}
+              lesson={lesson}
+              onComplete={() => setSolvedExercises(prev => new Set([...prev, lesson.id]))}
+            />
+          </section>
+        )}
+
         {lesson.content.practice && (
           <section className={styles.section}>
             <h2>Practice Exercise</h2>
@@ -172,13 +247,15 @@ export default function LearningDashboard() {
           <button 
             className={styles.completeButton}
             onClick={() => handleCompleteLesson(lesson.id)}
-            disabled={isLoading || completedLessons.has(lesson.id)}
+            disabled={isLoading || completedLessons.has(lesson.id) || !canCompleteLesson(lesson)}
           >
             {completedLessons.has(lesson.id) 
               ? '✓ Completed' 
               : isLoading 
                 ? 'Processing...' 
-                : 'Complete Lesson'}
+                : canCompleteLesson(lesson)
+                  ? 'Complete Lesson'
+                  : 'Solve the exercises to complete'}
           </button>
         </div>
       </div>
@@ -268,7 +345,7 @@ export default function LearningDashboard() {
   // Dashboard View
   if (viewMode === 'lesson' && selectedLessonId !== null) {
     const lesson = getLessonById(selectedLessonId);
-    if (lesson) return <LessonView lesson={lesson} />;
+    if (lesson) return renderLessonView(lesson);
   }
 
   if (viewMode === 'path' && selectedPathId !== null) {
@@ -326,6 +403,46 @@ export default function LearningDashboard() {
         </div>
       </div>
 
+      {/* Recommendations */}
+      {(recommendations.lessons.length > 0 || recommendations.paths.length > 0) && (
+        <div className={styles.learningPaths}>
+          <h2>Recommended for You</h2>
+          <div className={styles.pathsGrid}>
+            {recommendations.paths.map(({ path, reasons, nextLessonId }) => (
+              <div key={`path-${path.id}`} className={`${styles.pathCard} ${styles.recommendedCard}`}>
+                <span className={styles.recommendedTag}>Learning Path</span>
+                <h3>{path.emoji} {path.title}</h3>
+                <ul className={styles.reasons}>
+                  {reasons.map(reason => <li key={reason}>{reason}</li>)}
+                </ul>
+                <div className={styles.pathMeta}>
+                  <span>Next: {getLessonById(nextLessonId)?.title}</span>
+                </div>
+                <button className={styles.startButton} onClick={() => handleStartPath(path.id)}>
+                  View Path
+                </button>
+              </div>
+            ))}
+            {recommendations.lessons.map(({ lesson, reasons }) => (
+              <div key={`lesson-${lesson.id}`} className={`${styles.pathCard} ${styles.recommendedCard}`}>
+                <span className={styles.recommendedTag}>{SKILL_CATEGORY_NAMES[lesson.category]} Lesson</span>
+                <h3>{lesson.title}</h3>
+                <ul className={styles.reasons}>
+                  {reasons.map(reason => <li key={reason}>{reason}</li>)}
+                </ul>
+                <div className={styles.pathMeta}>
+                  <span>Difficulty: {'⭐'.repeat(lesson.difficulty)}</span>
+                  <span>{lesson.estimatedMinutes} min</span>
+                </div>
+                <button className={styles.startButton} onClick={() => handleStartLesson(lesson.id)}>
+                  Start Lesson
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Learning Paths */}
       <div className={styles.learningPaths}>
         <h2>Learning Paths</h2>
@@ -366,6 +483,11 @@ export default function LearningDashboard() {
       {/* Recent Achievements */}
       <div className={styles.achievements}>
         <h2>🏆 Achievements</h2>
+        {recentUnlocks.length > 0 && (
+          <div className={styles.unlockBanner}>
+            🎉 Unlocked: {recentUnlocks.map(event => event.name).join(', ')}
+          </div>
+        )}
         <div className={styles.achievementsList}>
           {ACHIEVEMENTS.map(achievement => {
             const isUnlocked = unlockedAchievements.has(achievement.id);
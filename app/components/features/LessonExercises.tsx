@@ -0,0 +1,126 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import PuzzleBoard from '../chess/PuzzleBoard';
+import { Move } from '../../lib/chessEngine';
+import { Lesson } from '../../lib/lessonData';
+import {
+  LessonPlayer,
+  createLessonPlayer,
+  getCurrentStep,
+  getLessonSteps,
+  getStepArrows,
+  getStepHighlights,
+  goToLessonStep,
+  isLessonComplete,
+  isStepSolved,
+  acknowledgeLessonStep,
+  playLessonReply,
+  submitLessonMove,
+} from '../../lib/lessonPlayer';
+import styles from './LessonExercises.module.css';
+
+const REPLY_DELAY_MS = 500;
+
+interface LessonExercisesProps {
+  lesson: Lesson;
+  onComplete: () => void;
+}
+
+export default function LessonExercises({ lesson, onComplete }: LessonExercisesProps) {
+  const [player, setPlayer] = useState<LessonPlayer>(() => createLessonPlayer(lesson));
+  const [isReplying, setIsReplying] = useState(false);
+  const [feedback, setFeedback] = useState<'correct' | 'wrong' | null>(null);
+
+  const steps = getLessonSteps(lesson);
+  const step = getCurrentStep(player, lesson);
+  const solved = isStepSolved(player);
+  const playerColor = step.fen.split(' ')[1] === 'b' ? 'black' : 'white';
+
+  // Report completion once, when the last exercise is solved
+  const isComplete = isLessonComplete(player, lesson);
+  useEffect(() => {
+    if (isComplete) onComplete();
+    // onComplete is recreated by the parent on every render
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isComplete]);
+
+  const handleMove = (move: Move) => {
+    if (solved || isReplying) return;
+
+    const result = submitLessonMove(player, lesson, move);
+    setFeedback(result.correct ? 'correct' : 'wrong');
+    setPlayer(result.player);
+
+    if (result.awaitingReply) {
+      setIsReplying(true);
+      setTimeout(() => {
+        setPlayer((current) => playLessonReply(current, lesson));
+        setIsReplying(false);
+      }, REPLY_DELAY_MS);
+    }
+  };
+
+  const goToStep = (index: number) => {
+    setFeedback(null);
+    setPlayer(goToLessonStep(player, lesson, index));
+  };
+
+  return (
+    <div className={styles.exercises}>
+      <div className={styles.stepTabs}>
+        {steps.map((_, index) => (
+          <button
+            key={index}
+            className={`${styles.stepTab} ${index === player.stepIndex ? styles.active : ''} ${player.solvedSteps.includes(index) ? styles.done : ''}`}
+            onClick={() => goToStep(index)}
+            disabled={isReplying}
+          >
+            {player.solvedSteps.includes(index) ? '✓' : index + 1}
+          </button>
+        ))}
+      </div>
+
+      <p className={styles.instruction}>{step.instruction}</p>
+
+      <div className={styles.board}>
+        <PuzzleBoard
+          gameState={player.state}
+          onMove={handleMove}
+          disabled={solved || isReplying}
+          lastMove={player.lastMove}
+          playerColor={playerColor}
+          highlightSquares={solved ? [] : getStepHighlights(step)}
+          arrows={solved ? [] : getStepArrows(step)}
+        />
+      </div>
+
+      {solved ? (
+        <div className={styles.explanation}>
+          <strong>✓ Well done!</strong> {step.explanation}
+        </div>
+      ) : feedback === 'wrong' ? (
+        <div className={styles.wrong}>✗ Not the move we are looking for. Try again!</div>
+      ) : feedback === 'correct' && isReplying ? (
+        <div className={styles.correct}>✓ Correct!</div>
+      ) : null}
+
+      <div className={styles.actions}>
+        {step.moves.length === 0 && !solved && (
+          <button className={styles.nextButton} onClick={() => setPlayer(acknowledgeLessonStep(player, lesson))}>
+            Got it
+          </button>
+        )}
+        {solved && player.stepIndex < steps.length - 1 && (
+          <button className={styles.nextButton} onClick={() => goToStep(player.stepIndex + 1)}>
+            Next exercise →
+          </button>
+        )}
+      </div>
+
+      <p className={styles.progress}>
+        {player.solvedSteps.length} / {steps.length} exercises solved
+      </p>
+    </div>
+  );
+}
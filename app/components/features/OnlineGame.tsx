@@ -1,15 +1,25 @@
 "use client";
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect } from 'react';
 import { useAccount } from 'wagmi';
 import ChessBoard from '../chess/ChessBoardNew';
-import { 
-  createInitialState, 
-  makeMove as applyLocalMove,
-  GameState as LocalGameState,
-  Move,
-  GameStatus,
-} from '../../lib/chessEngine';
-import { useChessContract, OnChainGameState, GameState as ContractGameState } from '../../hooks/useChessContractNew';
+import MoveHistory from './MoveHistory';
+import { Move } from '../../lib/chessEngine';
+import { PGNResult } from '../../lib/chessPGN';
+import { useChessContract, GameState as ContractGameState } from '../../hooks/useChessContractNew';
+import { useGameSync } from '../../hooks/useGameSync';
+import { useChessClock } from '../../hooks/useChessClock';
+import { useGameAutosave } from '../../hooks/useGameAutosave';
+import { useSignedGame } from '../../hooks/useSignedGame';
+import { SignedResult, getBoardResult, isOfferExpired } from '../../lib/signedMoves';
+import {
+  DEFAULT_TIME_CONTROL,
+  TIME_CONTROL_PRESETS,
+  TIMEOUT_WARNING_MS,
+  TimeControl,
+  formatClockTime,
+  getTimeoutClaimableAt,
+  getTimeoutPayableAt,
+} from '../../lib/chessClock';
 import styles from './OnlineGame.module.css';
 
 interface OnlineGameProps {
@@ -22,97 +32,81 @@ export default function OnlineGame({ gameId, onBack }: OnlineGameProps) {
   const { 
     loading, 
     error, 
-    getGameInfo, 
     makeMove: contractMakeMove,
     resign,
     offerDraw,
     claimTimeout,
   } = useChessContract();
+  // Full game rebuilt from the contract's move logs
+  const {
+    onChainState,
+    gameState: localGameState,
+    lastMove,
+    mode: syncMode,
+    syncError,
+    refresh,
+  } = useGameSync(gameId);
+
+  // Signed-move play continues from the synced game; the board shows its position while it is on
+  const signed = useSignedGame(gameId, onChainState, localGameState);
+  const boardState = signed.isActive ? signed.gameState : localGameState;
+  const boardLastMove = signed.isActive ? signed.lastMove : lastMove;
 
-  const [onChainState, setOnChainState] = useState<OnChainGameState | null>(null);
-  const [localGameState, setLocalGameState] = useState<LocalGameState>(createInitialState());
-  const [lastMove, setLastMove] = useState<Move | null>(null);
   const [isPlayerWhite, setIsPlayerWhite] = useState(true);
-  const [refreshInterval, setRefreshInterval] = useState<NodeJS.Timeout | null>(null);
   const [pendingMove, setPendingMove] = useState<{ from: number; to: number } | null>(null);
+  const [timeControl, setTimeControl] = useState<TimeControl>(DEFAULT_TIME_CONTROL);
+  const [now, setNow] = useState(() => Date.now());
 
-  // Load game state from contract
-  const loadGameState = useCallback(async () => {
-    const state = await getGameInfo(gameId);
-    if (state) {
-      setOnChainState(state);
-      
-      // Convert on-chain board to local game state
-      const newLocalState: LocalGameState = {
-        ...createInitialState(),
-        board: state.board,
-        isWhiteTurn: state.whiteTurn,
-        fullMoveNumber: Math.floor(state.moveCount / 2) + 1,
-        status: convertContractStatus(state.state, state.whiteTurn, state.board),
-        moveHistory: [], // We don't have move history from contract
-      };
-      setLocalGameState(newLocalState);
-      
-      // Determine player color
-      if (address) {
-        setIsPlayerWhite(state.whitePlayer.toLowerCase() === address.toLowerCase());
-      }
-    }
-  }, [gameId, getGameInfo, address]);
+  // Chess.sol keeps no clocks, so this is an informal timer on this device only: each player picks their own,
+  // it restarts on reload and it is not saved with the game. It stops while our move waits for confirmation
+  const { clock, whiteMs, blackMs, flagged } = useChessClock(timeControl, {
+    moveCount: boardState.moveHistory.length,
+    isWhiteTurn: boardState.isWhiteTurn,
+    isGameOver: !!onChainState && onChainState.state !== ContractGameState.Active,
+    paused: !!pendingMove,
+  });
 
-  // Initial load
-  useEffect(() => {
-    loadGameState();
-  }, [loadGameState]);
+  // Keep a copy in the game library, one record per on-chain game
+  const opponent = onChainState
+    ? (isPlayerWhite ? onChainState.blackPlayer : onChainState.whitePlayer)
+    : '';
+  useGameAutosave(boardState, {
+    mode: 'online',
+    opponent,
+    playerColor: isPlayerWhite ? 'white' : 'black',
+    onlineGameId: gameId,
+    result: onChainState ? CONTRACT_RESULTS[onChainState.state] : undefined,
+    termination: onChainState?.state === ContractGameState.Abandoned ? 'abandoned' : undefined,
+  }, `online-${gameId}`);
 
-  // Poll for updates when it's opponent's turn
+  // Coarse timer for the claimTimeout deadline
   useEffect(() => {
-    if (!onChainState || !address) return;
+    const interval = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(interval);
+  }, []);
 
-    const isMyTurn = onChainState.whiteTurn === isPlayerWhite;
-    
-    if (!isMyTurn && onChainState.state === ContractGameState.Active) {
-      // Start polling
-      const interval = setInterval(loadGameState, 5000);
-      setRefreshInterval(interval);
-      return () => clearInterval(interval);
-    } else if (refreshInterval) {
-      clearInterval(refreshInterval);
-      setRefreshInterval(null);
-    }
-  }, [onChainState, address, isPlayerWhite, loadGameState, refreshInterval]);
-
-  // Convert contract game state to local status
-  const convertContractStatus = (
-    contractState: ContractGameState, 
-    _whiteTurn: boolean,
-    _board: number[]
-  ): GameStatus => {
-    switch (contractState) {
-      case ContractGameState.WhiteWon:
-        return GameStatus.Checkmate;
-      case ContractGameState.BlackWon:
-        return GameStatus.Checkmate;
-      case ContractGameState.Draw:
-        return GameStatus.Draw;
-      case ContractGameState.Abandoned:
-        return GameStatus.Draw;
-      default:
-        // Check if in check
-        // This is a simplified check - full implementation would need proper check detection
-        return GameStatus.Active;
+  // Determine player color
+  useEffect(() => {
+    if (onChainState && address) {
+      setIsPlayerWhite(onChainState.whitePlayer.toLowerCase() === address.toLowerCase());
     }
-  };
+  }, [onChainState, address]);
 
   // Handle move
   const handleMove = async (move: Move) => {
     if (!onChainState || loading) return;
     
     // Check if it's player's turn
-    const isMyTurn = onChainState.whiteTurn === isPlayerWhite;
+    const isMyTurn = (signed.isActive ? boardState.isWhiteTurn : onChainState.whiteTurn) === isPlayerWhite;
     if (!isMyTurn) return;
 
     setPendingMove({ from: move.from, to: move.to });
+
+    if (signed.isActive) {
+      await signed.playMove(move);
+      setPendingMove(null);
+      return;
+    }
     
     // Make move on-chain
     const result = await contractMakeMove(
@@ -123,13 +117,8 @@ export default function OnlineGame({ gameId, onBack }: OnlineGameProps) {
     );
 
     if (result.success) {
-      // Optimistically update local state
-      const newLocalState = applyLocalMove(localGameState, move);
-      setLocalGameState(newLocalState);
-      setLastMove(move);
-      
-      // Refresh from chain
-      await loadGameState();
+      // The MoveMade event also triggers a sync, but don't wait for the watcher
+      await refresh();
     }
     
     setPendingMove(null);
@@ -137,21 +126,48 @@ export default function OnlineGame({ gameId, onBack }: OnlineGameProps) {
 
   // Handle resign
   const handleResign = async () => {
+    if (signed.isActive) {
+      // A signed resignation only counts once the opponent co-signs it and it is settled
+      if (window.confirm('Sign a result resigning this game?')) {
+        await signed.offerResult(isPlayerWhite ? 'black' : 'white');
+      }
+      return;
+    }
     if (window.confirm('Are you sure you want to resign?')) {
       await resign(gameId);
-      await loadGameState();
+      await refresh();
     }
   };
 
   // Handle draw offer
   const handleOfferDraw = async () => {
+    if (signed.isActive) {
+      await signed.offerResult('draw');
+      return;
+    }
     await offerDraw(gameId);
   };
 
+  const handleSettle = async () => {
+    const result = await signed.settle();
+    if (result.success) await refresh();
+  };
+
+  const handleProveConflict = async () => {
+    const result = await signed.proveConflict();
+    if (result.success) await refresh();
+  };
+
+  const handleDispute = async () => {
+    if (!window.confirm('Submit the signed moves on-chain? Play then continues on-chain.')) return;
+    const result = await signed.dispute();
+    if (result.success) await refresh();
+  };
+
   // Handle timeout claim
   const handleClaimTimeout = async () => {
     await claimTimeout(gameId);
-    await loadGameState();
+    await refresh();
   };
 
   if (!isConnected) {
@@ -179,9 +195,21 @@ export default function OnlineGame({ gameId, onBack }: OnlineGameProps) {
     );
   }
 
-  const isMyTurn = onChainState.whiteTurn === isPlayerWhite;
+  const isMyTurn = (signed.isActive ? boardState.isWhiteTurn : onChainState.whiteTurn) === isPlayerWhite;
   const isGameOver = onChainState.state !== ContractGameState.Active;
+  // An expired result offer can no longer be accepted or settled, so a new one can be signed
+  const openOffer = signed.offer && !isOfferExpired(signed.offer, now) ? signed.offer : null;
   const waitingForOpponent = onChainState.blackPlayer === '0x0000000000000000000000000000000000000000';
+  // Only the player waiting for a move can open a timeout claim, once MOVE_TIMEOUT has passed since the
+  // last move, and collect it after the challenge period unless the player to move answers it first
+  const timeoutClaimableAt = onChainState.lastMoveTime ? getTimeoutClaimableAt(onChainState.lastMoveTime) : null;
+  const timeoutPayableAt = onChainState.timeoutClaimedAt ? getTimeoutPayableAt(onChainState.timeoutClaimedAt) : null;
+  const canClaimTimeout = timeoutPayableAt !== null
+    ? now >= timeoutPayableAt
+    : timeoutClaimableAt !== null && now >= timeoutClaimableAt;
+  const isClaimedAgainstMe = timeoutPayableAt !== null && !isGameOver && onChainState.whiteTurn === isPlayerWhite;
+  const showTimeoutWarning = !signed.isActive && !isClaimedAgainstMe && isMyTurn && !isGameOver && !waitingForOpponent && timeoutClaimableAt !== null &&
+    now >= timeoutClaimableAt - TIMEOUT_WARNING_MS;
 
   return (
     <div className={styles.container}>
@@ -214,6 +242,9 @@ export default function OnlineGame({ gameId, onBack }: OnlineGameProps) {
               </span>
               {!isPlayerWhite && <span className={styles.youBadge}>You</span>}
             </div>
+            <span className={`${styles.clock} ${clock.active === 'black' ? styles.clockActive : ''}`} title={LOCAL_TIMER_NOTE}>
+              {formatClockTime(blackMs)}
+            </span>
           </div>
         </div>
 
@@ -231,16 +262,17 @@ export default function OnlineGame({ gameId, onBack }: OnlineGameProps) {
           {pendingMove && (
             <div className={styles.pendingOverlay}>
               <div className={styles.spinner}></div>
-              <p>Confirming move on-chain...</p>
+              <p>{signed.isActive ? 'Waiting for your signature...' : 'Confirming move on-chain...'}</p>
             </div>
           )}
 
           <ChessBoard
-            gameState={localGameState}
+            gameState={boardState}
             onMove={handleMove}
             isPlayerWhite={isPlayerWhite}
-            disabled={!isMyTurn || isGameOver || waitingForOpponent || loading || !!pendingMove}
-            lastMove={lastMove}
+            disabled={!isMyTurn || isGameOver || waitingForOpponent || loading || !!pendingMove ||
+              (signed.isActive && !signed.canSign)}
+            lastMove={boardLastMove}
             highlightLegalMoves={true}
           />
         </div>
@@ -255,6 +287,9 @@ export default function OnlineGame({ gameId, onBack }: OnlineGameProps) {
               </span>
               {isPlayerWhite && <span className={styles.youBadge}>You</span>}
             </div>
+            <span className={`${styles.clock} ${clock.active === 'white' ? styles.clockActive : ''}`} title={LOCAL_TIMER_NOTE}>
+              {formatClockTime(whiteMs)}
+            </span>
           </div>
         </div>
 
@@ -274,14 +309,139 @@ export default function OnlineGame({ gameId, onBack }: OnlineGameProps) {
           </div>
 
           <div className={styles.moveCount}>
-            Move: {onChainState.moveCount}
+            Move: {boardState.moveHistory.length || onChainState.moveCount}
+            {syncMode === 'polling' && <span className={styles.syncMode}> · polling</span>}
+          </div>
+        </div>
+
+        {showTimeoutWarning && (
+          <div className={styles.syncWarning}>
+            {canClaimTimeout
+              ? '⏱️ You have not moved for 24 hours - your opponent can now claim a timeout win.'
+              : `⏱️ Move within ${Math.ceil((timeoutClaimableAt! - now) / 60000)} minutes or your opponent can claim a timeout win.`}
+          </div>
+        )}
+
+        {isClaimedAgainstMe && (
+          <div className={styles.syncWarning}>
+            ⏱️ Your opponent claimed a timeout win. Move{signed.unsubmittedMoves > 0 ? ' or submit the signed moves' : ''} before{' '}
+            {new Date(timeoutPayableAt!).toLocaleString()} to void the claim.
+          </div>
+        )}
+
+        {flagged && !isGameOver && (
+          <div className={styles.syncWarning}>
+            ⏱️ {flagged === 'white' ? 'White' : 'Black'} ran out of time on your local {timeControl.name} timer.
+            It is informal: the contract only enforces its 24 hour move timeout.
+          </div>
+        )}
+
+        {!signed.isActive && signed.error && (
+          <div className={styles.syncWarning}>{signed.error}</div>
+        )}
+
+        {!isGameOver && signed.conflict && (
+          <div className={styles.signedPanel}>
+            <span className={styles.hint}>
+              Their signed move for that ply proves it, and the contract awards the game to you when it is submitted.
+            </span>
+            <button className={styles.actionBtn} onClick={handleProveConflict} disabled={signed.loading}>
+              ⚖️ Submit Their Signed Move
+            </button>
           </div>
+        )}
+
+        {!isGameOver && !waitingForOpponent && !signed.isActive && !signed.conflict && (
+          <div className={styles.signedPanel}>
+            <button className={styles.actionBtn} onClick={signed.start} disabled={loading}>
+              ✍️ Play with signed moves
+            </button>
+            <span className={styles.hint}>
+              Moves are signed off-chain and sent over a relay; only the result goes on-chain.
+              Your opponent must turn this on too.
+            </span>
+          </div>
+        )}
+
+        {signed.isActive && signed.transcript && (
+          <div className={styles.signedPanel}>
+            <div className={styles.signedStatus}>
+              ✍️ Signed play · relay {signed.relayStatus} · {signed.transcript.moves.length} signed moves
+            </div>
+            {!isGameOver && timeoutClaimableAt !== null && (
+              <span className={styles.hint}>
+                The contract&apos;s 24 hour move timeout keeps running during signed play: a timeout claim can
+                be opened after {new Date(timeoutClaimableAt).toLocaleString()}, and submitting the signed moves voids it.
+              </span>
+            )}
+            {signed.offer && (
+              <div className={styles.signedStatus}>
+                Result offer: {RESULT_LABELS[signed.offer.result]} · signed by{' '}
+                {[signed.offer.signatures.white && 'White', signed.offer.signatures.black && 'Black']
+                  .filter(Boolean).join(' and ')}
+                {' · '}{openOffer ? `open until ${new Date(openOffer.deadline * 1000).toLocaleTimeString()}` : 'expired'}
+              </div>
+            )}
+            {signed.verification && <span className={styles.hint}>{signed.verification}</span>}
+            {signed.error && <div className={styles.syncWarning}>{signed.error}</div>}
+            <div className={styles.actionsSection}>
+              {!isGameOver && !openOffer && getBoardResult(boardState) && (
+                <button className={styles.actionBtn} onClick={() => signed.offerResult(getBoardResult(boardState)!)}>
+                  🖊️ Sign Result
+                </button>
+              )}
+              {!isGameOver && openOffer && !openOffer.signatures[isPlayerWhite ? 'white' : 'black'] && (
+                <button className={styles.actionBtn} onClick={signed.acceptOffer}>
+                  ✅ Accept {RESULT_LABELS[openOffer.result]}
+                </button>
+              )}
+              {!isGameOver && openOffer?.signatures.white && openOffer.signatures.black && (
+                <button className={styles.actionBtn} onClick={handleSettle} disabled={signed.loading}>
+                  ⛓️ Settle On-chain
+                </button>
+              )}
+              {!isGameOver && signed.unsubmittedMoves > 0 && (
+                <button className={styles.actionBtn} onClick={handleDispute} disabled={signed.loading}>
+                  ⚖️ Submit Moves On-chain
+                </button>
+              )}
+              <button className={styles.actionBtn} onClick={signed.verify}>
+                🔍 Verify Transcript
+              </button>
+            </div>
+          </div>
+        )}
+
+        {boardState.moveHistory.length === 0 && !isGameOver && (
+          <div className={styles.timeControls}>
+            <span>Local timer:</span>
+            {TIME_CONTROL_PRESETS.map((control) => (
+              <button
+                key={control.id}
+                className={`${styles.timeControlBtn} ${timeControl.id === control.id ? styles.active : ''}`}
+                onClick={() => setTimeControl(control)}
+              >
+                {control.name}
+              </button>
+            ))}
+            <span className={styles.hint}>{LOCAL_TIMER_NOTE}</span>
+          </div>
+        )}
+
+        {syncError && (
+          <div className={styles.syncWarning}>
+            Move history unavailable: {syncError}
+          </div>
+        )}
+
+        <div className={styles.historySection}>
+          <MoveHistory gameState={boardState} />
         </div>
 
         <div className={styles.actionsSection}>
           <button 
             className={styles.actionBtn}
-            onClick={loadGameState}
+            onClick={() => refresh(true)}
             disabled={loading}
           >
             🔄 Refresh
@@ -306,9 +466,9 @@ export default function OnlineGame({ gameId, onBack }: OnlineGameProps) {
               <button 
                 className={styles.actionBtn}
                 onClick={handleClaimTimeout}
-                disabled={loading || isMyTurn}
+                disabled={loading || onChainState.whiteTurn === isPlayerWhite || !canClaimTimeout}
               >
-                ⏱️ Claim Timeout
+                ⏱️ {timeoutPayableAt !== null ? 'Collect Timeout Win' : 'Claim Timeout'}
               </button>
             </>
           )}
@@ -318,6 +478,22 @@ export default function OnlineGame({ gameId, onBack }: OnlineGameProps) {
   );
 }
 
+const LOCAL_TIMER_NOTE = 'Informal timer on this device only: your opponent runs their own, it restarts on reload ' +
+  'and the contract does not enforce it.';
+
+const RESULT_LABELS: { [result in SignedResult]: string } = {
+  white: 'White wins',
+  black: 'Black wins',
+  draw: 'Draw',
+};
+
+// PGN results for finished contract states; other states use the board
+const CONTRACT_RESULTS: { [state: number]: PGNResult | undefined } = {
+  [ContractGameState.WhiteWon]: '1-0',
+  [ContractGameState.BlackWon]: '0-1',
+  [ContractGameState.Draw]: '1/2-1/2',
+};
+
 // Helper functions
 function formatAddress(address: string): string {
   if (!address || address === '0x0000000000000000000000000000000000000000') {
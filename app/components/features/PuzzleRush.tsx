@@ -0,0 +1,331 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { useChessPuzzles } from '../../hooks/useAdvancedContracts';
+import PuzzleBoard from '../chess/PuzzleBoard';
+import { useChessEngine } from '../../hooks/useChessEngine';
+import { Move } from '../../lib/chessEngine';
+import { ChessPuzzle, CHESS_PUZZLES } from '../../lib/puzzleData';
+import { loadPuzzlesForRating } from '../../lib/puzzlePacks';
+import {
+  PuzzleMoveResult,
+  PuzzleSession,
+  createPuzzleSession,
+  submitPuzzleMove,
+  playOpponentReply,
+} from '../../lib/puzzleRuntime';
+import {
+  RushMode,
+  RushRun,
+  RushHistory,
+  RUSH_MODES,
+  createRushRun,
+  createRushHistory,
+  checkRushClock,
+  endRushRun,
+  getRushTimeLeft,
+  getRushTargetRating,
+  isRushFinished,
+  recordRushResult,
+  selectRushPuzzle,
+  addRushRun,
+  loadRushHistory,
+  saveRushHistory,
+} from '../../lib/puzzleRush';
+import { trackActivity } from '../../lib/achievements';
+import styles from './PuzzleRush.module.css';
+
+// Short engine checks keep alternative-move validation from eating into the clock
+const RUSH_VALIDATION = { timeLimitMs: 200, maxDepth: 5 };
+const REPLY_DELAY_MS = 300;
+
+function formatClock(ms: number): string {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+export default function PuzzleRush() {
+  const { today, submitRushRun } = useChessPuzzles();
+
+  const [run, setRun] = useState<RushRun | null>(null);
+  const [session, setSession] = useState<PuzzleSession | null>(null);
+  const [history, setHistory] = useState<RushHistory>(createRushHistory);
+  const [pool, setPool] = useState<ChessPuzzle[]>(CHESS_PUZZLES);
+  const [now, setNow] = useState(Date.now());
+  const [isReplying, setIsReplying] = useState(false);
+  const [flash, setFlash] = useState<'correct' | 'wrong' | null>(null);
+  const [isPersonalBest, setIsPersonalBest] = useState(false);
+  const [submitStatus, setSubmitStatus] = useState<'idle' | 'submitting' | 'submitted' | 'failed'>('idle');
+  const [submitResult, setSubmitResult] = useState<{ submitted: number; skipped: number } | null>(null);
+  // Alternative moves and off-line replies are checked by the engine worker
+  const { search, isThinking } = useChessEngine();
+  const validation = { ...RUSH_VALIDATION, search };
+  const isBusy = isReplying || isThinking;
+
+  // Latest run for the delayed opponent reply, which may land after the clock has changed it
+  const runRef = useRef<RushRun | null>(null);
+  runRef.current = run;
+
+  const currentDay = today ? Number(today) : 0;
+  const isPlaying = run !== null && !isRushFinished(run);
+  const endsAt = run?.endsAt ?? null;
+
+  // Load history and any imported puzzle packs across the rush rating range
+  useEffect(() => {
+    setHistory(loadRushHistory());
+    loadPuzzlesForRating(1400, 1000)
+      .then((packPuzzles) => setPool([...CHESS_PUZZLES, ...packPuzzles]))
+      .catch((error) => console.log('Could not load puzzle packs:', error));
+  }, []);
+
+  // Tick the clock while a timed run is in progress
+  useEffect(() => {
+    if (!isPlaying || endsAt === null) return;
+    const timer = setInterval(() => {
+      const time = Date.now();
+      setNow(time);
+      setRun((current) => (current ? checkRushClock(current, time) : current));
+    }, 250);
+    return () => clearInterval(timer);
+  }, [isPlaying, endsAt]);
+
+  // Record a run in the history once it ends
+  const endReason = run?.endReason ?? null;
+  useEffect(() => {
+    if (!run || !endReason) return;
+    const result = addRushRun(history, run);
+    saveRushHistory(result.history);
+    setHistory(result.history);
+    setIsPersonalBest(result.isPersonalBest);
+    setIsReplying(false);
+    // Runs only end once; history and run are read at that moment
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [endReason]);
+
+  const nextPuzzle = (current: RushRun) => {
+    if (isRushFinished(current)) {
+      setRun(current);
+      return;
+    }
+    const puzzle = selectRushPuzzle(current, pool);
+    if (!puzzle) {
+      setRun(endRushRun(current, 'exhausted'));
+      return;
+    }
+    setRun(current);
+    setSession(createPuzzleSession(puzzle));
+  };
+
+  const startRun = (mode: RushMode) => {
+    setIsPersonalBest(false);
+    setSubmitStatus('idle');
+    setSubmitResult(null);
+    setFlash(null);
+    setNow(Date.now());
+    nextPuzzle(createRushRun(mode));
+  };
+
+  const finishPuzzle = (current: RushRun, puzzle: ChessPuzzle, solved: boolean) => {
+    setFlash(solved ? 'correct' : 'wrong');
+    if (solved) trackActivity({ type: 'puzzle', theme: puzzle.theme });
+    nextPuzzle(recordRushResult(current, puzzle, solved));
+  };
+
+  const handleMove = async (move: Move) => {
+    if (!run || !session || !isPlaying || isBusy) return;
+
+    let result: PuzzleMoveResult;
+    try {
+      result = await submitPuzzleMove(session, move, validation);
+    } catch (error) {
+      console.log('Puzzle move check stopped:', error);
+      return;
+    }
+    // The clock may have ended the run during the check
+    const current = runRef.current;
+    if (!current || isRushFinished(current)) return;
+
+    // One wrong move fails the puzzle in rush modes
+    if (result.verdict === 'incorrect') {
+      finishPuzzle(current, session.puzzle, false);
+      return;
+    }
+
+    setSession(result.session);
+    if (result.session.status === 'solved') {
+      finishPuzzle(current, session.puzzle, true);
+      return;
+    }
+
+    if (result.awaitingReply) {
+      setIsReplying(true);
+      setTimeout(async () => {
+        if (!runRef.current || isRushFinished(runRef.current)) return;
+
+        let next: PuzzleSession;
+        try {
+          next = await playOpponentReply(result.session, validation);
+        } catch (error) {
+          console.log('Opponent reply stopped:', error);
+          return;
+        } finally {
+          setIsReplying(false);
+        }
+        const latest = runRef.current;
+        if (!latest || isRushFinished(latest)) return;
+        setSession(next);
+        if (next.status === 'solved') {
+          finishPuzzle(latest, next.puzzle, true);
+        }
+      }, REPLY_DELAY_MS);
+    }
+  };
+
+  const handleAbandon = () => {
+    if (run && isPlaying) setRun(endRushRun(run, 'abandoned'));
+  };
+
+  // Only curated puzzles exist on-chain; imported ones count locally only
+  const onChainIds = new Set(CHESS_PUZZLES.map(p => p.id));
+  const onChainSolved = run ? run.results.filter(r => r.solved && onChainIds.has(r.puzzleId)) : [];
+
+  const handleSubmit = async () => {
+    const solved = onChainSolved
+      .map(r => ({ puzzleId: r.puzzleId, moves: r.moves, timeSpent: Math.max(1, Math.round(r.timeMs / 1000)) }));
+
+    setSubmitStatus('submitting');
+    try {
+      setSubmitResult(await submitRushRun(solved, currentDay));
+      setSubmitStatus('submitted');
+    } catch (error) {
+      console.log('Rush submission failed:', error);
+      setSubmitStatus('failed');
+    }
+  };
+
+  // Mode selection and history
+  if (!run) {
+    return (
+      <div className={styles.container}>
+        <h1 className={styles.title}>Puzzle Rush</h1>
+        <div className={styles.modes}>
+          {(Object.keys(RUSH_MODES) as RushMode[]).map((mode) => (
+            <button key={mode} className={styles.modeButton} onClick={() => startRun(mode)}>
+              <span className={styles.modeName}>{RUSH_MODES[mode].name}</span>
+              <span className={styles.modeDetail}>
+                {RUSH_MODES[mode].durationMs === null ? 'No clock' : formatClock(RUSH_MODES[mode].durationMs!)}
+                {' · '}{RUSH_MODES[mode].maxMistakes} strikes
+              </span>
+              <span className={styles.modeBest}>Best: {history.personalBests[mode] ?? '—'}</span>
+            </button>
+          ))}
+        </div>
+        <RushHistoryList history={history} />
+      </div>
+    );
+  }
+
+  const config = RUSH_MODES[run.mode];
+  const timeLeft = getRushTimeLeft(run, now);
+
+  return (
+    <div className={styles.container}>
+      <div className={styles.scoreBar}>
+        <div className={styles.stat}>
+          <span className={styles.statLabel}>{config.name}</span>
+          <span className={styles.score}>{run.score}</span>
+        </div>
+        {timeLeft !== null && (
+          <div className={`${styles.stat} ${timeLeft < 10000 ? styles.lowTime : ''}`}>
+            <span className={styles.statLabel}>Time</span>
+            <span className={styles.clock}>{formatClock(timeLeft)}</span>
+          </div>
+        )}
+        <div className={styles.stat}>
+          <span className={styles.statLabel}>Strikes</span>
+          <span className={styles.strikes}>
+            {Array.from({ length: config.maxMistakes }, (_, i) => (
+              <span key={i} className={i < run.mistakes ? styles.strikeUsed : styles.strike}>✗</span>
+            ))}
+          </span>
+        </div>
+      </div>
+
+      {isPlaying && session ? (
+        <>
+          <p className={styles.prompt}>
+            {session.puzzle.description} <span className={styles.target}>~{getRushTargetRating(run)}</span>
+          </p>
+          <div className={`${styles.board} ${flash ? styles[flash] : ''}`} onAnimationEnd={() => setFlash(null)}>
+            <PuzzleBoard
+              gameState={session.state}
+              onMove={handleMove}
+              disabled={isBusy}
+              lastMove={session.lastMove}
+              playerColor={session.puzzle.fen.split(' ')[1] === 'b' ? 'black' : 'white'}
+            />
+          </div>
+          <button className={styles.secondaryButton} onClick={handleAbandon}>End run</button>
+        </>
+      ) : (
+        <div className={styles.results}>
+          <h2>{run.endReason === 'time' ? "Time's up!" : run.endReason === 'mistakes' ? 'Three strikes!' : 'Run over'}</h2>
+          <p className={styles.finalScore}>{run.score}</p>
+          {isPersonalBest && <p className={styles.personalBest}>New personal best!</p>}
+          <p className={styles.summary}>
+            Best streak {run.bestStreak} · {run.results.length} puzzles · {run.mistakes} mistakes
+          </p>
+          <p className={styles.summary}>
+            Rush scores are kept on this device only. Submitting records newly solved puzzles for the daily puzzle leaderboard.
+          </p>
+          <div className={styles.actions}>
+            <button className={styles.primaryButton} onClick={() => startRun(run.mode)}>Play again</button>
+            <button className={styles.secondaryButton} onClick={() => { setRun(null); setSession(null); }}>
+              Change mode
+            </button>
+            <button
+              className={styles.secondaryButton}
+              onClick={handleSubmit}
+              disabled={onChainSolved.length === 0 || submitStatus === 'submitting' || submitStatus === 'submitted'}
+            >
+              {submitStatus === 'submitting' ? 'Submitting…' : submitStatus === 'submitted' ? 'Submitted' : 'Record solved puzzles'}
+            </button>
+          </div>
+          {submitResult && (
+            <p className={styles.summary}>
+              {submitResult.submitted > 0
+                ? `${submitResult.submitted} new puzzle${submitResult.submitted === 1 ? '' : 's'} recorded on-chain`
+                : 'Nothing new to record'}
+              {submitResult.skipped > 0 && ` · ${submitResult.skipped} already solved on-chain`}
+            </p>
+          )}
+          {submitStatus === 'failed' && <p className={styles.error}>Submission failed. Connect your wallet and try again.</p>}
+          <RushHistoryList history={history} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function RushHistoryList({ history }: { history: RushHistory }) {
+  if (history.runs.length === 0) return null;
+
+  return (
+    <div className={styles.history}>
+      <h3>Recent runs</h3>
+      <ul>
+        {history.runs.slice(0, 10).map((summary) => (
+          <li key={summary.finishedAt}>
+            <span>{RUSH_MODES[summary.mode].name}</span>
+            <strong>{summary.score}</strong>
+            <span className={styles.historyDetail}>
+              streak {summary.bestStreak}{summary.highestRating > 0 ? ` · top ${summary.highestRating}` : ''}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
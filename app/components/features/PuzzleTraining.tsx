@@ -2,21 +2,37 @@
 
 import { useState, useEffect } from 'react';
 import { useChessPuzzles } from '../../hooks/useAdvancedContracts';
+import { useChessEngine } from '../../hooks/useChessEngine';
 import PuzzleBoard from '../chess/PuzzleBoard';
+import { Move, squareToAlgebraic } from '../../lib/chessEngine';
 import { 
-  GameState, 
-  Move, 
-  makeMove, 
-  createStateFromFEN,
-  moveToUCI 
-} from '../../lib/chessEngine';
-import { 
-  ChessPuzzle, 
-  getRandomPuzzle, 
-  getPuzzleByRating,
+  ChessPuzzle,
+  CHESS_PUZZLES,
+  getPuzzleForRating,
   PUZZLE_THEMES, 
   PUZZLE_DIFFICULTIES 
 } from '../../lib/puzzleData';
+import {
+  PuzzleMoveResult,
+  PuzzleSession,
+  createPuzzleSession,
+  submitPuzzleMove,
+  playOpponentReply,
+  getPuzzleHint,
+} from '../../lib/puzzleRuntime';
+import {
+  PuzzleRatingProfile,
+  createPuzzleRatingProfile,
+  getPuzzleGlickoRating,
+  getThemeRating,
+  loadPuzzleRatings,
+  mergeChainRatings,
+  recordPuzzleAttempt,
+  savePuzzleRatings,
+} from '../../lib/puzzleRating';
+import { loadPuzzlesForRating } from '../../lib/puzzlePacks';
+import { loadReviewQueue, recordPuzzleOutcome, saveReviewQueue } from '../../lib/reviewQueue';
+import { trackActivity } from '../../lib/achievements';
 import styles from './PuzzleTraining.module.css';
 
 interface DailyScore {
@@ -29,6 +45,7 @@ interface DailyScore {
 export default function PuzzleTraining() {
   const { 
     puzzleStats, 
+    themeRatings,
     attemptPuzzle,
     today,
     leaderboardPrizePool,
@@ -37,15 +54,19 @@ export default function PuzzleTraining() {
     addPlayerToLeaderboard
   } = useChessPuzzles();
   
-  const [currentPuzzle, setCurrentPuzzle] = useState<ChessPuzzle | null>(null);
-  const [gameState, setGameState] = useState<GameState | null>(null);
-  const [moveIndex, setMoveIndex] = useState(0);
+  const [session, setSession] = useState<PuzzleSession | null>(null);
+  const [hintSquares, setHintSquares] = useState<number[]>([]);
   const [startTime, setStartTime] = useState<number>(Date.now());
   const [feedback, setFeedback] = useState<string>('');
   const [feedbackType, setFeedbackType] = useState<'success' | 'error' | 'info'>('info');
-  const [isSolved, setIsSolved] = useState(false);
   const [attempts, setAttempts] = useState(0);
-  const [playerRating, setPlayerRating] = useState(1500);
+  const [isReplying, setIsReplying] = useState(false);
+  // Alternative moves, hints and off-line replies are checked by the engine worker
+  const { search, cancel, isThinking } = useChessEngine();
+  const validation = { search };
+  const isBusy = isReplying || isThinking;
+  const [ratings, setRatings] = useState<PuzzleRatingProfile>(createPuzzleRatingProfile);
+  const [packPuzzles, setPackPuzzles] = useState<ChessPuzzle[]>([]);
   const [localStats, setLocalStats] = useState({ solved: 0, attempted: 0, streak: 0 });
   const [dailyRankings, setDailyRankings] = useState<DailyScore[]>([]);
   const [playerDailyScore, setPlayerDailyScore] = useState({ score: 0, puzzles: 0, avgTime: 0 });
@@ -64,16 +85,31 @@ export default function PuzzleTraining() {
     }
   }, []);
 
-  // Load player rating from stats (blockchain or local)
+  // Seed local ratings from the contract when a wallet is connected
   useEffect(() => {
-    if (puzzleStats && puzzleStats[4]) {
-      setPlayerRating(Number(puzzleStats[4]) || 1500);
-    }
+    if (!puzzleStats) return;
+    setRatings((current) => {
+      const merged = mergeChainRatings(current, {
+        totalAttempts: Number(puzzleStats[0]),
+        rating: Number(puzzleStats[4]),
+        themeRatings,
+      });
+      if (merged !== current) savePuzzleRatings(merged);
+      return merged;
+    });
+    // themeRatings is rebuilt on every render; its contents change with puzzleStats
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [puzzleStats]);
 
-  // Load initial puzzle
+  // Load ratings and the initial puzzle
   useEffect(() => {
-    loadNewPuzzle();
+    const saved = loadPuzzleRatings();
+    setRatings(saved);
+    loadNewPuzzle(saved);
+    // Imported puzzle packs near the player's rating join the pool once they arrive
+    loadPuzzlesForRating(saved.overall.rating, saved.overall.deviation * 2)
+      .then(setPackPuzzles)
+      .catch((error) => console.log('Could not load puzzle packs:', error));
     loadDailyLeaderboard();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
@@ -107,104 +143,114 @@ export default function PuzzleTraining() {
     }
   };
 
-  const loadNewPuzzle = () => {
-    let puzzle: ChessPuzzle | undefined;
-    
-    // Try to get puzzle matching player rating
-    puzzle = getPuzzleByRating(playerRating - 200, playerRating + 200);
-    
-    // Fallback to random puzzle
-    if (!puzzle) {
-      puzzle = getRandomPuzzle();
-    }
+  const loadNewPuzzle = (profile: PuzzleRatingProfile = ratings) => {
+    // Choose within the rating deviation, using the puzzles' own updated ratings
+    const puzzle = getPuzzleForRating(
+      profile.overall.rating,
+      profile.overall.deviation,
+      (p) => getPuzzleGlickoRating(profile, p).rating,
+      session?.puzzle.id,
+      [...CHESS_PUZZLES, ...packPuzzles]
+    );
     
-    setCurrentPuzzle(puzzle);
-    setGameState(createStateFromFEN(puzzle.fen));
-    setMoveIndex(0);
+    cancel();
+    setSession(createPuzzleSession(puzzle));
+    setHintSquares([]);
     setFeedback('');
     setFeedbackType('info');
-    setIsSolved(false);
     setStartTime(Date.now());
     setAttempts(0);
   };
 
-  const handleMove = (move: Move) => {
-    if (!currentPuzzle || !gameState || isSolved) return;
-
-    const uciMove = moveToUCI(move);
-    const expectedMove = currentPuzzle.moves[moveIndex];
-
-    // Check if the move is correct
-    if (uciMove === expectedMove) {
-      // Correct move!
-      const newState = makeMove(gameState, move);
-      setGameState(newState);
-      setMoveIndex(moveIndex + 1);
-      setAttempts(attempts + 1);
-
-      // Check if puzzle is complete
-      if (moveIndex + 1 >= currentPuzzle.moves.length) {
-        handlePuzzleSolved();
-      } else {
-        setFeedback(`✓ Correct! Move ${moveIndex + 1}/${currentPuzzle.moves.length}`);
-        setFeedbackType('success');
-        
-        // Auto-play opponent's response if there is one
-        if (moveIndex + 1 < currentPuzzle.moves.length) {
-          setTimeout(() => playOpponentMove(), 500);
-        }
-      }
-    } else {
-      // Wrong move
+  const handleMove = async (move: Move) => {
+    if (!session || session.status !== 'playing' || isBusy) return;
+
+    let result: PuzzleMoveResult;
+    try {
+      result = await submitPuzzleMove(session, move, validation);
+    } catch (error) {
+      console.log('Puzzle move check stopped:', error);
+      return;
+    }
+    setSession(result.session);
+    setAttempts(attempts + 1);
+
+    if (result.verdict === 'incorrect') {
       setFeedback('✗ Not the best move. Try again!');
       setFeedbackType('error');
-      setAttempts(attempts + 1);
-      
-      // Reset to puzzle start after wrong move
-      setTimeout(() => {
-        setGameState(createStateFromFEN(currentPuzzle.fen));
-        setMoveIndex(0);
-        setFeedback('Puzzle reset. Try again!');
-        setFeedbackType('info');
-      }, 1500);
+      return;
+    }
+
+    setHintSquares([]);
+    if (result.session.status === 'solved') {
+      handlePuzzleSolved(result.session);
+      return;
+    }
+
+    setFeedback(result.verdict === 'alternative'
+      ? '✓ Good move! That works too.'
+      : `✓ Correct! Move ${result.session.ply}/${session.puzzle.moves.length}`);
+    setFeedbackType('success');
+
+    // Auto-play the opponent's response
+    if (result.awaitingReply) {
+      setIsReplying(true);
+      setTimeout(() => playOpponentMove(result.session), 500);
     }
   };
 
-  const playOpponentMove = () => {
-    if (!currentPuzzle || !gameState) return;
+  const playOpponentMove = async (current: PuzzleSession) => {
+    let next: PuzzleSession;
+    try {
+      next = await playOpponentReply(current, validation);
+    } catch (error) {
+      console.log('Opponent reply stopped:', error);
+      setIsReplying(false);
+      return;
+    }
+    setSession(next);
+    setIsReplying(false);
 
-    const opponentMoveUCI = currentPuzzle.moves[moveIndex];
-    const move = uciToMove(opponentMoveUCI, gameState);
-    
-    if (move) {
-      const newState = makeMove(gameState, move);
-      setGameState(newState);
-      setMoveIndex(moveIndex + 1);
-      
-      if (moveIndex + 1 < currentPuzzle.moves.length) {
-        setFeedback('Opponent played. Your turn!');
-        setFeedbackType('info');
-      }
+    if (next.status === 'solved') {
+      handlePuzzleSolved(next);
+    } else {
+      setFeedback('Opponent played. Your turn!');
+      setFeedbackType('info');
     }
   };
 
-  const uciToMove = (uci: string, state: GameState): Move | null => {
-    const from = (8 - parseInt(uci[1])) * 8 + (uci.charCodeAt(0) - 97);
-    const to = (8 - parseInt(uci[3])) * 8 + (uci.charCodeAt(2) - 97);
-    
-    return {
-      from,
-      to,
-      piece: state.board[from],
-      capturedPiece: state.board[to]
-    };
+  // Rate an attempt; a solve only counts as a win without mistakes or hints
+  const ratePuzzleAttempt = (finished: PuzzleSession, won: boolean): number => {
+    const result = recordPuzzleAttempt(ratings, finished.puzzle, won);
+    setRatings(result.profile);
+    savePuzzleRatings(result.profile);
+    return result.ratingChange;
   };
 
-  const handlePuzzleSolved = async () => {
-    setIsSolved(true);
+  // Missed puzzles join the review queue; queued ones are rescheduled by the new result
+  const queueForReview = (finished: PuzzleSession, solved: boolean) => {
+    const queue = recordPuzzleOutcome(loadReviewQueue(), finished.puzzle, {
+      solved,
+      mistakes: finished.mistakes,
+      hintsUsed: finished.hintsUsed,
+      timeMs: Date.now() - startTime,
+    });
+    saveReviewQueue(queue);
+  };
+
+  const formatRatingChange = (change: number) =>
+    `${change >= 0 ? '+' : ''}${Math.round(change)}`;
+
+  const handlePuzzleSolved = async (solved: PuzzleSession) => {
+    const currentPuzzle = solved.puzzle;
     const timeSpent = Math.floor((Date.now() - startTime) / 1000);
+    const clean = solved.mistakes === 0 && solved.hintsUsed === 0;
+    const ratingChange = ratePuzzleAttempt(solved, clean);
+    queueForReview(solved, true);
     
-    setFeedback('🎉 Puzzle solved! Excellent!');
+    const unlocks = trackActivity({ type: 'puzzle', theme: currentPuzzle.theme });
+    setFeedback(`🎉 Puzzle solved! Rating ${formatRatingChange(ratingChange)}` +
+      unlocks.map(event => ` 🏆 ${event.name} unlocked!`).join(''));
     setFeedbackType('success');
 
     // Update local stats
@@ -216,9 +262,9 @@ export default function PuzzleTraining() {
     setLocalStats(newStats);
     localStorage.setItem('puzzleStats', JSON.stringify(newStats));
 
-    // Try to submit to blockchain (optional)
+    // Try to submit to blockchain (optional); imported puzzles are not registered on-chain
     try {
-      if (currentPuzzle && attemptPuzzle) {
+      if (attemptPuzzle && !currentPuzzle.source) {
         await attemptPuzzle(
           currentPuzzle.id, 
           currentPuzzle.moves, 
@@ -239,28 +285,52 @@ export default function PuzzleTraining() {
     }
   };
 
-  const showHint = () => {
-    if (!currentPuzzle || isSolved) return;
-    
-    const nextMove = currentPuzzle.moves[moveIndex];
-    const fromSquare = nextMove.slice(0, 2);
-    const toSquare = nextMove.slice(2, 4);
-    
-    setFeedback(`💡 Hint: Move from ${fromSquare} to ${toSquare}`);
+  // First hint shows the piece to move, the second also shows where it goes
+  const showHint = async () => {
+    if (!session || isBusy) return;
+
+    let hint;
+    try {
+      hint = await getPuzzleHint(session, validation);
+    } catch (error) {
+      console.log('Hint search stopped:', error);
+      return;
+    }
+    if (!hint) return;
+
+    setSession(hint.session);
+    if (hint.to === null) {
+      setHintSquares([hint.from]);
+      setFeedback(`💡 Hint: Move the piece on ${squareToAlgebraic(hint.from)}`);
+    } else {
+      setHintSquares([hint.from, hint.to]);
+      setFeedback(`💡 Hint: ${squareToAlgebraic(hint.from)} to ${squareToAlgebraic(hint.to)}`);
+    }
     setFeedbackType('info');
   };
 
   const skipPuzzle = () => {
-    loadNewPuzzle();
+    // Giving up after a mistake or hint counts as a failed attempt
+    let profile = ratings;
+    if (session && session.status === 'playing' && (session.mistakes > 0 || session.hintsUsed > 0)) {
+      profile = recordPuzzleAttempt(ratings, session.puzzle, false).profile;
+      setRatings(profile);
+      savePuzzleRatings(profile);
+      queueForReview(session, false);
+    }
+    loadNewPuzzle(profile);
     setFeedback('Puzzle skipped. Try this one!');
     setFeedbackType('info');
   };
 
-  if (!currentPuzzle || !gameState) {
+  if (!session) {
     return <div className={styles.loading}>Loading puzzle...</div>;
   }
 
-  const playerColor = gameState.isWhiteTurn ? 'white' : 'black';
+  const { puzzle: currentPuzzle, state: gameState } = session;
+  const isSolved = session.status === 'solved';
+  // The solver plays the side to move in the starting position
+  const playerColor = currentPuzzle.fen.split(' ')[1] === 'b' ? 'black' : 'white';
 
   return (
     <div className={styles.puzzleTraining}>
@@ -269,7 +339,10 @@ export default function PuzzleTraining() {
         <div className={styles.stats}>
           <div className={styles.statBox}>
             <span className={styles.statLabel}>Rating</span>
-            <span className={styles.statValue}>{playerRating}</span>
+            <span className={styles.statValue}>
+              {Math.round(ratings.overall.rating)}
+              <small className={styles.deviation}> ±{Math.round(ratings.overall.deviation * 2)}</small>
+            </span>
           </div>
           <div className={styles.statBox}>
             <span className={styles.statLabel}>Solved</span>
@@ -291,7 +364,10 @@ export default function PuzzleTraining() {
           <div className={styles.infoBadge}>
             <span className={styles.theme}>{PUZZLE_THEMES[currentPuzzle.theme]}</span>
             <span className={styles.difficulty}>{PUZZLE_DIFFICULTIES[currentPuzzle.difficulty]}</span>
-            <span className={styles.rating}>⚡ {currentPuzzle.rating}</span>
+            <span className={styles.rating}>⚡ {Math.round(getPuzzleGlickoRating(ratings, currentPuzzle).rating)}</span>
+            <span className={styles.themeRating}>
+              Your {PUZZLE_THEMES[currentPuzzle.theme]} rating: {Math.round(getThemeRating(ratings, currentPuzzle.theme).rating)}
+            </span>
           </div>
           
           <div className={styles.instructions}>
@@ -300,7 +376,7 @@ export default function PuzzleTraining() {
               {playerColor === 'white' ? '♔' : '♚'} {playerColor === 'white' ? 'White' : 'Black'} to move
             </p>
             <p className={styles.progress}>
-              Move {moveIndex + 1} of {currentPuzzle.moves.length}
+              Move {Math.min(session.ply + 1, currentPuzzle.moves.length)} of {currentPuzzle.moves.length}
             </p>
           </div>
         </div>
@@ -309,9 +385,11 @@ export default function PuzzleTraining() {
           <PuzzleBoard
             gameState={gameState}
             onMove={handleMove}
-            disabled={isSolved}
+            disabled={isSolved || isBusy}
+            lastMove={session.lastMove}
             highlightLegalMoves={true}
             playerColor={playerColor}
+            hintSquares={hintSquares}
           />
         </div>
 
@@ -326,19 +404,20 @@ export default function PuzzleTraining() {
             <button 
               className={styles.hintButton} 
               onClick={showHint}
-              disabled={isSolved}
+              disabled={isSolved || isBusy}
             >
               💡 Hint
             </button>
             <button 
               className={styles.skipButton} 
               onClick={skipPuzzle}
+              disabled={isReplying}
             >
               Skip Puzzle
             </button>
             <button 
               className={styles.nextButton} 
-              onClick={loadNewPuzzle}
+              onClick={() => loadNewPuzzle()}
               disabled={!isSolved}
             >
               Next Puzzle →
@@ -0,0 +1,247 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import PuzzleBoard from '../chess/PuzzleBoard';
+import { useChessEngine } from '../../hooks/useChessEngine';
+import { Move, squareToAlgebraic } from '../../lib/chessEngine';
+import {
+  PuzzleMoveResult,
+  PuzzleSession,
+  createPuzzleSession,
+  submitPuzzleMove,
+  playOpponentReply,
+  getPuzzleHint,
+} from '../../lib/puzzleRuntime';
+import {
+  ReviewQueue,
+  ReviewQuality,
+  createReviewQueue,
+  addLessonReviews,
+  getDueItems,
+  getNextDueAt,
+  getReviewQuality,
+  isLessonReviewItem,
+  recordReview,
+  loadCompletedLessonIds,
+  loadReviewQueue,
+  saveReviewQueue,
+} from '../../lib/reviewQueue';
+import styles from './ReviewSession.module.css';
+
+const REPLY_DELAY_MS = 500;
+
+const QUALITY_LABELS: { [quality in ReviewQuality]: string } = {
+  0: 'Forgotten',
+  1: 'Missed',
+  2: 'Needed a hint',
+  3: 'Shaky',
+  4: 'Good',
+  5: 'Perfect',
+};
+
+function formatDue(dueAt: number, now: number): string {
+  const hours = Math.max(0, Math.round((dueAt - now) / (60 * 60 * 1000)));
+  if (hours < 24) return `in ${hours}h`;
+  return `in ${Math.round(hours / 24)}d`;
+}
+
+export default function ReviewSession() {
+  const [queue, setQueue] = useState<ReviewQueue>(createReviewQueue);
+  // Keys due when the session started; items failed again wait for their next interval
+  const [dueKeys, setDueKeys] = useState<string[]>([]);
+  const [index, setIndex] = useState(0);
+  const [session, setSession] = useState<PuzzleSession | null>(null);
+  const [hintSquares, setHintSquares] = useState<number[]>([]);
+  const [startTime, setStartTime] = useState(Date.now());
+  const [isReplying, setIsReplying] = useState(false);
+  const [feedback, setFeedback] = useState('');
+  const [grade, setGrade] = useState<ReviewQuality | null>(null);
+  // Alternative moves, hints and off-line replies are checked by the engine worker
+  const { search, isThinking } = useChessEngine();
+  const isBusy = isReplying || isThinking;
+
+  useEffect(() => {
+    const loaded = addLessonReviews(loadReviewQueue(), loadCompletedLessonIds());
+    saveReviewQueue(loaded);
+    setQueue(loaded);
+    setDueKeys(getDueItems(loaded).map(item => item.key));
+  }, []);
+
+  const currentKey = dueKeys[index];
+  const currentItem = currentKey ? queue.items[currentKey] : undefined;
+  const isReviewing = session !== null && grade === null;
+  const validation = { search, requireMate: !!currentItem && isLessonReviewItem(currentItem) };
+
+  const startItem = (key: string | undefined) => {
+    const item = key ? queue.items[key] : undefined;
+    setSession(item ? createPuzzleSession(item.puzzle) : null);
+    setHintSquares([]);
+    setFeedback('');
+    setGrade(null);
+    setStartTime(Date.now());
+  };
+
+  const finishItem = (finished: PuzzleSession, solved: boolean) => {
+    if (!currentKey) return;
+    const quality = getReviewQuality({
+      solved,
+      mistakes: finished.mistakes,
+      hintsUsed: finished.hintsUsed,
+      timeMs: Date.now() - startTime,
+    });
+    const next = recordReview(queue, currentKey, quality);
+    saveReviewQueue(next);
+    setQueue(next);
+    setGrade(quality);
+    setHintSquares([]);
+  };
+
+  const handleMove = async (move: Move) => {
+    if (!session || !isReviewing || isBusy) return;
+
+    let result: PuzzleMoveResult;
+    try {
+      result = await submitPuzzleMove(session, move, validation);
+    } catch (error) {
+      console.log('Puzzle move check stopped:', error);
+      return;
+    }
+    setSession(result.session);
+
+    if (result.verdict === 'incorrect') {
+      setFeedback('✗ Not quite. Try again!');
+      return;
+    }
+
+    setHintSquares([]);
+    if (result.session.status === 'solved') {
+      setFeedback('✓ Solved!');
+      finishItem(result.session, true);
+      return;
+    }
+
+    setFeedback('✓ Correct, keep going.');
+    if (result.awaitingReply) {
+      setIsReplying(true);
+      setTimeout(() => {
+        playOpponentReply(result.session, validation)
+          .then((next) => {
+            setSession(next);
+            if (next.status === 'solved') {
+              setFeedback('✓ Solved!');
+              finishItem(next, true);
+            }
+          })
+          .catch((error) => console.log('Opponent reply stopped:', error))
+          .finally(() => setIsReplying(false));
+      }, REPLY_DELAY_MS);
+    }
+  };
+
+  const showHint = async () => {
+    if (!session || !isReviewing || isBusy) return;
+    let hint;
+    try {
+      hint = await getPuzzleHint(session, validation);
+    } catch (error) {
+      console.log('Hint search stopped:', error);
+      return;
+    }
+    if (!hint) return;
+
+    setSession(hint.session);
+    setHintSquares(hint.to === null ? [hint.from] : [hint.from, hint.to]);
+    setFeedback(hint.to === null
+      ? `💡 Move the piece on ${squareToAlgebraic(hint.from)}`
+      : `💡 ${squareToAlgebraic(hint.from)} to ${squareToAlgebraic(hint.to)}`);
+  };
+
+  const giveUp = () => {
+    if (!session || !isReviewing || isBusy) return;
+    // After an accepted alternative the stored line no longer applies, so there is no answer to show
+    const answer = session.onSolution ? session.puzzle.moves[session.ply] : undefined;
+    setFeedback(answer ? `The answer was ${answer}.` : 'Your line left the stored solution.');
+    finishItem(session, false);
+  };
+
+  const nextItem = () => {
+    setIndex(index + 1);
+    startItem(dueKeys[index + 1]);
+  };
+
+  const now = Date.now();
+  const nextDueAt = getNextDueAt(queue);
+  const total = Object.keys(queue.items).length;
+
+  // Overview before starting, and once every due item is done
+  if (!session || !currentItem) {
+    const remaining = dueKeys.length - index;
+    return (
+      <div className={styles.container}>
+        <h1 className={styles.title}>Review</h1>
+        <div className={styles.summary}>
+          <div className={styles.stat}>
+            <span className={styles.statLabel}>Due</span>
+            <span className={styles.statValue}>{remaining}</span>
+          </div>
+          <div className={styles.stat}>
+            <span className={styles.statLabel}>In queue</span>
+            <span className={styles.statValue}>{total}</span>
+          </div>
+        </div>
+        {remaining > 0 ? (
+          <button className={styles.primaryButton} onClick={() => startItem(currentKey)}>
+            Review due ({remaining})
+          </button>
+        ) : (
+          <p className={styles.empty}>
+            {total === 0
+              ? 'Nothing to review yet. Missed puzzles and completed lessons show up here.'
+              : `All caught up! Next review ${nextDueAt !== null ? formatDue(nextDueAt, now) : 'soon'}.`}
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  const { puzzle } = session;
+  const playerColor = puzzle.fen.split(' ')[1] === 'b' ? 'black' : 'white';
+
+  return (
+    <div className={styles.container}>
+      <div className={styles.header}>
+        <span className={styles.progress}>{index + 1} / {dueKeys.length}</span>
+        {currentItem.lapses > 0 && <span className={styles.lapses}>Missed {currentItem.lapses}×</span>}
+      </div>
+      <p className={styles.prompt}>{puzzle.description}</p>
+
+      <PuzzleBoard
+        gameState={session.state}
+        onMove={handleMove}
+        disabled={!isReviewing || isBusy}
+        lastMove={session.lastMove}
+        playerColor={playerColor}
+        hintSquares={hintSquares}
+      />
+
+      {feedback && <p className={styles.feedback}>{feedback}</p>}
+
+      {grade === null ? (
+        <div className={styles.actions}>
+          <button className={styles.secondaryButton} onClick={showHint} disabled={isBusy}>💡 Hint</button>
+          <button className={styles.secondaryButton} onClick={giveUp} disabled={isBusy}>Show answer</button>
+        </div>
+      ) : (
+        <div className={styles.result}>
+          <span className={styles.grade}>{QUALITY_LABELS[grade]}</span>
+          <span className={styles.nextDue}>
+            Next review {formatDue(queue.items[currentKey].dueAt, now)}
+          </span>
+          <button className={styles.primaryButton} onClick={nextItem}>
+            {index + 1 < dueKeys.length ? 'Next →' : 'Finish'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
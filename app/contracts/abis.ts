@@ -18,7 +18,8 @@ export const CHESS_ABI = [
       { name: "gameId", type: "uint256", indexed: true },
       { name: "player", type: "address", indexed: true },
       { name: "fromPos", type: "uint8", indexed: false },
-      { name: "toPos", type: "uint8", indexed: false }
+      { name: "toPos", type: "uint8", indexed: false },
+      { name: "moveHash", type: "bytes32", indexed: false }
     ]
   },
   {
@@ -37,6 +38,34 @@ export const CHESS_ABI = [
       { name: "winner", type: "address", indexed: false }
     ]
   },
+  {
+    type: "event",
+    name: "TimeoutClaimed",
+    inputs: [
+      { name: "gameId", type: "uint256", indexed: true },
+      { name: "claimant", type: "address", indexed: true },
+      { name: "payableAt", type: "uint256", indexed: false }
+    ]
+  },
+  {
+    type: "event",
+    name: "SignedGameSettled",
+    inputs: [
+      { name: "gameId", type: "uint256", indexed: true },
+      { name: "result", type: "uint8", indexed: false },
+      { name: "moveCount", type: "uint256", indexed: false },
+      { name: "transcriptHash", type: "bytes32", indexed: false }
+    ]
+  },
+  {
+    type: "event",
+    name: "ConflictingMoveProven",
+    inputs: [
+      { name: "gameId", type: "uint256", indexed: true },
+      { name: "player", type: "address", indexed: true },
+      { name: "ply", type: "uint256", indexed: false }
+    ]
+  },
 
   // State Variables
   {
@@ -76,6 +105,27 @@ export const CHESS_ABI = [
     ],
     stateMutability: "view"
   },
+  {
+    type: "function",
+    name: "transcriptHashes",
+    inputs: [{ name: "gameId", type: "uint256" }],
+    outputs: [{ name: "", type: "bytes32" }],
+    stateMutability: "view"
+  },
+  {
+    type: "function",
+    name: "timeoutClaims",
+    inputs: [{ name: "gameId", type: "uint256" }],
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view"
+  },
+  {
+    type: "function",
+    name: "domainSeparator",
+    inputs: [],
+    outputs: [{ name: "", type: "bytes32" }],
+    stateMutability: "view"
+  },
   {
     type: "function",
     name: "playerGames",
@@ -125,6 +175,67 @@ export const CHESS_ABI = [
     outputs: [],
     stateMutability: "nonpayable"
   },
+  {
+    type: "function",
+    name: "settleSignedGame",
+    inputs: [
+      { name: "gameId", type: "uint256" },
+      { name: "result", type: "uint8" },
+      { name: "moveCount", type: "uint256" },
+      { name: "transcriptHash", type: "bytes32" },
+      { name: "deadline", type: "uint256" },
+      { name: "whiteSignature", type: "bytes" },
+      { name: "blackSignature", type: "bytes" }
+    ],
+    outputs: [],
+    stateMutability: "nonpayable"
+  },
+  {
+    type: "function",
+    name: "submitSignedMoves",
+    inputs: [
+      { name: "gameId", type: "uint256" },
+      {
+        name: "moves",
+        type: "tuple[]",
+        components: [
+          { name: "fromPos", type: "uint8" },
+          { name: "toPos", type: "uint8" },
+          { name: "signature", type: "bytes" }
+        ]
+      }
+    ],
+    outputs: [],
+    stateMutability: "nonpayable"
+  },
+  {
+    type: "function",
+    name: "proveConflictingMove",
+    inputs: [
+      { name: "gameId", type: "uint256" },
+      { name: "ply", type: "uint256" },
+      {
+        name: "move",
+        type: "tuple",
+        components: [
+          { name: "fromPos", type: "uint8" },
+          { name: "toPos", type: "uint8" },
+          { name: "signature", type: "bytes" }
+        ]
+      },
+      { name: "prevHash", type: "bytes32" },
+      {
+        name: "playedMoves",
+        type: "tuple[]",
+        components: [
+          { name: "fromPos", type: "uint8" },
+          { name: "toPos", type: "uint8" }
+        ]
+      }
+    ],
+    outputs: [],
+    stateMutability: "nonpayable"
+  },
   {
     type: "function",
     name: "claimTimeout",
@@ -286,6 +397,16 @@ export const CHESS_FACTORY_ABI = [
 
 // ChessAcademy Contract ABI
 export const CHESS_ACADEMY_ABI = [
+  // Events
+  {
+    type: "event",
+    name: "AchievementUnlocked",
+    inputs: [
+      { name: "player", type: "address", indexed: true },
+      { name: "achievementId", type: "uint256", indexed: true },
+      { name: "name", type: "string", indexed: false }
+    ]
+  },
   {
     type: "function",
     name: "getPlayerStats",
@@ -459,6 +580,16 @@ export const CHESS_PUZZLES_ABI = [
     ],
     stateMutability: "view"
   },
+  {
+    type: "function",
+    name: "getThemeRating",
+    inputs: [
+      { name: "player", type: "address" },
+      { name: "theme", type: "uint8" }
+    ],
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view"
+  },
   {
     type: "function",
     name: "createPuzzle",
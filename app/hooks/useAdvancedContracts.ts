@@ -1,7 +1,11 @@
 // Advanced smart contract hooks for learning features
-import { useAccount, useReadContract, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
+import { useAccount, usePublicClient, useReadContract, useReadContracts, useWriteContract, useWaitForTransactionReceipt, useWatchContractEvent } from 'wagmi';
 import { CHESS_ACADEMY_ADDRESS, CHESS_COACH_ADDRESS, CHESS_PUZZLES_ADDRESS } from '../contracts/addresses';
 import { CHESS_ACADEMY_ABI, CHESS_COACH_ABI, CHESS_PUZZLES_ABI } from '../contracts/abis';
+import { GameAnalysis, toAnalysisSubmission } from '../lib/gameAnalysis';
+import { PUZZLE_THEMES } from '../lib/puzzleData';
+import { applyChainUnlock, emitAchievementUnlocked, loadActivityLog, saveActivityLog } from '../lib/achievements';
+import { recordGameMistakes } from '../lib/recommendations';
 
 // ChessAcademy Hook
 export function useChessAcademy() {
@@ -25,6 +29,29 @@ export function useChessAcademy() {
     args: address ? [address] : undefined,
   });
 
+  // Mirror the player's on-chain unlocks into the local achievement log
+  useWatchContractEvent({
+    address: CHESS_ACADEMY_ADDRESS,
+    abi: CHESS_ACADEMY_ABI,
+    eventName: 'AchievementUnlocked',
+    args: address ? { player: address } : undefined,
+    enabled: !!address,
+    onLogs(logs) {
+      let activity = loadActivityLog();
+      logs.forEach(({ args }) => {
+        if (!args.player || args.achievementId === undefined || !args.name) return;
+        const result = applyChainUnlock(activity, {
+          player: args.player,
+          achievementId: args.achievementId,
+          name: args.name,
+        });
+        activity = result.log;
+        if (result.event) emitAchievementUnlocked([result.event]);
+      });
+      saveActivityLog(activity);
+    },
+  });
+
   // Complete a lesson
   const completeLesson = async (lessonId: number) => {
     return writeContract({
@@ -59,11 +86,32 @@ export function useChessAcademy() {
     });
   };
 
+  // Submit one side of an analyzeGame result
+  const submitAnalyzedGame = async (
+    gameId: number,
+    player: `0x${string}`,
+    analysis: GameAnalysis,
+    isWhite: boolean
+  ) => {
+    const submission = toAnalysisSubmission(analysis, isWhite);
+    // Keep the mistakes locally so lesson recommendations can target them
+    recordGameMistakes(analysis, isWhite, `online-${gameId}`);
+    return submitGameAnalysis(
+      gameId,
+      player,
+      submission.skillChanges,
+      submission.weaknesses,
+      submission.strengths,
+      submission.accuracyScore
+    );
+  };
+
   return {
     playerStats,
     skillLevels,
     completeLesson,
     submitGameAnalysis,
+    submitAnalyzedGame,
     isLoading,
     isSuccess,
   };
@@ -157,7 +205,8 @@ export function useChessCoach() {
 // ChessPuzzles Hook
 export function useChessPuzzles() {
   const { address } = useAccount();
-  const { writeContract, data: hash } = useWriteContract();
+  const { writeContract, writeContractAsync, data: hash } = useWriteContract();
+  const publicClient = usePublicClient();
   const { isLoading, isSuccess } = useWaitForTransactionReceipt({ hash });
 
   // Get player stats
@@ -168,6 +217,21 @@ export function useChessPuzzles() {
     args: address ? [address] : undefined,
   });
 
+  // Get player rating for every puzzle theme
+  const { data: themeRatingResults } = useReadContracts({
+    contracts: address
+      ? PUZZLE_THEMES.map((_, theme) => ({
+          address: CHESS_PUZZLES_ADDRESS,
+          abi: CHESS_PUZZLES_ABI,
+          functionName: 'getThemeRating' as const,
+          args: [address, theme] as const,
+        }))
+      : [],
+  });
+  const themeRatings = themeRatingResults?.map(result =>
+    result.status === 'success' ? Number(result.result) : undefined
+  );
+
   // Get puzzle
   const { data: puzzle, refetch: refetchPuzzle } = useReadContract({
     address: CHESS_PUZZLES_ADDRESS,
@@ -253,6 +317,57 @@ export function useChessPuzzles() {
     });
   };
 
+  // Record the puzzles a rush run solved that the player has not solved on-chain before; solved ones
+  // add nothing to the daily score, so they are skipped. The rush score itself is not kept on-chain.
+  // Transactions are sent one at a time so each wallet prompt follows the previous one, and the
+  // leaderboard is only updated once the player has a daily score
+  const submitRushRun = async (
+    results: { puzzleId: number; moves: string[]; timeSpent: number }[],
+    day: number
+  ): Promise<{ submitted: number; skipped: number }> => {
+    if (!address || !publicClient) throw new Error('Wallet not connected');
+    const unique = [...new Map(results.map(result => [result.puzzleId, result])).values()];
+    const unsolved: typeof unique = [];
+    for (const result of unique) {
+      const solved = await publicClient.readContract({
+        address: CHESS_PUZZLES_ADDRESS,
+        abi: CHESS_PUZZLES_ABI,
+        functionName: 'hasSolvedPuzzle',
+        args: [address, BigInt(result.puzzleId)],
+      });
+      if (!solved) unsolved.push(result);
+    }
+
+    for (const result of unsolved) {
+      const txHash = await writeContractAsync({
+        address: CHESS_PUZZLES_ADDRESS,
+        abi: CHESS_PUZZLES_ABI,
+        functionName: 'attemptPuzzle',
+        args: [BigInt(result.puzzleId), result.moves, BigInt(result.timeSpent)],
+      });
+      await publicClient.waitForTransactionReceipt({ hash: txHash });
+    }
+
+    if (unsolved.length > 0 && day) {
+      // Moves the contract does not accept as its stored solution score nothing
+      const [score] = await publicClient.readContract({
+        address: CHESS_PUZZLES_ADDRESS,
+        abi: CHESS_PUZZLES_ABI,
+        functionName: 'getPlayerDailyScore',
+        args: [BigInt(day), address],
+      });
+      if (score > BigInt(0)) {
+        await writeContractAsync({
+          address: CHESS_PUZZLES_ADDRESS,
+          abi: CHESS_PUZZLES_ABI,
+          functionName: 'addPlayerToLeaderboard',
+          args: [BigInt(day), address],
+        });
+      }
+    }
+    return { submitted: unsolved.length, skipped: unique.length - unsolved.length };
+  };
+
   // Fund leaderboard prize pool
   const fundLeaderboardPrizePool = async (value: bigint) => {
     return writeContract({
@@ -275,6 +390,7 @@ export function useChessPuzzles() {
 
   return {
     puzzleStats,
+    themeRatings,
     puzzle,
     hasSolved,
     today,
@@ -285,6 +401,7 @@ export function useChessPuzzles() {
     getDailyRankings,
     getPlayerDailyScore,
     addPlayerToLeaderboard,
+    submitRushRun,
     fundLeaderboardPrizePool,
     distributeDailyRewards,
     isLoading,
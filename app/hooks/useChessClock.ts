@@ -0,0 +1,77 @@
+"use client";
+import { useState, useEffect, useRef } from 'react';
+import {
+  ChessClock,
+  ClockColor,
+  TimeControl,
+  checkFlag,
+  createClock,
+  getRemainingMs,
+  pauseClock,
+  pressClock,
+  resumeClock,
+  setClockTurn,
+  stopClock,
+} from '../lib/chessClock';
+
+const TICK_MS = 100;
+
+interface ClockGame {
+  moveCount: number;
+  isWhiteTurn: boolean;
+  isGameOver: boolean;
+  paused?: boolean; // e.g. while an on-chain move is waiting for confirmation
+}
+
+// Runs a chess clock alongside a game: a new move presses the clock, a takeback hands the turn back,
+// a new game or time control resets it and the clock stops once the game is over
+export function useChessClock(control: TimeControl, { moveCount, isWhiteTurn, isGameOver, paused = false }: ClockGame) {
+  const [clock, setClock] = useState<ChessClock>(() => createClock(control));
+  const [now, setNow] = useState(() => Date.now());
+  const moveCountRef = useRef(moveCount);
+
+  // A new game or time control starts a fresh clock
+  const isNewGame = moveCount === 0;
+  useEffect(() => {
+    if (isNewGame) setClock(createClock(control));
+  }, [control, isNewGame]);
+
+  // Follow the game's moves
+  useEffect(() => {
+    const previous = moveCountRef.current;
+    moveCountRef.current = moveCount;
+    if (moveCount === previous || moveCount === 0) return;
+
+    const toMove: ClockColor = isWhiteTurn ? 'white' : 'black';
+    const mover: ClockColor = isWhiteTurn ? 'black' : 'white';
+    setClock(current => moveCount === previous + 1
+      ? pressClock(current, mover)
+      : setClockTurn(current, toMove));
+  }, [moveCount, isWhiteTurn]);
+
+  useEffect(() => {
+    if (isGameOver) setClock(current => stopClock(current));
+  }, [isGameOver]);
+
+  useEffect(() => {
+    setClock(current => (paused ? pauseClock(current) : resumeClock(current)));
+  }, [paused]);
+
+  // Tick while a side's time is running
+  const running = clock.active !== null && !clock.paused;
+  useEffect(() => {
+    if (!running) return;
+    const interval = setInterval(() => {
+      setNow(Date.now());
+      setClock(current => checkFlag(current));
+    }, TICK_MS);
+    return () => clearInterval(interval);
+  }, [running]);
+
+  return {
+    clock,
+    whiteMs: getRemainingMs(clock, 'white', now),
+    blackMs: getRemainingMs(clock, 'black', now),
+    flagged: clock.flagged,
+  };
+}
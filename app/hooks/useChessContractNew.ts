@@ -6,7 +6,7 @@ import {
   useWalletClient,
   useChainId 
 } from 'wagmi';
-import { parseEther, formatEther } from 'viem';
+import { parseEther, formatEther, Hex } from 'viem';
 import { CHESS_ABI, CHESS_FACTORY_ABI } from '../contracts/abis';
 import { getContractAddresses } from '../contracts/addresses';
 
@@ -29,6 +29,7 @@ export interface OnChainGameState {
   moveCount: number;
   startTime?: number;
   lastMoveTime?: number;
+  timeoutClaimedAt?: number; // Pending claimTimeout, unset once a later move voids it
 }
 
 export interface OpenGame {
@@ -227,8 +228,154 @@ export function useChessContract() {
     }
   }, [walletClient, address, publicClient, getAddresses]);
 
-  // Get game state from contract
-  const getGameInfo = useCallback(async (gameId: number): Promise<OnChainGameState | null> => {
+  // Settle a signed-move game with a result both players signed
+  const settleSignedGame = useCallback(async (
+    gameId: number,
+    result: number,
+    moveCount: number,
+    transcriptHash: Hex,
+    deadline: number,
+    whiteSignature: Hex,
+    blackSignature: Hex
+  ) => {
+    if (!walletClient || !address) {
+      return { success: false, error: 'Wallet not connected' };
+    }
+
+    setLoading(true);
+    setError(null);
+    
+    try {
+      const addresses = getAddresses();
+
+      const hash = await walletClient.writeContract({
+        address: addresses.chess,
+        abi: CHESS_ABI,
+        functionName: 'settleSignedGame',
+        args: [BigInt(gameId), result, BigInt(moveCount), transcriptHash, BigInt(deadline), whiteSignature, blackSignature],
+      });
+
+      await publicClient?.waitForTransactionReceipt({ hash });
+
+      return {
+        success: true,
+        txHash: hash,
+        message: 'Game settled successfully'
+      };
+    } catch (err: unknown) {
+      const contractError = err as ContractError;
+      const errorMessage = contractError.shortMessage || contractError.message || 'Failed to settle game';
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    } finally {
+      setLoading(false);
+    }
+  }, [walletClient, address, publicClient, getAddresses]);
+
+  // Dispute a signed-move game by playing its signed moves on-chain
+  const submitSignedMoves = useCallback(async (
+    gameId: number,
+    moves: { fromPos: number; toPos: number; signature: Hex }[]
+  ) => {
+    if (!walletClient || !address) {
+      return { success: false, error: 'Wallet not connected' };
+    }
+
+    setLoading(true);
+    setError(null);
+    
+    try {
+      const addresses = getAddresses();
+
+      const hash = await walletClient.writeContract({
+        address: addresses.chess,
+        abi: CHESS_ABI,
+        functionName: 'submitSignedMoves',
+        args: [BigInt(gameId), moves],
+      });
+
+      await publicClient?.waitForTransactionReceipt({ hash });
+
+      return {
+        success: true,
+        txHash: hash,
+        message: 'Signed moves submitted'
+      };
+    } catch (err: unknown) {
+      const contractError = err as ContractError;
+      const errorMessage = contractError.shortMessage || contractError.message || 'Failed to submit signed moves';
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    } finally {
+      setLoading(false);
+    }
+  }, [walletClient, address, publicClient, getAddresses]);
+
+  // Claim a game whose opponent played a move on-chain after signing a different one for that ply
+  const proveConflictingMove = useCallback(async (
+    gameId: number,
+    ply: number,
+    move: { fromPos: number; toPos: number; signature: Hex },
+    prevHash: Hex,
+    playedMoves: { fromPos: number; toPos: number }[]
+  ) => {
+    if (!walletClient || !address) {
+      return { success: false, error: 'Wallet not connected' };
+    }
+
+    setLoading(true);
+    setError(null);
+    
+    try {
+      const addresses = getAddresses();
+
+      const hash = await walletClient.writeContract({
+        address: addresses.chess,
+        abi: CHESS_ABI,
+        functionName: 'proveConflictingMove',
+        args: [BigInt(gameId), BigInt(ply), move, prevHash, playedMoves],
+      });
+
+      await publicClient?.waitForTransactionReceipt({ hash });
+
+      return {
+        success: true,
+        txHash: hash,
+        message: 'Conflicting move proven'
+      };
+    } catch (err: unknown) {
+      const contractError = err as ContractError;
+      const errorMessage = contractError.shortMessage || contractError.message || 'Failed to prove conflicting move';
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    } finally {
+      setLoading(false);
+    }
+  }, [walletClient, address, publicClient, getAddresses]);
+
+  // Hash of the game's latest on-chain move, which signed moves continue from
+  const getTranscriptHash = useCallback(async (gameId: number): Promise<Hex | null> => {
+    if (!publicClient) {
+      return null;
+    }
+
+    try {
+      const addresses = getAddresses();
+
+      return await publicClient.readContract({
+        address: addresses.chess,
+        abi: CHESS_ABI,
+        functionName: 'transcriptHashes',
+        args: [BigInt(gameId)],
+      });
+    } catch (err: unknown) {
+      console.error('Failed to get transcript hash:', err);
+      return null;
+    }
+  }, [publicClient, getAddresses]);
+
+  // Get game state from contract, optionally as of a given block
+  const getGameInfo = useCallback(async (gameId: number, blockNumber?: bigint): Promise<OnChainGameState | null> => {
     if (!publicClient) {
       return null;
     }
@@ -246,10 +393,29 @@ export function useChessContract() {
         abi: CHESS_ABI,
         functionName: 'getGameState',
         args: [BigInt(gameId)],
+        blockNumber,
       }) as unknown as [string, string, readonly number[], boolean, number, bigint, bigint];
 
       const [whitePlayer, blackPlayer, board, whiteTurn, state, wager, moveCount] = result;
 
+      // The public games getter has the timestamps claimTimeout checks
+      const game = await publicClient.readContract({
+        address: addresses.chess,
+        abi: CHESS_ABI,
+        functionName: 'games',
+        args: [BigInt(gameId)],
+        blockNumber,
+      }) as unknown as readonly unknown[];
+      const lastMoveTime = Number(game[6] as bigint);
+
+      const timeoutClaimedAt = Number(await publicClient.readContract({
+        address: addresses.chess,
+        abi: CHESS_ABI,
+        functionName: 'timeoutClaims',
+        args: [BigInt(gameId)],
+        blockNumber,
+      }));
+
       return {
         whitePlayer,
         blackPlayer,
@@ -258,6 +424,9 @@ export function useChessContract() {
         state: state as GameState,
         wager: formatEther(wager),
         moveCount: Number(moveCount),
+        startTime: Number(game[5] as bigint),
+        lastMoveTime,
+        timeoutClaimedAt: timeoutClaimedAt > lastMoveTime ? timeoutClaimedAt : undefined,
       };
     } catch (err: unknown) {
       console.error('Failed to get game info:', err);
@@ -528,12 +697,16 @@ export function useChessContract() {
     offerDraw,
     acceptDraw,
     resign,
+    settleSignedGame,
+    submitSignedMoves,
+    proveConflictingMove,
     
     // Read functions
     getGameInfo,
     getBoard,
     getOpenGames,
     getPlayerGames,
+    getTranscriptHash,
     
     // Contract addresses
     getContractAddresses: getAddresses,
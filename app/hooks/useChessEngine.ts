@@ -0,0 +1,80 @@
+"use client";
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { GameState, Move } from '../lib/chessEngine';
+import { EngineStrength, SearchProgress, SearchResult } from '../lib/chessAI';
+import { createEngineService, EngineService, EngineSearchOptions } from '../lib/engineService';
+
+// React wrapper around the worker-hosted engine
+export function useChessEngine() {
+  const serviceRef = useRef<EngineService | null>(null);
+  const latestSearchRef = useRef(0);
+  const [isThinking, setIsThinking] = useState(false);
+  const [progress, setProgress] = useState<SearchProgress | null>(null);
+
+  useEffect(() => {
+    const service = createEngineService();
+    serviceRef.current = service;
+    return () => {
+      service.dispose();
+      serviceRef.current = null;
+    };
+  }, []);
+
+  const search = useCallback(async (
+    state: GameState,
+    options: EngineSearchOptions = {}
+  ): Promise<SearchResult | null> => {
+    // The worker only exists while mounted; a search asked for after unmount counts as cancelled
+    const service = serviceRef.current;
+    if (!service) return null;
+    const searchId = ++latestSearchRef.current;
+    setIsThinking(true);
+    setProgress(null);
+    try {
+      return await service.search(state, {
+        ...options,
+        onProgress: (info) => {
+          setProgress(info);
+          options.onProgress?.(info);
+        },
+      });
+    } finally {
+      // A newer search may have superseded this one
+      if (searchId === latestSearchRef.current) {
+        setIsThinking(false);
+      }
+    }
+  }, []);
+
+  // Move to play at a difficulty preset or target rating, or null if the search was cancelled
+  const getBestMove = useCallback(async (
+    state: GameState,
+    strength: EngineStrength = 'medium'
+  ): Promise<Move | null> => {
+    const result = await search(state, { strength });
+    return result?.bestMove ?? null;
+  }, [search]);
+
+  const stop = useCallback(() => {
+    serviceRef.current?.stop();
+  }, []);
+
+  const cancel = useCallback(() => {
+    serviceRef.current?.cancel();
+  }, []);
+
+  const newGame = useCallback(() => {
+    serviceRef.current?.newGame();
+    setProgress(null);
+  }, []);
+
+  return {
+    search,
+    getBestMove,
+    stop,
+    cancel,
+    newGame,
+    isThinking,
+    progress,
+  };
+}
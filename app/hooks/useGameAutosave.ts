@@ -0,0 +1,62 @@
+"use client";
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { GameState } from '../lib/chessEngine';
+import {
+  LibraryGame,
+  LibraryGameMetadata,
+  autosaveLibraryGame,
+  createLibraryGameId,
+  getLibraryGame,
+  restoreGameState,
+  toLibraryGame,
+} from '../lib/gameLibrary';
+
+// Id of the library game to open, from a ?game= link
+export function getRequestedLibraryGameId(): string | null {
+  if (typeof window === 'undefined') return null;
+  return new URLSearchParams(window.location.search).get('game');
+}
+
+// Saves a board screen's game to the library after every move. Games without moves are not saved;
+// startNewGame begins a new record and resumeGame continues a saved one under its own id.
+// A fixed id, such as an online game's, keeps one record however often the game is opened;
+// saves merge onto it so its original date and review survive
+export function useGameAutosave(gameState: GameState, metadata: LibraryGameMetadata, fixedId?: string) {
+  const [gameId, setGameId] = useState(() => fixedId ?? createLibraryGameId());
+  const createdAtRef = useRef(Date.now());
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (fixedId) setGameId(fixedId);
+  }, [fixedId]);
+
+  // Metadata objects are rebuilt every render, so compare them by value
+  const metadataKey = JSON.stringify(metadata);
+  useEffect(() => {
+    if (gameState.moveHistory.length === 0) return;
+    const record = toLibraryGame(gameId, gameState, JSON.parse(metadataKey), createdAtRef.current);
+    autosaveLibraryGame(record)
+      .then(() => setSaveError(null))
+      .catch((error) => {
+        console.error('Could not save game:', error);
+        setSaveError(error instanceof Error ? error.message : 'Could not save game');
+      });
+  }, [gameId, gameState, metadataKey]);
+
+  const startNewGame = useCallback(() => {
+    createdAtRef.current = Date.now();
+    setGameId(createLibraryGameId());
+  }, []);
+
+  // Load a saved game and keep saving to it; null if it does not exist
+  const resumeGame = useCallback(async (id: string): Promise<{ game: LibraryGame; state: GameState } | null> => {
+    const game = await getLibraryGame(id);
+    if (!game) return null;
+    const state = restoreGameState(game);
+    createdAtRef.current = game.createdAt;
+    setGameId(game.id);
+    return { game, state };
+  }, []);
+
+  return { gameId, saveError, startNewGame, resumeGame };
+}
@@ -0,0 +1,223 @@
+"use client";
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { usePublicClient, useChainId } from 'wagmi';
+import { CHESS_ABI } from '../contracts/abis';
+import { getContractAddresses } from '../contracts/addresses';
+import {
+  GameState as LocalGameState,
+  GameStatus,
+  Move,
+  createInitialState,
+} from '../lib/chessEngine';
+import {
+  GameSyncState,
+  LogBatch,
+  applyLogBatch,
+  createGameSync,
+  findBlockAtTime,
+  getSyncRange,
+  getSyncStartKey,
+  loadSyncStartBlock,
+  matchesChainBoard,
+  replayChainMoves,
+  saveSyncStartBlock,
+  splitBlockRange,
+} from '../lib/gameSync';
+import { useChessContract, OnChainGameState, GameState as ContractGameState } from './useChessContractNew';
+
+export type GameSyncMode = 'events' | 'polling';
+
+const POLL_INTERVAL_MS = 5000;
+
+// Contract results override the replayed status; Chess.sol has no repetition or 50-move draws
+function toLocalStatus(contractState: ContractGameState, replayed: GameStatus): GameStatus {
+  switch (contractState) {
+    case ContractGameState.WhiteWon:
+    case ContractGameState.BlackWon:
+      return GameStatus.Checkmate;
+    case ContractGameState.Draw:
+    case ContractGameState.Abandoned:
+      return GameStatus.Draw;
+    default:
+      return replayed;
+  }
+}
+
+// Board-only state for when the logs cannot be replayed
+function stateFromChainBoard(info: OnChainGameState): LocalGameState {
+  return {
+    ...createInitialState(),
+    board: info.board,
+    isWhiteTurn: info.whiteTurn,
+    fullMoveNumber: Math.floor(info.moveCount / 2) + 1,
+    status: toLocalStatus(info.state, GameStatus.Active),
+  };
+}
+
+// Keeps an online game in sync with Chess.sol. MoveMade, GameEnded, GameAbandoned and TimeoutClaimed
+// events trigger a chunked getLogs sync that rebuilds the full move history; polling takes over if the event watcher fails
+export function useGameSync(gameId: number) {
+  const publicClient = usePublicClient();
+  const chainId = useChainId();
+  const { getGameInfo } = useChessContract();
+
+  const [onChainState, setOnChainState] = useState<OnChainGameState | null>(null);
+  const [gameState, setGameState] = useState<LocalGameState>(createInitialState());
+  const [lastMove, setLastMove] = useState<Move | null>(null);
+  const [mode, setMode] = useState<GameSyncMode>('events');
+  const [syncError, setSyncError] = useState<string | null>(null);
+
+  const syncRef = useRef<GameSyncState | null>(null);
+  const startBlockRef = useRef<bigint | null>(null);
+  // Syncs run one at a time so overlapping events cannot apply stale batches
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+
+  const chessAddress = getContractAddresses(chainId || 84532).chess;
+
+  // The block the game was created in, where its logs start: saved from an earlier visit, or found
+  // from the game's start time rather than by scanning logs from genesis
+  const findStartBlock = useCallback(async (info: OnChainGameState, latestBlock: bigint): Promise<bigint> => {
+    if (startBlockRef.current !== null) return startBlockRef.current;
+    if (!publicClient) throw new Error('No RPC client available');
+
+    const key = getSyncStartKey(chainId || 84532, chessAddress, gameId);
+    let startBlock = loadSyncStartBlock(key);
+    if (startBlock === null) {
+      if (!info.startTime) throw new Error(`Game ${gameId} has no start time`);
+      startBlock = await findBlockAtTime(BigInt(info.startTime), latestBlock, async (blockNumber) =>
+        (await publicClient.getBlock({ blockNumber })).timestamp
+      );
+      saveSyncStartBlock(key, startBlock);
+    }
+    startBlockRef.current = startBlock;
+    return startBlock;
+  }, [publicClient, chainId, chessAddress, gameId]);
+
+  const fetchLogs = useCallback(async (fromBlock: bigint, toBlock: bigint): Promise<LogBatch> => {
+    if (!publicClient) throw new Error('No RPC client available');
+    const filter = { address: chessAddress, abi: CHESS_ABI, args: { gameId: BigInt(gameId) }, fromBlock, toBlock };
+
+    const [moveLogs, endedLogs, abandonedLogs] = await Promise.all([
+      publicClient.getContractEvents({ ...filter, eventName: 'MoveMade' }),
+      publicClient.getContractEvents({ ...filter, eventName: 'GameEnded' }),
+      publicClient.getContractEvents({ ...filter, eventName: 'GameAbandoned' }),
+    ]);
+
+    return {
+      fromBlock,
+      toBlock,
+      moves: moveLogs.map(log => ({
+        blockNumber: log.blockNumber,
+        logIndex: log.logIndex,
+        transactionHash: log.transactionHash,
+        player: log.args.player ?? '',
+        from: log.args.fromPos ?? 0,
+        to: log.args.toPos ?? 0,
+      })),
+      ends: [
+        ...endedLogs.map(log => ({
+          blockNumber: log.blockNumber,
+          logIndex: log.logIndex,
+          transactionHash: log.transactionHash,
+          result: log.args.result ?? ContractGameState.Active,
+          winner: null,
+        })),
+        ...abandonedLogs.map(log => ({
+          blockNumber: log.blockNumber,
+          logIndex: log.logIndex,
+          transactionHash: log.transactionHash,
+          result: ContractGameState.Abandoned,
+          winner: log.args.winner ?? null,
+        })),
+      ],
+    };
+  }, [publicClient, chessAddress, gameId]);
+
+  const runSync = useCallback(async (fromStart: boolean) => {
+    if (!publicClient) return;
+
+    // Read the contract and the logs at the same block so they describe the same position
+    const latestBlock = await publicClient.getBlockNumber();
+    const info = await getGameInfo(gameId, latestBlock);
+    if (!info) return;
+    setOnChainState(info);
+
+    try {
+      let sync = syncRef.current;
+      if (!sync || fromStart) sync = createGameSync(gameId, await findStartBlock(info, latestBlock));
+      const range = getSyncRange(sync, latestBlock);
+      for (const chunk of splitBlockRange(range.fromBlock, range.toBlock)) {
+        sync = applyLogBatch(sync, await fetchLogs(chunk.fromBlock, chunk.toBlock));
+      }
+
+      const replay = replayChainMoves(sync.moves);
+      if (!matchesChainBoard(replay.state, info.board, info.moveCount)) {
+        // Logs older than the re-checked tail changed, so fetch everything again once
+        if (!fromStart) return runSync(true);
+        throw new Error(`Replayed ${sync.moves.length} moves but the contract reports ${info.moveCount}`);
+      }
+
+      syncRef.current = sync;
+      setGameState({ ...replay.state, status: toLocalStatus(info.state, replay.state.status) });
+      setLastMove(replay.lastMove);
+      setSyncError(null);
+    } catch (err: unknown) {
+      // Fall back to the contract's board, which has no move history
+      console.error('Failed to sync game logs:', err);
+      syncRef.current = null;
+      setGameState(stateFromChainBoard(info));
+      setLastMove(null);
+      setSyncError(err instanceof Error ? err.message : 'Failed to sync game logs');
+      setMode('polling');
+    }
+  }, [publicClient, gameId, getGameInfo, findStartBlock, fetchLogs]);
+
+  const refresh = useCallback((fromStart: boolean = false) => {
+    queueRef.current = queueRef.current
+      .then(() => runSync(fromStart))
+      .catch(err => console.error('Failed to load game:', err));
+    return queueRef.current;
+  }, [runSync]);
+
+  // Initial load, and again whenever the game or chain changes
+  useEffect(() => {
+    syncRef.current = null;
+    startBlockRef.current = null;
+    setMode('events');
+    refresh(true);
+  }, [refresh]);
+
+  // Sync whenever one of this game's events is seen
+  useEffect(() => {
+    if (!publicClient || mode !== 'events') return;
+
+    const onError = (err: Error) => {
+      console.error('Game event watcher failed, polling instead:', err);
+      setMode('polling');
+    };
+    const watch = { address: chessAddress, abi: CHESS_ABI, args: { gameId: BigInt(gameId) }, onError };
+    const unwatchers = [
+      publicClient.watchContractEvent({ ...watch, eventName: 'MoveMade', onLogs: () => refresh() }),
+      publicClient.watchContractEvent({ ...watch, eventName: 'GameEnded', onLogs: () => refresh() }),
+      publicClient.watchContractEvent({ ...watch, eventName: 'GameAbandoned', onLogs: () => refresh() }),
+      publicClient.watchContractEvent({ ...watch, eventName: 'TimeoutClaimed', onLogs: () => refresh() }),
+    ];
+    return () => unwatchers.forEach(unwatch => unwatch());
+  }, [publicClient, chessAddress, gameId, mode, refresh]);
+
+  // Polling fallback while the game is still running
+  useEffect(() => {
+    if (mode !== 'polling' || onChainState?.state !== ContractGameState.Active) return;
+    const interval = setInterval(() => refresh(), POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [mode, onChainState?.state, refresh]);
+
+  return {
+    onChainState,
+    gameState,
+    lastMove,
+    mode,
+    syncError,
+    refresh,
+  };
+}
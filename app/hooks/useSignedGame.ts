@@ -0,0 +1,446 @@
+"use client";
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useAccount, useChainId, useWalletClient } from 'wagmi';
+import { isAddressEqual } from 'viem';
+import { getContractAddresses } from '../contracts/addresses';
+import { GameState as LocalGameState, Move } from '../lib/chessEngine';
+import {
+  ResultOffer,
+  SIGNED_GAME_TYPES,
+  SIGNED_RESULT_STATES,
+  SignedMove,
+  SignedResult,
+  SignedTranscript,
+  addResultSignature,
+  appendSignedMove,
+  createResultOffer,
+  createSignedTranscript,
+  extendsTranscript,
+  findConflictingMove,
+  getMoveMessage,
+  getNextPly,
+  getPlayedMoves,
+  getPlayerToSign,
+  getResultMessage,
+  getSignedGameDomain,
+  getUnsubmittedMoves,
+  hashChainMoves,
+  isOfferExpired,
+  isResultFinal,
+  isResultSigned,
+  prepareSignedMove,
+  rebaseTranscript,
+  verifyResultOffer,
+  verifyTranscript,
+} from '../lib/signedMoves';
+import { MoveRelay, RelayMessage, RelayStatus, connectMoveRelay, getRelayRoom } from '../lib/moveRelay';
+import { useChessContract, OnChainGameState, GameState as ContractGameState } from './useChessContractNew';
+
+interface SignedSession {
+  transcript: SignedTranscript | null;
+  state: LocalGameState;
+  lastMove: Move | null;
+  offer: ResultOffer | null;
+  conflict: SignedMove | null; // Opponent's signed move for a ply they played differently on-chain
+}
+
+// A session that ended on a conflicting on-chain move keeps only the move that proves it
+interface StoredSession {
+  transcript: SignedTranscript | null;
+  offer: ResultOffer | null;
+  conflict?: SignedMove | null;
+}
+
+function loadSession(key: string): StoredSession | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Failed to load signed game:', error);
+    return null;
+  }
+}
+
+function saveSession(key: string, session: StoredSession | null) {
+  if (typeof window === 'undefined') return;
+  try {
+    if (session) {
+      localStorage.setItem(key, JSON.stringify(session));
+    } else {
+      localStorage.removeItem(key);
+    }
+  } catch (error) {
+    console.error('Failed to save signed game:', error);
+  }
+}
+
+// Off-chain play for an online game. Moves are signed as EIP-712 messages and exchanged over the move
+// relay, and the transcript is kept in localStorage because it is the only record until it is settled.
+// syncedState is the on-chain game from useGameSync, which signed play continues from
+export function useSignedGame(gameId: number, onChainState: OnChainGameState | null, syncedState: LocalGameState) {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const { data: walletClient } = useWalletClient();
+  const {
+    loading,
+    getTranscriptHash,
+    settleSignedGame,
+    submitSignedMoves,
+    proveConflictingMove,
+  } = useChessContract();
+
+  const [session, setSession] = useState<SignedSession>({
+    transcript: null,
+    state: syncedState,
+    lastMove: null,
+    offer: null,
+    conflict: null,
+  });
+  const [relayStatus, setRelayStatus] = useState<RelayStatus>('closed');
+  const [error, setError] = useState<string | null>(null);
+  const [verification, setVerification] = useState<string | null>(null);
+
+  const chessAddress = getContractAddresses(chainId || 84532).chess;
+  const storageKey = `signedGame-${chainId || 84532}-${chessAddress.toLowerCase()}-${gameId}`;
+
+  const sessionRef = useRef(session);
+  const baseStateRef = useRef(syncedState); // Position signed play started from
+  const relayRef = useRef<MoveRelay | null>(null);
+  const onChainRef = useRef(onChainState);
+  onChainRef.current = onChainState;
+  // Updates run one at a time so relay messages and our own moves always see the latest transcript
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+
+  const enqueue = useCallback((task: () => Promise<void>) => {
+    queueRef.current = queueRef.current.then(task).catch((err) => {
+      console.error('Signed game update failed:', err);
+      setError(err instanceof Error ? err.message : 'Signed game update failed');
+    });
+    return queueRef.current;
+  }, []);
+
+  const commit = useCallback((next: SignedSession) => {
+    sessionRef.current = next;
+    setSession(next);
+    saveSession(storageKey, next.transcript || next.conflict
+      ? { transcript: next.transcript, offer: next.offer, conflict: next.conflict }
+      : null);
+  }, [storageKey]);
+
+  const endSession = useCallback((conflict: SignedMove | null = null) => {
+    commit({ transcript: null, state: baseStateRef.current, lastMove: null, offer: null, conflict });
+  }, [commit]);
+
+  // Rebuild the signed position whenever the on-chain game changes. Moves the contract now has
+  // (after a dispute) are dropped, and signed play ends once the chain has caught up with it or
+  // has played other moves than the signed ones
+  const moveCount = onChainState?.moveCount;
+  useEffect(() => {
+    if (moveCount === undefined || syncedState.moveHistory.length !== moveCount) return;
+    enqueue(async () => {
+      baseStateRef.current = syncedState;
+      const stored = sessionRef.current.transcript
+        ? { transcript: sessionRef.current.transcript, offer: sessionRef.current.offer }
+        : loadSession(storageKey);
+      if (!stored || !stored.transcript) {
+        sessionRef.current = { ...sessionRef.current, state: syncedState, lastMove: null, conflict: stored?.conflict ?? null };
+        setSession(sessionRef.current);
+        return;
+      }
+
+      // The contract only keeps the latest hash, so the others come from the synced moves
+      const chainHashes = hashChainMoves(gameId, syncedState.moveHistory);
+      const rebase = rebaseTranscript(stored.transcript, chainHashes);
+      if (rebase.status !== 'rebased') {
+        const conflict = findConflictingMove(stored.transcript, chainHashes);
+        if (!conflict) {
+          endSession();
+          return;
+        }
+        // Our own signed move can only conflict if this wallet played on elsewhere
+        const byOpponent = !address || !isAddressEqual(getPlayerToSign(stored.transcript, conflict.ply), address);
+        endSession(byOpponent ? conflict : null);
+        setError(byOpponent
+          ? `Your opponent played a different move on-chain at ply ${conflict.ply} than the one they signed`
+          : `The chain has a different move at ply ${conflict.ply} than the one you signed`);
+        return;
+      }
+      const rebased = rebase.transcript;
+      if (rebased.startPly !== stored.transcript.startPly && rebased.moves.length === 0) {
+        endSession();
+        return;
+      }
+      const check = await verifyTranscript(rebased, syncedState);
+      if (!check.valid) {
+        setError(`Signed transcript failed verification at ply ${check.ply}: ${check.error}`);
+        return;
+      }
+      const offer = rebased === stored.transcript ? stored.offer : null;
+      commit({ transcript: rebased, state: check.state, lastMove: check.lastMove, offer, conflict: null });
+    });
+  }, [gameId, moveCount, syncedState, storageKey, address, enqueue, commit, endSession]);
+
+  const sendTranscript = useCallback(() => {
+    const { transcript, offer } = sessionRef.current;
+    if (transcript) relayRef.current?.send({ type: 'transcript', transcript, offer });
+  }, []);
+
+  // Adopt a result offer from the opponent, keeping our signature if it is the same offer
+  const receiveOffer = useCallback(async (incoming: ResultOffer) => {
+    const current = sessionRef.current;
+    if (!current.transcript) return;
+    const verified = await verifyResultOffer(current.transcript, incoming);
+    const sameOffer = current.offer && current.offer.result === verified.result &&
+      current.offer.transcriptHash === verified.transcriptHash && current.offer.deadline === verified.deadline;
+    const offer = sameOffer
+      ? { ...verified, signatures: { ...current.offer!.signatures, ...verified.signatures } }
+      : verified;
+    commit({ ...current, offer });
+  }, [commit]);
+
+  const receiveTranscript = useCallback(async (remote: SignedTranscript, offer: ResultOffer | null) => {
+    const current = sessionRef.current;
+    const info = onChainRef.current;
+    if (!info) return;
+
+    if (current.transcript) {
+      if (extendsTranscript(remote, current.transcript)) {
+        // The opponent is behind; send them what they are missing
+        if (current.transcript.moves.length > remote.moves.length) sendTranscript();
+        if (offer) await receiveOffer(offer);
+        return;
+      }
+      if (!extendsTranscript(current.transcript, remote)) {
+        throw new Error("The opponent's transcript conflicts with ours");
+      }
+      if (isResultFinal(current.offer)) {
+        throw new Error('Rejected moves played after both players signed the result');
+      }
+    } else {
+      // Joining signed play the opponent started: it must continue from the on-chain game
+      const chainHash = await getTranscriptHash(gameId);
+      if (remote.gameId !== gameId || remote.startPly !== info.moveCount || remote.startHash !== chainHash ||
+        !isAddressEqual(remote.white, info.whitePlayer as `0x${string}`) ||
+        !isAddressEqual(remote.black, info.blackPlayer as `0x${string}`) ||
+        !isAddressEqual(remote.verifyingContract, chessAddress) || remote.chainId !== (chainId || 84532)) {
+        throw new Error("The opponent's transcript does not start from this game's on-chain position");
+      }
+    }
+
+    const check = await verifyTranscript(remote, baseStateRef.current);
+    if (!check.valid) {
+      throw new Error(`Rejected transcript from the relay at ply ${check.ply}: ${check.error}`);
+    }
+    commit({ transcript: remote, state: check.state, lastMove: check.lastMove, offer: null, conflict: null });
+    if (offer) await receiveOffer(offer);
+  }, [gameId, chainId, chessAddress, getTranscriptHash, sendTranscript, receiveOffer, commit]);
+
+  const receiveMove = useCallback(async (move: SignedMove) => {
+    const current = sessionRef.current;
+    if (!current.transcript) {
+      relayRef.current?.send({ type: 'transcript-request' });
+      return;
+    }
+    const nextPly = getNextPly(current.transcript);
+    if (move.ply < nextPly) return; // Already have it
+    if (move.ply > nextPly) {
+      relayRef.current?.send({ type: 'transcript-request' });
+      return;
+    }
+    if (isResultFinal(current.offer)) {
+      throw new Error('Rejected a move played after both players signed the result');
+    }
+    const next = await appendSignedMove(current.transcript, current.state, move);
+    commit({ transcript: next.transcript, state: next.state, lastMove: next.move, offer: null, conflict: null });
+  }, [commit]);
+
+  const handleRelayMessage = useCallback((message: RelayMessage) => {
+    enqueue(async () => {
+      switch (message.type) {
+        case 'move':
+          await receiveMove(message.move);
+          break;
+        case 'result':
+          await receiveOffer(message.offer);
+          break;
+        case 'transcript':
+          await receiveTranscript(message.transcript, message.offer);
+          break;
+        case 'transcript-request':
+          sendTranscript();
+          break;
+      }
+    });
+  }, [enqueue, receiveMove, receiveOffer, receiveTranscript, sendTranscript]);
+
+  // Stay on the relay while signed play is on; messages that arrive before it starts are dropped
+  const isActive = !!session.transcript;
+  const handleRelayMessageRef = useRef(handleRelayMessage);
+  handleRelayMessageRef.current = handleRelayMessage;
+  useEffect(() => {
+    if (!isActive) return;
+    const relay = connectMoveRelay(getRelayRoom(chainId || 84532, chessAddress, gameId), {
+      onMessage: (message) => handleRelayMessageRef.current(message),
+      onStatus: setRelayStatus,
+    });
+    relayRef.current = relay;
+    return () => {
+      relay.close();
+      relayRef.current = null;
+    };
+  }, [isActive, chainId, chessAddress, gameId]);
+
+  // Begin signed play from the current on-chain position
+  const start = useCallback(() => enqueue(async () => {
+    const info = onChainRef.current;
+    if (!info || sessionRef.current.transcript) return;
+    if (baseStateRef.current.moveHistory.length !== info.moveCount) {
+      throw new Error('Wait for the move history to sync before starting signed play');
+    }
+    const startHash = await getTranscriptHash(gameId);
+    if (!startHash) throw new Error('Could not read the on-chain transcript hash');
+    const transcript = createSignedTranscript({
+      gameId,
+      chainId: chainId || 84532,
+      verifyingContract: chessAddress,
+      white: info.whitePlayer as `0x${string}`,
+      black: info.blackPlayer as `0x${string}`,
+      startPly: info.moveCount,
+      startHash,
+    });
+    setError(null);
+    commit({ transcript, state: baseStateRef.current, lastMove: null, offer: null, conflict: null });
+  }), [gameId, chainId, chessAddress, getTranscriptHash, enqueue, commit]);
+
+  const playMove = useCallback((move: Move) => enqueue(async () => {
+    const current = sessionRef.current;
+    if (!current.transcript || !walletClient || !address) return;
+    if (!isAddressEqual(getPlayerToSign(current.transcript, getNextPly(current.transcript)), address)) return;
+    // Either player could still settle the signed result, so the game ends with it
+    if (isResultFinal(current.offer)) {
+      throw new Error('Both players signed the result; settle it on-chain');
+    }
+
+    const unsigned = prepareSignedMove(current.transcript, move.from, move.to);
+    const signature = await walletClient.signTypedData({
+      account: address,
+      domain: getSignedGameDomain(current.transcript),
+      types: SIGNED_GAME_TYPES,
+      primaryType: 'Move',
+      message: getMoveMessage(current.transcript, unsigned),
+    });
+    const signed = { ...unsigned, signature };
+    const next = await appendSignedMove(current.transcript, current.state, signed);
+    setError(null);
+    commit({ transcript: next.transcript, state: next.state, lastMove: next.move, offer: null, conflict: null });
+    relayRef.current?.send({ type: 'move', move: signed });
+  }), [walletClient, address, enqueue, commit]);
+
+  const signOffer = useCallback(async (transcript: SignedTranscript, offer: ResultOffer) => {
+    if (!walletClient || !address) throw new Error('Wallet not connected');
+    const signature = await walletClient.signTypedData({
+      account: address,
+      domain: getSignedGameDomain(transcript),
+      types: SIGNED_GAME_TYPES,
+      primaryType: 'Result',
+      message: getResultMessage(transcript, offer),
+    });
+    return addResultSignature(transcript, offer, signature);
+  }, [walletClient, address]);
+
+  // Propose a result, e.g. the board result, a resignation or a draw
+  const offerResult = useCallback((result: SignedResult) => enqueue(async () => {
+    const current = sessionRef.current;
+    if (!current.transcript) return;
+    const offer = await signOffer(current.transcript, createResultOffer(current.transcript, result));
+    commit({ ...current, offer });
+    relayRef.current?.send({ type: 'result', offer });
+  }), [signOffer, enqueue, commit]);
+
+  const acceptOffer = useCallback(() => enqueue(async () => {
+    const current = sessionRef.current;
+    if (!current.transcript || !current.offer) return;
+    if (isOfferExpired(current.offer)) throw new Error('The result offer has expired');
+    const offer = await signOffer(current.transcript, current.offer);
+    commit({ ...current, offer });
+    relayRef.current?.send({ type: 'result', offer });
+  }), [signOffer, enqueue, commit]);
+
+  // Submit the agreed result; the transcript stays as the record of the game
+  const settle = useCallback(async () => {
+    const { offer } = sessionRef.current;
+    if (!offer || !isResultSigned(offer)) return { success: false, error: 'Both players must sign the result' };
+    if (isOfferExpired(offer)) return { success: false, error: 'The result offer has expired' };
+    return settleSignedGame(
+      gameId,
+      SIGNED_RESULT_STATES[offer.result],
+      offer.moveCount,
+      offer.transcriptHash,
+      offer.deadline,
+      offer.signatures.white!,
+      offer.signatures.black!
+    );
+  }, [gameId, settleSignedGame]);
+
+  // Dispute: put the signed moves on-chain so the opponent has to answer within MOVE_TIMEOUT
+  const dispute = useCallback(async () => {
+    const { transcript } = sessionRef.current;
+    const info = onChainRef.current;
+    if (!transcript || !info) return { success: false, error: 'No signed moves to submit' };
+    const moves = getUnsubmittedMoves(transcript, info.moveCount);
+    if (moves.length === 0) return { success: false, error: 'No signed moves to submit' };
+    return submitSignedMoves(gameId, moves);
+  }, [gameId, submitSignedMoves]);
+
+  // Claim the game with the opponent's signed move for a ply they played differently on-chain
+  const proveConflict = useCallback(async () => {
+    const { conflict } = sessionRef.current;
+    if (!conflict) return { success: false, error: 'No conflicting move to submit' };
+    const { prevHash, playedMoves } = getPlayedMoves(gameId, baseStateRef.current.moveHistory, conflict.ply);
+    return proveConflictingMove(gameId, conflict.ply, {
+      fromPos: conflict.from,
+      toPos: conflict.to,
+      signature: conflict.signature,
+    }, prevHash, playedMoves);
+  }, [gameId, proveConflictingMove]);
+
+  // Re-check every signature and move of the transcript
+  const verify = useCallback(() => enqueue(async () => {
+    const { transcript } = sessionRef.current;
+    if (!transcript) return;
+    const check = await verifyTranscript(transcript, baseStateRef.current);
+    setVerification(check.valid
+      ? `All ${transcript.moves.length} signed moves verified`
+      : `Verification failed at ply ${check.ply}: ${check.error}`);
+  }), [enqueue]);
+
+  const transcript = session.transcript;
+  const isGameOver = !!onChainState && onChainState.state !== ContractGameState.Active;
+  const canSign = !!transcript && !!address && !isGameOver && !isResultFinal(session.offer) &&
+    isAddressEqual(getPlayerToSign(transcript, getNextPly(transcript)), address);
+  const unsubmittedMoves = transcript && onChainState ? getUnsubmittedMoves(transcript, onChainState.moveCount).length : 0;
+
+  return {
+    isActive,
+    transcript,
+    gameState: session.state,
+    lastMove: session.lastMove,
+    offer: session.offer,
+    conflict: session.conflict,
+    canSign,
+    unsubmittedMoves,
+    relayStatus,
+    error,
+    verification,
+    loading,
+    start,
+    playMove,
+    offerResult,
+    acceptOffer,
+    settle,
+    dispute,
+    proveConflict,
+    verify,
+  };
+}
@@ -0,0 +1,260 @@
+// Achievement engine - evaluates typed achievement criteria against a local activity log
+// Activity is stored per calendar day so streaks count days rather than actions. Unlocks are
+// reported as events with the same fields as ChessAcademy's AchievementUnlocked(player, achievementId, name)
+import {
+  Achievement,
+  AchievementCriterion,
+  ACHIEVEMENTS,
+  LEARNING_PATHS,
+  LearningPath,
+  getLessonById,
+} from './lessonData';
+
+export interface DayActivity {
+  lessons: number;
+  puzzles: { [theme: number]: number }; // Puzzles solved per PUZZLE_THEMES index
+  gamesAnalyzed: number;
+  aiWins: number[]; // Ratings of the engines beaten
+}
+
+export interface ActivityLog {
+  days: { [day: string]: DayActivity }; // Keyed by local date, YYYY-MM-DD
+  completedLessons: number[];
+  unlocked: { [achievementId: number]: number }; // Unlock timestamps
+}
+
+export type ActivityEvent =
+  | { type: 'lesson'; lessonId: number }
+  | { type: 'puzzle'; theme: number }
+  | { type: 'gameAnalyzed' }
+  | { type: 'aiWin'; rating: number };
+
+// Values that come from the contract rather than the local log
+export interface AchievementContext {
+  skillLevels?: number[]; // Indexed by SkillCategory
+  gamesAnalyzed?: number;
+  lessonsCompleted?: number;
+}
+
+export interface AchievementUnlockedEvent {
+  player: string | null;
+  achievementId: number;
+  name: string;
+  unlockedAt: number;
+  source: 'local' | 'chain';
+}
+
+type AchievementListener = (event: AchievementUnlockedEvent) => void;
+
+const ACTIVITY_KEY = 'achievementActivity';
+const listeners = new Set<AchievementListener>();
+
+export function createActivityLog(): ActivityLog {
+  return { days: {}, completedLessons: [], unlocked: {} };
+}
+
+function createDayActivity(): DayActivity {
+  return { lessons: 0, puzzles: {}, gamesAnalyzed: 0, aiWins: [] };
+}
+
+export function dayKey(time: number = Date.now()): string {
+  const date = new Date(time);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function previousDayKey(key: string): string {
+  const [year, month, day] = key.split('-').map(Number);
+  return dayKey(new Date(year, month - 1, day - 1).getTime());
+}
+
+export function recordActivity(log: ActivityLog, event: ActivityEvent, now: number = Date.now()): ActivityLog {
+  const key = dayKey(now);
+  const day = log.days[key] ?? createDayActivity();
+  let next: DayActivity;
+  let completedLessons = log.completedLessons;
+
+  switch (event.type) {
+    case 'lesson':
+      next = { ...day, lessons: day.lessons + 1 };
+      if (!completedLessons.includes(event.lessonId)) {
+        completedLessons = [...completedLessons, event.lessonId];
+      }
+      break;
+    case 'puzzle':
+      next = { ...day, puzzles: { ...day.puzzles, [event.theme]: (day.puzzles[event.theme] ?? 0) + 1 } };
+      break;
+    case 'gameAnalyzed':
+      next = { ...day, gamesAnalyzed: day.gamesAnalyzed + 1 };
+      break;
+    case 'aiWin':
+      next = { ...day, aiWins: [...day.aiWins, event.rating] };
+      break;
+  }
+
+  return { ...log, days: { ...log.days, [key]: next }, completedLessons };
+}
+
+// Consecutive active days ending today, or yesterday if nothing has been done yet today
+export function getCurrentStreak(log: ActivityLog, now: number = Date.now()): number {
+  let key = dayKey(now);
+  if (!log.days[key]) key = previousDayKey(key);
+
+  let streak = 0;
+  while (log.days[key]) {
+    streak++;
+    key = previousDayKey(key);
+  }
+  return streak;
+}
+
+export function getLongestStreak(log: ActivityLog): number {
+  let longest = 0;
+  Object.keys(log.days).forEach(key => {
+    // Only count from the first day of each run
+    if (log.days[previousDayKey(key)]) return;
+    let length = 0;
+    let day = key;
+    while (log.days[day]) {
+      length++;
+      const [year, month, date] = day.split('-').map(Number);
+      day = dayKey(new Date(year, month - 1, date + 1).getTime());
+    }
+    longest = Math.max(longest, length);
+  });
+  return longest;
+}
+
+function sumDays(log: ActivityLog, count: (day: DayActivity) => number): number {
+  return Object.values(log.days).reduce((total, day) => total + count(day), 0);
+}
+
+export function getCompletedPaths(log: ActivityLog, paths: LearningPath[] = LEARNING_PATHS): LearningPath[] {
+  return paths.filter(path =>
+    path.lessonIds.length > 0 && path.lessonIds.every(id => log.completedLessons.includes(id))
+  );
+}
+
+export function isCriterionMet(
+  criterion: AchievementCriterion,
+  log: ActivityLog,
+  context: AchievementContext = {}
+): boolean {
+  switch (criterion.type) {
+    case 'lessons': {
+      if (criterion.category === undefined) {
+        return Math.max(log.completedLessons.length, context.lessonsCompleted ?? 0) >= criterion.count;
+      }
+      const inCategory = log.completedLessons.filter(id => getLessonById(id)?.category === criterion.category);
+      return inCategory.length >= criterion.count;
+    }
+    case 'gamesAnalyzed':
+      return Math.max(sumDays(log, day => day.gamesAnalyzed), context.gamesAnalyzed ?? 0) >= criterion.count;
+    case 'skillLevel':
+      return (context.skillLevels?.[criterion.category] ?? 0) >= criterion.level;
+    case 'streak':
+      return getLongestStreak(log) >= criterion.days;
+    case 'puzzles':
+      return sumDays(log, day => criterion.theme === undefined
+        ? Object.values(day.puzzles).reduce((total, n) => total + n, 0)
+        : day.puzzles[criterion.theme] ?? 0) >= criterion.count;
+    case 'aiWins':
+      return sumDays(log, day => day.aiWins.filter(rating => rating >= criterion.rating).length) >= criterion.count;
+    case 'paths': {
+      const completed = getCompletedPaths(log);
+      return criterion.pathId === undefined
+        ? completed.length >= criterion.count
+        : completed.some(path => path.id === criterion.pathId);
+    }
+  }
+}
+
+// Ids of every achievement whose criteria are all met
+export function evaluateAchievements(
+  log: ActivityLog,
+  context: AchievementContext = {},
+  achievements: Achievement[] = ACHIEVEMENTS
+): number[] {
+  return achievements
+    .filter(achievement => achievement.criteria.every(criterion => isCriterionMet(criterion, log, context)))
+    .map(achievement => achievement.id);
+}
+
+// Record newly met achievements; unlocks are permanent even if a criterion later lapses
+export function unlockAchievements(
+  log: ActivityLog,
+  context: AchievementContext = {},
+  player: string | null = null,
+  now: number = Date.now(),
+  achievements: Achievement[] = ACHIEVEMENTS
+): { log: ActivityLog; events: AchievementUnlockedEvent[] } {
+  const newlyMet = evaluateAchievements(log, context, achievements).filter(id => log.unlocked[id] === undefined);
+  if (newlyMet.length === 0) return { log, events: [] };
+
+  const unlocked = { ...log.unlocked };
+  const events = newlyMet.map(id => {
+    unlocked[id] = now;
+    const achievement = achievements.find(a => a.id === id)!;
+    return { player, achievementId: id, name: achievement.name, unlockedAt: now, source: 'local' as const };
+  });
+  return { log: { ...log, unlocked }, events };
+}
+
+// Mirror an AchievementUnlocked log from ChessAcademy. On-chain ids follow the order the
+// contract's achievements were created in, so they are matched to local ones by name
+export function applyChainUnlock(
+  log: ActivityLog,
+  event: { player: string; achievementId: bigint | number; name: string },
+  now: number = Date.now(),
+  achievements: Achievement[] = ACHIEVEMENTS
+): { log: ActivityLog; event: AchievementUnlockedEvent | null } {
+  const achievement = achievements.find(a => a.name === event.name);
+  if (!achievement || log.unlocked[achievement.id] !== undefined) return { log, event: null };
+
+  return {
+    log: { ...log, unlocked: { ...log.unlocked, [achievement.id]: now } },
+    event: { player: event.player, achievementId: achievement.id, name: achievement.name, unlockedAt: now, source: 'chain' },
+  };
+}
+
+export function onAchievementUnlocked(listener: AchievementListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function emitAchievementUnlocked(events: AchievementUnlockedEvent[]): void {
+  events.forEach(event => listeners.forEach(listener => listener(event)));
+}
+
+export function loadActivityLog(): ActivityLog {
+  if (typeof window === 'undefined') return createActivityLog();
+
+  try {
+    const saved = localStorage.getItem(ACTIVITY_KEY);
+    return saved ? { ...createActivityLog(), ...JSON.parse(saved) } : createActivityLog();
+  } catch (error) {
+    console.error('Could not load achievement activity:', error);
+    return createActivityLog();
+  }
+}
+
+export function saveActivityLog(log: ActivityLog): void {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(ACTIVITY_KEY, JSON.stringify(log));
+}
+
+// Record an activity, unlock anything it completes and notify listeners
+export function trackActivity(
+  event: ActivityEvent,
+  context: AchievementContext = {},
+  player: string | null = null
+): AchievementUnlockedEvent[] {
+  const recorded = recordActivity(loadActivityLog(), event);
+  const result = unlockAchievements(recorded, context, player);
+  saveActivityLog(result.log);
+  emitAchievementUnlocked(result.events);
+  return result.events;
+}
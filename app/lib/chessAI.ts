@@ -1,295 +1,628 @@
-// Simple Chess AI with Minimax and Alpha-Beta Pruning
+// Chess AI - iterative-deepening alpha-beta search with a transposition table,
+// quiescence search and killer/history move ordering
 import {
   GameState,
   Move,
+  SearchPosition,
+  createSearchPosition,
   generateLegalMoves,
+  generateSearchMoves,
+  makeSearchMove,
+  unmakeSearchMove,
+  isSearchPositionInCheck,
+  isVariantLoss,
+  zobristKeyFromString,
   makeMove,
-  isWhitePiece,
-  getRow,
-  getCol,
-  Piece,
-  isPawn,
-  isKnight,
-  isBishop,
-  isRook,
-  isQueen,
-  isKing,
-  GameStatus,
 } from './chessEngine';
+import {
+  EvaluationProfile,
+  DEFAULT_EVALUATION_PROFILE,
+  BASIC_EVALUATION_PROFILE,
+  evaluatePosition,
+} from './chessEvaluation';
 
 export type Difficulty = 'easy' | 'medium' | 'hard';
 
-// Piece-square tables for positional evaluation
-const PAWN_TABLE = [
-  0,  0,  0,  0,  0,  0,  0,  0,
-  50, 50, 50, 50, 50, 50, 50, 50,
-  10, 10, 20, 30, 30, 20, 10, 10,
-  5,  5, 10, 25, 25, 10,  5,  5,
-  0,  0,  0, 20, 20,  0,  0,  0,
-  5, -5,-10,  0,  0,-10, -5,  5,
-  5, 10, 10,-20,-20, 10, 10,  5,
-  0,  0,  0,  0,  0,  0,  0,  0
-];
-
-const KNIGHT_TABLE = [
-  -50,-40,-30,-30,-30,-30,-40,-50,
-  -40,-20,  0,  0,  0,  0,-20,-40,
-  -30,  0, 10, 15, 15, 10,  0,-30,
-  -30,  5, 15, 20, 20, 15,  5,-30,
-  -30,  0, 15, 20, 20, 15,  0,-30,
-  -30,  5, 10, 15, 15, 10,  5,-30,
-  -40,-20,  0,  5,  5,  0,-20,-40,
-  -50,-40,-30,-30,-30,-30,-40,-50
-];
-
-const BISHOP_TABLE = [
-  -20,-10,-10,-10,-10,-10,-10,-20,
-  -10,  0,  0,  0,  0,  0,  0,-10,
-  -10,  0,  5, 10, 10,  5,  0,-10,
-  -10,  5,  5, 10, 10,  5,  5,-10,
-  -10,  0, 10, 10, 10, 10,  0,-10,
-  -10, 10, 10, 10, 10, 10, 10,-10,
-  -10,  5,  0,  0,  0,  0,  5,-10,
-  -20,-10,-10,-10,-10,-10,-10,-20
-];
-
-const ROOK_TABLE = [
-  0,  0,  0,  0,  0,  0,  0,  0,
-  5, 10, 10, 10, 10, 10, 10,  5,
-  -5,  0,  0,  0,  0,  0,  0, -5,
-  -5,  0,  0,  0,  0,  0,  0, -5,
-  -5,  0,  0,  0,  0,  0,  0, -5,
-  -5,  0,  0,  0,  0,  0,  0, -5,
-  -5,  0,  0,  0,  0,  0,  0, -5,
-  0,  0,  0,  5,  5,  0,  0,  0
-];
-
-const QUEEN_TABLE = [
-  -20,-10,-10, -5, -5,-10,-10,-20,
-  -10,  0,  0,  0,  0,  0,  0,-10,
-  -10,  0,  5,  5,  5,  5,  0,-10,
-  -5,  0,  5,  5,  5,  5,  0, -5,
-  0,  0,  5,  5,  5,  5,  0, -5,
-  -10,  5,  5,  5,  5,  5,  0,-10,
-  -10,  0,  5,  0,  0,  0,  0,-10,
-  -20,-10,-10, -5, -5,-10,-10,-20
-];
-
-const KING_MIDDLE_TABLE = [
-  -30,-40,-40,-50,-50,-40,-40,-30,
-  -30,-40,-40,-50,-50,-40,-40,-30,
-  -30,-40,-40,-50,-50,-40,-40,-30,
-  -30,-40,-40,-50,-50,-40,-40,-30,
-  -20,-30,-30,-40,-40,-30,-30,-20,
-  -10,-20,-20,-20,-20,-20,-20,-10,
-  20, 20,  0,  0,  0,  0, 20, 20,
-  20, 30, 10,  0,  0, 10, 30, 20
-];
-
-const KING_END_TABLE = [
-  -50,-40,-30,-20,-20,-30,-40,-50,
-  -30,-20,-10,  0,  0,-10,-20,-30,
-  -30,-10, 20, 30, 30, 20,-10,-30,
-  -30,-10, 30, 40, 40, 30,-10,-30,
-  -30,-10, 30, 40, 40, 30,-10,-30,
-  -30,-10, 20, 30, 30, 20,-10,-30,
-  -30,-30,  0,  0,  0,  0,-30,-30,
-  -50,-30,-30,-30,-30,-30,-30,-50
-];
-
-// Get piece-square table value
-function getPieceSquareValue(piece: number, pos: number, isEndgame: boolean): number {
-  const isWhite = isWhitePiece(piece);
-  // Mirror position for black pieces
-  const tablePos = isWhite ? pos : (7 - getRow(pos)) * 8 + getCol(pos);
-  
-  let value = 0;
-  
-  if (isPawn(piece)) {
-    value = PAWN_TABLE[tablePos];
-  } else if (isKnight(piece)) {
-    value = KNIGHT_TABLE[tablePos];
-  } else if (isBishop(piece)) {
-    value = BISHOP_TABLE[tablePos];
-  } else if (isRook(piece)) {
-    value = ROOK_TABLE[tablePos];
-  } else if (isQueen(piece)) {
-    value = QUEEN_TABLE[tablePos];
-  } else if (isKing(piece)) {
-    value = isEndgame ? KING_END_TABLE[tablePos] : KING_MIDDLE_TABLE[tablePos];
+// A difficulty preset or a target Elo rating
+export type EngineStrength = Difficulty | number;
+
+// Reported after each completed iteration
+export interface SearchProgress {
+  depth: number;
+  score: number; // Centipawns from the side to move's point of view
+  bestMove: Move;
+  pv: Move[];
+  nodes: number;
+  elapsedMs: number;
+  rootMoves: RootMoveScore[]; // Kept so a search stopped early can still pick a move for its strength
+}
+
+export interface SearchOptions {
+  timeLimitMs?: number; // Ends the search, even inside depth 1; no new iteration starts past half of it
+  maxDepth?: number;
+  maxNodes?: number; // Enforced like the time budget
+  scoreAllRootMoves?: boolean; // Full-window search of every root move (exact scores, slower)
+  onProgress?: (progress: SearchProgress) => void;
+  shouldStop?: () => boolean; // Polled with the clock; lets another thread end the search
+  evaluationProfile?: EvaluationProfile;
+}
+
+export interface RootMoveScore {
+  move: Move;
+  score: number;
+}
+
+export interface SearchResult {
+  bestMove: Move | null;
+  score: number; // Centipawns from the side to move's point of view
+  depth: number; // Last fully completed depth
+  pv: Move[]; // Principal variation, starting with bestMove
+  nodes: number;
+  elapsedMs: number;
+  rootMoves: RootMoveScore[]; // Root moves ordered by score at the last completed depth
+}
+
+export const MATE_SCORE = 100000;
+const MATE_BOUND = MATE_SCORE - 1000;
+const INFINITY = 1000000;
+const MAX_PLY = 64;
+
+// Evaluation from the side to move's point of view (negamax convention)
+function evaluateRelative(ctx: SearchContext): number {
+  const score = evaluatePosition(ctx.position, ctx.profile);
+  return ctx.position.isWhiteTurn ? score : -score;
+}
+
+// Transposition table: fixed-size arrays indexed by the low bits of the Zobrist key,
+// with the full key stored to detect index collisions
+const TT_EXACT = 1;
+const TT_LOWER = 2; // Score is a lower bound (fail high)
+const TT_UPPER = 3; // Score is an upper bound (fail low)
+
+interface TranspositionTable {
+  mask: number;
+  keyHi: Int32Array;
+  keyLo: Int32Array;
+  depth: Int8Array;
+  flag: Uint8Array;
+  score: Int32Array;
+  move: Int32Array;
+}
+
+function createTranspositionTable(sizeBits: number): TranspositionTable {
+  const size = 1 << sizeBits;
+  return {
+    mask: size - 1,
+    keyHi: new Int32Array(size),
+    keyLo: new Int32Array(size),
+    depth: new Int8Array(size),
+    flag: new Uint8Array(size),
+    score: new Int32Array(size),
+    move: new Int32Array(size),
+  };
+}
+
+let sharedTable: TranspositionTable | null = null;
+let sharedTableProfile = '';
+
+// Stored scores are only valid for the evaluation profile that produced them
+function getTranspositionTable(profile: EvaluationProfile): TranspositionTable {
+  if (!sharedTable) sharedTable = createTranspositionTable(18);
+  if (sharedTableProfile !== profile.name) {
+    sharedTable.flag.fill(0);
+    sharedTableProfile = profile.name;
   }
-  
-  return isWhite ? value : -value;
+  return sharedTable;
 }
 
-// Check if in endgame
-function isEndgame(board: number[]): boolean {
-  let queenCount = 0;
-  let minorPieceCount = 0;
-  
-  for (const piece of board) {
-    if (isQueen(piece)) queenCount++;
-    if (isKnight(piece) || isBishop(piece) || isRook(piece)) minorPieceCount++;
+// Forget all stored positions (e.g. when starting a new game)
+export function clearTranspositionTable(): void {
+  if (sharedTable) sharedTable.flag.fill(0);
+}
+
+// Mate scores are stored relative to the node so they stay valid at other plies
+function scoreToTT(score: number, ply: number): number {
+  if (score > MATE_BOUND) return score + ply;
+  if (score < -MATE_BOUND) return score - ply;
+  return score;
+}
+
+function scoreFromTT(score: number, ply: number): number {
+  if (score > MATE_BOUND) return score - ply;
+  if (score < -MATE_BOUND) return score + ply;
+  return score;
+}
+
+// Compact move encoding for the transposition table and killer slots (0 = no move)
+function encodeMove(move: Move): number {
+  return move.from | (move.to << 6) | ((move.promotion || 0) << 12);
+}
+
+interface SearchContext {
+  position: SearchPosition;
+  table: TranspositionTable;
+  profile: EvaluationProfile;
+  deadline: number;
+  nodeLimit: number;
+  shouldStop: (() => boolean) | null;
+  stopped: boolean;
+  nodes: number;
+  killers: number[][]; // Two quiet moves per ply that caused a beta cutoff
+  history: Int32Array; // Cutoff counts per (piece, target square)
+  pvTable: Move[][];
+  pvLength: number[];
+  keyHistoryHi: number[]; // Zobrist keys of the game so far and the current search path
+  keyHistoryLo: number[];
+}
+
+function pieceType(piece: number): number {
+  return ((piece - 1) % 6) + 1;
+}
+
+// Score moves for ordering: hash move, captures (MVV-LVA), promotions, killers, history
+function scoreMoves(ctx: SearchContext, moves: Move[], hashMove: number, ply: number): number[] {
+  const killers = ctx.killers[ply];
+  return moves.map(move => {
+    const code = encodeMove(move);
+    if (code === hashMove) return 2000000;
+    if (move.captured) return 1000000 + pieceType(move.captured) * 16 - pieceType(move.piece);
+    if (move.promotion) return 900000 + pieceType(move.promotion);
+    if (code === killers[0]) return 800000;
+    if (code === killers[1]) return 799999;
+    return ctx.history[move.piece * 64 + move.to];
+  });
+}
+
+// Selection sort step: bring the best remaining move to index i
+function pickNextMove(moves: Move[], scores: number[], i: number): void {
+  let best = i;
+  for (let j = i + 1; j < moves.length; j++) {
+    if (scores[j] > scores[best]) best = j;
+  }
+  if (best !== i) {
+    [moves[i], moves[best]] = [moves[best], moves[i]];
+    [scores[i], scores[best]] = [scores[best], scores[i]];
   }
-  
-  return queenCount === 0 || (queenCount <= 2 && minorPieceCount <= 4);
 }
 
-// Advanced evaluation function
-function advancedEvaluate(state: GameState): number {
-  const { board, status } = state;
-  
-  // Check for game-ending states
-  if (status === GameStatus.Checkmate) {
-    return state.isWhiteTurn ? -100000 : 100000;
+// Check the clock and node budget every 1024 nodes
+function checkTime(ctx: SearchContext): void {
+  if ((++ctx.nodes & 1023) === 0 && (
+    Date.now() >= ctx.deadline ||
+    ctx.nodes >= ctx.nodeLimit ||
+    (ctx.shouldStop && ctx.shouldStop())
+  )) {
+    ctx.stopped = true;
+  }
+}
+
+function pushKey(ctx: SearchContext): void {
+  ctx.keyHistoryHi.push(ctx.position.hash.hi);
+  ctx.keyHistoryLo.push(ctx.position.hash.lo);
+}
+
+function popKey(ctx: SearchContext): void {
+  ctx.keyHistoryHi.pop();
+  ctx.keyHistoryLo.pop();
+}
+
+// A position that already occurred (same side to move) is scored as a draw
+function isRepetition(ctx: SearchContext): boolean {
+  const { keyHistoryHi, keyHistoryLo } = ctx;
+  const last = keyHistoryHi.length - 1;
+  for (let i = last - 2; i >= 0; i -= 2) {
+    if (keyHistoryHi[i] === keyHistoryHi[last] && keyHistoryLo[i] === keyHistoryLo[last]) return true;
   }
-  if (status === GameStatus.Stalemate || status === GameStatus.Draw) {
-    return 0;
+  return false;
+}
+
+function updatePV(ctx: SearchContext, ply: number, move: Move): void {
+  const { pvTable, pvLength } = ctx;
+  pvTable[ply][ply] = move;
+  for (let i = ply + 1; i < pvLength[ply + 1]; i++) {
+    pvTable[ply][i] = pvTable[ply + 1][i];
   }
+  pvLength[ply] = Math.max(pvLength[ply + 1], ply + 1);
+}
+
+// Quiescence search: only captures and promotions, so the static evaluation
+// is never taken in the middle of an exchange
+function quiescence(ctx: SearchContext, alpha: number, beta: number, ply: number): number {
+  checkTime(ctx);
+  if (ctx.stopped) return 0;
   
-  let score = 0;
-  const endgame = isEndgame(board);
+  const { position } = ctx;
+  ctx.pvLength[ply] = ply;
+  if (isVariantLoss(position)) return -MATE_SCORE + ply;
+  if (ply >= MAX_PLY - 1) return evaluateRelative(ctx);
   
-  // Material and positional evaluation
-  for (let i = 0; i < 64; i++) {
-    const piece = board[i];
-    if (piece === 0) continue;
-    
-    // Material value
-    const pieceValues: { [key: number]: number } = {
-      [Piece.WPawn]: 100, [Piece.BPawn]: -100,
-      [Piece.WKnight]: 320, [Piece.BKnight]: -320,
-      [Piece.WBishop]: 330, [Piece.BBishop]: -330,
-      [Piece.WRook]: 500, [Piece.BRook]: -500,
-      [Piece.WQueen]: 900, [Piece.BQueen]: -900,
-      [Piece.WKing]: 20000, [Piece.BKing]: -20000,
-    };
+  const inCheck = isSearchPositionInCheck(position);
+  let bestScore = -INFINITY;
+  
+  if (!inCheck) {
+    const standPat = evaluateRelative(ctx);
+    if (standPat >= beta) return standPat;
+    if (standPat > alpha) alpha = standPat;
+    bestScore = standPat;
+  }
+  
+  // When in check every evasion is searched, otherwise only captures
+  const moves = generateSearchMoves(position, !inCheck);
+  const scores = scoreMoves(ctx, moves, 0, ply);
+  let legalMoves = 0;
+  
+  for (let i = 0; i < moves.length; i++) {
+    pickNextMove(moves, scores, i);
+    const move = moves[i];
+    const undo = makeSearchMove(position, move);
+    if (!undo) continue;
+    legalMoves++;
     
-    score += pieceValues[piece] || 0;
+    const score = -quiescence(ctx, -beta, -alpha, ply + 1);
+    unmakeSearchMove(position, move, undo);
+    if (ctx.stopped) return 0;
     
-    // Positional value
-    score += getPieceSquareValue(piece, i, endgame);
+    if (score > bestScore) {
+      bestScore = score;
+      if (score > alpha) {
+        alpha = score;
+        updatePV(ctx, ply, move);
+        if (alpha >= beta) break;
+      }
+    }
   }
   
-  // Mobility bonus
-  const currentMoves = generateLegalMoves(state);
-  const mobilityBonus = currentMoves.length * 2;
-  score += state.isWhiteTurn ? mobilityBonus : -mobilityBonus;
+  if (inCheck && legalMoves === 0) {
+    return -MATE_SCORE + ply;
+  }
   
-  return score;
+  return bestScore;
 }
 
-// Order moves for better alpha-beta pruning
-function orderMoves(moves: Move[]): Move[] {
-  return moves.sort((a, b) => {
-    // Prioritize captures
-    const aCapture = a.captured ? 1000 + (a.captured % 6) * 10 : 0;
-    const bCapture = b.captured ? 1000 + (b.captured % 6) * 10 : 0;
-    
-    // Prioritize promotions
-    const aPromo = a.promotion ? 800 : 0;
-    const bPromo = b.promotion ? 800 : 0;
+// Negamax alpha-beta search
+function negamax(ctx: SearchContext, depth: number, alpha: number, beta: number, ply: number): number {
+  checkTime(ctx);
+  if (ctx.stopped) return 0;
+  
+  const { position, table } = ctx;
+  ctx.pvLength[ply] = ply;
+  
+  // King of the Hill and Three-check wins are scored like mates
+  if (isVariantLoss(position)) return -MATE_SCORE + ply;
+  if (ply > 0 && isRepetition(ctx)) return 0;
+  if (ply >= MAX_PLY - 1) return evaluateRelative(ctx);
+  
+  // Extend the search when in check so mates and evasions are not cut off at the horizon
+  const inCheck = isSearchPositionInCheck(position);
+  if (inCheck) depth++;
+  
+  if (depth <= 0) return quiescence(ctx, alpha, beta, ply);
+  
+  // Transposition table lookup
+  const index = position.hash.lo & table.mask;
+  let hashMove = 0;
+  if (table.flag[index] && table.keyHi[index] === position.hash.hi && table.keyLo[index] === position.hash.lo) {
+    hashMove = table.move[index];
+    if (ply > 0 && table.depth[index] >= depth) {
+      const score = scoreFromTT(table.score[index], ply);
+      const flag = table.flag[index];
+      if (flag === TT_EXACT) return score;
+      if (flag === TT_LOWER && score >= beta) return score;
+      if (flag === TT_UPPER && score <= alpha) return score;
+    }
+  }
+  
+  const moves = generateSearchMoves(position);
+  const scores = scoreMoves(ctx, moves, hashMove, ply);
+  const originalAlpha = alpha;
+  let bestScore = -INFINITY;
+  let bestMove = 0;
+  let legalMoves = 0;
+  
+  for (let i = 0; i < moves.length; i++) {
+    pickNextMove(moves, scores, i);
+    const move = moves[i];
+    const undo = makeSearchMove(position, move);
+    if (!undo) continue;
+    legalMoves++;
     
-    // Prioritize checks
-    const aCheck = a.isCheck ? 500 : 0;
-    const bCheck = b.isCheck ? 500 : 0;
+    pushKey(ctx);
+    const score = -negamax(ctx, depth - 1, -beta, -alpha, ply + 1);
+    popKey(ctx);
+    unmakeSearchMove(position, move, undo);
+    if (ctx.stopped) return 0;
     
-    return (bCapture + bPromo + bCheck) - (aCapture + aPromo + aCheck);
-  });
-}
-
-// Minimax with Alpha-Beta Pruning
-function minimax(
-  state: GameState,
-  depth: number,
-  alpha: number,
-  beta: number,
-  isMaximizing: boolean
-): number {
-  if (depth === 0 || state.status === GameStatus.Checkmate || 
-      state.status === GameStatus.Stalemate || state.status === GameStatus.Draw) {
-    return advancedEvaluate(state);
+    if (score > bestScore) {
+      bestScore = score;
+      bestMove = encodeMove(move);
+      if (score > alpha) {
+        alpha = score;
+        updatePV(ctx, ply, move);
+        if (alpha >= beta) {
+          // Remember quiet moves that refute this position
+          if (!move.captured && !move.promotion) {
+            const killers = ctx.killers[ply];
+            if (killers[0] !== bestMove) {
+              killers[1] = killers[0];
+              killers[0] = bestMove;
+            }
+            ctx.history[move.piece * 64 + move.to] += depth * depth;
+          }
+          break;
+        }
+      }
+    }
   }
   
-  const moves = orderMoves(generateLegalMoves(state));
-  
-  if (moves.length === 0) {
-    return advancedEvaluate(state);
+  // Checkmate or stalemate
+  if (legalMoves === 0) {
+    return inCheck ? -MATE_SCORE + ply : 0;
   }
   
-  if (isMaximizing) {
-    let maxEval = -Infinity;
-    for (const move of moves) {
-      const newState = makeMove(state, move);
-      const evaluation = minimax(newState, depth - 1, alpha, beta, false);
-      maxEval = Math.max(maxEval, evaluation);
-      alpha = Math.max(alpha, evaluation);
-      if (beta <= alpha) break;
-    }
-    return maxEval;
-  } else {
-    let minEval = Infinity;
-    for (const move of moves) {
-      const newState = makeMove(state, move);
-      const evaluation = minimax(newState, depth - 1, alpha, beta, true);
-      minEval = Math.min(minEval, evaluation);
-      beta = Math.min(beta, evaluation);
-      if (beta <= alpha) break;
+  table.keyHi[index] = position.hash.hi;
+  table.keyLo[index] = position.hash.lo;
+  table.depth[index] = Math.min(depth, 127);
+  table.score[index] = scoreToTT(bestScore, ply);
+  table.move[index] = bestMove;
+  table.flag[index] = bestScore <= originalAlpha ? TT_UPPER : bestScore >= beta ? TT_LOWER : TT_EXACT;
+  
+  return bestScore;
+}
+
+// Search every root move at the given depth, best first
+function searchRoot(ctx: SearchContext, rootMoves: RootMoveScore[], depth: number, scoreAll: boolean): RootMoveScore[] {
+  const { position } = ctx;
+  let alpha = -INFINITY;
+  const results: RootMoveScore[] = [];
+  let bestPV: Move[] = [];
+  
+  for (const { move } of rootMoves) {
+    const undo = makeSearchMove(position, move);
+    if (!undo) continue;
+    
+    pushKey(ctx);
+    const score = scoreAll
+      ? -negamax(ctx, depth - 1, -INFINITY, INFINITY, 1)
+      : -negamax(ctx, depth - 1, -INFINITY, -alpha, 1);
+    popKey(ctx);
+    unmakeSearchMove(position, move, undo);
+    if (ctx.stopped) break; // Moves searched so far are still returned
+    
+    results.push({ move, score });
+    if (score > alpha) {
+      alpha = score;
+      bestPV = [move, ...ctx.pvTable[1].slice(1, ctx.pvLength[1])];
     }
-    return minEval;
   }
+  
+  // Stable sort keeps the previous order among moves that failed low with equal bounds
+  results.sort((a, b) => b.score - a.score);
+  ctx.pvTable[0] = bestPV;
+  ctx.pvLength[0] = bestPV.length;
+  return results;
 }
 
-// Get search depth based on difficulty
-function getSearchDepth(difficulty: Difficulty): number {
-  switch (difficulty) {
-    case 'easy': return 1;
-    case 'medium': return 2;
-    case 'hard': return 3;
-    default: return 2;
+// Order root moves by the static evaluation after each one, so a first iteration
+// cut short by the budget has already searched the most promising moves
+function orderRootMoves(ctx: SearchContext, moves: Move[]): RootMoveScore[] {
+  const { position } = ctx;
+  const ordered: RootMoveScore[] = [];
+  for (const move of moves) {
+    const undo = makeSearchMove(position, move);
+    if (!undo) continue;
+    const score = isVariantLoss(position) ? MATE_SCORE - 1 : -evaluateRelative(ctx);
+    unmakeSearchMove(position, move, undo);
+    ordered.push({ move, score });
   }
+  return ordered.sort((a, b) => b.score - a.score);
 }
 
-// Add some randomness for easier difficulties
-function addRandomness(moves: { move: Move; score: number }[], difficulty: Difficulty): { move: Move; score: number }[] {
-  if (difficulty === 'hard') return moves;
-  
-  const randomFactor = difficulty === 'easy' ? 200 : 100;
-  
-  return moves.map(m => ({
-    move: m.move,
-    score: m.score + (Math.random() - 0.5) * randomFactor
-  }));
+// Replay a PV on the game state so the returned moves carry check/mate flags
+function normalizePV(state: GameState, pv: Move[]): Move[] {
+  const result: Move[] = [];
+  let current = state;
+  for (const move of pv) {
+    const legal = generateLegalMoves(current).find(m =>
+      m.from === move.from && m.to === move.to && (m.promotion || 0) === (move.promotion || 0)
+    );
+    if (!legal) break;
+    result.push(legal);
+    current = makeMove(current, legal);
+  }
+  return result;
 }
 
-// Main AI function to get the best move
-export function getBestMove(state: GameState, difficulty: Difficulty = 'medium'): Move | null {
-  const moves = generateLegalMoves(state);
-  
-  if (moves.length === 0) return null;
+// Iterative deepening: search depth 1, 2, 3... until the time budget or maximum depth is reached
+export function searchPosition(state: GameState, options: SearchOptions = {}): SearchResult {
+  const startTime = Date.now();
+  const timeLimitMs = options.timeLimitMs ?? 1000;
+  const maxDepth = Math.min(options.maxDepth ?? MAX_PLY - 1, MAX_PLY - 1);
+  const legalMoves = generateLegalMoves(state);
+  const rootPosition = createSearchPosition(state);
   
-  const depth = getSearchDepth(difficulty);
-  const isMaximizing = state.isWhiteTurn;
+  if (legalMoves.length === 0 || isVariantLoss(rootPosition)) {
+    return {
+      bestMove: null,
+      score: isVariantLoss(rootPosition) || isSearchPositionInCheck(rootPosition) ? -MATE_SCORE : 0,
+      depth: 0,
+      pv: [],
+      nodes: 0,
+      elapsedMs: 0,
+      rootMoves: [],
+    };
+  }
   
-  let scoredMoves = moves.map(move => {
-    const newState = makeMove(state, move);
-    const score = minimax(newState, depth - 1, -Infinity, Infinity, !isMaximizing);
-    return { move, score };
-  });
+  const profile = options.evaluationProfile ?? DEFAULT_EVALUATION_PROFILE;
+  const ctx: SearchContext = {
+    position: rootPosition,
+    table: getTranspositionTable(profile),
+    profile,
+    deadline: startTime + timeLimitMs,
+    nodeLimit: options.maxNodes ?? Infinity,
+    shouldStop: options.shouldStop ?? null,
+    stopped: false,
+    nodes: 0,
+    killers: Array.from({ length: MAX_PLY }, () => [0, 0]),
+    history: new Int32Array(13 * 64),
+    pvTable: Array.from({ length: MAX_PLY }, () => []),
+    pvLength: new Array(MAX_PLY).fill(0),
+    keyHistoryHi: [],
+    keyHistoryLo: [],
+  };
   
-  // Add randomness for easier difficulties
-  scoredMoves = addRandomness(scoredMoves, difficulty);
+  for (const key of state.positionHistory) {
+    const { hi, lo } = zobristKeyFromString(key);
+    ctx.keyHistoryHi.push(hi);
+    ctx.keyHistoryLo.push(lo);
+  }
+  // The current position must be the last entry
+  const lastHi = ctx.keyHistoryHi[ctx.keyHistoryHi.length - 1];
+  const lastLo = ctx.keyHistoryLo[ctx.keyHistoryLo.length - 1];
+  if (lastHi !== ctx.position.hash.hi || lastLo !== ctx.position.hash.lo) {
+    pushKey(ctx);
+  }
   
-  // Sort by score
-  scoredMoves.sort((a, b) => isMaximizing ? b.score - a.score : a.score - b.score);
+  let rootMoves = orderRootMoves(ctx, legalMoves);
+  let completedDepth = 0;
+  let pv: Move[] = [rootMoves[0].move];
   
-  // For easy mode, sometimes pick a suboptimal move
-  if (difficulty === 'easy' && scoredMoves.length > 3 && Math.random() < 0.3) {
-    const randomIndex = Math.floor(Math.random() * Math.min(5, scoredMoves.length));
-    return scoredMoves[randomIndex].move;
+  for (let depth = 1; depth <= maxDepth; depth++) {
+    const iteration = searchRoot(ctx, rootMoves, depth, !!options.scoreAllRootMoves);
+    if (ctx.stopped) {
+      // Without a completed iteration, rank the searched moves ahead of the rest,
+      // which keep their static order but never score above a searched move
+      if (completedDepth === 0 && iteration.length > 0) {
+        const lowest = iteration[iteration.length - 1].score;
+        const rest = rootMoves
+          .filter(rootMove => !iteration.some(searched => searched.move === rootMove.move))
+          .map(rootMove => ({ move: rootMove.move, score: Math.min(rootMove.score, lowest) }));
+        rootMoves = [...iteration, ...rest];
+        pv = [rootMoves[0].move];
+      }
+      break;
+    }
+    
+    rootMoves = iteration;
+    completedDepth = depth;
+    pv = ctx.pvTable[0].length > 0 ? ctx.pvTable[0] : [rootMoves[0].move];
+    
+    const elapsed = Date.now() - startTime;
+    options.onProgress?.({
+      depth,
+      score: rootMoves[0].score,
+      bestMove: rootMoves[0].move,
+      pv: normalizePV(state, pv),
+      nodes: ctx.nodes,
+      elapsedMs: elapsed,
+      rootMoves,
+    });
+    
+    // Stop once a forced mate is found, or when the next iteration is unlikely to finish
+    if (ctx.shouldStop && ctx.shouldStop()) break;
+    if (Math.abs(rootMoves[0].score) > MATE_BOUND) break;
+    if (elapsed >= timeLimitMs / 2) break;
+    if (ctx.nodes >= ctx.nodeLimit / 2) break;
   }
   
-  return scoredMoves[0].move;
+  return {
+    bestMove: rootMoves[0].move,
+    score: rootMoves[0].score,
+    depth: completedDepth,
+    pv: normalizePV(state, pv),
+    nodes: ctx.nodes,
+    elapsedMs: Date.now() - startTime,
+    rootMoves,
+  };
+}
+
+// Strength model: a target rating from MIN_ENGINE_RATING to MAX_ENGINE_RATING sets the
+// search limits and how often, and how badly, the engine deliberately misplays
+export const MIN_ENGINE_RATING = 600;
+export const MAX_ENGINE_RATING = 2200;
+
+export const DIFFICULTY_RATINGS: { [key in Difficulty]: number } = {
+  easy: 800,
+  medium: 1400,
+  hard: MAX_ENGINE_RATING,
+};
+
+export interface StrengthSettings {
+  rating: number;
+  maxDepth: number;
+  maxNodes: number;
+  timeLimitMs: number;
+  blunderChance: number; // Probability of deliberately playing a weaker move
+  blunderScale: number; // Centipawns; larger values make costly mistakes more likely
+  profile: EvaluationProfile;
+}
+
+export function strengthToRating(strength: EngineStrength): number {
+  const rating = typeof strength === 'number' ? strength : DIFFICULTY_RATINGS[strength];
+  return Math.max(MIN_ENGINE_RATING, Math.min(MAX_ENGINE_RATING, Math.round(rating)));
+}
+
+export function getStrengthSettings(strength: EngineStrength): StrengthSettings {
+  const rating = strengthToRating(strength);
+  const t = (rating - MIN_ENGINE_RATING) / (MAX_ENGINE_RATING - MIN_ENGINE_RATING);
+  const full = rating >= MAX_ENGINE_RATING;
+
+  return {
+    rating,
+    maxDepth: full ? MAX_PLY - 1 : 1 + Math.floor(t * 6),
+    maxNodes: full ? Infinity : Math.round(2000 * Math.pow(2, t * 10)),
+    timeLimitMs: Math.round(250 + t * 1750),
+    blunderChance: 0.35 * Math.pow(1 - t, 1.5),
+    blunderScale: 300 - t * 280,
+    profile: rating < 1000 ? BASIC_EVALUATION_PROFILE : DEFAULT_EVALUATION_PROFILE,
+  };
+}
+
+// Search options used for a strength level
+export function getStrengthSearchOptions(strength: EngineStrength): SearchOptions {
+  const settings = getStrengthSettings(strength);
+  return {
+    maxDepth: settings.maxDepth,
+    maxNodes: settings.maxNodes,
+    timeLimitMs: settings.timeLimitMs,
+    scoreAllRootMoves: settings.blunderChance > 0, // Mistakes are weighted by exact eval loss
+    evaluationProfile: settings.profile,
+  };
+}
+
+export function getDifficultySearchOptions(difficulty: Difficulty): SearchOptions {
+  return getStrengthSearchOptions(difficulty);
+}
+
+// Pick the move to play from a search result. Weaker settings sometimes choose another
+// move, with cheap mistakes far more likely than losing ones
+export function selectMoveForStrength(result: SearchResult, strength: EngineStrength): Move | null {
+  const settings = getStrengthSettings(strength);
+  if (!result.bestMove) return null;
+  if (result.rootMoves.length < 2 || Math.random() >= settings.blunderChance) return result.bestMove;
+
+  const bestScore = result.rootMoves[0].score;
+  const candidates = result.rootMoves.slice(1)
+    .filter(rootMove => Math.abs(rootMove.score) < MATE_BOUND || rootMove.score > 0); // Never walk into a mate
+  if (candidates.length === 0) return result.bestMove;
+
+  const weights = candidates.map(rootMove => Math.exp(-(bestScore - rootMove.score) / settings.blunderScale));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  let pick = Math.random() * total;
+  for (let i = 0; i < candidates.length; i++) {
+    pick -= weights[i];
+    if (pick <= 0) return candidates[i].move;
+  }
+  return candidates[candidates.length - 1].move;
+}
+
+export function selectMoveForDifficulty(result: SearchResult, difficulty: Difficulty): Move | null {
+  return selectMoveForStrength(result, difficulty);
+}
+
+// Main AI function to get the best move
+export function getBestMove(state: GameState, strength: EngineStrength = 'medium'): Move | null {
+  const result = searchPosition(state, getStrengthSearchOptions(strength));
+  return selectMoveForStrength(result, strength);
 }
 
 // Get a random move (for testing)
@@ -299,17 +632,12 @@ export function getRandomMove(state: GameState): Move | null {
   return moves[Math.floor(Math.random() * moves.length)];
 }
 
-// Analyze position and get top moves with evaluations
+// Analyze position and get top moves with evaluations (positive scores favour White)
 export function analyzePosition(state: GameState, numMoves: number = 3): { move: Move; score: number }[] {
-  const moves = generateLegalMoves(state);
-  
-  const scoredMoves = moves.map(move => {
-    const newState = makeMove(state, move);
-    const score = minimax(newState, 2, -Infinity, Infinity, !state.isWhiteTurn);
-    return { move, score };
-  });
-  
-  scoredMoves.sort((a, b) => state.isWhiteTurn ? b.score - a.score : a.score - b.score);
+  const result = searchPosition(state, { maxDepth: 3, timeLimitMs: 1000, scoreAllRootMoves: true });
+  const sign = state.isWhiteTurn ? 1 : -1;
   
-  return scoredMoves.slice(0, numMoves);
+  return result.rootMoves
+    .slice(0, numMoves)
+    .map(({ move, score }) => ({ move, score: score * sign }));
 }
@@ -0,0 +1,176 @@
+// Chess clock - base time plus a Fischer increment or a simple delay per move
+// The clock is a plain value: elapsed time is only charged when the clock is pressed, paused or
+// read, so callers pass `now` and can re-render from a timer without mutating anything
+import { Piece } from './chessEngine';
+
+export type ClockColor = 'white' | 'black';
+
+export interface TimeControl {
+  id: string;
+  name: string;
+  baseMs: number;
+  bonusMs: number;
+  bonusType: 'increment' | 'delay'; // Increment is added after each move; delay is time that is not charged
+}
+
+export interface ChessClock {
+  control: TimeControl;
+  remainingMs: { [color in ClockColor]: number };
+  active: ClockColor | null; // Side whose time is running; null before the first move or once stopped
+  turnStartedAt: number | null; // When the active side's time last started running
+  paused: boolean;
+  flagged: ClockColor | null;
+}
+
+export type FlagResult = 'win' | 'draw';
+
+// Chess.sol's MOVE_TIMEOUT: after this long without a move, the player waiting for it can call claimTimeout
+export const CONTRACT_MOVE_TIMEOUT_MS = 24 * 60 * 60 * 1000;
+// Chess.sol's TIMEOUT_CHALLENGE_PERIOD: a timeout claim pays out when called again after this long
+export const CONTRACT_TIMEOUT_CHALLENGE_MS = 12 * 60 * 60 * 1000;
+// Warn the player to move when claimTimeout becomes possible within this time
+export const TIMEOUT_WARNING_MS = 2 * 60 * 60 * 1000;
+
+const MINUTE_MS = 60 * 1000;
+
+function preset(minutes: number, bonusSeconds: number, bonusType: TimeControl['bonusType'] = 'increment'): TimeControl {
+  const name = bonusType === 'delay' ? `${minutes} d${bonusSeconds}` : `${minutes}+${bonusSeconds}`;
+  return {
+    id: name.replace(' ', ''),
+    name,
+    baseMs: minutes * MINUTE_MS,
+    bonusMs: bonusSeconds * 1000,
+    bonusType,
+  };
+}
+
+export const TIME_CONTROL_PRESETS: TimeControl[] = [
+  preset(1, 0),
+  preset(3, 0),
+  preset(3, 2),
+  preset(5, 0),
+  preset(5, 3),
+  preset(10, 0),
+  preset(10, 5),
+  preset(15, 10),
+  preset(30, 0),
+  preset(5, 5, 'delay'),
+];
+
+export const DEFAULT_TIME_CONTROL = TIME_CONTROL_PRESETS.find(control => control.id === '10+0')!;
+
+export function getTimeControlById(id: string): TimeControl | undefined {
+  return TIME_CONTROL_PRESETS.find(control => control.id === id);
+}
+
+export function createClock(control: TimeControl = DEFAULT_TIME_CONTROL): ChessClock {
+  return {
+    control,
+    remainingMs: { white: control.baseMs, black: control.baseMs },
+    active: null,
+    turnStartedAt: null,
+    paused: false,
+    flagged: null,
+  };
+}
+
+function otherColor(color: ClockColor): ClockColor {
+  return color === 'white' ? 'black' : 'white';
+}
+
+// Time charged for a turn that has run for `elapsed` ms
+function chargedMs(control: TimeControl, elapsed: number): number {
+  return control.bonusType === 'delay' ? Math.max(0, elapsed - control.bonusMs) : elapsed;
+}
+
+export function getRemainingMs(clock: ChessClock, color: ClockColor, now: number = Date.now()): number {
+  const stored = clock.remainingMs[color];
+  if (clock.active !== color || clock.paused || clock.turnStartedAt === null) return stored;
+  return Math.max(0, stored - chargedMs(clock.control, Math.max(0, now - clock.turnStartedAt)));
+}
+
+// Flag the active side if its time has run out
+export function checkFlag(clock: ChessClock, now: number = Date.now()): ChessClock {
+  if (!clock.active || clock.flagged || getRemainingMs(clock, clock.active, now) > 0) return clock;
+  return {
+    ...clock,
+    remainingMs: { ...clock.remainingMs, [clock.active]: 0 },
+    active: null,
+    turnStartedAt: null,
+    flagged: clock.active,
+  };
+}
+
+// Press the clock after `mover` moves: charge their time, add the increment and start the opponent's
+// time. The first press only starts the clock, so nobody is charged for the opening move
+export function pressClock(clock: ChessClock, mover: ClockColor, now: number = Date.now()): ChessClock {
+  const checked = checkFlag(clock, now);
+  if (checked.flagged) return checked;
+
+  const remainingMs = { ...checked.remainingMs };
+  if (checked.active === mover) {
+    remainingMs[mover] = getRemainingMs(checked, mover, now);
+    if (checked.control.bonusType === 'increment') remainingMs[mover] += checked.control.bonusMs;
+  }
+  return {
+    ...checked,
+    remainingMs,
+    active: otherColor(mover),
+    turnStartedAt: now,
+    paused: false,
+  };
+}
+
+// Hand the turn to `color` without an increment, e.g. after a takeback or when joining a game in progress
+export function setClockTurn(clock: ChessClock, color: ClockColor, now: number = Date.now()): ChessClock {
+  if (clock.flagged) return clock;
+  const remainingMs = clock.active
+    ? { ...clock.remainingMs, [clock.active]: getRemainingMs(clock, clock.active, now) }
+    : clock.remainingMs;
+  return { ...clock, remainingMs, active: color, turnStartedAt: clock.paused ? null : now };
+}
+
+export function pauseClock(clock: ChessClock, now: number = Date.now()): ChessClock {
+  if (clock.paused || clock.active === null) return clock;
+  const remainingMs = { ...clock.remainingMs, [clock.active]: getRemainingMs(clock, clock.active, now) };
+  return { ...clock, remainingMs, paused: true, turnStartedAt: null };
+}
+
+// A resumed turn starts over, so a delay applies again
+export function resumeClock(clock: ChessClock, now: number = Date.now()): ChessClock {
+  if (!clock.paused) return clock;
+  return { ...clock, paused: false, turnStartedAt: clock.active ? now : null };
+}
+
+export function stopClock(clock: ChessClock, now: number = Date.now()): ChessClock {
+  if (clock.active === null) return clock;
+  const remainingMs = { ...clock.remainingMs, [clock.active]: getRemainingMs(clock, clock.active, now) };
+  return { ...clock, remainingMs, active: null, turnStartedAt: null };
+}
+
+// Running out of time loses, unless the opponent has only a king left
+export function getFlagResult(board: number[], flagged: ClockColor): FlagResult {
+  const opponentPieces = flagged === 'white'
+    ? [Piece.BPawn, Piece.BKnight, Piece.BBishop, Piece.BRook, Piece.BQueen]
+    : [Piece.WPawn, Piece.WKnight, Piece.WBishop, Piece.WRook, Piece.WQueen];
+  return board.some(piece => opponentPieces.includes(piece)) ? 'win' : 'draw';
+}
+
+// m:ss, with tenths under ten seconds
+export function formatClockTime(ms: number): string {
+  if (ms < 10000) return `0:0${(Math.floor(Math.max(ms, 0) / 100) / 10).toFixed(1)}`;
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+}
+
+// When claimTimeout becomes callable, from Chess.sol's lastMoveTime in seconds
+export function getTimeoutClaimableAt(lastMoveTimeSeconds: number): number {
+  return lastMoveTimeSeconds * 1000 + CONTRACT_MOVE_TIMEOUT_MS;
+}
+
+// When a pending timeout claim pays out, from Chess.sol's timeoutClaims in seconds
+export function getTimeoutPayableAt(claimedAtSeconds: number): number {
+  return claimedAtSeconds * 1000 + CONTRACT_TIMEOUT_CHALLENGE_MS;
+}
@@ -24,8 +24,14 @@ export enum GameStatus {
   Checkmate = 'checkmate',
   Stalemate = 'stalemate',
   Draw = 'draw',
+  VariantWin = 'variant-win', // Won by the variant's own rule (king of the hill, third check); the side to move has lost
 }
 
+// Rule sets the engine plays. Chess960 shuffles the back rank and generalizes castling,
+// King of the Hill is also won by bringing the king to d4, e4, d5 or e5,
+// and Three-check is also won by giving check three times
+export type ChessVariant = 'standard' | 'chess960' | 'kingOfTheHill' | 'threeCheck';
+
 export interface Move {
   from: number;
   to: number;
@@ -37,23 +43,70 @@ export interface Move {
   isCheck?: boolean;
   isCheckmate?: boolean;
   capturedPiece?: number;
+  castlingRook?: number; // Chess960 castling: the rook's square, which is also the move's target
+}
+
+export interface CastlingRights {
+  whiteKingside: boolean;
+  whiteQueenside: boolean;
+  blackKingside: boolean;
+  blackQueenside: boolean;
+}
+
+// Files (0 = a-file) of the rooks each castling right belongs to
+export type CastlingFiles = { [side in keyof CastlingRights]: number };
+
+export interface ChecksGiven {
+  white: number;
+  black: number;
+}
+
+// State that cannot be recovered from a move alone, saved so the move can be unmade
+export interface IrreversibleState {
+  castlingRights: CastlingRights;
+  enPassantSquare: number | null;
+  halfMoveClock: number;
+  capturedPiece: number; // Piece removed by the move (0 if none)
+  zobristKey: string;
+  status: GameStatus;
+  checksGiven?: ChecksGiven; // Three-check only
 }
 
 export interface GameState {
   board: number[];
   isWhiteTurn: boolean;
-  castlingRights: {
-    whiteKingside: boolean;
-    whiteQueenside: boolean;
-    blackKingside: boolean;
-    blackQueenside: boolean;
-  };
+  castlingRights: CastlingRights;
   enPassantSquare: number | null;
   halfMoveClock: number; // For 50-move rule
   fullMoveNumber: number;
   moveHistory: Move[];
   status: GameStatus;
-  positionHistory: string[]; // For threefold repetition
+  positionHistory: string[]; // Zobrist keys, for threefold repetition
+  zobristKey: string; // 64-bit Zobrist key as 16 hex digits
+  irreversibleHistory: IrreversibleState[]; // One entry per move in moveHistory
+  variant?: ChessVariant; // Absent for standard chess
+  castlingFiles?: CastlingFiles; // Chess960 only; standard castling uses the a- and h-file rooks
+  checksGiven?: ChecksGiven; // Three-check only
+  startFEN?: string; // Where the game began, when that is not the variant's standard initial position
+}
+
+export const STANDARD_CASTLING_FILES: CastlingFiles = {
+  whiteKingside: 7,
+  whiteQueenside: 0,
+  blackKingside: 7,
+  blackQueenside: 0,
+};
+
+// Chess960 position number of the standard starting position
+export const STANDARD_CHESS960_INDEX = 518;
+
+export const CHECKS_TO_WIN = 3;
+
+// King of the Hill centre squares: d5, e5, d4, e4
+export const HILL_SQUARES = [27, 28, 35, 36];
+
+export function getVariant(state: GameState): ChessVariant {
+  return state.variant ?? 'standard';
 }
 
 // Helper functions
@@ -105,38 +158,55 @@ export function isValidPos(row: number, col: number): boolean {
   return row >= 0 && row < 8 && col >= 0 && col < 8;
 }
 
-// Create initial board state
-export function createInitialState(): GameState {
-  const board = new Array(64).fill(0);
-  
-  // Black pieces (row 0-1)
-  board[0] = Piece.BRook;
-  board[1] = Piece.BKnight;
-  board[2] = Piece.BBishop;
-  board[3] = Piece.BQueen;
-  board[4] = Piece.BKing;
-  board[5] = Piece.BBishop;
-  board[6] = Piece.BKnight;
-  board[7] = Piece.BRook;
-  
-  for (let i = 8; i < 16; i++) {
-    board[i] = Piece.BPawn;
+// White's back rank from the a-file to the h-file
+const STANDARD_BACK_RANK = [
+  Piece.WRook, Piece.WKnight, Piece.WBishop, Piece.WQueen,
+  Piece.WKing, Piece.WBishop, Piece.WKnight, Piece.WRook,
+];
+
+// Knight pairs for Chess960 numbering, as indices into the five squares left after the bishops and queen
+const CHESS960_KNIGHTS = [[0, 1], [0, 2], [0, 3], [0, 4], [1, 2], [1, 3], [1, 4], [2, 3], [2, 4], [3, 4]];
+
+// White's back rank for a Chess960 position number (0-959, Scharnagl numbering):
+// bishops on opposite colours, then the queen, the knights, and the king between the two rooks
+export function getChess960BackRank(index: number): Piece[] {
+  if (!Number.isInteger(index) || index < 0 || index > 959) {
+    throw new Error(`Invalid Chess960 position number: ${index}`);
   }
+  const rank: Piece[] = new Array(8).fill(Piece.Empty);
+  const emptyFiles = () => rank.map((piece, file) => piece === Piece.Empty ? file : -1).filter(file => file !== -1);
+
+  let n = index;
+  rank[(n % 4) * 2 + 1] = Piece.WBishop; // Light squares: b, d, f, h
+  n = Math.floor(n / 4);
+  rank[(n % 4) * 2] = Piece.WBishop; // Dark squares: a, c, e, g
+  n = Math.floor(n / 4);
+  rank[emptyFiles()[n % 6]] = Piece.WQueen;
+  n = Math.floor(n / 6);
+  const knightFiles = emptyFiles();
+  for (const i of CHESS960_KNIGHTS[n]) rank[knightFiles[i]] = Piece.WKnight;
+  const [rookA, king, rookB] = emptyFiles();
+  rank[rookA] = Piece.WRook;
+  rank[king] = Piece.WKing;
+  rank[rookB] = Piece.WRook;
+  return rank;
+}
+
+// Create initial board state. Chess960 starts from the given position number, or a random one
+export function createInitialState(variant: ChessVariant = 'standard', chess960Index?: number): GameState {
+  const backRank = variant === 'chess960'
+    ? getChess960BackRank(chess960Index ?? Math.floor(Math.random() * 960))
+    : STANDARD_BACK_RANK;
+  const board = new Array(64).fill(0);
   
-  // White pieces (row 6-7)
-  for (let i = 48; i < 56; i++) {
-    board[i] = Piece.WPawn;
+  // Black pieces on rows 0-1 mirror White's on rows 6-7
+  for (let col = 0; col < 8; col++) {
+    board[col] = backRank[col] + 6;
+    board[8 + col] = Piece.BPawn;
+    board[48 + col] = Piece.WPawn;
+    board[56 + col] = backRank[col];
   }
   
-  board[56] = Piece.WRook;
-  board[57] = Piece.WKnight;
-  board[58] = Piece.WBishop;
-  board[59] = Piece.WQueen;
-  board[60] = Piece.WKing;
-  board[61] = Piece.WBishop;
-  board[62] = Piece.WKnight;
-  board[63] = Piece.WRook;
-  
   const state: GameState = {
     board,
     isWhiteTurn: true,
@@ -152,387 +222,777 @@ export function createInitialState(): GameState {
     moveHistory: [],
     status: GameStatus.Active,
     positionHistory: [],
+    zobristKey: '',
+    irreversibleHistory: [],
   };
   
-  state.positionHistory.push(getBoardHash(state));
+  if (variant !== 'standard') state.variant = variant;
+  if (variant === 'chess960') {
+    const queensideRook = backRank.indexOf(Piece.WRook);
+    const kingsideRook = backRank.lastIndexOf(Piece.WRook);
+    state.castlingFiles = {
+      whiteKingside: kingsideRook,
+      whiteQueenside: queensideRook,
+      blackKingside: kingsideRook,
+      blackQueenside: queensideRook,
+    };
+  }
+  if (variant === 'threeCheck') state.checksGiven = { white: 0, black: 0 };
+  
+  state.zobristKey = computeZobristKey(state);
+  state.positionHistory.push(state.zobristKey);
+  if (variant === 'chess960') state.startFEN = stateToFEN(state);
   
   return state;
 }
 
-// Generate board hash for repetition detection
-function getBoardHash(state: GameState): string {
-  return state.board.join(',') + '|' + state.isWhiteTurn + '|' + 
-    JSON.stringify(state.castlingRights) + '|' + state.enPassantSquare;
+// Variant fields carried from one position of a game to the next, with the game's start position
+function getVariantFields(state: GameState): Pick<GameState, 'variant' | 'castlingFiles' | 'startFEN'> {
+  const fields: Pick<GameState, 'variant' | 'castlingFiles' | 'startFEN'> = {};
+  if (state.variant) fields.variant = state.variant;
+  if (state.castlingFiles) fields.castlingFiles = state.castlingFiles;
+  if (state.startFEN) fields.startFEN = state.startFEN;
+  return fields;
 }
 
-// Find king position
-export function findKing(board: number[], isWhite: boolean): number {
-  const king = isWhite ? Piece.WKing : Piece.BKing;
-  for (let i = 0; i < 64; i++) {
-    if (board[i] === king) return i;
+const CASTLE_WHITE_KINGSIDE = 1;
+const CASTLE_WHITE_QUEENSIDE = 2;
+const CASTLE_BLACK_KINGSIDE = 4;
+const CASTLE_BLACK_QUEENSIDE = 8;
+
+function castlingRightsToBits(castlingRights: CastlingRights): number {
+  return (castlingRights.whiteKingside ? CASTLE_WHITE_KINGSIDE : 0) |
+    (castlingRights.whiteQueenside ? CASTLE_WHITE_QUEENSIDE : 0) |
+    (castlingRights.blackKingside ? CASTLE_BLACK_KINGSIDE : 0) |
+    (castlingRights.blackQueenside ? CASTLE_BLACK_QUEENSIDE : 0);
+}
+
+// Zobrist hashing: every (piece, square) pair, castling rights combination,
+// en passant file, the side to move and each Three-check count has a fixed random 64-bit value. A position's
+// key is the XOR of the values of its features, so a move only has to XOR out
+// and in the few features it changes. Keys are kept as two 32-bit halves.
+export interface ZobristKey {
+  hi: number;
+  lo: number;
+}
+
+const ZOBRIST_CASTLING = 12 * 64;
+const ZOBRIST_EN_PASSANT = ZOBRIST_CASTLING + 16;
+const ZOBRIST_SIDE = ZOBRIST_EN_PASSANT + 8;
+const ZOBRIST_CHECKS = ZOBRIST_SIDE + 1; // Appended last so keys of the other features stay the same
+const ZOBRIST_SIZE = ZOBRIST_CHECKS + 2 * CHECKS_TO_WIN;
+const ZOBRIST_HI = new Int32Array(ZOBRIST_SIZE);
+const ZOBRIST_LO = new Int32Array(ZOBRIST_SIZE);
+
+// Fixed-seed xorshift so keys are identical across sessions (opening books, stored games)
+let zobristSeed = 0x2545f491;
+function nextZobristRandom(): number {
+  zobristSeed ^= zobristSeed << 13;
+  zobristSeed ^= zobristSeed >>> 17;
+  zobristSeed ^= zobristSeed << 5;
+  return zobristSeed | 0;
+}
+for (let i = 0; i < ZOBRIST_SIZE; i++) {
+  ZOBRIST_HI[i] = nextZobristRandom();
+  ZOBRIST_LO[i] = nextZobristRandom();
+}
+
+function xorZobrist(key: ZobristKey, index: number): void {
+  key.hi ^= ZOBRIST_HI[index];
+  key.lo ^= ZOBRIST_LO[index];
+}
+
+function xorZobristPiece(key: ZobristKey, piece: number, pos: number): void {
+  xorZobrist(key, (piece - 1) * 64 + pos);
+}
+
+// Checks given so far; nothing is added before the first check, so Three-check keys start out
+// the same as standard ones
+function xorZobristChecks(key: ZobristKey, whiteChecks: number, blackChecks: number): void {
+  if (whiteChecks > 0) xorZobrist(key, ZOBRIST_CHECKS + Math.min(whiteChecks, CHECKS_TO_WIN) - 1);
+  if (blackChecks > 0) xorZobrist(key, ZOBRIST_CHECKS + CHECKS_TO_WIN + Math.min(blackChecks, CHECKS_TO_WIN) - 1);
+}
+
+// Compute a Zobrist key from scratch
+function computeZobrist(
+  board: number[],
+  isWhiteTurn: boolean,
+  castling: number,
+  enPassantSquare: number | null,
+  checksGiven?: ChecksGiven
+): ZobristKey {
+  const key: ZobristKey = { hi: 0, lo: 0 };
+  for (let pos = 0; pos < 64; pos++) {
+    if (board[pos] !== 0) xorZobristPiece(key, board[pos], pos);
   }
-  return -1;
+  xorZobrist(key, ZOBRIST_CASTLING + castling);
+  if (enPassantSquare !== null) xorZobrist(key, ZOBRIST_EN_PASSANT + getCol(enPassantSquare));
+  if (!isWhiteTurn) xorZobrist(key, ZOBRIST_SIDE);
+  if (checksGiven) xorZobristChecks(key, checksGiven.white, checksGiven.black);
+  return key;
 }
 
-// Check if a square is attacked by the opponent
-export function isSquareAttacked(board: number[], pos: number, byWhite: boolean): boolean {
-  const row = getRow(pos);
-  const col = getCol(pos);
-  
-  // Check pawn attacks
-  const pawn = byWhite ? Piece.WPawn : Piece.BPawn;
-  const pawnDir = byWhite ? 1 : -1;
-  const pawnRow = row + pawnDir;
-  if (isValidPos(pawnRow, col - 1) && board[posFromRowCol(pawnRow, col - 1)] === pawn) return true;
-  if (isValidPos(pawnRow, col + 1) && board[posFromRowCol(pawnRow, col + 1)] === pawn) return true;
-  
-  // Check knight attacks
-  const knight = byWhite ? Piece.WKnight : Piece.BKnight;
-  const knightMoves = [
-    [-2, -1], [-2, 1], [-1, -2], [-1, 2],
-    [1, -2], [1, 2], [2, -1], [2, 1]
+// Where a castling move puts the king and rook (board indices). The king always ends on the
+// g- or c-file with the rook beside it; Chess960 moves name the rook's starting square
+function getCastlingSquares(move: Move): { kingTo: number; rookFrom: number; rookTo: number } {
+  const kingside = move.to > move.from;
+  const rank = move.from - getCol(move.from);
+  return {
+    kingTo: rank + (kingside ? 6 : 2),
+    rookFrom: move.castlingRook ?? (kingside ? rank + 7 : rank),
+    rookTo: rank + (kingside ? 5 : 3),
+  };
+}
+
+// Update a Zobrist key for a move (board indices 0-63, en passant squares -1 when unset)
+function updateZobristForMove(
+  key: ZobristKey,
+  move: Move,
+  captured: number,
+  capturedPos: number,
+  castlingBefore: number,
+  castlingAfter: number,
+  enPassantBefore: number,
+  enPassantAfter: number
+): void {
+  if (move.isCastling) {
+    const { kingTo, rookFrom, rookTo } = getCastlingSquares(move);
+    const rook = isWhitePiece(move.piece) ? Piece.WRook : Piece.BRook;
+    xorZobristPiece(key, move.piece, move.from);
+    xorZobristPiece(key, move.piece, kingTo);
+    xorZobristPiece(key, rook, rookFrom);
+    xorZobristPiece(key, rook, rookTo);
+  } else {
+    xorZobristPiece(key, move.piece, move.from);
+    xorZobristPiece(key, move.promotion || move.piece, move.to);
+    if (captured) xorZobristPiece(key, captured, capturedPos);
+  }
+
+  if (castlingBefore !== castlingAfter) {
+    xorZobrist(key, ZOBRIST_CASTLING + castlingBefore);
+    xorZobrist(key, ZOBRIST_CASTLING + castlingAfter);
+  }
+  if (enPassantBefore !== -1) xorZobrist(key, ZOBRIST_EN_PASSANT + getCol(enPassantBefore));
+  if (enPassantAfter !== -1) xorZobrist(key, ZOBRIST_EN_PASSANT + getCol(enPassantAfter));
+  xorZobrist(key, ZOBRIST_SIDE);
+}
+
+export function zobristKeyToString(key: ZobristKey): string {
+  return (key.hi >>> 0).toString(16).padStart(8, '0') + (key.lo >>> 0).toString(16).padStart(8, '0');
+}
+
+export function zobristKeyFromString(key: string): ZobristKey {
+  return {
+    hi: parseInt(key.slice(0, 8), 16) | 0,
+    lo: parseInt(key.slice(8, 16), 16) | 0,
+  };
+}
+
+// Compute the Zobrist key of a position from scratch
+export function computeZobristKey(state: GameState): string {
+  return zobristKeyToString(computeZobrist(
+    state.board,
+    state.isWhiteTurn,
+    castlingRightsToBits(state.castlingRights),
+    state.enPassantSquare,
+    state.checksGiven
+  ));
+}
+
+// Move generation works on an internal 0x88 board: 128 squares, where the
+// square index is row * 16 + col and any index with (sq & 0x88) !== 0 is off the board.
+// This makes edge detection a single bit test and lets moves be made and unmade
+// in place instead of copying the board for every candidate move.
+const OFF_BOARD = 0x88;
+
+const KNIGHT_OFFSETS = [-33, -31, -18, -14, 14, 18, 31, 33];
+const KING_OFFSETS = [-17, -16, -15, -1, 1, 15, 16, 17];
+const DIAGONAL_OFFSETS = [-17, -15, 15, 17];
+const STRAIGHT_OFFSETS = [-16, -1, 1, 16];
+
+// Castling rights kept after a move touches a square (standard king and rook home squares)
+const CASTLE_MASKS: number[] = new Array(128).fill(15);
+CASTLE_MASKS[0x00] = 15 & ~CASTLE_BLACK_QUEENSIDE;
+CASTLE_MASKS[0x04] = 15 & ~(CASTLE_BLACK_KINGSIDE | CASTLE_BLACK_QUEENSIDE);
+CASTLE_MASKS[0x07] = 15 & ~CASTLE_BLACK_KINGSIDE;
+CASTLE_MASKS[0x70] = 15 & ~CASTLE_WHITE_QUEENSIDE;
+CASTLE_MASKS[0x74] = 15 & ~(CASTLE_WHITE_KINGSIDE | CASTLE_WHITE_QUEENSIDE);
+CASTLE_MASKS[0x77] = 15 & ~CASTLE_WHITE_KINGSIDE;
+
+const WHITE_PROMOTIONS = [Piece.WQueen, Piece.WRook, Piece.WBishop, Piece.WKnight];
+const BLACK_PROMOTIONS = [Piece.BQueen, Piece.BRook, Piece.BBishop, Piece.BKnight];
+
+// Convert between board indices (0-63) and 0x88 squares
+export function to88(pos: number): number {
+  return pos + (pos & ~7);
+}
+
+export function from88(sq: number): number {
+  return (sq + (sq & 7)) >> 1;
+}
+
+// Mutable position used by the move generator and the AI search
+export interface SearchPosition {
+  board: number[]; // 0x88 board, index with to88(pos)
+  isWhiteTurn: boolean;
+  castling: number;
+  enPassant: number; // 0x88 square or -1
+  whiteKing: number;
+  blackKing: number;
+  hash: ZobristKey;
+  variant: ChessVariant;
+  castlingRooks: number[]; // Rook square for each castling bit: white kingside, white queenside, black kingside, black queenside
+  castleMasks: number[]; // Castling rights kept after a move touches a square
+  whiteChecks: number; // Three-check counts
+  blackChecks: number;
+}
+
+// Irreversible state needed to unmake a move
+export interface SearchUndo {
+  captured: number;
+  capturedSquare: number;
+  castling: number;
+  enPassant: number;
+  hashHi: number;
+  hashLo: number;
+  whiteChecks: number;
+  blackChecks: number;
+}
+
+function boardTo88(board: number[]): number[] {
+  const board88: number[] = new Array(128).fill(0);
+  for (let pos = 0; pos < 64; pos++) {
+    board88[to88(pos)] = board[pos];
+  }
+  return board88;
+}
+
+// Build a mutable search position from a game state
+export function createSearchPosition(state: GameState): SearchPosition {
+  const board = boardTo88(state.board);
+  const castling = castlingRightsToBits(state.castlingRights);
+  let whiteKing = -1;
+  let blackKing = -1;
+  for (let sq = 0; sq < 128; sq++) {
+    if (board[sq] === Piece.WKing) whiteKing = sq;
+    else if (board[sq] === Piece.BKing) blackKing = sq;
+  }
+
+  const files = state.castlingFiles ?? STANDARD_CASTLING_FILES;
+  const castlingRooks = [
+    0x70 + files.whiteKingside,
+    0x70 + files.whiteQueenside,
+    files.blackKingside,
+    files.blackQueenside,
   ];
-  for (const [dr, dc] of knightMoves) {
-    const nr = row + dr;
-    const nc = col + dc;
-    if (isValidPos(nr, nc) && board[posFromRowCol(nr, nc)] === knight) return true;
+
+  return {
+    board,
+    isWhiteTurn: state.isWhiteTurn,
+    castling,
+    enPassant: state.enPassantSquare === null ? -1 : to88(state.enPassantSquare),
+    whiteKing,
+    blackKing,
+    hash: computeZobrist(state.board, state.isWhiteTurn, castling, state.enPassantSquare, state.checksGiven),
+    variant: getVariant(state),
+    castlingRooks,
+    castleMasks: state.castlingFiles ? getCastleMasks(castlingRooks, whiteKing, blackKing) : CASTLE_MASKS,
+    whiteChecks: state.checksGiven?.white ?? 0,
+    blackChecks: state.checksGiven?.black ?? 0,
+  };
+}
+
+// Castling masks for Chess960 king and rook starting squares. While a side can still castle
+// its king is on its starting square, so the kings' current squares stand in for their homes
+function getCastleMasks(castlingRooks: number[], whiteKing: number, blackKing: number): number[] {
+  const masks: number[] = new Array(128).fill(15);
+  castlingRooks.forEach((sq, bit) => {
+    masks[sq] &= ~(1 << bit);
+  });
+  if (whiteKing !== -1 && (whiteKing & 0x70) === 0x70) {
+    masks[whiteKing] &= ~(CASTLE_WHITE_KINGSIDE | CASTLE_WHITE_QUEENSIDE);
   }
-  
-  // Check king attacks
+  if (blackKing !== -1 && (blackKing & 0x70) === 0) {
+    masks[blackKing] &= ~(CASTLE_BLACK_KINGSIDE | CASTLE_BLACK_QUEENSIDE);
+  }
+  return masks;
+}
+
+const HILL_SQUARES_88 = HILL_SQUARES.map(to88);
+
+// Check whether the side to move has already lost by its variant's own rule:
+// the opponent's king reached the hill, or the opponent gave its third check
+export function isVariantLoss(position: SearchPosition): boolean {
+  switch (position.variant) {
+    case 'kingOfTheHill':
+      return HILL_SQUARES_88.includes(position.isWhiteTurn ? position.blackKing : position.whiteKing);
+    case 'threeCheck':
+      return (position.isWhiteTurn ? position.blackChecks : position.whiteChecks) >= CHECKS_TO_WIN;
+    default:
+      return false;
+  }
+}
+
+// Check if a 0x88 square is attacked by the given side
+function isAttacked88(board: number[], sq: number, byWhite: boolean): boolean {
+  // Pawns attack diagonally forward, so look one row behind the target
+  if (byWhite) {
+    if (!((sq + 15) & OFF_BOARD) && board[sq + 15] === Piece.WPawn) return true;
+    if (!((sq + 17) & OFF_BOARD) && board[sq + 17] === Piece.WPawn) return true;
+  } else {
+    if (!((sq - 15) & OFF_BOARD) && board[sq - 15] === Piece.BPawn) return true;
+    if (!((sq - 17) & OFF_BOARD) && board[sq - 17] === Piece.BPawn) return true;
+  }
+
+  const knight = byWhite ? Piece.WKnight : Piece.BKnight;
+  for (const offset of KNIGHT_OFFSETS) {
+    const target = sq + offset;
+    if (!(target & OFF_BOARD) && board[target] === knight) return true;
+  }
+
   const king = byWhite ? Piece.WKing : Piece.BKing;
-  const kingMoves = [
-    [-1, -1], [-1, 0], [-1, 1],
-    [0, -1], [0, 1],
-    [1, -1], [1, 0], [1, 1]
-  ];
-  for (const [dr, dc] of kingMoves) {
-    const nr = row + dr;
-    const nc = col + dc;
-    if (isValidPos(nr, nc) && board[posFromRowCol(nr, nc)] === king) return true;
+  for (const offset of KING_OFFSETS) {
+    const target = sq + offset;
+    if (!(target & OFF_BOARD) && board[target] === king) return true;
   }
-  
-  // Check sliding pieces (bishop, rook, queen)
+
   const bishop = byWhite ? Piece.WBishop : Piece.BBishop;
   const rook = byWhite ? Piece.WRook : Piece.BRook;
   const queen = byWhite ? Piece.WQueen : Piece.BQueen;
-  
-  // Diagonal directions (bishop, queen)
-  const diagonals = [[-1, -1], [-1, 1], [1, -1], [1, 1]];
-  for (const [dr, dc] of diagonals) {
-    let nr = row + dr;
-    let nc = col + dc;
-    while (isValidPos(nr, nc)) {
-      const piece = board[posFromRowCol(nr, nc)];
+
+  for (const offset of DIAGONAL_OFFSETS) {
+    for (let target = sq + offset; !(target & OFF_BOARD); target += offset) {
+      const piece = board[target];
       if (piece !== 0) {
         if (piece === bishop || piece === queen) return true;
         break;
       }
-      nr += dr;
-      nc += dc;
     }
   }
-  
-  // Straight directions (rook, queen)
-  const straights = [[-1, 0], [1, 0], [0, -1], [0, 1]];
-  for (const [dr, dc] of straights) {
-    let nr = row + dr;
-    let nc = col + dc;
-    while (isValidPos(nr, nc)) {
-      const piece = board[posFromRowCol(nr, nc)];
+
+  for (const offset of STRAIGHT_OFFSETS) {
+    for (let target = sq + offset; !(target & OFF_BOARD); target += offset) {
+      const piece = board[target];
       if (piece !== 0) {
         if (piece === rook || piece === queen) return true;
         break;
       }
-      nr += dr;
-      nc += dc;
     }
   }
-  
+
   return false;
 }
 
-// Check if current player is in check
-export function isInCheck(board: number[], isWhiteTurn: boolean): boolean {
-  const kingPos = findKing(board, isWhiteTurn);
-  return isSquareAttacked(board, kingPos, !isWhiteTurn);
-}
+// Generate pseudo-legal moves (may leave own king in check) for the side to move.
+// If onlyFrom is given (0x88 square), only moves of that piece are generated.
+// With capturesOnly, quiet moves are skipped (captures and promotions are kept).
+function generatePseudoLegal88(position: SearchPosition, moves: Move[], onlyFrom: number = -1, capturesOnly: boolean = false): void {
+  const { board, isWhiteTurn, enPassant } = position;
+  const first = onlyFrom === -1 ? 0 : onlyFrom;
+  const last = onlyFrom === -1 ? 127 : onlyFrom;
 
-// Generate pseudo-legal moves for a piece (doesn't check if leaves king in check)
-function generatePseudoLegalMoves(state: GameState, pos: number): Move[] {
-  const { board, isWhiteTurn, enPassantSquare, castlingRights } = state;
-  const piece = board[pos];
-  const moves: Move[] = [];
-  
-  if (piece === 0) return moves;
-  
-  const isWhite = isWhitePiece(piece);
-  if (isWhite !== isWhiteTurn) return moves;
-  
-  const row = getRow(pos);
-  const col = getCol(pos);
-  
-  const canCapture = (targetPiece: number): boolean => {
-    if (targetPiece === 0) return false;
-    return isWhite ? isBlackPiece(targetPiece) : isWhitePiece(targetPiece);
-  };
-  
-  const addMove = (to: number, promotion?: number, isCastling?: boolean, isEnPassant?: boolean): void => {
-    const captured = isEnPassant ? (isWhite ? Piece.BPawn : Piece.WPawn) : board[to];
-    moves.push({
-      from: pos,
-      to,
-      piece,
-      captured: captured || undefined,
-      promotion,
-      isCastling,
-      isEnPassant,
-    });
-  };
-  
-  // Pawn moves
-  if (isPawn(piece)) {
-    const direction = isWhite ? -1 : 1;
-    const startRow = isWhite ? 6 : 1;
-    const promotionRow = isWhite ? 0 : 7;
-    
-    // Forward move
-    const oneStep = pos + direction * 8;
-    if (board[oneStep] === 0) {
-      if (getRow(oneStep) === promotionRow) {
-        // Promotion
-        const promotions = isWhite 
-          ? [Piece.WQueen, Piece.WRook, Piece.WBishop, Piece.WKnight]
-          : [Piece.BQueen, Piece.BRook, Piece.BBishop, Piece.BKnight];
-        for (const promo of promotions) {
-          addMove(oneStep, promo);
+  for (let from = first; from <= last; from++) {
+    if (from & OFF_BOARD) {
+      from += 7;
+      continue;
+    }
+
+    const piece = board[from];
+    if (piece === 0 || isWhitePiece(piece) !== isWhiteTurn) continue;
+
+    const fromPos = from88(from);
+
+    const isEnemy = (target: number): boolean =>
+      target !== 0 && (isWhiteTurn ? target >= 7 : target <= 6);
+
+    const addMove = (to: number, captured: number): void => {
+      if (capturesOnly && !captured) return;
+      const move: Move = { from: fromPos, to: from88(to), piece };
+      if (captured) move.captured = captured;
+      moves.push(move);
+    };
+
+    const addPawnMove = (to: number, captured: number): void => {
+      const row = to >> 4;
+      if (row === 0 || row === 7) {
+        for (const promotion of isWhiteTurn ? WHITE_PROMOTIONS : BLACK_PROMOTIONS) {
+          const move: Move = { from: fromPos, to: from88(to), piece, promotion };
+          if (captured) move.captured = captured;
+          moves.push(move);
         }
       } else {
-        addMove(oneStep);
-        
-        // Two-step move from starting position
-        if (row === startRow) {
-          const twoStep = pos + direction * 16;
-          if (board[twoStep] === 0) {
-            addMove(twoStep);
+        addMove(to, captured);
+      }
+    };
+
+    switch (piece) {
+      case Piece.WPawn:
+      case Piece.BPawn: {
+        const forward = isWhiteTurn ? -16 : 16;
+        const startRow = isWhiteTurn ? 6 : 1;
+
+        // Forward moves
+        const oneStep = from + forward;
+        if (!(oneStep & OFF_BOARD) && board[oneStep] === 0) {
+          addPawnMove(oneStep, 0);
+          const twoStep = oneStep + forward;
+          if (!capturesOnly && (from >> 4) === startRow && board[twoStep] === 0) {
+            addMove(twoStep, 0);
+          }
+        }
+
+        // Captures, including en passant
+        for (const side of [-1, 1]) {
+          const target = oneStep + side;
+          if (target & OFF_BOARD) continue;
+          if (isEnemy(board[target])) {
+            addPawnMove(target, board[target]);
+          } else if (target === enPassant) {
+            moves.push({
+              from: fromPos,
+              to: from88(target),
+              piece,
+              captured: isWhiteTurn ? Piece.BPawn : Piece.WPawn,
+              isEnPassant: true,
+            });
           }
         }
+        break;
       }
-    }
-    
-    // Captures
-    const captureTargets = [oneStep - 1, oneStep + 1];
-    for (const target of captureTargets) {
-      if (!isValidPos(getRow(target), getCol(target))) continue;
-      if (Math.abs(getCol(target) - col) !== 1) continue;
-      
-      if (canCapture(board[target])) {
-        if (getRow(target) === promotionRow) {
-          const promotions = isWhite 
-            ? [Piece.WQueen, Piece.WRook, Piece.WBishop, Piece.WKnight]
-            : [Piece.BQueen, Piece.BRook, Piece.BBishop, Piece.BKnight];
-          for (const promo of promotions) {
-            addMove(target, promo);
+
+      case Piece.WKnight:
+      case Piece.BKnight:
+      case Piece.WKing:
+      case Piece.BKing: {
+        const offsets = isKnight(piece) ? KNIGHT_OFFSETS : KING_OFFSETS;
+        for (const offset of offsets) {
+          const target = from + offset;
+          if (target & OFF_BOARD) continue;
+          const targetPiece = board[target];
+          if (targetPiece === 0 || isEnemy(targetPiece)) {
+            addMove(target, targetPiece);
           }
-        } else {
-          addMove(target);
         }
+
+        if (isKing(piece) && !capturesOnly) {
+          addCastlingMoves(position, from, moves);
+        }
+        break;
       }
-      
-      // En passant
-      if (target === enPassantSquare) {
-        addMove(target, undefined, false, true);
+
+      default: {
+        // Sliding pieces
+        const directions = isBishop(piece)
+          ? DIAGONAL_OFFSETS
+          : isRook(piece)
+            ? STRAIGHT_OFFSETS
+            : KING_OFFSETS;
+        for (const offset of directions) {
+          for (let target = from + offset; !(target & OFF_BOARD); target += offset) {
+            const targetPiece = board[target];
+            if (targetPiece === 0) {
+              addMove(target, 0);
+            } else {
+              if (isEnemy(targetPiece)) addMove(target, targetPiece);
+              break;
+            }
+          }
+        }
       }
     }
   }
-  
-  // Knight moves
-  if (isKnight(piece)) {
-    const knightMoves = [
-      [-2, -1], [-2, 1], [-1, -2], [-1, 2],
-      [1, -2], [1, 2], [2, -1], [2, 1]
-    ];
-    for (const [dr, dc] of knightMoves) {
-      const nr = row + dr;
-      const nc = col + dc;
-      if (!isValidPos(nr, nc)) continue;
-      const target = posFromRowCol(nr, nc);
-      const targetPiece = board[target];
-      if (targetPiece === 0 || canCapture(targetPiece)) {
-        addMove(target);
-      }
+}
+
+// Castling: king and rook on their starting squares, nothing but the two of them on any square either
+// passes over or lands on, and the king may not start on, pass through or land on an attacked square.
+// The king ends on the g- or c-file and the rook beside it wherever they started, so Chess960
+// castling is generated as the king moving onto its own rook, which keeps every move unambiguous
+function addCastlingMoves(position: SearchPosition, from: number, moves: Move[]): void {
+  const { board, isWhiteTurn, castling, castlingRooks } = position;
+  const rank = isWhiteTurn ? 0x70 : 0x00;
+  const chess960 = position.variant === 'chess960';
+  if (!(castling & (isWhiteTurn ? 3 : 12)) || (from & 0x70) !== rank) return;
+  if (!chess960 && from !== rank + 4) return;
+
+  const piece = board[from];
+  const rook = isWhiteTurn ? Piece.WRook : Piece.BRook;
+
+  for (let side = 0; side < 2; side++) {
+    const bit = (isWhiteTurn ? 0 : 2) + side;
+    const kingside = side === 0;
+    const rookFrom = castlingRooks[bit];
+    if (!(castling & (1 << bit)) || board[rookFrom] !== rook || (rookFrom > from) !== kingside) continue;
+
+    const kingTo = rank + (kingside ? 6 : 2);
+    const rookTo = rank + (kingside ? 5 : 3);
+    const low = Math.min(from, kingTo, rookFrom, rookTo);
+    const high = Math.max(from, kingTo, rookFrom, rookTo);
+    let blocked = false;
+    for (let sq = low; sq <= high && !blocked; sq++) {
+      blocked = sq !== from && sq !== rookFrom && board[sq] !== 0;
     }
+    if (blocked) continue;
+
+    const step = kingTo > from ? 1 : -1;
+    let attacked = false;
+    for (let sq = from; !attacked; sq += step) {
+      attacked = isAttacked88(board, sq, !isWhiteTurn);
+      if (sq === kingTo) break;
+    }
+    if (attacked) continue;
+
+    moves.push(chess960
+      ? { from: from88(from), to: from88(rookFrom), piece, isCastling: true, castlingRook: from88(rookFrom) }
+      : { from: from88(from), to: from88(kingTo), piece, isCastling: true });
   }
-  
-  // Bishop moves
-  if (isBishop(piece) || isQueen(piece)) {
-    const diagonals = [[-1, -1], [-1, 1], [1, -1], [1, 1]];
-    for (const [dr, dc] of diagonals) {
-      let nr = row + dr;
-      let nc = col + dc;
-      while (isValidPos(nr, nc)) {
-        const target = posFromRowCol(nr, nc);
-        const targetPiece = board[target];
-        if (targetPiece === 0) {
-          addMove(target);
-        } else if (canCapture(targetPiece)) {
-          addMove(target);
-          break;
-        } else {
-          break;
-        }
-        nr += dr;
-        nc += dc;
-      }
+}
+
+// Make a move on the 0x88 position in place, returning what is needed to unmake it
+function makeMove88(position: SearchPosition, move: Move): SearchUndo {
+  const { board } = position;
+  const from = to88(move.from);
+  let to = to88(move.to);
+  const piece = board[from];
+  const undo: SearchUndo = {
+    captured: move.isCastling ? 0 : board[to],
+    capturedSquare: to,
+    castling: position.castling,
+    enPassant: position.enPassant,
+    hashHi: position.hash.hi,
+    hashLo: position.hash.lo,
+    whiteChecks: position.whiteChecks,
+    blackChecks: position.blackChecks,
+  };
+
+  if (move.isEnPassant) {
+    undo.capturedSquare = position.isWhiteTurn ? to + 16 : to - 16;
+    undo.captured = board[undo.capturedSquare];
+    board[undo.capturedSquare] = 0;
+  }
+
+  if (move.isCastling) {
+    // Lift both pieces before placing either, as Chess960 squares can overlap
+    const squares = getCastlingSquares(move);
+    const rookFrom = to88(squares.rookFrom);
+    const rook = board[rookFrom];
+    board[from] = 0;
+    board[rookFrom] = 0;
+    to = to88(squares.kingTo);
+    board[to] = piece;
+    board[to88(squares.rookTo)] = rook;
+  } else {
+    board[to] = move.promotion || piece;
+    board[from] = 0;
+  }
+
+  if (piece === Piece.WKing) position.whiteKing = to;
+  else if (piece === Piece.BKing) position.blackKing = to;
+
+  position.castling &= position.castleMasks[from] & position.castleMasks[to];
+  position.enPassant = isPawn(piece) && Math.abs(to - from) === 32 ? (from + to) >> 1 : -1;
+  position.isWhiteTurn = !position.isWhiteTurn;
+
+  updateZobristForMove(
+    position.hash,
+    move,
+    undo.captured,
+    from88(undo.capturedSquare),
+    undo.castling,
+    position.castling,
+    undo.enPassant === -1 ? -1 : from88(undo.enPassant),
+    position.enPassant === -1 ? -1 : from88(position.enPassant)
+  );
+
+  // Three-check: count the check this move gives
+  if (position.variant === 'threeCheck') {
+    const king = position.isWhiteTurn ? position.whiteKing : position.blackKing;
+    if (king !== -1 && isAttacked88(board, king, !position.isWhiteTurn)) {
+      xorZobristChecks(position.hash, position.whiteChecks, position.blackChecks);
+      if (position.isWhiteTurn) position.blackChecks++;
+      else position.whiteChecks++;
+      xorZobristChecks(position.hash, position.whiteChecks, position.blackChecks);
     }
   }
-  
-  // Rook moves
-  if (isRook(piece) || isQueen(piece)) {
-    const straights = [[-1, 0], [1, 0], [0, -1], [0, 1]];
-    for (const [dr, dc] of straights) {
-      let nr = row + dr;
-      let nc = col + dc;
-      while (isValidPos(nr, nc)) {
-        const target = posFromRowCol(nr, nc);
-        const targetPiece = board[target];
-        if (targetPiece === 0) {
-          addMove(target);
-        } else if (canCapture(targetPiece)) {
-          addMove(target);
-          break;
-        } else {
-          break;
+
+  return undo;
+}
+
+// Restore the 0x88 position to how it was before makeMove88
+function unmakeMove88(position: SearchPosition, move: Move, undo: SearchUndo): void {
+  const { board } = position;
+  const from = to88(move.from);
+  const to = to88(move.to);
+
+  position.isWhiteTurn = !position.isWhiteTurn;
+  position.castling = undo.castling;
+  position.enPassant = undo.enPassant;
+  position.hash.hi = undo.hashHi;
+  position.hash.lo = undo.hashLo;
+  position.whiteChecks = undo.whiteChecks;
+  position.blackChecks = undo.blackChecks;
+
+  if (move.isCastling) {
+    const squares = getCastlingSquares(move);
+    const rookTo = to88(squares.rookTo);
+    const rook = board[rookTo];
+    board[to88(squares.kingTo)] = 0;
+    board[rookTo] = 0;
+    board[from] = move.piece;
+    board[to88(squares.rookFrom)] = rook;
+  } else {
+    board[from] = move.piece;
+    board[to] = 0;
+    board[undo.capturedSquare] = undo.captured;
+  }
+
+  if (move.piece === Piece.WKing) position.whiteKing = from;
+  else if (move.piece === Piece.BKing) position.blackKing = from;
+}
+
+// After makeMove88, check whether the side that just moved left its king in check
+function leftKingInCheck(position: SearchPosition): boolean {
+  const moverIsWhite = !position.isWhiteTurn;
+  const kingSquare = moverIsWhite ? position.whiteKing : position.blackKing;
+  return kingSquare !== -1 && isAttacked88(position.board, kingSquare, position.isWhiteTurn);
+}
+
+// Check if the side to move has at least one legal move
+function hasLegalMove88(position: SearchPosition): boolean {
+  const moves: Move[] = [];
+  generatePseudoLegal88(position, moves);
+  for (const move of moves) {
+    const undo = makeMove88(position, move);
+    const illegal = leftKingInCheck(position);
+    unmakeMove88(position, move, undo);
+    if (!illegal) return true;
+  }
+  return false;
+}
+
+// Generate legal moves, marking checks and checkmates
+function generateLegal88(position: SearchPosition, onlyFrom: number = -1): Move[] {
+  const pseudoMoves: Move[] = [];
+  generatePseudoLegal88(position, pseudoMoves, onlyFrom);
+
+  const legalMoves: Move[] = [];
+  for (const move of pseudoMoves) {
+    const undo = makeMove88(position, move);
+    if (!leftKingInCheck(position)) {
+      const opponentKing = position.isWhiteTurn ? position.whiteKing : position.blackKing;
+      if (opponentKing !== -1 && isAttacked88(position.board, opponentKing, !position.isWhiteTurn)) {
+        move.isCheck = true;
+        if (!hasLegalMove88(position)) {
+          move.isCheckmate = true;
         }
-        nr += dr;
-        nc += dc;
       }
+      legalMoves.push(move);
     }
+    unmakeMove88(position, move, undo);
   }
-  
-  // King moves
-  if (isKing(piece)) {
-    const kingMoves = [
-      [-1, -1], [-1, 0], [-1, 1],
-      [0, -1], [0, 1],
-      [1, -1], [1, 0], [1, 1]
-    ];
-    for (const [dr, dc] of kingMoves) {
-      const nr = row + dr;
-      const nc = col + dc;
-      if (!isValidPos(nr, nc)) continue;
-      const target = posFromRowCol(nr, nc);
-      const targetPiece = board[target];
-      if (targetPiece === 0 || canCapture(targetPiece)) {
-        addMove(target);
-      }
-    }
-    
-    // Castling
-    const inCheck = isSquareAttacked(board, pos, !isWhite);
-    if (!inCheck) {
-      // Kingside castling
-      const canCastleKingside = isWhite ? castlingRights.whiteKingside : castlingRights.blackKingside;
-      if (canCastleKingside) {
-        const rookPos = isWhite ? 63 : 7;
-        if (board[rookPos] === (isWhite ? Piece.WRook : Piece.BRook)) {
-          const f = pos + 1;
-          const g = pos + 2;
-          if (board[f] === 0 && board[g] === 0) {
-            if (!isSquareAttacked(board, f, !isWhite) && !isSquareAttacked(board, g, !isWhite)) {
-              addMove(g, undefined, true);
-            }
-          }
-        }
-      }
-      
-      // Queenside castling
-      const canCastleQueenside = isWhite ? castlingRights.whiteQueenside : castlingRights.blackQueenside;
-      if (canCastleQueenside) {
-        const rookPos = isWhite ? 56 : 0;
-        if (board[rookPos] === (isWhite ? Piece.WRook : Piece.BRook)) {
-          const d = pos - 1;
-          const c = pos - 2;
-          const b = pos - 3;
-          if (board[d] === 0 && board[c] === 0 && board[b] === 0) {
-            if (!isSquareAttacked(board, d, !isWhite) && !isSquareAttacked(board, c, !isWhite)) {
-              addMove(c, undefined, true);
-            }
-          }
-        }
-      }
+
+  return legalMoves;
+}
+
+function perft88(position: SearchPosition, depth: number): number {
+  if (depth === 0) return 1;
+
+  const moves: Move[] = [];
+  generatePseudoLegal88(position, moves);
+
+  let nodes = 0;
+  for (const move of moves) {
+    const undo = makeMove88(position, move);
+    if (!leftKingInCheck(position)) {
+      nodes += depth === 1 ? 1 : perft88(position, depth - 1);
     }
+    unmakeMove88(position, move, undo);
   }
-  
+  return nodes;
+}
+
+// Search API: moves are made and unmade in place on a SearchPosition,
+// so the AI does not have to copy a GameState for every node it visits
+
+// Pseudo-legal moves for the side to move; makeSearchMove rejects the illegal ones
+export function generateSearchMoves(position: SearchPosition, capturesOnly: boolean = false): Move[] {
+  const moves: Move[] = [];
+  generatePseudoLegal88(position, moves, -1, capturesOnly);
   return moves;
 }
 
-// Generate all legal moves for current player
-export function generateLegalMoves(state: GameState): Move[] {
-  const { board, isWhiteTurn } = state;
-  const allMoves: Move[] = [];
-  
-  for (let pos = 0; pos < 64; pos++) {
-    const piece = board[pos];
-    if (piece === 0) continue;
-    if (isWhiteTurn !== isWhitePiece(piece)) continue;
-    
-    const moves = generatePseudoLegalMoves(state, pos);
-    
-    // Filter moves that leave king in check
-    for (const move of moves) {
-      const newBoard = applyMoveToBoard(board, move);
-      if (!isInCheck(newBoard, isWhiteTurn)) {
-        // Check if move causes check or checkmate
-        const opponentInCheck = isInCheck(newBoard, !isWhiteTurn);
-        if (opponentInCheck) {
-          move.isCheck = true;
-          // Check for checkmate
-          const tempState = { ...state, board: newBoard, isWhiteTurn: !isWhiteTurn };
-          const opponentMoves = generateLegalMovesWithoutCheckmate(tempState);
-          if (opponentMoves.length === 0) {
-            move.isCheckmate = true;
-          }
-        }
-        allMoves.push(move);
-      }
-    }
+// Make a move in place; returns null (leaving the position unchanged) if it is illegal
+export function makeSearchMove(position: SearchPosition, move: Move): SearchUndo | null {
+  const undo = makeMove88(position, move);
+  if (leftKingInCheck(position)) {
+    unmakeMove88(position, move, undo);
+    return null;
   }
-  
-  return allMoves;
+  return undo;
 }
 
-// Generate legal moves without checking for checkmate (to avoid infinite recursion)
-function generateLegalMovesWithoutCheckmate(state: GameState): Move[] {
-  const { board, isWhiteTurn } = state;
-  const allMoves: Move[] = [];
-  
-  for (let pos = 0; pos < 64; pos++) {
-    const piece = board[pos];
-    if (piece === 0) continue;
-    if (isWhiteTurn !== isWhitePiece(piece)) continue;
-    
-    const moves = generatePseudoLegalMoves(state, pos);
-    
-    for (const move of moves) {
-      const newBoard = applyMoveToBoard(board, move);
-      if (!isInCheck(newBoard, isWhiteTurn)) {
-        allMoves.push(move);
-      }
-    }
+export function unmakeSearchMove(position: SearchPosition, move: Move, undo: SearchUndo): void {
+  unmakeMove88(position, move, undo);
+}
+
+// Check if the side to move is in check
+export function isSearchPositionInCheck(position: SearchPosition): boolean {
+  const kingSquare = position.isWhiteTurn ? position.whiteKing : position.blackKing;
+  return kingSquare !== -1 && isAttacked88(position.board, kingSquare, !position.isWhiteTurn);
+}
+
+// Find king position
+export function findKing(board: number[], isWhite: boolean): number {
+  const king = isWhite ? Piece.WKing : Piece.BKing;
+  for (let i = 0; i < 64; i++) {
+    if (board[i] === king) return i;
   }
-  
-  return allMoves;
+  return -1;
+}
+
+// Check if a square is attacked by the opponent
+export function isSquareAttacked(board: number[], pos: number, byWhite: boolean): boolean {
+  return isAttacked88(boardTo88(board), to88(pos), byWhite);
+}
+
+// Check if current player is in check
+export function isInCheck(board: number[], isWhiteTurn: boolean): boolean {
+  const kingPos = findKing(board, isWhiteTurn);
+  if (kingPos === -1) return false;
+  return isSquareAttacked(board, kingPos, !isWhiteTurn);
+}
+
+// Generate all legal moves for current player
+export function generateLegalMoves(state: GameState): Move[] {
+  return generateLegal88(createSearchPosition(state));
+}
+
+// Check if the current player has any legal move (cheaper than generating all of them)
+export function hasLegalMoves(state: GameState): boolean {
+  return hasLegalMove88(createSearchPosition(state));
 }
 
 // Get legal moves for a specific square
 export function getLegalMovesForSquare(state: GameState, pos: number): Move[] {
-  const moves = generatePseudoLegalMoves(state, pos);
-  const { board, isWhiteTurn } = state;
-  
-  return moves.filter(move => {
-    const newBoard = applyMoveToBoard(board, move);
-    return !isInCheck(newBoard, isWhiteTurn);
-  });
+  const piece = state.board[pos];
+  if (piece === 0 || isWhitePiece(piece) !== state.isWhiteTurn) return [];
+  return generateLegal88(createSearchPosition(state), to88(pos));
+}
+
+// Count leaf nodes of the legal move tree to the given depth (move generator test)
+export function perft(state: GameState, depth: number): number {
+  return perft88(createSearchPosition(state), depth);
+}
+
+// Perft split by root move (UCI notation), useful for locating move generation bugs
+export function perftDivide(state: GameState, depth: number): { [uci: string]: number } {
+  const position = createSearchPosition(state);
+  const result: { [uci: string]: number } = {};
+  for (const move of generateLegal88(position)) {
+    const undo = makeMove88(position, move);
+    result[moveToUCI(move)] = perft88(position, depth - 1);
+    unmakeMove88(position, move, undo);
+  }
+  return result;
 }
 
 // Apply a move to a board (returns new board)
@@ -540,6 +1000,17 @@ function applyMoveToBoard(board: number[], move: Move): number[] {
   const newBoard = [...board];
   const { from, to, piece, promotion, isCastling, isEnPassant } = move;
   
+  // Castling: lift the king and rook before placing them, as Chess960 squares can overlap
+  if (isCastling) {
+    const { kingTo, rookFrom, rookTo } = getCastlingSquares(move);
+    const rook = board[rookFrom];
+    newBoard[from] = 0;
+    newBoard[rookFrom] = 0;
+    newBoard[kingTo] = piece;
+    newBoard[rookTo] = rook;
+    return newBoard;
+  }
+  
   // Move the piece
   newBoard[from] = 0;
   newBoard[to] = promotion || piece;
@@ -550,23 +1021,6 @@ function applyMoveToBoard(board: number[], move: Move): number[] {
     newBoard[capturedPawnPos] = 0;
   }
   
-  // Handle castling
-  if (isCastling) {
-    if (to > from) {
-      // Kingside castling
-      const rookFrom = from + 3;
-      const rookTo = from + 1;
-      newBoard[rookFrom] = 0;
-      newBoard[rookTo] = newBoard[from] === 0 ? (isWhitePiece(piece) ? Piece.WRook : Piece.BRook) : board[rookFrom];
-    } else {
-      // Queenside castling
-      const rookFrom = from - 4;
-      const rookTo = from - 1;
-      newBoard[rookFrom] = 0;
-      newBoard[rookTo] = isWhitePiece(piece) ? Piece.WRook : Piece.BRook;
-    }
-  }
-  
   return newBoard;
 }
 
@@ -575,6 +1029,11 @@ export function makeMove(state: GameState, move: Move): GameState {
   const newBoard = applyMoveToBoard(state.board, move);
   const isWhite = isWhitePiece(move.piece);
   
+  // Piece actually removed from the board (stored so the move can be unmade);
+  // a Chess960 castling move targets its own rook, which is not captured
+  const capturedPos = move.isEnPassant ? (isWhite ? move.to + 8 : move.to - 8) : move.to;
+  const capturedPiece = move.isCastling ? 0 : state.board[capturedPos];
+  
   // Update castling rights
   const newCastlingRights = { ...state.castlingRights };
   
@@ -590,10 +1049,12 @@ export function makeMove(state: GameState, move: Move): GameState {
   }
   
   // Rook moves or captures
-  if (move.from === 63 || move.to === 63) newCastlingRights.whiteKingside = false;
-  if (move.from === 56 || move.to === 56) newCastlingRights.whiteQueenside = false;
-  if (move.from === 7 || move.to === 7) newCastlingRights.blackKingside = false;
-  if (move.from === 0 || move.to === 0) newCastlingRights.blackQueenside = false;
+  const files = state.castlingFiles ?? STANDARD_CASTLING_FILES;
+  const touches = (pos: number) => move.from === pos || move.to === pos;
+  if (touches(56 + files.whiteKingside)) newCastlingRights.whiteKingside = false;
+  if (touches(56 + files.whiteQueenside)) newCastlingRights.whiteQueenside = false;
+  if (touches(files.blackKingside)) newCastlingRights.blackKingside = false;
+  if (touches(files.blackQueenside)) newCastlingRights.blackQueenside = false;
   
   // Update en passant square
   let newEnPassantSquare: number | null = null;
@@ -602,11 +1063,44 @@ export function makeMove(state: GameState, move: Move): GameState {
   }
   
   // Update half-move clock (reset on pawn move or capture)
-  const newHalfMoveClock = (isPawn(move.piece) || move.captured) ? 0 : state.halfMoveClock + 1;
+  const newHalfMoveClock = (isPawn(move.piece) || capturedPiece) ? 0 : state.halfMoveClock + 1;
   
   // Update full move number
   const newFullMoveNumber = state.isWhiteTurn ? state.fullMoveNumber : state.fullMoveNumber + 1;
   
+  // Update Zobrist key incrementally
+  const key = state.zobristKey ? zobristKeyFromString(state.zobristKey) : zobristKeyFromString(computeZobristKey(state));
+  updateZobristForMove(
+    key,
+    move,
+    capturedPiece,
+    capturedPos,
+    castlingRightsToBits(state.castlingRights),
+    castlingRightsToBits(newCastlingRights),
+    state.enPassantSquare === null ? -1 : state.enPassantSquare,
+    newEnPassantSquare === null ? -1 : newEnPassantSquare
+  );
+  
+  // Three-check: count the check this move gives
+  let checksGiven = state.checksGiven;
+  if (getVariant(state) === 'threeCheck' && isInCheck(newBoard, !state.isWhiteTurn)) {
+    const before = checksGiven ?? { white: 0, black: 0 };
+    checksGiven = isWhite ? { ...before, white: before.white + 1 } : { ...before, black: before.black + 1 };
+    xorZobristChecks(key, before.white, before.black);
+    xorZobristChecks(key, checksGiven.white, checksGiven.black);
+  }
+  const newZobristKey = zobristKeyToString(key);
+  
+  const irreversible: IrreversibleState = {
+    castlingRights: state.castlingRights,
+    enPassantSquare: state.enPassantSquare,
+    halfMoveClock: state.halfMoveClock,
+    capturedPiece,
+    zobristKey: state.zobristKey,
+    status: state.status,
+  };
+  if (state.checksGiven) irreversible.checksGiven = state.checksGiven;
+  
   const newState: GameState = {
     board: newBoard,
     isWhiteTurn: !state.isWhiteTurn,
@@ -616,12 +1110,12 @@ export function makeMove(state: GameState, move: Move): GameState {
     fullMoveNumber: newFullMoveNumber,
     moveHistory: [...state.moveHistory, move],
     status: GameStatus.Active,
-    positionHistory: [...state.positionHistory],
+    positionHistory: [...state.positionHistory, newZobristKey],
+    zobristKey: newZobristKey,
+    irreversibleHistory: [...(state.irreversibleHistory || []), irreversible],
+    ...getVariantFields(state),
   };
-  
-  // Add position to history
-  const posHash = getBoardHash(newState);
-  newState.positionHistory.push(posHash);
+  if (checksGiven) newState.checksGiven = checksGiven;
   
   // Check game status
   newState.status = getGameStatus(newState);
@@ -631,13 +1125,19 @@ export function makeMove(state: GameState, move: Move): GameState {
 
 // Get game status
 export function getGameStatus(state: GameState): GameStatus {
-  const { board, isWhiteTurn, halfMoveClock, positionHistory } = state;
+  const { board, halfMoveClock, positionHistory, zobristKey } = state;
+  const position = createSearchPosition(state);
+  
+  // A move that reached the hill or gave the third check ends the game at once
+  if (isVariantLoss(position)) {
+    return GameStatus.VariantWin;
+  }
   
   // Check for checkmate or stalemate
-  const legalMoves = generateLegalMovesWithoutCheckmate(state);
-  const inCheck = isInCheck(board, isWhiteTurn);
+  const canMove = hasLegalMove88(position);
+  const inCheck = isSearchPositionInCheck(position);
   
-  if (legalMoves.length === 0) {
+  if (!canMove) {
     if (inCheck) {
       return GameStatus.Checkmate;
     }
@@ -654,22 +1154,34 @@ export function getGameStatus(state: GameState): GameStatus {
   }
   
   // Threefold repetition
-  const posHash = getBoardHash(state);
-  const repetitions = positionHistory.filter(h => h === posHash).length;
+  const repetitions = positionHistory.filter(key => key === zobristKey).length;
   if (repetitions >= 3) {
     return GameStatus.Draw;
   }
   
   // Insufficient material
-  if (isInsufficientMaterial(board)) {
+  if (isInsufficientMaterial(board, getVariant(state))) {
     return GameStatus.Draw;
   }
   
   return GameStatus.Active;
 }
 
-// Check for insufficient material
-function isInsufficientMaterial(board: number[]): boolean {
+// Check whether a status ends the game with the side to move losing
+export function isDecisiveStatus(status: GameStatus): boolean {
+  return status === GameStatus.Checkmate || status === GameStatus.VariantWin;
+}
+
+// Check whether a status ends the game
+export function isGameOverStatus(status: GameStatus): boolean {
+  return isDecisiveStatus(status) || status === GameStatus.Stalemate || status === GameStatus.Draw;
+}
+
+// Check for insufficient material. A lone king can still reach the hill, and in Three-check
+// any piece at all can still give check
+function isInsufficientMaterial(board: number[], variant: ChessVariant = 'standard'): boolean {
+  if (variant === 'kingOfTheHill') return false;
+  
   const pieces: number[] = [];
   
   for (const piece of board) {
@@ -680,6 +1192,7 @@ function isInsufficientMaterial(board: number[]): boolean {
   
   // King vs King
   if (pieces.length === 0) return true;
+  if (variant === 'threeCheck') return false;
   
   // King + Bishop/Knight vs King
   if (pieces.length === 1 && (isBishop(pieces[0]) || isKnight(pieces[0]))) return true;
@@ -704,68 +1217,162 @@ function isInsufficientMaterial(board: number[]): boolean {
   return false;
 }
 
-// Undo the last move
+// Undo the last move using the irreversible state saved by makeMove
 export function undoMove(state: GameState): GameState {
-  if (state.moveHistory.length === 0) return state;
+  const { moveHistory } = state;
+  if (moveHistory.length === 0) return state;
+  
+  const irreversibleHistory = state.irreversibleHistory || [];
+  const saved = irreversibleHistory[irreversibleHistory.length - 1];
+  
+  // States without saved undo information (e.g. stored before it existed) can only
+  // be rebuilt by replaying from the game's start position
+  if (!saved || irreversibleHistory.length !== moveHistory.length) {
+    let newState = state.startFEN
+      ? createStateFromFEN(state.startFEN, getVariant(state))
+      : createInitialState(getVariant(state), STANDARD_CHESS960_INDEX);
+    for (const move of moveHistory.slice(0, -1)) {
+      newState = makeMove(newState, move);
+    }
+    return newState;
+  }
   
-  // For simplicity, we'll recreate the state from the beginning
-  // In a production app, we'd store full state history
-  let newState = createInitialState();
-  const movesToReplay = state.moveHistory.slice(0, -1);
+  const move = moveHistory[moveHistory.length - 1];
+  const board = [...state.board];
   
-  for (const move of movesToReplay) {
-    newState = makeMove(newState, move);
+  if (move.isCastling) {
+    // Lift the king and rook before putting them back, as Chess960 squares can overlap
+    const { kingTo, rookFrom, rookTo } = getCastlingSquares(move);
+    const rook = board[rookTo];
+    board[kingTo] = 0;
+    board[rookTo] = 0;
+    board[move.from] = move.piece;
+    board[rookFrom] = rook;
+  } else {
+    // Put the moving piece back (undoing any promotion) and restore the captured piece
+    board[move.from] = move.piece;
+    board[move.to] = 0;
+    if (move.isEnPassant) {
+      board[isWhitePiece(move.piece) ? move.to + 8 : move.to - 8] = saved.capturedPiece;
+    } else {
+      board[move.to] = saved.capturedPiece;
+    }
   }
   
-  return newState;
+  return {
+    board,
+    isWhiteTurn: !state.isWhiteTurn,
+    castlingRights: saved.castlingRights,
+    enPassantSquare: saved.enPassantSquare,
+    halfMoveClock: saved.halfMoveClock,
+    fullMoveNumber: state.isWhiteTurn ? state.fullMoveNumber - 1 : state.fullMoveNumber,
+    moveHistory: moveHistory.slice(0, -1),
+    status: saved.status,
+    positionHistory: state.positionHistory.slice(0, -1),
+    zobristKey: saved.zobristKey,
+    irreversibleHistory: irreversibleHistory.slice(0, -1),
+    ...getVariantFields(state),
+    ...(saved.checksGiven ? { checksGiven: saved.checksGiven } : {}),
+  };
 }
 
-// Convert move to algebraic notation
-export function moveToAlgebraic(move: Move, _board: number[]): string {
+const SAN_PIECE_SYMBOLS: { [key: number]: string } = {
+  [Piece.WKnight]: 'N', [Piece.BKnight]: 'N',
+  [Piece.WBishop]: 'B', [Piece.BBishop]: 'B',
+  [Piece.WRook]: 'R', [Piece.BRook]: 'R',
+  [Piece.WQueen]: 'Q', [Piece.BQueen]: 'Q',
+  [Piece.WKing]: 'K', [Piece.BKing]: 'K',
+};
+
+// Find other pieces of the same type that can also legally move to the target square
+function getAmbiguousMoves(move: Move, board: number[]): Move[] {
+  const isWhite = isWhitePiece(move.piece);
+  // Castling and en passant never affect piece disambiguation, so a bare state is enough
+  const state: GameState = {
+    board,
+    isWhiteTurn: isWhite,
+    castlingRights: {
+      whiteKingside: false,
+      whiteQueenside: false,
+      blackKingside: false,
+      blackQueenside: false,
+    },
+    enPassantSquare: null,
+    halfMoveClock: 0,
+    fullMoveNumber: 1,
+    moveHistory: [],
+    status: GameStatus.Active,
+    positionHistory: [],
+    zobristKey: '',
+    irreversibleHistory: [],
+  };
+  
+  const ambiguous: Move[] = [];
+  for (let pos = 0; pos < 64; pos++) {
+    if (pos === move.from || board[pos] !== move.piece) continue;
+    const other = getLegalMovesForSquare(state, pos).find(m => m.to === move.to);
+    if (other) ambiguous.push(other);
+  }
+  return ambiguous;
+}
+
+// Convert move to standard algebraic notation (SAN)
+// The board must be the position before the move is played
+export function moveToAlgebraic(move: Move, board: number[]): string {
   const files = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
   const ranks = ['8', '7', '6', '5', '4', '3', '2', '1'];
   
   const fromFile = files[getCol(move.from)];
+  const fromRank = ranks[getRow(move.from)];
   const toFile = files[getCol(move.to)];
   const toRank = ranks[getRow(move.to)];
   
-  // Castling
-  if (move.isCastling) {
-    return move.to > move.from ? 'O-O' : 'O-O-O';
-  }
-  
   let notation = '';
   
-  // Piece symbol
-  const pieceSymbols: { [key: number]: string } = {
-    [Piece.WKnight]: 'N', [Piece.BKnight]: 'N',
-    [Piece.WBishop]: 'B', [Piece.BBishop]: 'B',
-    [Piece.WRook]: 'R', [Piece.BRook]: 'R',
-    [Piece.WQueen]: 'Q', [Piece.BQueen]: 'Q',
-    [Piece.WKing]: 'K', [Piece.BKing]: 'K',
-  };
-  
-  if (!isPawn(move.piece)) {
-    notation += pieceSymbols[move.piece] || '';
-  }
-  
-  // For pawns, include file if capturing
-  if (isPawn(move.piece) && move.captured) {
-    notation += fromFile;
-  }
-  
-  // Capture symbol
-  if (move.captured) {
-    notation += 'x';
-  }
-  
-  // Destination
-  notation += toFile + toRank;
-  
-  // Promotion
-  if (move.promotion) {
-    const promoSymbol = pieceSymbols[move.promotion] || 'Q';
-    notation += '=' + promoSymbol;
+  // Castling
+  if (move.isCastling) {
+    notation = move.to > move.from ? 'O-O' : 'O-O-O';
+  } else {
+    const isCapture = !!(move.captured || move.isEnPassant);
+    
+    if (isPawn(move.piece)) {
+      // For pawns, include file if capturing
+      if (isCapture) {
+        notation += fromFile;
+      }
+    } else {
+      notation += SAN_PIECE_SYMBOLS[move.piece] || '';
+      
+      // Disambiguate by file, then rank, then both
+      if (!isKing(move.piece)) {
+        const ambiguous = getAmbiguousMoves(move, board);
+        if (ambiguous.length > 0) {
+          const sameFile = ambiguous.some(m => getCol(m.from) === getCol(move.from));
+          const sameRank = ambiguous.some(m => getRow(m.from) === getRow(move.from));
+          if (!sameFile) {
+            notation += fromFile;
+          } else if (!sameRank) {
+            notation += fromRank;
+          } else {
+            notation += fromFile + fromRank;
+          }
+        }
+      }
+    }
+    
+    // Capture symbol
+    if (isCapture) {
+      notation += 'x';
+    }
+    
+    // Destination
+    notation += toFile + toRank;
+    
+    // Promotion
+    if (move.promotion) {
+      const promoSymbol = SAN_PIECE_SYMBOLS[move.promotion] || 'Q';
+      notation += '=' + promoSymbol;
+    }
   }
   
   // Check or checkmate
@@ -778,53 +1385,71 @@ export function moveToAlgebraic(move: Move, _board: number[]): string {
   return notation;
 }
 
-// Parse algebraic notation to find a move
+const SAN_PATTERN = /^([NBRQK])?([a-h])?([1-8])?(x|:)?([a-h][1-8])(?:=?\(?([NBRQ])\)?)?$/;
+
+// Parse standard algebraic notation to find a move
+// Accepts disambiguation (Nbd2, R1e2, Qh4xe1), promotions with or without '=',
+// check/mate suffixes and annotation glyphs; returns null for illegal or ambiguous moves
 export function parseAlgebraic(notation: string, state: GameState): Move | null {
   const legalMoves = generateLegalMoves(state);
   
+  // Remove check/checkmate symbols and annotations
+  const san = notation.trim().replace(/[+#!?]+$/, '');
+  
   // Handle castling
-  if (notation === 'O-O' || notation === '0-0') {
+  if (san === 'O-O' || san === '0-0') {
     return legalMoves.find(m => m.isCastling && m.to > m.from) || null;
   }
-  if (notation === 'O-O-O' || notation === '0-0-0') {
+  if (san === 'O-O-O' || san === '0-0-0') {
     return legalMoves.find(m => m.isCastling && m.to < m.from) || null;
   }
   
-  // Remove check/checkmate symbols
-  notation = notation.replace(/[+#]/, '');
+  const match = san.match(SAN_PATTERN);
+  if (!match) return null;
   
-  // Try to match the notation to a legal move
-  for (const move of legalMoves) {
-    if (moveToAlgebraic(move, state.board).replace(/[+#]/, '') === notation) {
-      return move;
+  const [, pieceSymbol, fromFile, fromRank, , target, promoSymbol] = match;
+  const to = posFromRowCol(8 - parseInt(target[1]), target.charCodeAt(0) - 97);
+  
+  const candidates = legalMoves.filter(move => {
+    if (move.to !== to || move.isCastling) return false;
+    
+    if (pieceSymbol) {
+      if (isPawn(move.piece) || SAN_PIECE_SYMBOLS[move.piece] !== pieceSymbol) return false;
+    } else if (!isPawn(move.piece)) {
+      return false;
     }
-  }
+    
+    if (fromFile && getCol(move.from) !== fromFile.charCodeAt(0) - 97) return false;
+    if (fromRank && getRow(move.from) !== 8 - parseInt(fromRank)) return false;
+    
+    if (promoSymbol) {
+      return !!move.promotion && SAN_PIECE_SYMBOLS[move.promotion] === promoSymbol;
+    }
+    return !move.promotion;
+  });
   
-  return null;
+  return candidates.length === 1 ? candidates[0] : null;
 }
 
-// Evaluate board position (simple material count)
-export function evaluateBoard(board: number[]): number {
-  const pieceValues: { [key: number]: number } = {
-    [Piece.WPawn]: 100, [Piece.BPawn]: -100,
-    [Piece.WKnight]: 320, [Piece.BKnight]: -320,
-    [Piece.WBishop]: 330, [Piece.BBishop]: -330,
-    [Piece.WRook]: 500, [Piece.BRook]: -500,
-    [Piece.WQueen]: 900, [Piece.BQueen]: -900,
-    [Piece.WKing]: 20000, [Piece.BKing]: -20000,
-  };
-  
-  let score = 0;
-  for (const piece of board) {
-    score += pieceValues[piece] || 0;
+// Create game state from FEN notation. Castling may also be given as rook files, as in Shredder-FEN
+// (HAha) or X-FEN (KQkq for the outermost rooks, file letters for inner ones), which implies Chess960
+// unless another variant is given. Three-check FENs carry the checks each side has left ("3+3") after
+// the en passant square, or the checks given so far ("+0+0") at the end
+export function createStateFromFEN(fen: string, variant?: ChessVariant): GameState {
+  const parts = fen.trim().split(/\s+/);
+  let checksGiven: ChecksGiven | undefined;
+  const remainingIndex = parts.findIndex((part, i) => i >= 4 && /^\d\+\d$/.test(part));
+  if (remainingIndex !== -1) {
+    const [white, black] = parts[remainingIndex].split('+').map(Number);
+    checksGiven = { white: CHECKS_TO_WIN - white, black: CHECKS_TO_WIN - black };
+    parts.splice(remainingIndex, 1);
+  }
+  const givenIndex = parts.findIndex((part, i) => i >= 4 && /^\+\d\+\d$/.test(part));
+  if (givenIndex !== -1) {
+    const [, white, black] = parts[givenIndex].split('+').map(Number);
+    checksGiven = { white, black };
+    parts.splice(givenIndex, 1);
   }
-  
-  return score;
-}
-
-// Create game state from FEN notation
-export function createStateFromFEN(fen: string): GameState {
-  const parts = fen.split(' ');
   const position = parts[0];
   const turn = parts[1] || 'w';
   const castling = parts[2] || '-';
@@ -850,13 +1475,21 @@ export function createStateFromFEN(fen: string): GameState {
     }
   }
 
+  const resolvedVariant = variant ?? (/[A-Ha-h]/.test(castling) ? 'chess960' : checksGiven ? 'threeCheck' : 'standard');
+
   // Parse castling rights
-  const castlingRights = {
-    whiteKingside: castling.includes('K'),
-    whiteQueenside: castling.includes('Q'),
-    blackKingside: castling.includes('k'),
-    blackQueenside: castling.includes('q'),
-  };
+  let castlingRights: CastlingRights;
+  let castlingFiles: CastlingFiles | undefined;
+  if (resolvedVariant === 'chess960') {
+    ({ castlingRights, castlingFiles } = parseChess960Castling(castling, board));
+  } else {
+    castlingRights = {
+      whiteKingside: castling.includes('K'),
+      whiteQueenside: castling.includes('Q'),
+      blackKingside: castling.includes('k'),
+      blackQueenside: castling.includes('q'),
+    };
+  }
 
   // Parse en passant
   let enPassantSquare: number | null = null;
@@ -866,7 +1499,7 @@ export function createStateFromFEN(fen: string): GameState {
     enPassantSquare = rank * 8 + file;
   }
 
-  return {
+  const state: GameState = {
     board,
     isWhiteTurn: turn === 'w',
     castlingRights,
@@ -876,7 +1509,135 @@ export function createStateFromFEN(fen: string): GameState {
     moveHistory: [],
     status: GameStatus.Active,
     positionHistory: [],
+    zobristKey: '',
+    irreversibleHistory: [],
   };
+  
+  if (resolvedVariant !== 'standard') state.variant = resolvedVariant;
+  if (castlingFiles) state.castlingFiles = castlingFiles;
+  if (resolvedVariant === 'threeCheck') state.checksGiven = checksGiven ?? { white: 0, black: 0 };
+  
+  state.zobristKey = computeZobristKey(state);
+  state.positionHistory.push(state.zobristKey);
+  state.status = getGameStatus(state);
+  // Keep the start position for replays unless it is the variant's usual one
+  const startFEN = stateToFEN(state);
+  if (resolvedVariant === 'chess960' || startFEN !== stateToFEN(createInitialState(resolvedVariant))) {
+    state.startFEN = startFEN;
+  }
+  
+  return state;
+}
+
+// Castling sides in FEN order, with the colour they belong to
+const CASTLING_SIDES: { side: keyof CastlingRights; isWhite: boolean; kingside: boolean }[] = [
+  { side: 'whiteKingside', isWhite: true, kingside: true },
+  { side: 'whiteQueenside', isWhite: true, kingside: false },
+  { side: 'blackKingside', isWhite: false, kingside: true },
+  { side: 'blackQueenside', isWhite: false, kingside: false },
+];
+
+// File of the rook furthest from the king on one side of it, or -1
+function findOutermostRook(board: number[], isWhite: boolean, kingFile: number, kingside: boolean): number {
+  const rank = isWhite ? 56 : 0;
+  const rook = isWhite ? Piece.WRook : Piece.BRook;
+  for (let i = 0; i < 8; i++) {
+    const file = kingside ? 7 - i : i;
+    if (kingside ? file <= kingFile : file >= kingFile) break;
+    if (board[rank + file] === rook) return file;
+  }
+  return -1;
+}
+
+// Read an X-FEN or Shredder-FEN castling field; rights without a king and rook to castle with are dropped
+function parseChess960Castling(field: string, board: number[]): { castlingRights: CastlingRights; castlingFiles: CastlingFiles } {
+  const castlingRights: CastlingRights = {
+    whiteKingside: false,
+    whiteQueenside: false,
+    blackKingside: false,
+    blackQueenside: false,
+  };
+  const castlingFiles: CastlingFiles = { ...STANDARD_CASTLING_FILES };
+
+  for (const char of field) {
+    const isWhite = char >= 'A' && char <= 'Z';
+    const letter = char.toLowerCase();
+    const rank = isWhite ? 56 : 0;
+    const kingFile = board.slice(rank, rank + 8).indexOf(isWhite ? Piece.WKing : Piece.BKing);
+    if (kingFile === -1) continue;
+
+    let file = -1;
+    if (letter === 'k' || letter === 'q') {
+      file = findOutermostRook(board, isWhite, kingFile, letter === 'k');
+    } else if (letter >= 'a' && letter <= 'h') {
+      file = letter.charCodeAt(0) - 97;
+    }
+    if (file === -1 || file === kingFile || board[rank + file] !== (isWhite ? Piece.WRook : Piece.BRook)) continue;
+
+    const side: keyof CastlingRights = file > kingFile
+      ? (isWhite ? 'whiteKingside' : 'blackKingside')
+      : (isWhite ? 'whiteQueenside' : 'blackQueenside');
+    castlingRights[side] = true;
+    castlingFiles[side] = file;
+  }
+
+  return { castlingRights, castlingFiles };
+}
+
+// Convert game state to FEN notation. Chess960 castling rights are written as X-FEN, or as
+// Shredder-FEN rook files; Three-check positions add the checks each side has left
+export function stateToFEN(state: GameState, castlingNotation: 'xfen' | 'shredder' = 'xfen'): string {
+  const { board, isWhiteTurn, castlingRights, castlingFiles, enPassantSquare, halfMoveClock, fullMoveNumber } = state;
+  
+  // Piece placement, rank 8 to rank 1
+  const rows: string[] = [];
+  for (let row = 0; row < 8; row++) {
+    let fenRow = '';
+    let empty = 0;
+    for (let col = 0; col < 8; col++) {
+      const piece = board[posFromRowCol(row, col)];
+      if (piece === 0) {
+        empty++;
+        continue;
+      }
+      if (empty > 0) {
+        fenRow += empty;
+        empty = 0;
+      }
+      fenRow += pieceToFenChar(piece);
+    }
+    if (empty > 0) fenRow += empty;
+    rows.push(fenRow);
+  }
+  
+  let castling = '';
+  for (const { side, isWhite, kingside } of CASTLING_SIDES) {
+    if (!castlingRights[side]) continue;
+    let symbol = kingside ? 'K' : 'Q';
+    if (castlingFiles) {
+      const kingFile = board.slice(isWhite ? 56 : 0, isWhite ? 64 : 8).indexOf(isWhite ? Piece.WKing : Piece.BKing);
+      const outermost = findOutermostRook(board, isWhite, kingFile, kingside) === castlingFiles[side];
+      if (castlingNotation === 'shredder' || !outermost) symbol = String.fromCharCode(65 + castlingFiles[side]);
+    }
+    castling += isWhite ? symbol : symbol.toLowerCase();
+  }
+  
+  const enPassant = enPassantSquare === null
+    ? '-'
+    : String.fromCharCode(97 + getCol(enPassantSquare)) + (8 - getRow(enPassantSquare));
+  
+  const fields: (string | number)[] = [
+    rows.join('/'),
+    isWhiteTurn ? 'w' : 'b',
+    castling || '-',
+    enPassant,
+  ];
+  if (getVariant(state) === 'threeCheck') {
+    const checks = state.checksGiven ?? { white: 0, black: 0 };
+    fields.push(`${Math.max(0, CHECKS_TO_WIN - checks.white)}+${Math.max(0, CHECKS_TO_WIN - checks.black)}`);
+  }
+  fields.push(halfMoveClock, fullMoveNumber);
+  return fields.join(' ');
 }
 
 // Convert FEN character to piece number
@@ -890,14 +1651,31 @@ function fenCharToPiece(char: string): number {
   return pieces[char] || 0;
 }
 
+// Convert piece number to FEN character
+function pieceToFenChar(piece: number): string {
+  const chars: { [key: number]: string } = {
+    [Piece.WPawn]: 'P', [Piece.WKnight]: 'N', [Piece.WBishop]: 'B',
+    [Piece.WRook]: 'R', [Piece.WQueen]: 'Q', [Piece.WKing]: 'K',
+    [Piece.BPawn]: 'p', [Piece.BKnight]: 'n', [Piece.BBishop]: 'b',
+    [Piece.BRook]: 'r', [Piece.BQueen]: 'q', [Piece.BKing]: 'k',
+  };
+  return chars[piece] || '';
+}
+
+// Square name for a board index (0 = a8, 63 = h1)
+export function squareToAlgebraic(pos: number): string {
+  return `${String.fromCharCode(97 + getCol(pos))}${8 - getRow(pos)}`;
+}
+
+// Board index for a square name such as "e4"
+export function algebraicToSquare(square: string): number {
+  if (!/^[a-h][1-8]$/.test(square)) throw new Error(`Invalid square: ${square}`);
+  return posFromRowCol(8 - parseInt(square[1]), square.charCodeAt(0) - 97);
+}
+
 // Convert move to UCI notation (e.g., "e2e4")
 export function moveToUCI(move: Move): string {
-  const fromFile = String.fromCharCode(97 + (move.from % 8));
-  const fromRank = 8 - Math.floor(move.from / 8);
-  const toFile = String.fromCharCode(97 + (move.to % 8));
-  const toRank = 8 - Math.floor(move.to / 8);
-  
-  let uci = `${fromFile}${fromRank}${toFile}${toRank}`;
+  let uci = `${squareToAlgebraic(move.from)}${squareToAlgebraic(move.to)}`;
   
   // Add promotion piece if applicable
   if (move.promotion) {
@@ -913,42 +1691,17 @@ export function moveToUCI(move: Move): string {
   return uci;
 }
 
-// Parse UCI notation to move (requires game state for context)
+// Parse UCI notation to a legal move in the given state, or null if the move is illegal
+// Matching against generated moves keeps the castling, en passant and capture flags makeMove needs
 export function uciToMove(uci: string, state: GameState): Move | null {
-  if (uci.length < 4) return null;
-  
-  const fromFile = uci.charCodeAt(0) - 97;
-  const fromRank = 8 - parseInt(uci[1]);
-  const toFile = uci.charCodeAt(2) - 97;
-  const toRank = 8 - parseInt(uci[3]);
-  
-  const from = fromRank * 8 + fromFile;
-  const to = toRank * 8 + toFile;
-  
-  const piece = state.board[from];
-  const capturedPiece = state.board[to];
-  
-  const move: Move = {
-    from,
-    to,
-    piece,
-    capturedPiece,
-  };
-  
-  // Check for promotion
-  if (uci.length === 5) {
-    const promotionChar = uci[4];
-    const isWhite = isWhitePiece(piece);
-    const promotionPieces: { [key: string]: number } = {
-      'q': isWhite ? Piece.WQueen : Piece.BQueen,
-      'r': isWhite ? Piece.WRook : Piece.BRook,
-      'b': isWhite ? Piece.WBishop : Piece.BBishop,
-      'n': isWhite ? Piece.WKnight : Piece.BKnight,
-    };
-    move.promotion = promotionPieces[promotionChar];
-  }
-  
-  return move;
+  const text = uci.trim().toLowerCase();
+  if (!/^[a-h][1-8][a-h][1-8][qrbn]?$/.test(text)) return null;
+
+  const candidates = generateLegalMoves(state).filter(m => moveToUCI(m).startsWith(text));
+  // A promotion without a piece letter defaults to a queen
+  return candidates.find(m => moveToUCI(m) === text)
+    ?? candidates.find(m => m.promotion === Piece.WQueen || m.promotion === Piece.BQueen)
+    ?? null;
 }
 
 // Export PieceType for backward compatibility
@@ -0,0 +1,461 @@
+// Static evaluation - tapered between middlegame and endgame by the material left on the board
+// Every weight lives in an EvaluationProfile so difficulty levels and tuning runs can swap them
+import { SearchPosition, Piece, HILL_SQUARES, to88, from88 } from './chessEngine';
+
+// A weight with separate middlegame and endgame values
+export interface TaperedScore {
+  mg: number;
+  eg: number;
+}
+
+export interface EvaluationProfile {
+  name: string;
+  pieceValues: {
+    pawn: TaperedScore;
+    knight: TaperedScore;
+    bishop: TaperedScore;
+    rook: TaperedScore;
+    queen: TaperedScore;
+  };
+  pieceSquareScale: number; // Multiplier for the piece-square tables (0 disables them)
+  bishopPair: TaperedScore;
+  doubledPawn: TaperedScore; // Per extra pawn on a file
+  isolatedPawn: TaperedScore; // Per pawn with no friendly pawns on neighbouring files
+  passedPawn: TaperedScore[]; // Indexed by relative rank (0 = own back rank)
+  mobility: {
+    knight: TaperedScore; // Per reachable square
+    bishop: TaperedScore;
+    rook: TaperedScore;
+    queen: TaperedScore;
+  };
+  kingShield: TaperedScore; // Per friendly pawn directly in front of the king
+  kingOpenFile: TaperedScore; // Per file next to the king without a friendly pawn
+  kingZoneAttack: TaperedScore; // Per enemy piece move into the squares around the king
+}
+
+const score = (mg: number, eg: number): TaperedScore => ({ mg, eg });
+const ZERO = score(0, 0);
+
+export const DEFAULT_EVALUATION_PROFILE: EvaluationProfile = {
+  name: 'standard',
+  pieceValues: {
+    pawn: score(100, 120),
+    knight: score(320, 300),
+    bishop: score(330, 320),
+    rook: score(500, 550),
+    queen: score(900, 950),
+  },
+  pieceSquareScale: 1,
+  bishopPair: score(30, 50),
+  doubledPawn: score(-10, -20),
+  isolatedPawn: score(-10, -15),
+  passedPawn: [
+    ZERO, score(5, 10), score(10, 20), score(15, 35),
+    score(25, 60), score(40, 90), score(60, 130), ZERO,
+  ],
+  mobility: {
+    knight: score(4, 4),
+    bishop: score(5, 5),
+    rook: score(2, 4),
+    queen: score(1, 2),
+  },
+  kingShield: score(10, 0),
+  kingOpenFile: score(-20, 0),
+  kingZoneAttack: score(-8, 0),
+};
+
+// Material and piece placement only - cheaper and noticeably weaker
+export const BASIC_EVALUATION_PROFILE: EvaluationProfile = {
+  ...DEFAULT_EVALUATION_PROFILE,
+  name: 'basic',
+  bishopPair: ZERO,
+  doubledPawn: ZERO,
+  isolatedPawn: ZERO,
+  passedPawn: DEFAULT_EVALUATION_PROFILE.passedPawn.map(() => ZERO),
+  mobility: { knight: ZERO, bishop: ZERO, rook: ZERO, queen: ZERO },
+  kingShield: ZERO,
+  kingOpenFile: ZERO,
+  kingZoneAttack: ZERO,
+};
+
+export const EVALUATION_PROFILES: { [name: string]: EvaluationProfile } = {
+  standard: DEFAULT_EVALUATION_PROFILE,
+  basic: BASIC_EVALUATION_PROFILE,
+};
+
+// Game phase: 24 with all pieces on the board, 0 with only kings and pawns
+const PHASE_WEIGHTS = [0, 0, 1, 1, 2, 4, 0]; // Indexed by piece type
+export const MAX_PHASE = 24;
+
+// Piece-square tables from White's point of view (a8 first)
+const PAWN_MG_TABLE = [
+  0,  0,  0,  0,  0,  0,  0,  0,
+  50, 50, 50, 50, 50, 50, 50, 50,
+  10, 10, 20, 30, 30, 20, 10, 10,
+  5,  5, 10, 25, 25, 10,  5,  5,
+  0,  0,  0, 20, 20,  0,  0,  0,
+  5, -5,-10,  0,  0,-10, -5,  5,
+  5, 10, 10,-20,-20, 10, 10,  5,
+  0,  0,  0,  0,  0,  0,  0,  0
+];
+
+// Advancement matters more than centralisation once pieces come off
+const PAWN_EG_TABLE = [
+  0,  0,  0,  0,  0,  0,  0,  0,
+  60, 60, 60, 60, 60, 60, 60, 60,
+  40, 40, 40, 40, 40, 40, 40, 40,
+  25, 25, 25, 25, 25, 25, 25, 25,
+  10, 10, 10, 10, 10, 10, 10, 10,
+  5,  5,  5,  5,  5,  5,  5,  5,
+  0,  0,  0,  0,  0,  0,  0,  0,
+  0,  0,  0,  0,  0,  0,  0,  0
+];
+
+const KNIGHT_TABLE = [
+  -50,-40,-30,-30,-30,-30,-40,-50,
+  -40,-20,  0,  0,  0,  0,-20,-40,
+  -30,  0, 10, 15, 15, 10,  0,-30,
+  -30,  5, 15, 20, 20, 15,  5,-30,
+  -30,  0, 15, 20, 20, 15,  0,-30,
+  -30,  5, 10, 15, 15, 10,  5,-30,
+  -40,-20,  0,  5,  5,  0,-20,-40,
+  -50,-40,-30,-30,-30,-30,-40,-50
+];
+
+const BISHOP_TABLE = [
+  -20,-10,-10,-10,-10,-10,-10,-20,
+  -10,  0,  0,  0,  0,  0,  0,-10,
+  -10,  0,  5, 10, 10,  5,  0,-10,
+  -10,  5,  5, 10, 10,  5,  5,-10,
+  -10,  0, 10, 10, 10, 10,  0,-10,
+  -10, 10, 10, 10, 10, 10, 10,-10,
+  -10,  5,  0,  0,  0,  0,  5,-10,
+  -20,-10,-10,-10,-10,-10,-10,-20
+];
+
+const ROOK_TABLE = [
+  0,  0,  0,  0,  0,  0,  0,  0,
+  5, 10, 10, 10, 10, 10, 10,  5,
+  -5,  0,  0,  0,  0,  0,  0, -5,
+  -5,  0,  0,  0,  0,  0,  0, -5,
+  -5,  0,  0,  0,  0,  0,  0, -5,
+  -5,  0,  0,  0,  0,  0,  0, -5,
+  -5,  0,  0,  0,  0,  0,  0, -5,
+  0,  0,  0,  5,  5,  0,  0,  0
+];
+
+const QUEEN_TABLE = [
+  -20,-10,-10, -5, -5,-10,-10,-20,
+  -10,  0,  0,  0,  0,  0,  0,-10,
+  -10,  0,  5,  5,  5,  5,  0,-10,
+  -5,  0,  5,  5,  5,  5,  0, -5,
+  0,  0,  5,  5,  5,  5,  0, -5,
+  -10,  5,  5,  5,  5,  5,  0,-10,
+  -10,  0,  5,  0,  0,  0,  0,-10,
+  -20,-10,-10, -5, -5,-10,-10,-20
+];
+
+const KING_MIDDLE_TABLE = [
+  -30,-40,-40,-50,-50,-40,-40,-30,
+  -30,-40,-40,-50,-50,-40,-40,-30,
+  -30,-40,-40,-50,-50,-40,-40,-30,
+  -30,-40,-40,-50,-50,-40,-40,-30,
+  -20,-30,-30,-40,-40,-30,-30,-20,
+  -10,-20,-20,-20,-20,-20,-20,-10,
+  20, 20,  0,  0,  0,  0, 20, 20,
+  20, 30, 10,  0,  0, 10, 30, 20
+];
+
+const KING_END_TABLE = [
+  -50,-40,-30,-20,-20,-30,-40,-50,
+  -30,-20,-10,  0,  0,-10,-20,-30,
+  -30,-10, 20, 30, 30, 20,-10,-30,
+  -30,-10, 30, 40, 40, 30,-10,-30,
+  -30,-10, 30, 40, 40, 30,-10,-30,
+  -30,-10, 20, 30, 30, 20,-10,-30,
+  -30,-30,  0,  0,  0,  0,-30,-30,
+  -50,-30,-30,-30,-30,-30,-30,-50
+];
+
+// [middlegame, endgame] tables indexed by piece type
+const PIECE_SQUARE_TABLES: number[][][] = [
+  [],
+  [PAWN_MG_TABLE, PAWN_EG_TABLE],
+  [KNIGHT_TABLE, KNIGHT_TABLE],
+  [BISHOP_TABLE, BISHOP_TABLE],
+  [ROOK_TABLE, ROOK_TABLE],
+  [QUEEN_TABLE, QUEEN_TABLE],
+  [KING_MIDDLE_TABLE, KING_END_TABLE],
+];
+
+const KNIGHT_OFFSETS = [-33, -31, -18, -14, 14, 18, 31, 33];
+const DIAGONAL_OFFSETS = [-17, -15, 15, 17];
+const STRAIGHT_OFFSETS = [-16, -1, 1, 16];
+const ALL_OFFSETS = [...DIAGONAL_OFFSETS, ...STRAIGHT_OFFSETS];
+
+const PAWN = 1;
+const KNIGHT = 2;
+const BISHOP = 3;
+const ROOK = 4;
+const QUEEN = 5;
+const KING = 6;
+
+// Scratch pawn information, reused between calls
+const pawnCount = [new Int8Array(8), new Int8Array(8)]; // [white, black] per file
+const rearmostRow = [new Int8Array(8), new Int8Array(8)]; // Least advanced pawn row per file
+
+function isNearSquare(sq: number, target: number): boolean {
+  const rowDiff = (sq >> 4) - (target >> 4);
+  const colDiff = (sq & 7) - (target & 7);
+  return rowDiff >= -1 && rowDiff <= 1 && colDiff >= -1 && colDiff <= 1;
+}
+
+// Set by countMobility: reachable squares that touch the enemy king zone
+let kingZoneHits = 0;
+
+// Squares a knight or slider on sq can move to (empty or enemy)
+function countMobility(board: number[], sq: number, type: number, isWhite: boolean, enemyKing: number): number {
+  let moves = 0;
+  kingZoneHits = 0;
+
+  if (type === KNIGHT) {
+    for (const offset of KNIGHT_OFFSETS) {
+      const target = sq + offset;
+      if (target & 0x88) continue;
+      const occupant = board[target];
+      if (occupant !== 0 && (occupant <= 6) === isWhite) continue;
+      moves++;
+      if (enemyKing !== -1 && isNearSquare(target, enemyKing)) kingZoneHits++;
+    }
+    return moves;
+  }
+
+  const offsets = type === BISHOP ? DIAGONAL_OFFSETS : type === ROOK ? STRAIGHT_OFFSETS : ALL_OFFSETS;
+  for (const offset of offsets) {
+    for (let target = sq + offset; !(target & 0x88); target += offset) {
+      const occupant = board[target];
+      if (occupant !== 0 && (occupant <= 6) === isWhite) break;
+      moves++;
+      if (enemyKing !== -1 && isNearSquare(target, enemyKing)) kingZoneHits++;
+      if (occupant !== 0) break;
+    }
+  }
+  return moves;
+}
+
+// Pawns in front of the king and open files beside it, from the king's side (mg, eg)
+function kingShelter(board: number[], king: number, isWhite: boolean, profile: EvaluationProfile): TaperedScore {
+  const side = isWhite ? 0 : 1;
+  const ownPawn = isWhite ? Piece.WPawn : Piece.BPawn;
+  const forward = isWhite ? -16 : 16;
+  let mg = 0;
+  let eg = 0;
+
+  for (let fileOffset = -1; fileOffset <= 1; fileOffset++) {
+    const file = (king & 7) + fileOffset;
+    if (file < 0 || file > 7) continue;
+
+    if (pawnCount[side][file] === 0) {
+      mg += profile.kingOpenFile.mg;
+      eg += profile.kingOpenFile.eg;
+    }
+
+    for (let step = 1; step <= 2; step++) {
+      const target = king + fileOffset + forward * step;
+      if (!(target & 0x88) && board[target] === ownPawn) {
+        mg += profile.kingShield.mg;
+        eg += profile.kingShield.eg;
+        break;
+      }
+    }
+  }
+
+  return { mg, eg };
+}
+
+function evaluate88(board: number[], profile: EvaluationProfile): number {
+  const values = profile.pieceValues;
+  const pieceValues = [ZERO, values.pawn, values.knight, values.bishop, values.rook, values.queen, ZERO];
+  const mobilityWeights = [ZERO, ZERO, profile.mobility.knight, profile.mobility.bishop, profile.mobility.rook, profile.mobility.queen, ZERO];
+  const pstScale = profile.pieceSquareScale;
+
+  let mg = 0;
+  let eg = 0;
+  let phase = 0;
+  const bishops = [0, 0];
+  const kings = [-1, -1];
+
+  for (let file = 0; file < 8; file++) {
+    pawnCount[0][file] = 0;
+    pawnCount[1][file] = 0;
+    rearmostRow[0][file] = -1; // White pawns advance towards row 0
+    rearmostRow[1][file] = 8; // Black pawns advance towards row 7
+  }
+
+  // Material, piece-square tables and pawn files
+  for (let sq = 0; sq < 128; sq++) {
+    if (sq & 0x88) {
+      sq += 7;
+      continue;
+    }
+    const piece = board[sq];
+    if (piece === 0) continue;
+
+    const isWhite = piece <= 6;
+    const side = isWhite ? 0 : 1;
+    const type = isWhite ? piece : piece - 6;
+    const sign = isWhite ? 1 : -1;
+    const tableIndex = from88(isWhite ? sq : sq ^ 0x70);
+    const tables = PIECE_SQUARE_TABLES[type];
+
+    mg += sign * (pieceValues[type].mg + tables[0][tableIndex] * pstScale);
+    eg += sign * (pieceValues[type].eg + tables[1][tableIndex] * pstScale);
+    phase += PHASE_WEIGHTS[type];
+
+    if (type === BISHOP) bishops[side]++;
+    if (type === KING) kings[side] = sq;
+    if (type === PAWN) {
+      const file = sq & 7;
+      const row = sq >> 4;
+      pawnCount[side][file]++;
+      if (isWhite ? row > rearmostRow[0][file] : row < rearmostRow[1][file]) {
+        rearmostRow[side][file] = row;
+      }
+    }
+  }
+
+  // Bishop pair
+  if (bishops[0] >= 2) {
+    mg += profile.bishopPair.mg;
+    eg += profile.bishopPair.eg;
+  }
+  if (bishops[1] >= 2) {
+    mg -= profile.bishopPair.mg;
+    eg -= profile.bishopPair.eg;
+  }
+
+  // Pawn structure, mobility and king attacks
+  const kingAttacks = [0, 0];
+  for (let sq = 0; sq < 128; sq++) {
+    if (sq & 0x88) {
+      sq += 7;
+      continue;
+    }
+    const piece = board[sq];
+    if (piece === 0) continue;
+
+    const isWhite = piece <= 6;
+    const side = isWhite ? 0 : 1;
+    const type = isWhite ? piece : piece - 6;
+    const sign = isWhite ? 1 : -1;
+
+    if (type === PAWN) {
+      const file = sq & 7;
+      const row = sq >> 4;
+      const hasLeft = file > 0 && pawnCount[side][file - 1] > 0;
+      const hasRight = file < 7 && pawnCount[side][file + 1] > 0;
+      if (!hasLeft && !hasRight) {
+        mg += sign * profile.isolatedPawn.mg;
+        eg += sign * profile.isolatedPawn.eg;
+      }
+
+      // Passed: no enemy pawn ahead on this or a neighbouring file
+      let passed = true;
+      for (let f = Math.max(0, file - 1); f <= Math.min(7, file + 1); f++) {
+        if (isWhite ? rearmostRow[1][f] < row : rearmostRow[0][f] > row) {
+          passed = false;
+          break;
+        }
+      }
+      if (passed) {
+        const bonus = profile.passedPawn[isWhite ? 7 - row : row];
+        mg += sign * bonus.mg;
+        eg += sign * bonus.eg;
+      }
+      continue;
+    }
+
+    if (type === KNIGHT || type === BISHOP || type === ROOK || type === QUEEN) {
+      const moves = countMobility(board, sq, type, isWhite, kings[1 - side]);
+      const weight = mobilityWeights[type];
+      mg += sign * moves * weight.mg;
+      eg += sign * moves * weight.eg;
+      kingAttacks[1 - side] += kingZoneHits;
+    }
+  }
+
+  // Doubled pawns
+  for (let file = 0; file < 8; file++) {
+    if (pawnCount[0][file] > 1) {
+      mg += (pawnCount[0][file] - 1) * profile.doubledPawn.mg;
+      eg += (pawnCount[0][file] - 1) * profile.doubledPawn.eg;
+    }
+    if (pawnCount[1][file] > 1) {
+      mg -= (pawnCount[1][file] - 1) * profile.doubledPawn.mg;
+      eg -= (pawnCount[1][file] - 1) * profile.doubledPawn.eg;
+    }
+  }
+
+  // King safety
+  for (let side = 0; side < 2; side++) {
+    const king = kings[side];
+    if (king === -1) continue;
+    const sign = side === 0 ? 1 : -1;
+    const shelter = kingShelter(board, king, side === 0, profile);
+    mg += sign * (shelter.mg + kingAttacks[side] * profile.kingZoneAttack.mg);
+    eg += sign * (shelter.eg + kingAttacks[side] * profile.kingZoneAttack.eg);
+  }
+
+  // Blend by phase (promotions can push the piece count past the starting material)
+  const clampedPhase = Math.min(phase, MAX_PHASE);
+  return Math.round((mg * clampedPhase + eg * (MAX_PHASE - clampedPhase)) / MAX_PHASE);
+}
+
+// Game phase from MAX_PHASE (opening) down to 0 (pawn endgame)
+export function getGamePhase(board: number[]): number {
+  let phase = 0;
+  for (const piece of board) {
+    if (piece === 0) continue;
+    phase += PHASE_WEIGHTS[piece <= 6 ? piece : piece - 6];
+  }
+  return Math.min(phase, MAX_PHASE);
+}
+
+// King of the Hill: bonus by the king's distance in moves from the nearest centre square
+const HILL_DISTANCE_BONUS = [0, 120, 50, 20, 0, 0, 0, 0];
+// Three-check: bonus by the number of checks given (the third one wins)
+const CHECKS_GIVEN_BONUS = [0, 150, 400];
+const HILL_SQUARES_88 = HILL_SQUARES.map(to88);
+
+function hillDistance(sq: number): number {
+  return Math.min(...HILL_SQUARES_88.map(hill =>
+    Math.max(Math.abs((hill >> 4) - (sq >> 4)), Math.abs((hill & 7) - (sq & 7)))
+  ));
+}
+
+// Terms for the rules a variant adds, positive when White is better
+function evaluateVariant(position: SearchPosition): number {
+  switch (position.variant) {
+    case 'kingOfTheHill':
+      return (position.whiteKing === -1 ? 0 : HILL_DISTANCE_BONUS[hillDistance(position.whiteKing)]) -
+        (position.blackKing === -1 ? 0 : HILL_DISTANCE_BONUS[hillDistance(position.blackKing)]);
+    case 'threeCheck':
+      return (CHECKS_GIVEN_BONUS[position.whiteChecks] ?? 0) - (CHECKS_GIVEN_BONUS[position.blackChecks] ?? 0);
+    default:
+      return 0;
+  }
+}
+
+// Static evaluation of a search position, positive when White is better
+export function evaluatePosition(position: SearchPosition, profile: EvaluationProfile = DEFAULT_EVALUATION_PROFILE): number {
+  return evaluate88(position.board, profile) + evaluateVariant(position);
+}
+
+// Static evaluation of a 64-square board, positive when White is better
+export function evaluateBoard(board: number[], profile: EvaluationProfile = DEFAULT_EVALUATION_PROFILE): number {
+  const board88: number[] = new Array(128).fill(0);
+  for (let pos = 0; pos < 64; pos++) {
+    board88[to88(pos)] = board[pos];
+  }
+  return evaluate88(board88, profile);
+}
@@ -0,0 +1,515 @@
+// PGN (Portable Game Notation) import/export for chessEngine game states
+import {
+  GameState,
+  GameStatus,
+  Move,
+  STANDARD_CHESS960_INDEX,
+  createInitialState,
+  createStateFromFEN,
+  generateLegalMoves,
+  getVariant,
+  makeMove,
+  moveToAlgebraic,
+  parseAlgebraic,
+  stateToFEN,
+  undoMove,
+} from './chessEngine';
+import { getVariantFromPGN, getVariantInfo } from './chessVariants';
+
+export type PGNResult = '1-0' | '0-1' | '1/2-1/2' | '*';
+
+export type PGNHeaders = { [tag: string]: string };
+
+export interface PGNMove {
+  san: string;
+  move: Move;
+  comment?: string;
+  commentBefore?: string; // Comment placed before the move, as at the start of a variation
+  nags?: number[];
+  variations?: PGNMove[][];
+}
+
+export interface PGNGame {
+  headers: PGNHeaders;
+  moves: PGNMove[];
+  result: PGNResult;
+  comment?: string; // Comment placed before the first move
+  state: GameState; // Position after the last mainline move
+}
+
+// Annotations attached to a ply of moveHistory when exporting a GameState
+export interface PGNAnnotation {
+  comment?: string;
+  nags?: number[];
+  variations?: Move[][]; // Alternatives to the move played at this ply
+}
+
+export interface PGNExportOptions {
+  headers?: PGNHeaders;
+  annotations?: { [ply: number]: PGNAnnotation };
+  startFEN?: string; // Required when the game did not start from the initial position (found by taking moves back for Chess960)
+  maxLineLength?: number;
+}
+
+// Seven Tag Roster, in the order required by the PGN standard
+export const SEVEN_TAG_ROSTER = ['Event', 'Site', 'Date', 'Round', 'White', 'Black', 'Result'];
+
+// Placeholder values for unknown Seven Tag Roster entries
+const SEVEN_TAG_DEFAULTS: PGNHeaders = {
+  Event: '?',
+  Site: '?',
+  Date: '????.??.??',
+  Round: '?',
+  White: '?',
+  Black: '?',
+};
+
+const RESULTS: PGNResult[] = ['1-0', '0-1', '1/2-1/2', '*'];
+
+// Traditional move suffix annotations and their NAG equivalents
+const SUFFIX_NAGS: { [suffix: string]: number } = {
+  '!': 1, '?': 2, '!!': 3, '??': 4, '!?': 5, '?!': 6,
+};
+
+// Get the PGN result for a finished (or unfinished) game state
+export function getPGNResult(state: GameState): PGNResult {
+  switch (state.status) {
+    case GameStatus.Checkmate:
+    case GameStatus.VariantWin:
+      return state.isWhiteTurn ? '0-1' : '1-0';
+    case GameStatus.Stalemate:
+    case GameStatus.Draw:
+      return '1/2-1/2';
+    default:
+      return '*';
+  }
+}
+
+// Format a Date as a PGN date tag (YYYY.MM.DD)
+export function formatPGNDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}.${month}.${day}`;
+}
+
+// Find the legal move in a position that matches a stored move
+function findLegalMove(state: GameState, move: Move): Move | null {
+  return generateLegalMoves(state).find(m =>
+    m.from === move.from &&
+    m.to === move.to &&
+    (m.promotion || 0) === (move.promotion || 0)
+  ) || null;
+}
+
+// Replay a list of moves from a position, producing SAN for each one
+function movesToPGNMoves(start: GameState, moves: Move[], annotations: { [ply: number]: PGNAnnotation } = {}, plyOffset = 0): { pgnMoves: PGNMove[]; state: GameState } {
+  const pgnMoves: PGNMove[] = [];
+  let state = start;
+
+  moves.forEach((stored, i) => {
+    const move = findLegalMove(state, stored);
+    if (!move) {
+      throw new Error(`Illegal move in history at ply ${plyOffset + i + 1}`);
+    }
+
+    const pgnMove: PGNMove = { san: moveToAlgebraic(move, state.board), move };
+    const annotation = annotations[plyOffset + i];
+    if (annotation) {
+      if (annotation.comment) pgnMove.comment = annotation.comment;
+      if (annotation.nags && annotation.nags.length > 0) pgnMove.nags = [...annotation.nags];
+      if (annotation.variations && annotation.variations.length > 0) {
+        pgnMove.variations = annotation.variations.map(line => movesToPGNMoves(state, line).pgnMoves);
+      }
+    }
+
+    pgnMoves.push(pgnMove);
+    state = makeMove(state, move);
+  });
+
+  return { pgnMoves, state };
+}
+
+// Position a game started from, found by taking back its moves
+function getStartState(state: GameState): GameState {
+  let start = state;
+  while (start.moveHistory.length > 0) {
+    start = undoMove(start);
+  }
+  return start;
+}
+
+// Start position described by a game's Variant, SetUp and FEN tags
+export function getPGNStartState(headers: PGNHeaders): GameState {
+  const variant = getVariantFromPGN(headers.Variant);
+  if (!variant) {
+    throw new Error(`Unsupported variant "${headers.Variant}" in PGN`);
+  }
+  return headers.FEN
+    ? createStateFromFEN(headers.FEN, variant)
+    : createInitialState(variant, STANDARD_CHESS960_INDEX);
+}
+
+// Build a PGNGame from a GameState and its move history
+export function gameStateToPGNGame(state: GameState, options: PGNExportOptions = {}): PGNGame {
+  const variant = getVariant(state);
+  const givenFEN = options.startFEN || options.headers?.FEN;
+  const start = givenFEN ? createStateFromFEN(givenFEN, variant) : getStartState(state);
+  // Chess960 has no fixed initial position, so its start position is always recorded
+  const fen = givenFEN || stateToFEN(start);
+  const startFEN = variant === 'chess960' || fen !== stateToFEN(createInitialState(variant)) ? fen : undefined;
+  const { pgnMoves } = movesToPGNMoves(start, state.moveHistory, options.annotations);
+  const result = (options.headers?.Result as PGNResult) || getPGNResult(state);
+
+  const headers: PGNHeaders = {
+    ...SEVEN_TAG_DEFAULTS,
+    ...options.headers,
+    Result: result,
+  };
+
+  if (variant !== 'standard') {
+    headers.Variant = getVariantInfo(variant).pgnName;
+  }
+  if (startFEN) {
+    headers.SetUp = '1';
+    headers.FEN = startFEN;
+  }
+
+  return { headers, moves: pgnMoves, result, state };
+}
+
+// Escape a tag value for use inside a PGN header
+function escapeTagValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+// Serialize a move line into movetext tokens
+function lineToTokens(moves: PGNMove[], startPly: number, tokens: string[]): void {
+  let needsNumber = true;
+
+  moves.forEach((pgnMove, i) => {
+    const ply = startPly + i;
+    const moveNumber = Math.floor(ply / 2) + 1;
+    const isWhite = ply % 2 === 0;
+
+    if (pgnMove.commentBefore) {
+      tokens.push(`{${pgnMove.commentBefore.replace(/}/g, ')')}}`);
+      needsNumber = true;
+    }
+
+    if (isWhite) {
+      tokens.push(`${moveNumber}.`);
+    } else if (needsNumber) {
+      tokens.push(`${moveNumber}...`);
+    }
+    needsNumber = false;
+
+    tokens.push(pgnMove.san);
+
+    for (const nag of pgnMove.nags || []) {
+      tokens.push(`$${nag}`);
+    }
+
+    if (pgnMove.comment) {
+      tokens.push(`{${pgnMove.comment.replace(/}/g, ')')}}`);
+      needsNumber = true;
+    }
+
+    for (const variation of pgnMove.variations || []) {
+      tokens.push('(');
+      lineToTokens(variation, ply, tokens);
+      tokens.push(')');
+      needsNumber = true;
+    }
+  });
+}
+
+// Join tokens into lines no longer than maxLength, without padding around parentheses
+function wrapTokens(tokens: string[], maxLength: number): string {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const token of tokens) {
+    const glue = line === '' || line.endsWith('(') || token === ')' ? '' : ' ';
+    if (line !== '' && line.length + glue.length + token.length > maxLength) {
+      lines.push(line);
+      line = token;
+    } else {
+      line += glue + token;
+    }
+  }
+
+  if (line !== '') lines.push(line);
+  return lines.join('\n');
+}
+
+// Write a PGNGame as PGN text
+export function writePGN(game: PGNGame, maxLineLength: number = 80): string {
+  const tagLines: string[] = [];
+  const tags = [
+    ...SEVEN_TAG_ROSTER,
+    ...Object.keys(game.headers).filter(tag => !SEVEN_TAG_ROSTER.includes(tag)),
+  ];
+
+  for (const tag of tags) {
+    const value = tag === 'Result' ? game.result : game.headers[tag] ?? SEVEN_TAG_DEFAULTS[tag];
+    tagLines.push(`[${tag} "${escapeTagValue(value)}"]`);
+  }
+
+  const tokens: string[] = [];
+  if (game.comment) {
+    tokens.push(`{${game.comment.replace(/}/g, ')')}}`);
+  }
+
+  const startPly = getStartPly(game.headers.FEN);
+  lineToTokens(game.moves, startPly, tokens);
+  tokens.push(game.result);
+
+  return `${tagLines.join('\n')}\n\n${wrapTokens(tokens, maxLineLength)}\n`;
+}
+
+// Export a GameState's move history as PGN text
+export function exportPGN(state: GameState, options: PGNExportOptions = {}): string {
+  return writePGN(gameStateToPGNGame(state, options), options.maxLineLength);
+}
+
+// Export several games into a single PGN database string
+export function exportPGNDatabase(games: PGNGame[]): string {
+  return games.map(game => writePGN(game)).join('\n');
+}
+
+// Ply index of the first move for a game starting from the given FEN
+function getStartPly(fen?: string): number {
+  if (!fen) return 0;
+  const state = createStateFromFEN(fen);
+  return (state.fullMoveNumber - 1) * 2 + (state.isWhiteTurn ? 0 : 1);
+}
+
+// PGN tokenizer
+type PGNToken =
+  | { type: 'tag'; name: string; value: string }
+  | { type: 'comment'; value: string }
+  | { type: 'nag'; value: number }
+  | { type: 'open' }
+  | { type: 'close' }
+  | { type: 'result'; value: PGNResult }
+  | { type: 'san'; value: string };
+
+function tokenizePGN(pgn: string): PGNToken[] {
+  const tokens: PGNToken[] = [];
+  const text = pgn.replace(/\r\n?/g, '\n');
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    // Escape mechanism: lines starting with % are ignored
+    if (char === '%' && (i === 0 || text[i - 1] === '\n')) {
+      while (i < text.length && text[i] !== '\n') i++;
+      continue;
+    }
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '[') {
+      const end = findTagEnd(text, i);
+      const match = text.slice(i + 1, end).match(/^\s*([A-Za-z0-9_]+)\s+"((?:[^"\\]|\\.)*)"\s*$/);
+      if (!match) {
+        throw new Error(`Malformed PGN tag: ${text.slice(i, end + 1)}`);
+      }
+      tokens.push({ type: 'tag', name: match[1], value: match[2].replace(/\\(["\\])/g, '$1') });
+      i = end + 1;
+      continue;
+    }
+
+    if (char === '{') {
+      const end = text.indexOf('}', i);
+      if (end === -1) throw new Error('Unterminated PGN comment');
+      tokens.push({ type: 'comment', value: text.slice(i + 1, end).trim().replace(/\s+/g, ' ') });
+      i = end + 1;
+      continue;
+    }
+
+    if (char === ';') {
+      let end = text.indexOf('\n', i);
+      if (end === -1) end = text.length;
+      tokens.push({ type: 'comment', value: text.slice(i + 1, end).trim() });
+      i = end;
+      continue;
+    }
+
+    if (char === '(') {
+      tokens.push({ type: 'open' });
+      i++;
+      continue;
+    }
+
+    if (char === ')') {
+      tokens.push({ type: 'close' });
+      i++;
+      continue;
+    }
+
+    if (char === '$') {
+      const match = text.slice(i + 1).match(/^\d+/);
+      if (!match) throw new Error('Malformed NAG');
+      tokens.push({ type: 'nag', value: parseInt(match[0]) });
+      i += match[0].length + 1;
+      continue;
+    }
+
+    // Symbol token: move number, SAN move or game termination marker
+    let end = i;
+    while (end < text.length && !/[\s{}()[\];$]/.test(text[end])) end++;
+    const symbol = text.slice(i, end);
+    i = end;
+
+    if ((RESULTS as string[]).includes(symbol)) {
+      tokens.push({ type: 'result', value: symbol as PGNResult });
+      continue;
+    }
+
+    // Strip move number indications like "12." or "12...", leaving castling written as 0-0
+    if (/^\d+$/.test(symbol)) continue;
+    const san = symbol.replace(/^\d+\.+/, '');
+    if (san === '' || /^\.+$/.test(san)) continue;
+
+    // Split trailing suffix annotations into NAGs
+    const suffix = san.match(/[!?]+$/);
+    if (suffix) {
+      tokens.push({ type: 'san', value: san.slice(0, -suffix[0].length) });
+      const nag = SUFFIX_NAGS[suffix[0]];
+      if (nag) tokens.push({ type: 'nag', value: nag });
+    } else {
+      tokens.push({ type: 'san', value: san });
+    }
+  }
+
+  return tokens;
+}
+
+// Find the closing bracket of a tag pair, skipping quoted values
+function findTagEnd(text: string, start: number): number {
+  let inQuotes = false;
+  for (let i = start + 1; i < text.length; i++) {
+    const char = text[i];
+    if (char === '\\' && inQuotes) {
+      i++;
+    } else if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === ']' && !inQuotes) {
+      return i;
+    }
+  }
+  throw new Error('Unterminated PGN tag');
+}
+
+// A line being built while parsing movetext (mainline or variation)
+interface ParseFrame {
+  moves: PGNMove[];
+  state: GameState; // Position after the last move of this line
+  previous: GameState | null; // Position before the last move of this line
+  pendingComment?: string; // Comment read before the first move of a variation
+}
+
+// Parse a PGN string that may contain several games
+export function parsePGN(pgn: string): PGNGame[] {
+  const tokens = tokenizePGN(pgn);
+  const games: PGNGame[] = [];
+  let i = 0;
+
+  while (i < tokens.length) {
+    const headers: PGNHeaders = {};
+    while (i < tokens.length && tokens[i].type === 'tag') {
+      const token = tokens[i] as { name: string; value: string };
+      headers[token.name] = token.value;
+      i++;
+    }
+
+    const start = getPGNStartState(headers);
+    const mainline: ParseFrame = { moves: [], state: start, previous: null };
+    const stack: ParseFrame[] = [mainline];
+    let gameComment: string | undefined;
+    let result: PGNResult | null = null;
+    let sawMovetext = false;
+
+    while (i < tokens.length && result === null) {
+      const token = tokens[i];
+      // A tag pair after movetext starts the next game
+      if (token.type === 'tag') break;
+      i++;
+      sawMovetext = true;
+      const frame = stack[stack.length - 1];
+      const lastMove = frame.moves[frame.moves.length - 1];
+
+      switch (token.type) {
+        case 'comment':
+          if (lastMove) {
+            lastMove.comment = lastMove.comment ? `${lastMove.comment} ${token.value}` : token.value;
+          } else if (stack.length === 1) {
+            gameComment = gameComment ? `${gameComment} ${token.value}` : token.value;
+          } else {
+            frame.pendingComment = frame.pendingComment ? `${frame.pendingComment} ${token.value}` : token.value;
+          }
+          break;
+        case 'nag':
+          // A suffix like "!" and an explicit $1 on the same move are one annotation
+          if (lastMove && !lastMove.nags?.includes(token.value)) {
+            lastMove.nags = [...(lastMove.nags || []), token.value];
+          }
+          break;
+        case 'open': {
+          if (!lastMove || !frame.previous) throw new Error('Variation without a preceding move');
+          const variation: ParseFrame = { moves: [], state: frame.previous, previous: null };
+          lastMove.variations = [...(lastMove.variations || []), variation.moves];
+          stack.push(variation);
+          break;
+        }
+        case 'close':
+          if (stack.length === 1) throw new Error('Unbalanced parenthesis in PGN');
+          stack.pop();
+          break;
+        case 'san': {
+          const move = parseAlgebraic(token.value, frame.state);
+          if (!move) {
+            throw new Error(`Illegal or ambiguous move "${token.value}" in PGN`);
+          }
+          const pgnMove: PGNMove = { san: moveToAlgebraic(move, frame.state.board), move };
+          if (frame.pendingComment) {
+            pgnMove.commentBefore = frame.pendingComment;
+            frame.pendingComment = undefined;
+          }
+          frame.moves.push(pgnMove);
+          frame.previous = frame.state;
+          frame.state = makeMove(frame.state, move);
+          break;
+        }
+        case 'result':
+          if (stack.length !== 1) throw new Error('Game termination inside a variation');
+          result = token.value;
+          break;
+      }
+    }
+
+    if (!sawMovetext && Object.keys(headers).length === 0) break;
+
+    games.push({
+      headers,
+      moves: mainline.moves,
+      result: result || (headers.Result as PGNResult) || '*',
+      comment: gameComment,
+      state: mainline.state,
+    });
+  }
+
+  return games;
+}
+
+// Parse a single PGN game and return the resulting GameState
+export function importPGN(pgn: string): GameState {
+  const [game] = parsePGN(pgn);
+  if (!game) throw new Error('No game found in PGN');
+  return game.state;
+}
@@ -0,0 +1,67 @@
+// Variant catalogue - names and descriptions for the rule sets chessEngine plays,
+// and how each one is named in PGN Variant tags and by UCI GUIs
+import { ChessVariant } from './chessEngine';
+
+export interface VariantInfo {
+  id: ChessVariant;
+  name: string;
+  pgnName: string; // PGN Variant tag; omitted for standard games
+  uciName: string; // UCI_Variant value
+  description: string;
+}
+
+export const VARIANTS: VariantInfo[] = [
+  {
+    id: 'standard',
+    name: 'Standard',
+    pgnName: 'Standard',
+    uciName: 'chess',
+    description: 'Classical chess rules.',
+  },
+  {
+    id: 'chess960',
+    name: 'Chess960',
+    pgnName: 'Chess960',
+    uciName: 'chess960',
+    description: 'The back rank is shuffled: bishops on opposite colours and the king between the rooks. Castle by moving the king onto its rook.',
+  },
+  {
+    id: 'kingOfTheHill',
+    name: 'King of the Hill',
+    pgnName: 'King of the Hill',
+    uciName: 'kingofthehill',
+    description: 'Also win by bringing your king to one of the four centre squares.',
+  },
+  {
+    id: 'threeCheck',
+    name: 'Three-check',
+    pgnName: 'Three-check',
+    uciName: '3check',
+    description: 'Also win by giving check three times.',
+  },
+];
+
+// Other spellings seen in PGN Variant tags
+const PGN_ALIASES: { [name: string]: ChessVariant } = {
+  fischerandom: 'chess960',
+  'fischer random': 'chess960',
+  koth: 'kingOfTheHill',
+  '3-check': 'threeCheck',
+  threecheck: 'threeCheck',
+};
+
+export function getVariantInfo(variant: ChessVariant): VariantInfo {
+  return VARIANTS.find(info => info.id === variant) ?? VARIANTS[0];
+}
+
+// Variant named by a PGN Variant tag (a missing tag means standard chess); null if it is not supported
+export function getVariantFromPGN(name?: string): ChessVariant | null {
+  if (!name) return 'standard';
+  const key = name.trim().toLowerCase();
+  const info = VARIANTS.find(v => v.pgnName.toLowerCase() === key || v.uciName === key);
+  return info?.id ?? PGN_ALIASES[key] ?? null;
+}
+
+export function getVariantFromUCI(name: string): ChessVariant | null {
+  return VARIANTS.find(info => info.uciName === name.toLowerCase())?.id ?? null;
+}
@@ -0,0 +1,221 @@
+// Engine service - runs the local chess AI in a Web Worker
+// The search loop is synchronous, so a running worker cannot read further messages.
+// stop() and cancel() therefore terminate the worker and a fresh one is created on
+// the next search. Without Worker support (SSR, old browsers) the search runs inline.
+import { GameState } from './chessEngine';
+import {
+  EngineStrength,
+  SearchOptions,
+  SearchProgress,
+  SearchResult,
+  searchPosition,
+  clearTranspositionTable,
+  getStrengthSearchOptions,
+  selectMoveForStrength,
+} from './chessAI';
+
+export interface EngineSearchOptions extends Omit<SearchOptions, 'onProgress'> {
+  strength?: EngineStrength; // Use the strength level's limits and move selection
+  onProgress?: (progress: SearchProgress) => void;
+}
+
+// Messages sent to the worker
+export type EngineRequest =
+  | { type: 'search'; id: number; state: GameState; options: SearchOptions; strength?: EngineStrength }
+  | { type: 'newGame' };
+
+// Messages posted back by the worker
+export type EngineResponse =
+  | { type: 'progress'; id: number; progress: SearchProgress }
+  | { type: 'result'; id: number; result: SearchResult }
+  | { type: 'error'; id: number; message: string };
+
+export interface EngineService {
+  // Resolves with the search result, or null if the search was cancelled
+  search: (state: GameState, options?: EngineSearchOptions) => Promise<SearchResult | null>;
+  // End the current search early, resolving with the deepest completed iteration
+  stop: () => void;
+  // Abandon the current search, resolving it with null
+  cancel: () => void;
+  // Forget cached search data from the previous game
+  newGame: () => void;
+  dispose: () => void;
+}
+
+// Budget for the main-thread search used when a search is stopped before depth 1 completes
+const STOP_FALLBACK_MS = 50;
+const STOP_FALLBACK_NODES = 4096;
+
+interface PendingSearch {
+  id: number;
+  state: GameState;
+  resolve: (result: SearchResult | null) => void;
+  reject: (error: Error) => void;
+  strength?: EngineStrength;
+  onProgress?: (progress: SearchProgress) => void;
+  lastProgress: SearchProgress | null;
+}
+
+function progressToResult(progress: SearchProgress): SearchResult {
+  return {
+    bestMove: progress.bestMove,
+    score: progress.score,
+    depth: progress.depth,
+    pv: progress.pv,
+    nodes: progress.nodes,
+    elapsedMs: progress.elapsedMs,
+    rootMoves: progress.rootMoves,
+  };
+}
+
+function splitOptions(options: EngineSearchOptions) {
+  const { strength, onProgress, ...searchOptions } = options;
+  return { strength, onProgress, searchOptions };
+}
+
+export function createEngineService(): EngineService {
+  let worker: Worker | null = null;
+  let pending: PendingSearch | null = null;
+  let nextId = 1;
+
+  const canUseWorker = typeof window !== 'undefined' && typeof Worker !== 'undefined';
+
+  const finish = (result: SearchResult | null) => {
+    if (!pending) return;
+    const { resolve } = pending;
+    pending = null;
+    resolve(result);
+  };
+
+  const fail = (message: string) => {
+    if (!pending) return;
+    const { reject } = pending;
+    pending = null;
+    reject(new Error(message));
+  };
+
+  const handleMessage = (event: MessageEvent<EngineResponse>) => {
+    const message = event.data;
+    if (!pending || message.id !== pending.id) return; // Stale reply from an abandoned search
+
+    switch (message.type) {
+      case 'progress':
+        pending.lastProgress = message.progress;
+        pending.onProgress?.(message.progress);
+        break;
+      case 'result':
+        finish(message.result);
+        break;
+      case 'error':
+        fail(message.message);
+        break;
+    }
+  };
+
+  const getWorker = (): Worker => {
+    if (!worker) {
+      worker = new Worker(new URL('./engineWorker.ts', import.meta.url));
+      worker.addEventListener('message', handleMessage);
+      worker.addEventListener('error', (event) => {
+        event.preventDefault();
+        terminateWorker();
+        fail(event.message || 'Engine worker crashed');
+      });
+    }
+    return worker;
+  };
+
+  const terminateWorker = () => {
+    if (worker) {
+      worker.terminate();
+      worker = null;
+    }
+  };
+
+  const cancel = () => {
+    if (!pending) return;
+    if (canUseWorker) terminateWorker();
+    finish(null);
+  };
+
+  const stop = () => {
+    if (!pending) return;
+    if (canUseWorker) terminateWorker();
+
+    const { state, strength, lastProgress } = pending;
+    // Stopped before the first iteration reported - pick a move on this thread within a
+    // small budget, which falls back to the statically ranked moves in busy positions
+    const result = lastProgress
+      ? progressToResult(lastProgress)
+      : searchPosition(state, {
+        ...(strength !== undefined ? getStrengthSearchOptions(strength) : {}),
+        maxDepth: 1,
+        timeLimitMs: STOP_FALLBACK_MS,
+        maxNodes: STOP_FALLBACK_NODES,
+      });
+    // A weakened engine that is stopped early still plays at its strength
+    if (strength !== undefined) {
+      result.bestMove = selectMoveForStrength(result, strength);
+    }
+    finish(result);
+  };
+
+  const search = (state: GameState, options: EngineSearchOptions = {}): Promise<SearchResult | null> => {
+    cancel();
+
+    const { strength, onProgress, searchOptions } = splitOptions(options);
+    const id = nextId++;
+
+    return new Promise<SearchResult | null>((resolve, reject) => {
+      pending = { id, state, resolve, reject, strength, onProgress, lastProgress: null };
+
+      if (canUseWorker) {
+        const request: EngineRequest = { type: 'search', id, state, options: searchOptions, strength };
+        getWorker().postMessage(request);
+        return;
+      }
+
+      // Inline fallback - yield once so callers can render a thinking state first
+      setTimeout(() => {
+        if (!pending || pending.id !== id) return;
+        try {
+          const result = searchPosition(state, {
+            ...(strength !== undefined ? getStrengthSearchOptions(strength) : {}),
+            ...searchOptions,
+            onProgress: (progress) => {
+              if (pending && pending.id === id) {
+                pending.lastProgress = progress;
+                onProgress?.(progress);
+              }
+            },
+          });
+          if (strength !== undefined) {
+            result.bestMove = selectMoveForStrength(result, strength);
+          }
+          if (pending && pending.id === id) finish(result);
+        } catch (error) {
+          if (pending && pending.id === id) {
+            fail(error instanceof Error ? error.message : 'Search failed');
+          }
+        }
+      }, 0);
+    });
+  };
+
+  const newGame = () => {
+    cancel();
+    if (worker) {
+      const request: EngineRequest = { type: 'newGame' };
+      worker.postMessage(request);
+    } else {
+      clearTranspositionTable();
+    }
+  };
+
+  const dispose = () => {
+    cancel();
+    terminateWorker();
+  };
+
+  return { search, stop, cancel, newGame, dispose };
+}
@@ -0,0 +1,40 @@
+// Web Worker entry for the local chess AI - keeps search off the main thread
+// Loaded by engineService.ts via new Worker(new URL('./engineWorker.ts', import.meta.url))
+import {
+  searchPosition,
+  clearTranspositionTable,
+  getStrengthSearchOptions,
+  selectMoveForStrength,
+} from './chessAI';
+import type { EngineRequest, EngineResponse } from './engineService';
+
+function post(message: EngineResponse) {
+  self.postMessage(message);
+}
+
+self.addEventListener('message', (event: MessageEvent<EngineRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'newGame') {
+    clearTranspositionTable();
+    return;
+  }
+
+  const { id, state, options, strength } = request;
+  try {
+    const result = searchPosition(state, {
+      ...(strength !== undefined ? getStrengthSearchOptions(strength) : {}),
+      ...options,
+      onProgress: (progress) => post({ type: 'progress', id, progress }),
+    });
+
+    // Weaker strength levels may deliberately play something other than the best move
+    if (strength !== undefined) {
+      result.bestMove = selectMoveForStrength(result, strength);
+    }
+
+    post({ type: 'result', id, result });
+  } catch (error) {
+    post({ type: 'error', id, message: error instanceof Error ? error.message : 'Search failed' });
+  }
+});
@@ -0,0 +1,259 @@
+// Post-game analysis - replays a finished game with the search engine, classifies every
+// move and turns the result into the skill changes ChessAcademy.submitGameAnalysis expects.
+// Searches are asynchronous so screens can run them in the engine worker
+import {
+  GameState,
+  Move,
+  undoMove,
+  moveToAlgebraic,
+  isInCheck,
+} from './chessEngine';
+import { MATE_SCORE, SearchOptions, SearchResult, searchPosition } from './chessAI';
+import { getGamePhase } from './chessEvaluation';
+import { SkillCategory, SKILL_CATEGORY_NAMES } from './lessonData';
+
+export type MoveClassification = 'best' | 'good' | 'inaccuracy' | 'mistake' | 'blunder';
+
+export interface AnalyzedMove {
+  ply: number; // 0-based index into moveHistory
+  moveNumber: number;
+  isWhite: boolean;
+  move: Move;
+  san: string;
+  bestMove: Move | null;
+  bestSan: string | null;
+  evalBefore: number; // Centipawns from White's point of view, capped at EVAL_CAP
+  evalAfter: number;
+  centipawnLoss: number;
+  accuracy: number; // 0-100 for this move
+  classification: MoveClassification;
+  phase: SkillCategory; // Opening, Middlegame or Endgame
+  theme: SkillCategory; // Tactics, Strategy or Calculate
+}
+
+export interface PlayerAnalysis {
+  accuracy: number; // 0-100, rounded
+  averageCentipawnLoss: number;
+  counts: { [key in MoveClassification]: number };
+  skillChanges: number[]; // One entry per SkillCategory, in enum order
+  weaknesses: string[];
+  strengths: string[];
+}
+
+export interface GameAnalysis {
+  moves: AnalyzedMove[];
+  white: PlayerAnalysis;
+  black: PlayerAnalysis;
+}
+
+// Arguments for useChessAcademy().submitGameAnalysis after the game and player ids
+export interface GameAnalysisSubmission {
+  skillChanges: number[];
+  weaknesses: string[];
+  strengths: string[];
+  accuracyScore: number;
+}
+
+export interface AnalysisOptions {
+  maxDepth?: number;
+  timePerMoveMs?: number;
+  onProgress?: (analyzed: number, total: number) => void;
+  // e.g. useChessEngine's worker search; defaults to searching on this thread
+  search?: (state: GameState, options: SearchOptions) => Promise<SearchResult | null>;
+}
+
+// Scores beyond this are treated as decided; keeps mate scores from swamping the averages
+const EVAL_CAP = 1000;
+
+// Centipawn loss at which a move drops to the next classification
+const CLASSIFICATION_THRESHOLDS: { classification: MoveClassification; maxLoss: number }[] = [
+  { classification: 'good', maxLoss: 50 },
+  { classification: 'inaccuracy', maxLoss: 100 },
+  { classification: 'mistake', maxLoss: 300 },
+  { classification: 'blunder', maxLoss: Infinity },
+];
+
+// Skill points per move for its phase and theme categories
+const SKILL_POINTS: { [key in MoveClassification]: number } = {
+  best: 2,
+  good: 1,
+  inaccuracy: -2,
+  mistake: -5,
+  blunder: -10,
+};
+
+// Largest change to one category from a single game
+const MAX_SKILL_CHANGE = 50;
+
+// Moves up to this ply count as opening moves while most pieces are still on the board
+const OPENING_PLIES = 20;
+const ENDGAME_PHASE = 6;
+
+function capScore(score: number): number {
+  if (Math.abs(score) > MATE_SCORE - 1000) return score > 0 ? EVAL_CAP : -EVAL_CAP;
+  return Math.max(-EVAL_CAP, Math.min(EVAL_CAP, score));
+}
+
+// Expected score (0-100) for the side with the given advantage
+function winPercent(centipawns: number): number {
+  return 50 + 50 * (2 / (1 + Math.exp(-0.00368208 * centipawns)) - 1);
+}
+
+// Accuracy for a single move from the drop in winning chances
+function moveAccuracy(winBefore: number, winAfter: number): number {
+  const drop = Math.max(0, winBefore - winAfter);
+  const accuracy = 103.1668 * Math.exp(-0.04354 * drop) - 3.1669;
+  return Math.max(0, Math.min(100, accuracy));
+}
+
+function classifyMove(centipawnLoss: number, playedBest: boolean): MoveClassification {
+  if (playedBest || centipawnLoss === 0) return 'best';
+  return CLASSIFICATION_THRESHOLDS.find(t => centipawnLoss <= t.maxLoss)!.classification;
+}
+
+function sameMove(a: Move, b: Move | null): boolean {
+  return !!b && a.from === b.from && a.to === b.to && (a.promotion || 0) === (b.promotion || 0);
+}
+
+function isForcing(move: Move | null): boolean {
+  return !!move && (!!move.captured || !!move.promotion || !!move.isCheck || !!move.isEnPassant);
+}
+
+function getPhaseCategory(state: GameState, ply: number): SkillCategory {
+  const phase = getGamePhase(state.board);
+  if (phase <= ENDGAME_PHASE) return SkillCategory.Endgame;
+  if (ply < OPENING_PLIES) return SkillCategory.Opening;
+  return SkillCategory.Middlegame;
+}
+
+// Tactics when the best or played move is forcing, Calculate when the position itself is
+// forcing (in check, or answering a capture or check), otherwise Strategy
+function getThemeCategory(state: GameState, move: Move, bestMove: Move | null): SkillCategory {
+  if (isForcing(bestMove) || isForcing(move)) return SkillCategory.Tactics;
+  const previous = state.moveHistory[state.moveHistory.length - 1];
+  if (isInCheck(state.board, state.isWhiteTurn) || isForcing(previous ?? null)) {
+    return SkillCategory.Calculate;
+  }
+  return SkillCategory.Strategy;
+}
+
+// Positions before each move, oldest first (the starting position comes from undoing every move)
+function getPositions(state: GameState): GameState[] {
+  const positions: GameState[] = [state];
+  let current = state;
+  while (current.moveHistory.length > 0) {
+    current = undoMove(current);
+    positions.unshift(current);
+  }
+  return positions;
+}
+
+function summarizePlayer(moves: AnalyzedMove[]): PlayerAnalysis {
+  const counts = { best: 0, good: 0, inaccuracy: 0, mistake: 0, blunder: 0 };
+  const skillChanges = new Array(SKILL_CATEGORY_NAMES.length).fill(0);
+  const categoryMoves: AnalyzedMove[][] = SKILL_CATEGORY_NAMES.map(() => []);
+
+  for (const analyzed of moves) {
+    counts[analyzed.classification]++;
+    const points = SKILL_POINTS[analyzed.classification];
+    skillChanges[analyzed.phase] += points;
+    skillChanges[analyzed.theme] += points;
+    categoryMoves[analyzed.phase].push(analyzed);
+    categoryMoves[analyzed.theme].push(analyzed);
+  }
+
+  const weaknesses: string[] = [];
+  const strengths: string[] = [];
+  categoryMoves.forEach((categoryList, category) => {
+    if (categoryList.length === 0) return;
+    const name = SKILL_CATEGORY_NAMES[category];
+    const errors = categoryList.filter(m => m.classification === 'mistake' || m.classification === 'blunder').length;
+    const accuracy = categoryList.reduce((sum, m) => sum + m.accuracy, 0) / categoryList.length;
+
+    if (errors > 0 || accuracy < 70) {
+      weaknesses.push(`${name}: ${errors} mistake${errors === 1 ? '' : 's'}, ${Math.round(accuracy)}% accuracy`);
+    } else if (categoryList.length >= 3 && accuracy >= 90) {
+      strengths.push(`${name}: ${Math.round(accuracy)}% accuracy`);
+    }
+  });
+
+  const total = moves.length;
+  return {
+    accuracy: total > 0 ? Math.round(moves.reduce((sum, m) => sum + m.accuracy, 0) / total) : 100,
+    averageCentipawnLoss: total > 0 ? Math.round(moves.reduce((sum, m) => sum + m.centipawnLoss, 0) / total) : 0,
+    counts,
+    skillChanges: skillChanges.map(change => Math.max(-MAX_SKILL_CHANGE, Math.min(MAX_SKILL_CHANGE, change))),
+    weaknesses,
+    strengths,
+  };
+}
+
+// Analyze every move of a game. Each position is searched once: the best score before a
+// move, compared with the score of the position it led to, gives the centipawn loss
+export async function analyzeGame(state: GameState, options: AnalysisOptions = {}): Promise<GameAnalysis> {
+  const { maxDepth = 10, timePerMoveMs = 150, onProgress } = options;
+  const search = options.search ?? (async (position: GameState, searchOptions: SearchOptions) =>
+    searchPosition(position, searchOptions));
+  const positions = getPositions(state);
+
+  // Search every position, storing scores from White's point of view
+  const evaluations: { bestMove: Move | null; score: number }[] = [];
+  for (let index = 0; index < positions.length; index++) {
+    const position = positions[index];
+    const result = await search(position, { maxDepth, timeLimitMs: timePerMoveMs });
+    if (!result) {
+      throw new Error('Game analysis was cancelled');
+    }
+    onProgress?.(index + 1, positions.length);
+    const score = capScore(result.score);
+    evaluations.push({ bestMove: result.bestMove, score: position.isWhiteTurn ? score : -score });
+  }
+
+  const moves: AnalyzedMove[] = state.moveHistory.map((move, ply) => {
+    const before = positions[ply];
+    const { bestMove, score: evalBefore } = evaluations[ply];
+    const evalAfter = evaluations[ply + 1].score;
+    const isWhite = before.isWhiteTurn;
+    const sign = isWhite ? 1 : -1;
+
+    // Scores from the mover's point of view
+    const bestScore = sign * evalBefore;
+    const playedScore = sign * evalAfter;
+    const playedBest = sameMove(move, bestMove);
+    const centipawnLoss = playedBest ? 0 : Math.max(0, bestScore - playedScore);
+
+    return {
+      ply,
+      moveNumber: before.fullMoveNumber,
+      isWhite,
+      move,
+      san: moveToAlgebraic(move, before.board),
+      bestMove,
+      bestSan: bestMove ? moveToAlgebraic(bestMove, before.board) : null,
+      evalBefore,
+      evalAfter,
+      centipawnLoss,
+      accuracy: playedBest ? 100 : moveAccuracy(winPercent(bestScore), winPercent(playedScore)),
+      classification: classifyMove(centipawnLoss, playedBest),
+      phase: getPhaseCategory(before, ply),
+      theme: getThemeCategory(before, move, bestMove),
+    };
+  });
+
+  return {
+    moves,
+    white: summarizePlayer(moves.filter(m => m.isWhite)),
+    black: summarizePlayer(moves.filter(m => !m.isWhite)),
+  };
+}
+
+// Values for submitGameAnalysis: six integer skill changes, accuracy 0-100
+export function toAnalysisSubmission(analysis: GameAnalysis, isWhite: boolean): GameAnalysisSubmission {
+  const player = isWhite ? analysis.white : analysis.black;
+  return {
+    skillChanges: player.skillChanges.map(change => Math.round(change)),
+    weaknesses: player.weaknesses,
+    strengths: player.strengths,
+    accuracyScore: Math.max(0, Math.min(100, Math.round(player.accuracy))),
+  };
+}
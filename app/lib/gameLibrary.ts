@@ -0,0 +1,204 @@
+// Game library - every AI, pass-and-play and online game kept in IndexedDB
+// Games are stored as UCI move lists with their metadata and rebuilt with makeMove when opened,
+// so a record stays small and the restored GameState has full history, repetition keys and status
+import {
+  ChessVariant,
+  GameState,
+  createInitialState,
+  createStateFromFEN,
+  makeMove,
+  moveToUCI,
+  uciToMove,
+} from './chessEngine';
+import { PGNHeaders, PGNResult, exportPGN, formatPGNDate, getPGNResult } from './chessPGN';
+import { getTimeControlById } from './chessClock';
+
+export type LibraryGameMode = 'ai' | 'local' | 'online';
+
+// The player's side of a finished game's engine review
+export interface LibraryGameReview {
+  analyzedAt: number;
+  accuracy: number;
+  mistakes: number;
+  blunders: number;
+}
+
+export interface LibraryGame {
+  id: string;
+  mode: LibraryGameMode;
+  opponent: string; // Engine level, "Pass and play" or the opponent's address
+  playerColor: 'white' | 'black';
+  difficulty?: string; // Engine preset name or target rating
+  timeControl?: string; // TimeControl id
+  onlineGameId?: number;
+  variant?: ChessVariant; // Omitted for standard games
+  startFEN?: string; // Always set for Chess960, whose start position varies
+  moves: string[]; // UCI
+  result: PGNResult; // '*' while the game is unfinished
+  termination?: string; // e.g. 'time forfeit', when the result is not decided on the board
+  review?: LibraryGameReview; // Set once its mistakes have been recorded for lesson recommendations
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type LibraryOutcome = 'win' | 'loss' | 'draw' | 'unfinished';
+
+export interface LibraryFilter {
+  mode?: LibraryGameMode;
+  outcome?: LibraryOutcome;
+  opponent?: string; // Case-insensitive substring
+  from?: number; // updatedAt bounds
+  to?: number;
+}
+
+// Metadata supplied by a board screen when it saves a game
+export type LibraryGameMetadata = Omit<LibraryGame, 'id' | 'moves' | 'result' | 'createdAt' | 'updatedAt'> & {
+  result?: PGNResult; // Overrides the board result, e.g. after a flag or resignation
+};
+
+const DB_NAME = 'chessGameLibrary';
+const DB_VERSION = 1;
+const STORE = 'games';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openLibrary(): Promise<IDBDatabase> {
+  if (typeof window === 'undefined' || !window.indexedDB) {
+    return Promise.reject(new Error('IndexedDB is not available'));
+  }
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('updatedAt', 'updatedAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function runRequest<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return openLibrary().then(db => new Promise<T>((resolve, reject) => {
+    const request = run(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }));
+}
+
+export function createLibraryGameId(): string {
+  return `game-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Build the record for a game as it stands now
+export function toLibraryGame(
+  id: string,
+  state: GameState,
+  metadata: LibraryGameMetadata,
+  createdAt: number,
+  now: number = Date.now()
+): LibraryGame {
+  const { result, ...rest } = metadata;
+  return {
+    ...rest,
+    id,
+    moves: state.moveHistory.map(moveToUCI),
+    result: result ?? getPGNResult(state),
+    createdAt,
+    updatedAt: now,
+  };
+}
+
+export function restoreGameState(game: LibraryGame): GameState {
+  let state = game.startFEN ? createStateFromFEN(game.startFEN, game.variant) : createInitialState(game.variant);
+  game.moves.forEach((uci, index) => {
+    const move = uciToMove(uci, state);
+    if (!move) {
+      throw new Error(`Saved game ${game.id} has an illegal move ${uci} at ply ${index + 1}`);
+    }
+    state = makeMove(state, move);
+  });
+  return state;
+}
+
+export function getLibraryOutcome(game: LibraryGame): LibraryOutcome {
+  if (game.result === '*') return 'unfinished';
+  if (game.result === '1/2-1/2') return 'draw';
+  const whiteWon = game.result === '1-0';
+  return whiteWon === (game.playerColor === 'white') ? 'win' : 'loss';
+}
+
+export function matchesLibraryFilter(game: LibraryGame, filter: LibraryFilter): boolean {
+  if (filter.mode && game.mode !== filter.mode) return false;
+  if (filter.outcome && getLibraryOutcome(game) !== filter.outcome) return false;
+  if (filter.opponent && !game.opponent.toLowerCase().includes(filter.opponent.toLowerCase())) return false;
+  if (filter.from !== undefined && game.updatedAt < filter.from) return false;
+  if (filter.to !== undefined && game.updatedAt > filter.to) return false;
+  return true;
+}
+
+export function getLibraryGameHeaders(game: LibraryGame): PGNHeaders {
+  const opponent = game.opponent || '?';
+  const headers: PGNHeaders = {
+    Event: game.mode === 'online' ? `Online game #${game.onlineGameId ?? '?'}` : 'Casual game',
+    Site: 'Base Chess',
+    Date: formatPGNDate(new Date(game.createdAt)),
+    White: game.playerColor === 'white' ? 'You' : opponent,
+    Black: game.playerColor === 'black' ? 'You' : opponent,
+    Result: game.result,
+  };
+  // PGN time controls are in seconds, e.g. 180+2
+  const timeControl = game.timeControl ? getTimeControlById(game.timeControl) : undefined;
+  if (timeControl) headers.TimeControl = `${timeControl.baseMs / 1000}+${timeControl.bonusMs / 1000}`;
+  if (game.termination) headers.Termination = game.termination;
+  return headers;
+}
+
+export function exportLibraryGame(game: LibraryGame): string {
+  return exportPGN(restoreGameState(game), {
+    headers: getLibraryGameHeaders(game),
+    startFEN: game.startFEN,
+  });
+}
+
+export function saveLibraryGame(game: LibraryGame): Promise<LibraryGame> {
+  return runRequest('readwrite', store => store.put(game)).then(() => game);
+}
+
+// Save a board screen's record, keeping the stored game's date and review. Both are read in the
+// same transaction, so a save under a fixed id never overwrites them with a fresh record's
+export function autosaveLibraryGame(game: LibraryGame): Promise<LibraryGame> {
+  return openLibrary().then(db => new Promise<LibraryGame>((resolve, reject) => {
+    const store = db.transaction(STORE, 'readwrite').objectStore(STORE);
+    const read = store.get(game.id);
+    read.onsuccess = () => {
+      const stored = read.result as LibraryGame | undefined;
+      const merged: LibraryGame = stored
+        ? { ...game, createdAt: stored.createdAt, ...(stored.review ? { review: stored.review } : {}) }
+        : game;
+      const write = store.put(merged);
+      write.onsuccess = () => resolve(merged);
+      write.onerror = () => reject(write.error);
+    };
+    read.onerror = () => reject(read.error);
+  }));
+}
+
+export function getLibraryGame(id: string): Promise<LibraryGame | null> {
+  return runRequest<LibraryGame | undefined>('readonly', store => store.get(id)).then(game => game ?? null);
+}
+
+export function deleteLibraryGame(id: string): Promise<void> {
+  return runRequest('readwrite', store => store.delete(id)).then(() => undefined);
+}
+
+// Most recently played first
+export function listLibraryGames(filter: LibraryFilter = {}): Promise<LibraryGame[]> {
+  return runRequest<LibraryGame[]>('readonly', store => store.index('updatedAt').getAll())
+    .then(games => games.reverse().filter(game => matchesLibraryFilter(game, filter)));
+}
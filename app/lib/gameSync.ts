@@ -0,0 +1,192 @@
+// On-chain game sync - rebuilds a game from Chess.sol's MoveMade, GameEnded and GameAbandoned logs
+// Logs are kept in chain order and replayed through makeMove, so the local state has the full move
+// history, repetition keys and last move. Watched events only trigger a fetch: every fetch covers the
+// blocks since the last sync plus the REORG_DEPTH newest blocks already seen, so missed blocks are
+// filled in and reorged logs are replaced. A replay that disagrees with the contract's board means a
+// deeper reorg or a missed log, and the caller should fetch from the start again. Ranges are fetched
+// in LOG_CHUNK_SIZE pieces from the block the game was created in, found once from its start time
+import {
+  GameState,
+  Move,
+  createInitialState,
+  generateLegalMoves,
+  isQueen,
+  makeMove,
+  squareToAlgebraic,
+} from './chessEngine';
+
+// Blocks after which a log is assumed final
+export const REORG_DEPTH = BigInt(12);
+
+// Widest range fetched with one getLogs call; public Base RPCs reject wider eth_getLogs ranges
+export const LOG_CHUNK_SIZE = BigInt(5000);
+
+const START_BLOCKS_KEY = 'gameSyncStartBlocks';
+
+export interface ChainLogPosition {
+  blockNumber: bigint;
+  logIndex: number;
+  transactionHash: string;
+}
+
+export interface ChainMove extends ChainLogPosition {
+  player: string;
+  from: number;
+  to: number;
+}
+
+export interface ChainGameEnd extends ChainLogPosition {
+  result: number; // Chess.sol GameState value
+  winner: string | null; // Set for GameAbandoned
+}
+
+export interface GameSyncState {
+  gameId: number;
+  fromBlock: bigint; // First block that can hold logs for this game
+  syncedBlock: bigint | null; // Last block fetched with getLogs; null before the first sync
+  moves: ChainMove[];
+  end: ChainGameEnd | null;
+}
+
+// Logs fetched for one block range; they replace whatever was known in that range
+export interface LogBatch {
+  fromBlock: bigint;
+  toBlock: bigint;
+  moves: ChainMove[];
+  ends: ChainGameEnd[];
+}
+
+export interface ReplayResult {
+  state: GameState;
+  lastMove: Move | null;
+}
+
+export function createGameSync(gameId: number, fromBlock: bigint = BigInt(0)): GameSyncState {
+  return { gameId, fromBlock, syncedBlock: null, moves: [], end: null };
+}
+
+function compareLogs(a: ChainLogPosition, b: ChainLogPosition): number {
+  if (a.blockNumber !== b.blockNumber) return a.blockNumber < b.blockNumber ? -1 : 1;
+  return a.logIndex - b.logIndex;
+}
+
+function inRange(log: ChainLogPosition, fromBlock: bigint, toBlock: bigint): boolean {
+  return log.blockNumber >= fromBlock && log.blockNumber <= toBlock;
+}
+
+// Range to fetch next: everything after the last sync, re-checking the unconfirmed tail
+export function getSyncRange(sync: GameSyncState, latestBlock: bigint): { fromBlock: bigint; toBlock: bigint } {
+  if (sync.syncedBlock === null) return { fromBlock: sync.fromBlock, toBlock: latestBlock };
+  const tail = sync.syncedBlock - REORG_DEPTH + BigInt(1);
+  return { fromBlock: tail > sync.fromBlock ? tail : sync.fromBlock, toBlock: latestBlock };
+}
+
+// Split a block range into getLogs-sized chunks, oldest first
+export function splitBlockRange(
+  fromBlock: bigint,
+  toBlock: bigint,
+  chunkSize: bigint = LOG_CHUNK_SIZE
+): { fromBlock: bigint; toBlock: bigint }[] {
+  const chunks: { fromBlock: bigint; toBlock: bigint }[] = [];
+  for (let start = fromBlock; start <= toBlock; start += chunkSize) {
+    const end = start + chunkSize - BigInt(1);
+    chunks.push({ fromBlock: start, toBlock: end < toBlock ? end : toBlock });
+  }
+  return chunks;
+}
+
+// First block with a timestamp at or after the given one, by binary search. For a game's start time
+// this is the block it was created in, or an earlier one sharing its timestamp
+export async function findBlockAtTime(
+  timestamp: bigint,
+  latestBlock: bigint,
+  getBlockTime: (block: bigint) => Promise<bigint>
+): Promise<bigint> {
+  let low = BigInt(0);
+  let high = latestBlock;
+  while (low < high) {
+    const mid = (low + high) / BigInt(2);
+    if (await getBlockTime(mid) < timestamp) {
+      low = mid + BigInt(1);
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+// Start blocks are saved per chain, contract and game so the search runs once per game
+export function getSyncStartKey(chainId: number, contract: string, gameId: number): string {
+  return `${chainId}-${contract.toLowerCase()}-${gameId}`;
+}
+
+export function loadSyncStartBlock(key: string): bigint | null {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const saved = localStorage.getItem(START_BLOCKS_KEY);
+    const block = saved ? JSON.parse(saved)[key] : undefined;
+    return typeof block === 'string' ? BigInt(block) : null;
+  } catch (error) {
+    console.error('Could not load game sync start blocks:', error);
+    return null;
+  }
+}
+
+export function saveSyncStartBlock(key: string, block: bigint): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    const saved = localStorage.getItem(START_BLOCKS_KEY);
+    const blocks = saved ? JSON.parse(saved) : {};
+    localStorage.setItem(START_BLOCKS_KEY, JSON.stringify({ ...blocks, [key]: block.toString() }));
+  } catch (error) {
+    console.error('Could not save game sync start block:', error);
+  }
+}
+
+// Replace everything known in the batch's range with the fetched logs
+export function applyLogBatch(sync: GameSyncState, batch: LogBatch): GameSyncState {
+  const moves = [
+    ...sync.moves.filter(move => !inRange(move, batch.fromBlock, batch.toBlock)),
+    ...batch.moves,
+  ].sort(compareLogs);
+
+  const keptEnd = sync.end && !inRange(sync.end, batch.fromBlock, batch.toBlock) ? sync.end : null;
+  const ends = [...(keptEnd ? [keptEnd] : []), ...batch.ends].sort(compareLogs);
+
+  const syncedBlock = sync.syncedBlock === null || batch.toBlock > sync.syncedBlock
+    ? batch.toBlock
+    : sync.syncedBlock;
+  return { ...sync, syncedBlock, moves, end: ends[0] ?? null };
+}
+
+// Chess.sol promotes every pawn to a queen, so a from/to pair names exactly one move
+export function findChainMove(state: GameState, from: number, to: number): Move | null {
+  const candidates = generateLegalMoves(state).filter(move => move.from === from && move.to === to);
+  return candidates.find(move => move.promotion === undefined || isQueen(move.promotion)) ?? null;
+}
+
+export function replayChainMoves(moves: ChainMove[]): ReplayResult {
+  let state = createInitialState();
+  let lastMove: Move | null = null;
+
+  moves.forEach((chainMove, index) => {
+    const move = findChainMove(state, chainMove.from, chainMove.to);
+    if (!move) {
+      throw new Error(
+        `Move ${index + 1} (${squareToAlgebraic(chainMove.from)}${squareToAlgebraic(chainMove.to)}) ` +
+        `in block ${chainMove.blockNumber} is not legal in the replayed position`
+      );
+    }
+    state = makeMove(state, move);
+    lastMove = move;
+  });
+
+  return { state, lastMove };
+}
+
+// A replay is only trusted when it ends on the board the contract reports
+export function matchesChainBoard(state: GameState, board: number[], moveCount: number): boolean {
+  return state.moveHistory.length === moveCount && state.board.every((piece, square) => piece === board[square]);
+}
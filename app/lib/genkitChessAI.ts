@@ -3,133 +3,258 @@ import { GoogleGenerativeAI } from '@google/generative-ai';
 import {
   GameState,
   Move,
+  Piece,
+  HILL_SQUARES,
   generateLegalMoves,
+  getVariant,
 } from './chessEngine';
+import { getVariantInfo } from './chessVariants';
+import { EngineStrength, MIN_ENGINE_RATING, MAX_ENGINE_RATING, strengthToRating } from './chessAI';
 
 export type Difficulty = 'easy' | 'medium' | 'hard';
 
 interface MoveData {
   from: number;
   to: number;
+  promotion?: string;
   reasoning?: string;
 }
 
-// Initialize Gemini
-const genAI = new GoogleGenerativeAI(process.env.GOOGLE_API_KEY || '');
+// Text-in, text-out model used for move generation. The Gemini model is used by default;
+// set AI_MOVE_MODEL=mock (or call setMoveModel) to run without network access
+export interface MoveModel {
+  name: string;
+  generate: (prompt: string, temperature: number) => Promise<string>;
+}
+
+export interface GeminiMoveResult {
+  move: Move;
+  reasoning?: string;
+  attempts: number;
+  model: string;
+}
+
+// Tries per request: the first prompt plus one corrective retry after an illegal answer
+const MAX_ATTEMPTS = 2;
+
+export function createGeminiModel(apiKey: string): MoveModel {
+  const genAI = new GoogleGenerativeAI(apiKey);
+  return {
+    name: 'gemini-1.5-flash',
+    generate: async (prompt, temperature) => {
+      const model = genAI.getGenerativeModel({
+        model: 'gemini-1.5-flash',
+        generationConfig: {
+          temperature,
+          maxOutputTokens: 200,
+          responseMimeType: 'application/json',
+        },
+      });
+      const result = await model.generateContent(prompt);
+      const response = result.response;
+      return typeof response?.text === 'function' ? response.text() : String(response ?? '');
+    },
+  };
+}
+
+// Offline stand-in: answers with the first legal move listed in the prompt, or with the
+// scripted responses in order (the last one repeats)
+export function createMockModel(responses?: string[]): MoveModel {
+  let call = 0;
+  return {
+    name: 'mock',
+    generate: async (prompt) => {
+      if (responses && responses.length > 0) {
+        return responses[Math.min(call++, responses.length - 1)];
+      }
+      const match = prompt.match(/\(from: (\d+), to: (\d+)(?:, promotion: ([qrbn]))?\)/);
+      if (!match) return '{}';
+      return JSON.stringify({
+        from: parseInt(match[1]),
+        to: parseInt(match[2]),
+        ...(match[3] ? { promotion: match[3] } : {}),
+        reasoning: 'Mock model move',
+      });
+    },
+  };
+}
+
+let moveModelOverride: MoveModel | null | undefined;
+
+// Replace the model (e.g. with createMockModel in tests); pass undefined to restore the default
+export function setMoveModel(model: MoveModel | null | undefined): void {
+  moveModelOverride = model;
+}
+
+// The configured model, or null when none is available
+export function getMoveModel(): MoveModel | null {
+  if (moveModelOverride !== undefined) return moveModelOverride;
+  if (process.env.AI_MOVE_MODEL === 'mock') return createMockModel();
+  const apiKey = process.env.GOOGLE_API_KEY;
+  return apiKey ? createGeminiModel(apiKey) : null;
+}
+
+// Parse the model's JSON answer, tolerating extra text around it
+function parseMoveData(text: string): MoveData | null {
+  const candidates = [text];
+  const firstBrace = text.indexOf('{');
+  const lastBrace = text.lastIndexOf('}');
+  if (firstBrace !== -1 && lastBrace > firstBrace) {
+    candidates.push(text.slice(firstBrace, lastBrace + 1));
+  }
+
+  for (const candidate of candidates) {
+    try {
+      const data = JSON.parse(candidate);
+      if (data && typeof data === 'object') return data as MoveData;
+    } catch {
+      // Try the next candidate
+    }
+  }
+  return null;
+}
 
+const PROMOTION_LETTERS: { [key: number]: string } = {
+  [Piece.WQueen]: 'q', [Piece.BQueen]: 'q',
+  [Piece.WRook]: 'r', [Piece.BRook]: 'r',
+  [Piece.WBishop]: 'b', [Piece.BBishop]: 'b',
+  [Piece.WKnight]: 'n', [Piece.BKnight]: 'n',
+};
+
+// Match the answer against the legal moves; returns the move or the reason it was rejected
+function matchLegalMove(data: MoveData | null, legalMoves: Move[]): Move | string {
+  if (!data) return 'the answer was not valid JSON';
+  const from = Number(data.from);
+  const to = Number(data.to);
+  if (!Number.isInteger(from) || !Number.isInteger(to)) {
+    return 'the answer did not contain numeric "from" and "to" fields';
+  }
+
+  const candidates = legalMoves.filter(m => m.from === from && m.to === to);
+  if (candidates.length === 0) return `${from} → ${to} is not one of the legal moves`;
+  if (candidates.length === 1) return candidates[0];
+
+  // Promotion: use the requested piece, defaulting to a queen
+  const letter = typeof data.promotion === 'string' ? data.promotion.toLowerCase() : 'q';
+  return candidates.find(m => m.promotion && PROMOTION_LETTERS[m.promotion] === letter) ||
+    candidates.find(m => m.promotion && PROMOTION_LETTERS[m.promotion] === 'q') ||
+    candidates[0];
+}
+
+// Ask the model for a move, validating it against the legal moves and retrying with a
+// corrective prompt. Throws when no model is configured or no legal move was produced
 export async function getGeminiMove(
   gameState: GameState,
-  difficulty: Difficulty = 'medium'
-): Promise<{ from: number; to: number; reasoning?: string }> {
-  console.log('[Gemini] Starting move generation', { difficulty, moveNum: gameState.fullMoveNumber });
+  strength: EngineStrength = 'medium',
+  model: MoveModel | null = getMoveModel()
+): Promise<GeminiMoveResult> {
+  const rating = strengthToRating(strength);
+  console.log('[Gemini] Starting move generation', { rating, moveNum: gameState.fullMoveNumber });
   const startTime = Date.now();
   const legalMoves = generateLegalMoves(gameState);
 
   if (legalMoves.length === 0) {
     throw new Error('No legal moves available');
   }
+  if (!model) {
+    throw new Error('No AI model configured');
+  }
 
-  // Generate prompt based on difficulty
-  const prompt = buildPrompt(gameState, legalMoves, difficulty);
-
-  try {
-    // Get the model based on difficulty (adjust temperature)
-    const model = genAI.getGenerativeModel({
-      model: 'gemini-1.5-flash',
-      generationConfig: {
-        temperature: difficulty === 'easy' ? 1.2 : difficulty === 'medium' ? 0.7 : 0.3,
-        maxOutputTokens: 200,
-        responseMimeType: 'application/json',
-      },
-    });
-
-    // Call Gemini
-    const result = await model.generateContent(prompt);
-    const response = result.response;
-    const text = typeof response?.text === 'function' ? await response.text() : String(response ?? '');
-    console.log('[Gemini] Response received', { elapsed: `${Date.now() - startTime}ms` });
+  // Weaker players get a higher temperature
+  const t = (rating - MIN_ENGINE_RATING) / (MAX_ENGINE_RATING - MIN_ENGINE_RATING);
+  const temperature = 1.2 - t * 0.9;
+  const basePrompt = buildPrompt(gameState, legalMoves, rating);
+  let prompt = basePrompt;
 
-    // Parse JSON response (robust to extra text)
-    let moveData: MoveData;
-    try {
-      moveData = JSON.parse(text);
-    } catch {
-      // Try to extract JSON substring if model added extraneous text
-      const firstBrace = text.indexOf('{');
-      const lastBrace = text.lastIndexOf('}');
-      if (firstBrace !== -1 && lastBrace !== -1) {
-        const jsonSubstring = text.slice(firstBrace, lastBrace + 1);
-        try {
-          moveData = JSON.parse(jsonSubstring);
-        } catch {
-          throw new Error('Failed to parse Gemini JSON response');
-        }
-      } else {
-        throw new Error('Failed to parse Gemini JSON response');
-      }
-    }
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const text = await model.generate(prompt, temperature);
+    console.log('[Gemini] Response received', { attempt, elapsed: `${Date.now() - startTime}ms` });
 
-    // Validate the move is legal
-    const selectedMove = legalMoves.find(
-      (m) => m.from === moveData.from && m.to === moveData.to
-    );
-
-    if (!selectedMove) {
-      // Fallback to a random legal move if Gemini suggests an illegal move
-      console.warn('[Gemini] Illegal move suggested, selecting random legal move', { suggested: moveData, elapsed: `${Date.now() - startTime}ms` });
-      const randomMove = legalMoves[Math.floor(Math.random() * legalMoves.length)];
+    const data = parseMoveData(text);
+    const matched = matchLegalMove(data, legalMoves);
+    if (typeof matched !== 'string') {
+      console.log('[Gemini] Valid move selected', { attempt, elapsed: `${Date.now() - startTime}ms` });
       return {
-        from: randomMove.from,
-        to: randomMove.to,
-        reasoning: 'Random move (AI suggestion was invalid)',
+        move: matched,
+        reasoning: data?.reasoning,
+        attempts: attempt,
+        model: model.name,
       };
     }
 
-    console.log('[Gemini] Valid move selected', { elapsed: `${Date.now() - startTime}ms` });
+    console.warn('[Gemini] Rejected move', { attempt, reason: matched });
+    prompt = buildCorrectivePrompt(basePrompt, text, matched);
+  }
+
+  throw new Error(`AI model did not return a legal move after ${MAX_ATTEMPTS} attempts`);
+}
+
+function buildCorrectivePrompt(basePrompt: string, previousAnswer: string, reason: string): string {
+  return `${basePrompt}
+
+Your previous answer was rejected because ${reason}:
+${previousAnswer.slice(0, 500)}
+
+Pick exactly one move from the legal move list above and copy its "from" and "to" numbers (and "promotion" if listed). Return ONLY the JSON object.`;
+}
 
+// Skill description and strategy for the prompt at a given rating
+function describeRating(rating: number): { skillLevel: string; strategy: string } {
+  if (rating < 1000) {
     return {
-      from: selectedMove.from,
-      to: selectedMove.to,
-      reasoning: moveData.reasoning,
+      skillLevel: 'a beginner chess player',
+      strategy: 'Make simple, straightforward moves. You can occasionally make suboptimal moves or miss tactical opportunities. Focus on basic piece development and material equality.',
     };
-  } catch (error) {
-    const elapsed = Date.now() - startTime;
-    console.error('[Gemini] Error', { elapsed: `${elapsed}ms`, error });
-    // Fallback to random move
-    const randomMove = legalMoves[Math.floor(Math.random() * legalMoves.length)];
+  }
+  if (rating < 1400) {
+    return {
+      skillLevel: 'a casual club player',
+      strategy: 'Develop your pieces and avoid leaving them undefended. Spot one-move threats, but you may miss deeper tactics.',
+    };
+  }
+  if (rating < 1800) {
     return {
-      from: randomMove.from,
-      to: randomMove.to,
-      reasoning: 'Fallback move due to error',
+      skillLevel: 'an intermediate chess player',
+      strategy: 'Balance piece development with tactical opportunities. Look for simple tactical patterns like forks, pins, and discovered attacks. Consider basic positional factors.',
     };
   }
+  if (rating < 2100) {
+    return {
+      skillLevel: 'a strong club player',
+      strategy: 'Calculate forcing lines carefully and weigh positional factors such as pawn structure, piece activity and king safety.',
+    };
+  }
+  return {
+    skillLevel: 'an expert chess player',
+    strategy: 'Analyze deeply and look for the best move. Consider tactics, positional advantages, king safety, pawn structure, and long-term strategic plans. Calculate variations thoroughly.',
+  };
+}
+
+// Variant rules and win condition for the prompt; empty for standard chess
+function describeVariant(gameState: GameState): string {
+  const variant = getVariant(gameState);
+  if (variant === 'standard') return '';
+  const info = getVariantInfo(variant);
+  let rules = `Variant: ${info.name}. ${info.description}`;
+  if (variant === 'kingOfTheHill') {
+    rules += ` The centre squares are ${HILL_SQUARES.map(indexToSquare).join(', ')}; a king move there wins immediately, so also stop the opponent's king from reaching them.`;
+  } else if (variant === 'threeCheck') {
+    const checks = gameState.checksGiven ?? { white: 0, black: 0 };
+    rules += ` Checks given so far: White ${checks.white}, Black ${checks.black}. Giving a check is worth a lot, and avoid allowing checks against your own king.`;
+  }
+  return `\n${rules}\n`;
 }
 
-function buildPrompt(gameState: GameState, legalMoves: Move[], difficulty: Difficulty): string {
+function buildPrompt(gameState: GameState, legalMoves: Move[], rating: number): string {
   const boardRepresentation = formatBoardForAI(gameState);
   const movesText = formatLegalMoves(legalMoves);
   const playerColor = gameState.isWhiteTurn ? 'White' : 'Black';
+  const { skillLevel, strategy } = describeRating(rating);
+  const variant = getVariant(gameState);
+  const gameName = variant === 'standard' ? 'chess' : getVariantInfo(variant).name;
 
-  let skillLevel = '';
-  let strategy = '';
-
-  switch (difficulty) {
-    case 'easy':
-      skillLevel = 'a beginner chess player';
-      strategy = 'Make simple, straightforward moves. You can occasionally make suboptimal moves or miss tactical opportunities. Focus on basic piece development and material equality.';
-      break;
-    case 'medium':
-      skillLevel = 'an intermediate chess player';
-      strategy = 'Balance piece development with tactical opportunities. Look for simple tactical patterns like forks, pins, and discovered attacks. Consider basic positional factors.';
-      break;
-    case 'hard':
-      skillLevel = 'an expert chess player';
-      strategy = 'Analyze deeply and look for the best move. Consider tactics, positional advantages, king safety, pawn structure, and long-term strategic plans. Calculate variations thoroughly.';
-      break;
-  }
-
-  return `You are ${skillLevel} playing chess as ${playerColor}.
-
+  return `You are ${skillLevel} (about ${rating} Elo) playing ${gameName} as ${playerColor}.
+${describeVariant(gameState)}
 Current Board Position (8x8, from White's perspective):
 ${boardRepresentation}
 
@@ -144,10 +269,11 @@ Strategy: ${strategy}
 Available Legal Moves (showing from-to square indices):
 ${movesText}
 
-Choose the best move based on your skill level. Return your response as a JSON object with these exact fields:
+Choose a move that a player of your rating would play. Return your response as a JSON object with these exact fields:
 {
   "from": <number 0-63>,
   "to": <number 0-63>,
+  "promotion": "<q, r, b or n - only for promotion moves>",
   "reasoning": "<your brief 1-2 sentence explanation>"
 }
 
@@ -181,7 +307,8 @@ function formatLegalMoves(moves: Move[]): string {
     .map((move, i) => {
       const fromSquare = indexToSquare(move.from);
       const toSquare = indexToSquare(move.to);
-      return `${i + 1}. ${fromSquare} → ${toSquare} (from: ${move.from}, to: ${move.to})`;
+      const promotion = move.promotion ? `, promotion: ${PROMOTION_LETTERS[move.promotion]}` : '';
+      return `${i + 1}. ${fromSquare} → ${toSquare} (from: ${move.from}, to: ${move.to}${promotion})`;
     })
     .join('\n');
 }
@@ -207,7 +334,7 @@ function getCastlingRights(gameState: GameState): string {
 // Client-side function to get best move (if running client-side)
 export async function getBestMoveWithGemini(
   gameState: GameState,
-  difficulty: Difficulty = 'medium'
+  strength: EngineStrength = 'medium'
 ): Promise<Move | null> {
   try {
     // This would be called via API route in production
@@ -215,7 +342,9 @@ export async function getBestMoveWithGemini(
     const response = await fetch('/api/ai-move', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ gameState, difficulty }),
+      body: JSON.stringify(
+        typeof strength === 'number' ? { gameState, rating: strength } : { gameState, difficulty: strength }
+      ),
     });
 
     if (!response.ok) {
@@ -225,11 +354,12 @@ export async function getBestMoveWithGemini(
     const data = await response.json();
     const legalMoves = generateLegalMoves(gameState);
     const selectedMove = legalMoves.find(
-      (m) => m.from === data.move.from && m.to === data.move.to
+      (m) => m.from === data.move.from && m.to === data.move.to &&
+        (!data.move.promotion || m.promotion === data.move.promotion)
     );
 
     if (selectedMove) {
-      console.log('AI Move:', data.reasoning || 'No reasoning provided');
+      console.log(`AI Move (${data.source}):`, data.reasoning || 'No reasoning provided');
       return selectedMove;
     }
 
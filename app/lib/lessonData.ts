@@ -8,6 +8,24 @@ export enum SkillCategory {
   Calculate = 5
 }
 
+// Arrow drawn on a lesson board, between two squares such as "e2" and "e4"
+export interface LessonArrow {
+  from: string;
+  to: string;
+  color?: 'green' | 'red' | 'blue' | 'yellow';
+}
+
+// One board exercise. The learner plays the even moves of the line (UCI) and
+// the odd moves are played as replies; a step without moves is only shown
+export interface LessonStep {
+  fen: string;
+  instruction: string;
+  moves: string[];
+  explanation: string; // Shown once the step is solved
+  arrows?: LessonArrow[];
+  highlights?: string[];
+}
+
 export interface Lesson {
   id: number;
   title: string;
@@ -21,6 +39,7 @@ export interface Lesson {
     keyPoints: string[];
     examples: string[];
     practice?: string;
+    steps?: LessonStep[];
   };
   isActive: boolean;
 }
@@ -36,15 +55,27 @@ export interface LearningPath {
   emoji: string;
 }
 
+// Conditions checked by the achievement engine; an achievement unlocks when all of its criteria hold
+export type AchievementCriterion =
+  | { type: 'lessons'; count: number; category?: SkillCategory }
+  | { type: 'gamesAnalyzed'; count: number }
+  | { type: 'skillLevel'; category: SkillCategory; level: number }
+  | { type: 'streak'; days: number } // Consecutive calendar days with activity
+  | { type: 'puzzles'; count: number; theme?: number } // PUZZLE_THEMES index
+  | { type: 'aiWins'; rating: number; count: number } // Wins against an engine of at least this rating
+  | { type: 'paths'; count: number; pathId?: number };
+
 export interface Achievement {
   id: number;
   name: string;
   description: string;
   emoji: string;
+  // Requirements in ChessAcademy's createAchievement format
   requiredGames: number;
   requiredLessons: number;
   category: SkillCategory;
   minSkillLevel: number;
+  criteria: AchievementCriterion[];
 }
 
 // Sample Lessons
@@ -71,7 +102,23 @@ export const LESSONS: Lesson[] = [
         "1.e4 e5 2.Nf3 Nc6 - Good development",
         "1.e4 e5 2.Qh5?? - Premature queen move",
       ],
-      practice: "Try opening with 1.e4 and develop all pieces before move 10"
+      practice: "Try opening with 1.e4 and develop all pieces before move 10",
+      steps: [
+        {
+          fen: "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1",
+          instruction: "The four central squares are the most valuable on the board. Occupy e4 with the king's pawn.",
+          moves: ["e2e4"],
+          explanation: "1.e4 takes the center and opens lines for the queen and the light-squared bishop.",
+          arrows: [{ from: "e2", to: "e4", color: "green" }],
+          highlights: ["d4", "e4", "d5", "e5"]
+        },
+        {
+          fen: "rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR w KQkq e6 0 2",
+          instruction: "Develop a knight toward the center, attacking Black's pawn, then bring out a bishop.",
+          moves: ["g1f3", "b8c6", "f1c4"],
+          explanation: "Knights before bishops: Nf3 develops with a threat, and Bc4 prepares to castle."
+        }
+      ]
     },
     isActive: true
   },
@@ -94,6 +141,23 @@ export const LESSONS: Lesson[] = [
       examples: [
         "1.e4 e5 2.Nf3 Nc6 3.Bc4 Bc5 4.c3 Nf6 5.d4 - Central attack",
         "1.e4 e5 2.Nf3 Nc6 3.Bc4 Nf6 4.d3 - Quiet development"
+      ],
+      steps: [
+        {
+          fen: "r1bqkbnr/pppp1ppp/2n5/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R w KQkq - 2 3",
+          instruction: "Play the Italian Game: put the bishop on the diagonal aimed at f7.",
+          moves: ["f1c4"],
+          explanation: "3.Bc4 eyes f7, which only the king defends.",
+          arrows: [{ from: "c4", to: "f7", color: "red" }],
+          highlights: ["f7"]
+        },
+        {
+          fen: "r1bqk1nr/pppp1ppp/2n5/2b1p3/2B1P3/5N2/PPPP1PPP/RNBQK2R w KQkq - 4 4",
+          instruction: "Prepare d4 with a pawn move, then strike in the center.",
+          moves: ["c2c3", "g8f6", "d2d4"],
+          explanation: "c3 supports d4, so White can build a full pawn center with tempo on the c5 bishop.",
+          arrows: [{ from: "c3", to: "d4", color: "green" }]
+        }
       ]
     },
     isActive: true
@@ -117,6 +181,16 @@ export const LESSONS: Lesson[] = [
       examples: [
         "1.e4 e5 - Symmetrical center control",
         "1.e4 c5 - Sicilian: most popular at all levels"
+      ],
+      steps: [
+        {
+          fen: "rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 1",
+          instruction: "Fight for d4 from the side with the c-pawn.",
+          moves: ["c7c5"],
+          explanation: "The Sicilian Defense contests d4 without allowing a symmetrical position.",
+          arrows: [{ from: "c5", to: "d4", color: "green" }],
+          highlights: ["d4"]
+        }
       ]
     },
     isActive: true
@@ -142,6 +216,16 @@ export const LESSONS: Lesson[] = [
       examples: [
         "Battery: Queen and bishop on the same diagonal",
         "Doubled rooks on an open file"
+      ],
+      steps: [
+        {
+          fen: "r1bq1rk1/pp1n1ppp/2p5/8/8/2PQ4/PPB2PPP/R4RK1 w - - 0 1",
+          instruction: "The queen and bishop form a battery on the b1-h7 diagonal. Use it to checkmate.",
+          moves: ["d3h7"],
+          explanation: "Qxh7# — the bishop on c2 backs up the queen, so the king cannot take it.",
+          arrows: [{ from: "c2", to: "h7", color: "blue" }],
+          highlights: ["h7"]
+        }
       ]
     },
     isActive: true
@@ -165,6 +249,16 @@ export const LESSONS: Lesson[] = [
       examples: [
         "d4-e5 pawn chain: Attack with ...c5 or ...f6",
         "Isolated d4 pawn: Blockade on d5"
+      ],
+      steps: [
+        {
+          fen: "rnbqkbnr/ppp2ppp/4p3/3pP3/3P4/8/PPP2PPP/RNBQKBNR b KQkq - 0 3",
+          instruction: "White's pawn chain runs d4-e5. Attack its base.",
+          moves: ["c7c5"],
+          explanation: "...c5 hits d4, the pawn that holds the whole chain together.",
+          arrows: [{ from: "c5", to: "d4", color: "red" }],
+          highlights: ["d4", "e5"]
+        }
       ]
     },
     isActive: true
@@ -190,6 +284,15 @@ export const LESSONS: Lesson[] = [
       examples: [
         "King opposition decides the winner",
         "Outside passed pawn is powerful"
+      ],
+      steps: [
+        {
+          fen: "8/8/3k4/7P/8/8/8/K7 w - - 0 1",
+          instruction: "The black king is outside the pawn's square. Race the pawn to promotion.",
+          moves: ["h5h6", "d6e6", "h6h7", "e6f7", "h7h8q"],
+          explanation: "The king could not enter the square h5-h8-e8-e5 in time, so the pawn queens.",
+          highlights: ["e5", "e8", "h8", "h5"]
+        }
       ]
     },
     isActive: true
@@ -213,6 +316,16 @@ export const LESSONS: Lesson[] = [
       examples: [
         "Lucena: Building a bridge to promote",
         "Philidor: Passive defense draws"
+      ],
+      steps: [
+        {
+          fen: "6k1/8/6K1/8/8/8/8/R7 w - - 0 1",
+          instruction: "Your king covers the seventh rank. Finish with the rook.",
+          moves: ["a1a8"],
+          explanation: "Ra8# — the king takes away the escape squares and the rook checks along the back rank.",
+          arrows: [{ from: "a1", to: "a8", color: "green" }],
+          highlights: ["f7", "g7", "h7"]
+        }
       ]
     },
     isActive: true
@@ -238,6 +351,16 @@ export const LESSONS: Lesson[] = [
       examples: [
         "Bg5 pinning knight to queen",
         "Bb5 pinning knight to king"
+      ],
+      steps: [
+        {
+          fen: "rnbqkb1r/pppp1ppp/4pn2/8/2PP4/2N5/PP2PPPP/R1BQKBNR b KQkq - 1 3",
+          instruction: "Pin the c3 knight to the white king.",
+          moves: ["f8b4"],
+          explanation: "...Bb4 pins the knight, so it can no longer control e4.",
+          arrows: [{ from: "b4", to: "e1", color: "red" }],
+          highlights: ["c3"]
+        }
       ]
     },
     isActive: true
@@ -261,6 +384,15 @@ export const LESSONS: Lesson[] = [
       examples: [
         "Nf3-e5-c6 forking king and rook",
         "d4-d5 forking two knights"
+      ],
+      steps: [
+        {
+          fen: "4r1k1/5p1p/8/3N4/8/8/5PPP/6K1 w - - 0 1",
+          instruction: "Find a knight check that also attacks the rook, then win it.",
+          moves: ["d5f6", "g8g7", "f6e8"],
+          explanation: "Nf6+ forks king and rook. After the king moves, the rook falls.",
+          arrows: [{ from: "f6", to: "g8", color: "red" }, { from: "f6", to: "e8", color: "red" }]
+        }
       ]
     },
     isActive: true
@@ -284,6 +416,15 @@ export const LESSONS: Lesson[] = [
       examples: [
         "Bc4+ forcing Kf8, then Bxa2",
         "Re1+ winning the queen on e8"
+      ],
+      steps: [
+        {
+          fen: "q7/8/8/3k4/8/7B/P7/2K5 w - - 0 1",
+          instruction: "Check the king along the long diagonal so the queen behind it is exposed.",
+          moves: ["h3g2", "d5d6", "g2a8"],
+          explanation: "Bg2+ skewers the king to the queen: the king must step aside and the queen is lost.",
+          arrows: [{ from: "g2", to: "a8", color: "red" }]
+        }
       ]
     },
     isActive: true
@@ -309,6 +450,15 @@ export const LESSONS: Lesson[] = [
       examples: [
         "Rapid development seizes initiative",
         "Attacking moves maintain pressure"
+      ],
+      steps: [
+        {
+          fen: "rnb1kbnr/ppp1pppp/8/3q4/8/8/PPPP1PPP/RNBQKBNR w KQkq - 0 3",
+          instruction: "Develop a piece and attack the queen at the same time.",
+          moves: ["b1c3"],
+          explanation: "Nc3 gains a tempo: Black must spend a move saving the queen while White keeps developing.",
+          arrows: [{ from: "c3", to: "d5", color: "red" }]
+        }
       ]
     },
     isActive: true
@@ -332,6 +482,15 @@ export const LESSONS: Lesson[] = [
       examples: [
         "Nd5 on a weak d5 square",
         "Ne5 blockading an isolated d6 pawn"
+      ],
+      steps: [
+        {
+          fen: "r1bqkb1r/5ppp/p1np1n2/1p2p1B1/4P3/N1N5/PPP2PPP/R2QKB1R w KQkq b6 0 9",
+          instruction: "...d6 and ...e5 left a hole on d5 that no black pawn can attack. Occupy it.",
+          moves: ["c3d5"],
+          explanation: "Nd5 settles on an outpost that can only be challenged by pieces.",
+          highlights: ["d5"]
+        }
       ]
     },
     isActive: true
@@ -357,6 +516,16 @@ export const LESSONS: Lesson[] = [
       examples: [
         "Calculate all checks before other moves",
         "Don't miss quiet winning moves"
+      ],
+      steps: [
+        {
+          fen: "3q2k1/5ppp/8/8/8/4R3/5PPP/4Q1K1 w - - 0 1",
+          instruction: "The back rank is weak. Calculate the forcing line to mate.",
+          moves: ["e3e8", "d8e8", "e1e8"],
+          explanation: "Re8+ forces Qxe8, and the queen recaptures with mate.",
+          arrows: [{ from: "e1", to: "e8", color: "blue" }],
+          highlights: ["e8"]
+        }
       ]
     },
     isActive: true
@@ -380,6 +549,15 @@ export const LESSONS: Lesson[] = [
       examples: [
         "Calculate a 3-move combination",
         "Find mate in 3 without touching pieces"
+      ],
+      steps: [
+        {
+          fen: "6rk/6pp/8/6N1/8/8/8/6K1 w - - 0 1",
+          instruction: "Picture every square the knight can reach. One of them delivers mate.",
+          moves: ["g5f7"],
+          explanation: "Nf7# — the king is smothered by its own rook and pawns.",
+          highlights: ["f7"]
+        }
       ]
     },
     isActive: true
@@ -460,7 +638,8 @@ export const ACHIEVEMENTS: Achievement[] = [
     requiredGames: 0,
     requiredLessons: 1,
     category: SkillCategory.Opening,
-    minSkillLevel: 0
+    minSkillLevel: 0,
+    criteria: [{ type: 'lessons', count: 1 }]
   },
   {
     id: 1,
@@ -470,7 +649,8 @@ export const ACHIEVEMENTS: Achievement[] = [
     requiredGames: 0,
     requiredLessons: 5,
     category: SkillCategory.Tactics,
-    minSkillLevel: 300
+    minSkillLevel: 300,
+    criteria: [{ type: 'lessons', count: 5 }, { type: 'skillLevel', category: SkillCategory.Tactics, level: 300 }]
   },
   {
     id: 2,
@@ -480,7 +660,8 @@ export const ACHIEVEMENTS: Achievement[] = [
     requiredGames: 0,
     requiredLessons: 3,
     category: SkillCategory.Endgame,
-    minSkillLevel: 500
+    minSkillLevel: 500,
+    criteria: [{ type: 'lessons', count: 3 }, { type: 'skillLevel', category: SkillCategory.Endgame, level: 500 }]
   },
   {
     id: 3,
@@ -490,7 +671,8 @@ export const ACHIEVEMENTS: Achievement[] = [
     requiredGames: 0,
     requiredLessons: 0,
     category: SkillCategory.Opening,
-    minSkillLevel: 500
+    minSkillLevel: 500,
+    criteria: [{ type: 'skillLevel', category: SkillCategory.Opening, level: 500 }]
   },
   {
     id: 4,
@@ -498,9 +680,10 @@ export const ACHIEVEMENTS: Achievement[] = [
     description: "Maintain a 7-day streak",
     emoji: "🔥",
     requiredGames: 0,
-    requiredLessons: 7,
+    requiredLessons: 0,
     category: SkillCategory.Strategy,
-    minSkillLevel: 0
+    minSkillLevel: 0,
+    criteria: [{ type: 'streak', days: 7 }]
   },
   {
     id: 5,
@@ -510,7 +693,8 @@ export const ACHIEVEMENTS: Achievement[] = [
     requiredGames: 10,
     requiredLessons: 0,
     category: SkillCategory.Strategy,
-    minSkillLevel: 0
+    minSkillLevel: 0,
+    criteria: [{ type: 'gamesAnalyzed', count: 10 }]
   },
   {
     id: 6,
@@ -520,7 +704,8 @@ export const ACHIEVEMENTS: Achievement[] = [
     requiredGames: 0,
     requiredLessons: 0,
     category: SkillCategory.Strategy,
-    minSkillLevel: 600
+    minSkillLevel: 600,
+    criteria: [{ type: 'skillLevel', category: SkillCategory.Strategy, level: 600 }]
   },
   {
     id: 7,
@@ -530,7 +715,41 @@ export const ACHIEVEMENTS: Achievement[] = [
     requiredGames: 0,
     requiredLessons: 0,
     category: SkillCategory.Calculate,
-    minSkillLevel: 700
+    minSkillLevel: 700,
+    criteria: [{ type: 'skillLevel', category: SkillCategory.Calculate, level: 700 }]
+  },
+  {
+    id: 8,
+    name: "Fork Finder",
+    description: "Solve 10 fork puzzles",
+    emoji: "🍴",
+    requiredGames: 0,
+    requiredLessons: 0,
+    category: SkillCategory.Tactics,
+    minSkillLevel: 0,
+    criteria: [{ type: 'puzzles', count: 10, theme: 6 }]
+  },
+  {
+    id: 9,
+    name: "Giant Slayer",
+    description: "Beat the 1400-rated engine",
+    emoji: "🗡️",
+    requiredGames: 0,
+    requiredLessons: 0,
+    category: SkillCategory.Calculate,
+    minSkillLevel: 0,
+    criteria: [{ type: 'aiWins', rating: 1400, count: 1 }]
+  },
+  {
+    id: 10,
+    name: "Pathfinder",
+    description: "Complete a learning path",
+    emoji: "🧭",
+    requiredGames: 0,
+    requiredLessons: 0,
+    category: SkillCategory.Strategy,
+    minSkillLevel: 0,
+    criteria: [{ type: 'paths', count: 1 }]
   }
 ];
 
@@ -551,6 +770,7 @@ export function getAchievementById(id: number): Achievement | undefined {
   return ACHIEVEMENTS.find(achievement => achievement.id === id);
 }
 
+/** @deprecated Only checks the on-chain requirement fields; use evaluateAchievements from achievements.ts */
 export function checkAchievementUnlocked(
   achievement: Achievement,
   gamesAnalyzed: number,
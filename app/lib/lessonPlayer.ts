@@ -0,0 +1,149 @@
+// Lesson player - steps through a lesson's board exercises
+// Each step starts from its FEN; the learner must play the expected moves of the line and
+// the replies in between are played automatically. A lesson is complete once every step is solved
+import {
+  GameState,
+  Move,
+  algebraicToSquare,
+  createStateFromFEN,
+  makeMove,
+  moveToUCI,
+  uciToMove,
+} from './chessEngine';
+import { Lesson, LessonStep } from './lessonData';
+
+export interface LessonPlayer {
+  lessonId: number;
+  stepIndex: number;
+  state: GameState;
+  ply: number; // Moves of the current step's line already played
+  lastMove: Move | null;
+  mistakes: number;
+  solvedSteps: number[];
+}
+
+export interface LessonMoveResult {
+  player: LessonPlayer;
+  correct: boolean;
+  awaitingReply: boolean;
+}
+
+export interface BoardArrow {
+  from: number;
+  to: number;
+  color?: string;
+}
+
+function startStep(player: LessonPlayer, lesson: Lesson, stepIndex: number): LessonPlayer {
+  const step = getLessonSteps(lesson)[stepIndex];
+  return {
+    ...player,
+    stepIndex,
+    state: createStateFromFEN(step.fen),
+    ply: 0,
+    lastMove: null,
+  };
+}
+
+export function getLessonSteps(lesson: Lesson): LessonStep[] {
+  return lesson.content.steps ?? [];
+}
+
+export function createLessonPlayer(lesson: Lesson): LessonPlayer {
+  if (getLessonSteps(lesson).length === 0) {
+    throw new Error(`Lesson ${lesson.id} has no exercises`);
+  }
+  return {
+    lessonId: lesson.id,
+    stepIndex: 0,
+    state: createStateFromFEN(getLessonSteps(lesson)[0].fen),
+    ply: 0,
+    lastMove: null,
+    mistakes: 0,
+    solvedSteps: [],
+  };
+}
+
+export function getCurrentStep(player: LessonPlayer, lesson: Lesson): LessonStep {
+  return getLessonSteps(lesson)[player.stepIndex];
+}
+
+export function isStepSolved(player: LessonPlayer): boolean {
+  return player.solvedSteps.includes(player.stepIndex);
+}
+
+function markSolved(player: LessonPlayer, step: LessonStep): LessonPlayer {
+  if (player.ply < step.moves.length || isStepSolved(player)) return player;
+  return { ...player, solvedSteps: [...player.solvedSteps, player.stepIndex] };
+}
+
+// Check a learner move against the expected move of the current step
+export function submitLessonMove(player: LessonPlayer, lesson: Lesson, move: Move): LessonMoveResult {
+  const step = getCurrentStep(player, lesson);
+  const expected = step.moves[player.ply];
+  if (isStepSolved(player) || expected === undefined) {
+    return { player, correct: false, awaitingReply: false };
+  }
+
+  const expectedMove = uciToMove(expected, player.state);
+  if (!expectedMove) {
+    throw new Error(`Lesson ${lesson.id} step ${player.stepIndex + 1} has an illegal move ${expected}`);
+  }
+
+  if (moveToUCI(move) !== moveToUCI(expectedMove)) {
+    return { player: { ...player, mistakes: player.mistakes + 1 }, correct: false, awaitingReply: false };
+  }
+
+  const next = markSolved({
+    ...player,
+    state: makeMove(player.state, expectedMove),
+    ply: player.ply + 1,
+    lastMove: expectedMove,
+  }, step);
+  return { player: next, correct: true, awaitingReply: next.ply < step.moves.length };
+}
+
+// Play the scripted reply that follows a correct learner move
+export function playLessonReply(player: LessonPlayer, lesson: Lesson): LessonPlayer {
+  const step = getCurrentStep(player, lesson);
+  const reply = step.moves[player.ply];
+  if (reply === undefined) return player;
+
+  const move = uciToMove(reply, player.state);
+  if (!move) {
+    throw new Error(`Lesson ${lesson.id} step ${player.stepIndex + 1} has an illegal reply ${reply}`);
+  }
+  return markSolved({
+    ...player,
+    state: makeMove(player.state, move),
+    ply: player.ply + 1,
+    lastMove: move,
+  }, step);
+}
+
+// Steps without moves are solved by reading them
+export function acknowledgeLessonStep(player: LessonPlayer, lesson: Lesson): LessonPlayer {
+  return markSolved(player, getCurrentStep(player, lesson));
+}
+
+export function goToLessonStep(player: LessonPlayer, lesson: Lesson, stepIndex: number): LessonPlayer {
+  if (stepIndex < 0 || stepIndex >= getLessonSteps(lesson).length) return player;
+  return startStep(player, lesson, stepIndex);
+}
+
+export function isLessonComplete(player: LessonPlayer, lesson: Lesson): boolean {
+  return getLessonSteps(lesson).every((_, index) => player.solvedSteps.includes(index));
+}
+
+// Board squares for a step's arrows and highlights
+export function getStepArrows(step: LessonStep): BoardArrow[] {
+  return (step.arrows ?? []).map(arrow => ({
+    from: algebraicToSquare(arrow.from),
+    to: algebraicToSquare(arrow.to),
+    color: arrow.color,
+  }));
+}
+
+export function getStepHighlights(step: LessonStep): number[] {
+  return (step.highlights ?? []).map(algebraicToSquare);
+}
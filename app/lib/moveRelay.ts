@@ -0,0 +1,92 @@
+// Move relay client - carries signed moves and result signatures between the two players of a game
+// The relay only forwards messages to the other sockets in a game's room and is not trusted: everything
+// received is checked against the transcript. `npm run relay` starts a local stand-in (scripts/moveRelay.ts);
+// set NEXT_PUBLIC_MOVE_RELAY_URL to use a hosted relay
+import { ResultOffer, SignedMove, SignedTranscript } from './signedMoves';
+
+export type RelayMessage =
+  | { type: 'move'; move: SignedMove }
+  | { type: 'result'; offer: ResultOffer }
+  | { type: 'transcript'; transcript: SignedTranscript; offer: ResultOffer | null }
+  | { type: 'transcript-request' }; // Sent on connect so the opponent resends anything we missed
+
+export type RelayStatus = 'connecting' | 'open' | 'closed';
+
+export interface MoveRelay {
+  send: (message: RelayMessage) => void;
+  close: () => void;
+}
+
+export const DEFAULT_RELAY_URL = 'ws://localhost:8787';
+const RECONNECT_DELAY_MS = 3000;
+
+export function getRelayUrl(): string {
+  return process.env.NEXT_PUBLIC_MOVE_RELAY_URL || DEFAULT_RELAY_URL;
+}
+
+// One room per game and contract deployment
+export function getRelayRoom(chainId: number, contract: string, gameId: number): string {
+  return `${chainId}-${contract.toLowerCase()}-${gameId}`;
+}
+
+function parseRelayMessage(data: unknown): RelayMessage | null {
+  if (typeof data !== 'string') return null;
+  try {
+    const message = JSON.parse(data);
+    return message && typeof message.type === 'string' ? message as RelayMessage : null;
+  } catch {
+    return null;
+  }
+}
+
+// Connect to a game's room, reconnecting until closed. Messages sent while disconnected are queued
+export function connectMoveRelay(
+  room: string,
+  handlers: { onMessage: (message: RelayMessage) => void; onStatus: (status: RelayStatus) => void },
+  url: string = getRelayUrl()
+): MoveRelay {
+  let socket: WebSocket | null = null;
+  let closed = false;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  const queue: string[] = [];
+
+  const connect = () => {
+    handlers.onStatus('connecting');
+    socket = new WebSocket(`${url}?room=${encodeURIComponent(room)}`);
+    socket.onopen = () => {
+      handlers.onStatus('open');
+      socket?.send(JSON.stringify({ type: 'transcript-request' }));
+      queue.splice(0).forEach(data => socket?.send(data));
+    };
+    socket.onmessage = (event) => {
+      const message = parseRelayMessage(event.data);
+      if (message) handlers.onMessage(message);
+    };
+    socket.onclose = () => {
+      socket = null;
+      if (closed) return;
+      handlers.onStatus('closed');
+      reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+    };
+    socket.onerror = () => socket?.close();
+  };
+
+  connect();
+
+  return {
+    send: (message) => {
+      const data = JSON.stringify(message);
+      if (socket?.readyState === WebSocket.OPEN) {
+        socket.send(data);
+      } else {
+        queue.push(data);
+      }
+    },
+    close: () => {
+      closed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      socket?.close();
+      handlers.onStatus('closed');
+    },
+  };
+}
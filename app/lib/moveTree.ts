@@ -0,0 +1,277 @@
+// Move tree for the analysis board - a game with side lines, comments and NAGs
+// Trees are immutable: every edit returns a new tree that shares unchanged nodes
+import {
+  GameState,
+  Move,
+  createInitialState,
+  getVariant,
+  makeMove,
+  moveToAlgebraic,
+  stateToFEN,
+  undoMove,
+} from './chessEngine';
+import {
+  PGNGame,
+  PGNHeaders,
+  PGNMove,
+  PGNResult,
+  getPGNResult,
+  getPGNStartState,
+  parsePGN,
+  writePGN,
+} from './chessPGN';
+import { getVariantInfo } from './chessVariants';
+
+export interface MoveTreeNode {
+  id: string;
+  parentId: string | null;
+  move: Move | null; // null for the root
+  san: string;
+  state: GameState; // Position after the move
+  children: string[]; // The first child continues the main line, the rest are variations
+  comment?: string;
+  nags?: number[];
+}
+
+export interface MoveTree {
+  rootId: string;
+  nodes: { [id: string]: MoveTreeNode };
+  headers: PGNHeaders;
+  nextId: number;
+}
+
+export function createMoveTree(start: GameState = createInitialState(), headers: PGNHeaders = {}): MoveTree {
+  const root: MoveTreeNode = {
+    id: 'n0',
+    parentId: null,
+    move: null,
+    san: '',
+    state: start,
+    children: [],
+  };
+  return { rootId: root.id, nodes: { [root.id]: root }, headers, nextId: 1 };
+}
+
+// Tree whose main line is the game played so far
+export function moveTreeFromState(state: GameState, headers: PGNHeaders = {}): MoveTree {
+  let start = state;
+  while (start.moveHistory.length > 0) {
+    start = undoMove(start);
+  }
+
+  let tree = createMoveTree(start, headers);
+  let nodeId = tree.rootId;
+  for (const move of state.moveHistory) {
+    ({ tree, nodeId } = addMove(tree, nodeId, move));
+  }
+  return tree;
+}
+
+function sameMove(a: Move, b: Move): boolean {
+  return a.from === b.from && a.to === b.to && (a.promotion || 0) === (b.promotion || 0);
+}
+
+function updateNode(tree: MoveTree, id: string, changes: Partial<MoveTreeNode>): MoveTree {
+  return { ...tree, nodes: { ...tree.nodes, [id]: { ...tree.nodes[id], ...changes } } };
+}
+
+// Play a move after the given node. An existing child with the same move is reused,
+// otherwise the move starts a new variation (or the main line if there are no children)
+export function addMove(tree: MoveTree, parentId: string, move: Move): { tree: MoveTree; nodeId: string } {
+  const parent = tree.nodes[parentId];
+  if (!parent) throw new Error(`Unknown move tree node: ${parentId}`);
+
+  const existing = parent.children.find(childId => sameMove(tree.nodes[childId].move!, move));
+  if (existing) return { tree, nodeId: existing };
+
+  const node: MoveTreeNode = {
+    id: `n${tree.nextId}`,
+    parentId,
+    move,
+    san: moveToAlgebraic(move, parent.state.board),
+    state: makeMove(parent.state, move),
+    children: [],
+  };
+
+  return {
+    tree: {
+      ...tree,
+      nextId: tree.nextId + 1,
+      nodes: {
+        ...tree.nodes,
+        [parentId]: { ...parent, children: [...parent.children, node.id] },
+        [node.id]: node,
+      },
+    },
+    nodeId: node.id,
+  };
+}
+
+// Nodes from the root to the given node
+export function getNodePath(tree: MoveTree, nodeId: string): MoveTreeNode[] {
+  const path: MoveTreeNode[] = [];
+  let node: MoveTreeNode | undefined = tree.nodes[nodeId];
+  while (node) {
+    path.unshift(node);
+    node = node.parentId ? tree.nodes[node.parentId] : undefined;
+  }
+  return path;
+}
+
+// Follow first children from a node to the end of its line
+export function getMainline(tree: MoveTree, fromId: string = tree.rootId): MoveTreeNode[] {
+  const line: MoveTreeNode[] = [];
+  let node: MoveTreeNode | undefined = tree.nodes[fromId];
+  while (node && node.children.length > 0) {
+    node = tree.nodes[node.children[0]];
+    line.push(node);
+  }
+  return line;
+}
+
+// True when the node lies on the game's main line
+export function isMainlineNode(tree: MoveTree, nodeId: string): boolean {
+  return getNodePath(tree, nodeId).every(node =>
+    node.parentId === null || tree.nodes[node.parentId].children[0] === node.id
+  );
+}
+
+// Make the variation containing the node the main continuation at its nearest branch point
+export function promoteVariation(tree: MoveTree, nodeId: string): MoveTree {
+  let node: MoveTreeNode | undefined = tree.nodes[nodeId];
+  while (node && node.parentId) {
+    const parent: MoveTreeNode = tree.nodes[node.parentId];
+    const index = parent.children.indexOf(node.id);
+    if (index > 0) {
+      const children = [node.id, ...parent.children.filter(id => id !== node!.id)];
+      return updateNode(tree, parent.id, { children });
+    }
+    node = parent;
+  }
+  return tree;
+}
+
+// Remove the node and everything after it. The root cannot be deleted
+export function deleteVariation(tree: MoveTree, nodeId: string): MoveTree {
+  const node = tree.nodes[nodeId];
+  if (!node || !node.parentId) return tree;
+
+  const nodes = { ...tree.nodes };
+  const stack = [nodeId];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    stack.push(...nodes[id].children);
+    delete nodes[id];
+  }
+
+  const parent = nodes[node.parentId];
+  nodes[parent.id] = { ...parent, children: parent.children.filter(id => id !== nodeId) };
+  return { ...tree, nodes };
+}
+
+export function setNodeComment(tree: MoveTree, nodeId: string, comment: string): MoveTree {
+  return updateNode(tree, nodeId, { comment: comment.trim() || undefined });
+}
+
+export function setNodeNags(tree: MoveTree, nodeId: string, nags: number[]): MoveTree {
+  return updateNode(tree, nodeId, { nags: nags.length > 0 ? nags : undefined });
+}
+
+// PGN conversion
+
+function toPGNMove(node: MoveTreeNode): PGNMove {
+  return {
+    san: node.san,
+    move: node.move!,
+    ...(node.comment ? { comment: node.comment } : {}),
+    ...(node.nags ? { nags: node.nags } : {}),
+  };
+}
+
+// The line starting with the given child: the move itself, its sibling variations, then its main continuation
+function lineFrom(tree: MoveTree, startId: string, withSiblings: boolean): PGNMove[] {
+  const line: PGNMove[] = [];
+  let node = tree.nodes[startId];
+  let includeSiblings = withSiblings;
+
+  while (node) {
+    const pgnMove = toPGNMove(node);
+    const siblings = includeSiblings && node.parentId ? tree.nodes[node.parentId].children.slice(1) : [];
+    if (siblings.length > 0) {
+      pgnMove.variations = siblings.map(id => lineFrom(tree, id, false));
+    }
+    line.push(pgnMove);
+
+    if (node.children.length === 0) break;
+    node = tree.nodes[node.children[0]];
+    includeSiblings = true;
+  }
+  return line;
+}
+
+export function moveTreeToPGNGame(tree: MoveTree): PGNGame {
+  const root = tree.nodes[tree.rootId];
+  const mainline = getMainline(tree);
+  const end = mainline.length > 0 ? mainline[mainline.length - 1].state : root.state;
+  const result = (tree.headers.Result as PGNResult) || getPGNResult(end);
+  const startFEN = stateToFEN(root.state);
+  const variant = getVariant(root.state);
+
+  const headers: PGNHeaders = { ...tree.headers, Result: result };
+  if (variant !== 'standard') {
+    headers.Variant = getVariantInfo(variant).pgnName;
+  }
+  // Chess960 games always record their start position
+  if (variant === 'chess960' || startFEN !== stateToFEN(createInitialState(variant))) {
+    headers.SetUp = '1';
+    headers.FEN = startFEN;
+  }
+
+  return {
+    headers,
+    moves: root.children.length > 0 ? lineFrom(tree, root.children[0], true) : [],
+    result,
+    ...(root.comment ? { comment: root.comment } : {}),
+    state: end,
+  };
+}
+
+export function exportMoveTree(tree: MoveTree, maxLineLength: number = 80): string {
+  return writePGN(moveTreeToPGNGame(tree), maxLineLength);
+}
+
+function addPGNLine(tree: MoveTree, parentId: string, line: PGNMove[]): MoveTree {
+  let current = tree;
+  let nodeId = parentId;
+
+  for (const pgnMove of line) {
+    const previousId = nodeId;
+    ({ tree: current, nodeId } = addMove(current, previousId, pgnMove.move));
+    if (pgnMove.comment) current = setNodeComment(current, nodeId, pgnMove.comment);
+    if (pgnMove.nags) current = setNodeNags(current, nodeId, pgnMove.nags);
+
+    // Variations are alternatives to this move, so they branch from the same parent
+    for (const variation of pgnMove.variations || []) {
+      current = addPGNLine(current, previousId, variation);
+    }
+  }
+  return current;
+}
+
+// Build a tree from the first game in a PGN string, keeping variations, comments and NAGs
+export function importMoveTree(pgn: string): MoveTree {
+  const games = parsePGN(pgn);
+  if (games.length === 0) throw new Error('No game found in PGN');
+  const game = games[0];
+
+  // The start position lives on the root node, so Variant, FEN and SetUp are re-added on export
+  const headers = { ...game.headers };
+  const start = getPGNStartState(headers);
+  delete headers.Variant;
+  delete headers.FEN;
+  delete headers.SetUp;
+
+  let tree = createMoveTree(start, headers);
+  if (game.comment) tree = setNodeComment(tree, tree.rootId, game.comment);
+  return addPGNLine(tree, tree.rootId, game.moves);
+}
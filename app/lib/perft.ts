@@ -0,0 +1,104 @@
+// Perft harness - verifies move generation against known node counts
+// Positions and counts from https://www.chessprogramming.org/Perft_Results
+// and https://www.chessprogramming.org/Chess960_Perft_Results (Shredder-FEN castling)
+import { createStateFromFEN, perft } from './chessEngine';
+
+export interface PerftPosition {
+  name: string;
+  fen: string;
+  nodes: number[]; // Expected node count at depth 1, 2, 3...
+}
+
+export interface PerftResult {
+  name: string;
+  depth: number;
+  nodes: number;
+  expected: number;
+  passed: boolean;
+  elapsedMs: number;
+  nodesPerSecond: number;
+}
+
+export const PERFT_POSITIONS: PerftPosition[] = [
+  {
+    name: 'Initial position',
+    fen: 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1',
+    nodes: [20, 400, 8902, 197281, 4865609],
+  },
+  {
+    name: 'Kiwipete',
+    fen: 'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1',
+    nodes: [48, 2039, 97862, 4085603],
+  },
+  {
+    name: 'Position 3',
+    fen: '8/2p5/3p4/KP5r/1R3p1k/8/4P1P1/8 w - - 0 1',
+    nodes: [14, 191, 2812, 43238, 674624],
+  },
+  {
+    name: 'Position 4',
+    fen: 'r3k2r/Pppp1ppp/1b3nbN/nP6/BBP1P3/q4N2/Pp1P2PP/R2Q1RK1 w kq - 0 1',
+    nodes: [6, 264, 9467, 422333],
+  },
+  {
+    name: 'Position 4 (mirrored)',
+    fen: 'r2q1rk1/pP1p2pp/Q4n2/bbp1p3/Np6/1B3NBn/pPPP1PPP/R3K2R b KQ - 0 1',
+    nodes: [6, 264, 9467, 422333],
+  },
+  {
+    name: 'Position 5',
+    fen: 'rnbq1k1r/pp1Pbppp/2p5/8/2B5/8/PPP1NnPP/RNBQK2R w KQ - 1 8',
+    nodes: [44, 1486, 62379, 2103487],
+  },
+  {
+    name: 'Position 6',
+    fen: 'r4rk1/1pp1qppp/p1np1n2/2b1p1B1/2B1P1b1/P1NP1N2/1PP1QPPP/R4RK1 w - - 0 10',
+    nodes: [46, 2079, 89890, 3894594],
+  },
+  {
+    name: 'Chess960 BQ1BNRKR',
+    fen: 'bqnb1rkr/pp3ppp/3ppn2/2p5/5P2/P2P4/NPP1P1PP/BQ1BNRKR w HFhf - 2 9',
+    nodes: [21, 528, 12189, 326672],
+  },
+  {
+    name: 'Chess960 BQNNRKRB',
+    fen: 'b1q1rrkb/pppppppp/3nn3/8/P7/1PPP4/4PPPP/BQNNRKRB w GE - 1 9',
+    nodes: [20, 479, 10471, 273318],
+  },
+  {
+    name: 'Chess960 QBBNNR1R',
+    fen: 'qbbnnrkr/2pp2pp/p7/1p2pp2/8/P3PP2/1PPP1KPP/QBBNNR1R w hf - 0 9',
+    nodes: [22, 593, 13440, 382958],
+  },
+];
+
+// Run perft for one position at one depth and compare with the expected count
+export function runPerft(position: PerftPosition, depth: number): PerftResult {
+  const state = createStateFromFEN(position.fen);
+  const start = Date.now();
+  const nodes = perft(state, depth);
+  const elapsedMs = Date.now() - start;
+  const expected = position.nodes[depth - 1];
+
+  return {
+    name: position.name,
+    depth,
+    nodes,
+    expected,
+    passed: nodes === expected,
+    elapsedMs,
+    nodesPerSecond: elapsedMs > 0 ? Math.round((nodes / elapsedMs) * 1000) : nodes * 1000,
+  };
+}
+
+// Run every position up to maxDepth (capped by the known counts for each position)
+export function runPerftSuite(maxDepth: number = 3): PerftResult[] {
+  const results: PerftResult[] = [];
+  for (const position of PERFT_POSITIONS) {
+    const depth = Math.min(maxDepth, position.nodes.length);
+    for (let d = 1; d <= depth; d++) {
+      results.push(runPerft(position, d));
+    }
+  }
+  return results;
+}
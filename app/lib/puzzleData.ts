@@ -7,6 +7,7 @@ export interface ChessPuzzle {
   difficulty: number; // 0-4 matching contract enum
   rating: number;
   description: string;
+  source?: string; // Set for imported puzzles, e.g. "lichess:00sHx"; curated puzzles have none
 }
 
 export const PUZZLE_THEMES = [
@@ -239,3 +240,25 @@ export function getPuzzleByRating(minRating: number, maxRating: number): ChessPu
   const filtered = CHESS_PUZZLES.filter(p => p.rating >= minRating && p.rating <= maxRating);
   return filtered.length > 0 ? filtered[Math.floor(Math.random() * filtered.length)] : undefined;
 }
+
+// Pick a puzzle near the player's rating. The window follows the rating deviation, so
+// uncertain ratings see a wider spread, and widens until a puzzle is found
+export function getPuzzleForRating(
+  rating: number,
+  deviation: number,
+  ratingOf: (puzzle: ChessPuzzle) => number = p => p.rating,
+  excludeId?: number,
+  puzzles: ChessPuzzle[] = CHESS_PUZZLES
+): ChessPuzzle {
+  const pool = puzzles.filter(p => p.id !== excludeId);
+  let window = Math.max(75, Math.min(350, deviation));
+
+  while (window < 3000) {
+    const filtered = pool.filter(p => Math.abs(ratingOf(p) - rating) <= window);
+    if (filtered.length > 0) {
+      return filtered[Math.floor(Math.random() * filtered.length)];
+    }
+    window *= 2;
+  }
+  return pool.length > 0 ? pool[Math.floor(Math.random() * pool.length)] : getRandomPuzzle();
+}
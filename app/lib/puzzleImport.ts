@@ -0,0 +1,223 @@
+// Lichess puzzle importer - converts rows of the Lichess puzzle CSV into ChessPuzzle entries
+// Format: https://database.lichess.org/#puzzles
+// PuzzleId,FEN,Moves,Rating,RatingDeviation,Popularity,NbPlays,Themes,GameUrl,OpeningTags
+// The FEN is the position before the opponent's move; the first UCI move is played
+// automatically and the solver answers from the position after it
+import {
+  createStateFromFEN,
+  makeMove,
+  moveToUCI,
+  stateToFEN,
+  uciToMove,
+} from './chessEngine';
+import { ChessPuzzle } from './puzzleData';
+import {
+  PuzzlePackInfo,
+  PuzzlePackManifest,
+  PUZZLE_PACK_VERSION,
+} from './puzzlePacks';
+
+export interface LichessPuzzleRow {
+  puzzleId: string;
+  fen: string;
+  moves: string[];
+  rating: number;
+  themes: string[];
+}
+
+export interface PuzzlePack {
+  info: PuzzlePackInfo;
+  puzzles: ChessPuzzle[];
+}
+
+// Imported ids start here so they never collide with the curated CHESS_PUZZLES ids
+export const LICHESS_ID_OFFSET = 1_000_000_000;
+
+const REQUIRED_COLUMNS = ['PuzzleId', 'FEN', 'Moves', 'Rating', 'Themes'];
+const BASE62 = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
+// Lichess themes for each PUZZLE_THEMES index, most specific first.
+// Motifs win over game phases; anything unmatched is filed under Tactics
+const THEME_RULES: { theme: number; tags: string[] }[] = [
+  { theme: 0, tags: ['mate', 'mateIn1', 'mateIn2', 'mateIn3', 'mateIn4', 'mateIn5', 'backRankMate', 'smotheredMate', 'anastasiaMate', 'arabianMate', 'bodenMate', 'doubleBishopMate', 'dovetailMate', 'hookMate'] },
+  { theme: 6, tags: ['fork'] },
+  { theme: 7, tags: ['pin'] },
+  { theme: 8, tags: ['skewer'] },
+  { theme: 9, tags: ['discoveredAttack', 'doubleCheck'] },
+  { theme: 5, tags: ['trappedPiece'] },
+  { theme: 2, tags: ['endgame', 'pawnEndgame', 'rookEndgame', 'bishopEndgame', 'knightEndgame', 'queenEndgame', 'queenRookEndgame'] },
+  { theme: 3, tags: ['opening'] },
+  { theme: 4, tags: ['middlegame'] },
+];
+const DEFAULT_THEME = 1; // Tactics
+
+const THEME_PROMPTS: { [theme: number]: string } = {
+  0: 'Find the checkmate.',
+  5: 'Trap a piece.',
+  6: 'Find the fork.',
+  7: 'Use the pin.',
+  8: 'Find the skewer.',
+  9: 'Find the discovered attack.',
+};
+
+// Rating bounds for PUZZLE_DIFFICULTIES (Beginner to Master)
+const DIFFICULTY_LIMITS = [1200, 1600, 2000, 2400];
+
+// Split one CSV line, honouring double-quoted fields
+export function parseCSVLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(field);
+  return fields;
+}
+
+// Column positions from the header line
+export function parseLichessHeader(line: string): { [column: string]: number } {
+  const columns: { [column: string]: number } = {};
+  parseCSVLine(line.trim()).forEach((name, index) => {
+    columns[name] = index;
+  });
+
+  const missing = REQUIRED_COLUMNS.filter(name => columns[name] === undefined);
+  if (missing.length > 0) {
+    throw new Error(`Missing CSV columns: ${missing.join(', ')}`);
+  }
+  return columns;
+}
+
+export function parseLichessRow(line: string, columns: { [column: string]: number }): LichessPuzzleRow {
+  const fields = parseCSVLine(line.trim());
+  const rating = parseInt(fields[columns.Rating]);
+  if (isNaN(rating)) {
+    throw new Error(`Invalid rating: ${fields[columns.Rating]}`);
+  }
+
+  return {
+    puzzleId: fields[columns.PuzzleId],
+    fen: fields[columns.FEN],
+    moves: (fields[columns.Moves] || '').split(' ').filter(Boolean),
+    rating,
+    themes: (fields[columns.Themes] || '').split(' ').filter(Boolean),
+  };
+}
+
+export function mapLichessThemes(themes: string[]): number {
+  const rule = THEME_RULES.find(r => r.tags.some(tag => themes.includes(tag)));
+  return rule ? rule.theme : DEFAULT_THEME;
+}
+
+export function ratingToDifficulty(rating: number): number {
+  const index = DIFFICULTY_LIMITS.findIndex(limit => rating < limit);
+  return index === -1 ? DIFFICULTY_LIMITS.length : index;
+}
+
+// Stable numeric id from the base62 Lichess puzzle id
+export function lichessIdToNumber(puzzleId: string): number {
+  let value = 0;
+  for (const char of puzzleId) {
+    const digit = BASE62.indexOf(char);
+    if (digit === -1) throw new Error(`Invalid puzzle id: ${puzzleId}`);
+    value = value * 62 + digit;
+  }
+  if (value >= Number.MAX_SAFE_INTEGER - LICHESS_ID_OFFSET) {
+    throw new Error(`Puzzle id too long: ${puzzleId}`);
+  }
+  return LICHESS_ID_OFFSET + value;
+}
+
+function describePuzzle(isWhiteToMove: boolean, theme: number, themes: string[]): string {
+  const side = isWhiteToMove ? 'White' : 'Black';
+  const mateIn = themes.find(tag => /^mateIn\d$/.test(tag));
+  const prompt = mateIn ? `Find mate in ${mateIn.slice(6)}.` : THEME_PROMPTS[theme] ?? 'Find the best move.';
+  return `${side} to move. ${prompt}`;
+}
+
+// Convert a row, replaying every move to make sure the whole line is legal
+export function convertLichessPuzzle(row: LichessPuzzleRow): ChessPuzzle {
+  if (row.moves.length < 2) {
+    throw new Error(`Puzzle ${row.puzzleId} has no solution moves`);
+  }
+
+  let state = createStateFromFEN(row.fen);
+  let start = state;
+  const solution: string[] = [];
+
+  row.moves.forEach((uci, index) => {
+    const move = uciToMove(uci, state);
+    if (!move) {
+      throw new Error(`Puzzle ${row.puzzleId} has an illegal move ${uci} at ply ${index + 1}`);
+    }
+    state = makeMove(state, move);
+    if (index === 0) {
+      start = state;
+    } else {
+      solution.push(moveToUCI(move));
+    }
+  });
+
+  const theme = mapLichessThemes(row.themes);
+  return {
+    id: lichessIdToNumber(row.puzzleId),
+    fen: stateToFEN(start),
+    moves: solution,
+    theme,
+    difficulty: ratingToDifficulty(row.rating),
+    rating: row.rating,
+    description: describePuzzle(start.isWhiteTurn, theme, row.themes),
+    source: `lichess:${row.puzzleId}`,
+  };
+}
+
+// Sort by rating and split into packs so the app can fetch only the range it needs
+export function chunkPuzzlePacks(puzzles: ChessPuzzle[], packSize: number): PuzzlePack[] {
+  if (packSize < 1) throw new Error('Pack size must be at least 1');
+
+  const sorted = [...puzzles].sort((a, b) => a.rating - b.rating || a.id - b.id);
+  const packs: PuzzlePack[] = [];
+  for (let i = 0; i < sorted.length; i += packSize) {
+    const chunk = sorted.slice(i, i + packSize);
+    packs.push({
+      info: {
+        file: `pack-${String(packs.length).padStart(4, '0')}.json`,
+        count: chunk.length,
+        minRating: chunk[0].rating,
+        maxRating: chunk[chunk.length - 1].rating,
+      },
+      puzzles: chunk,
+    });
+  }
+  return packs;
+}
+
+export function createPackManifest(packs: PuzzlePack[], packSize: number): PuzzlePackManifest {
+  return {
+    version: PUZZLE_PACK_VERSION,
+    total: packs.reduce((sum, pack) => sum + pack.info.count, 0),
+    packSize,
+    generatedAt: new Date().toISOString(),
+    packs: packs.map(pack => pack.info),
+  };
+}
@@ -0,0 +1,82 @@
+// Puzzle packs - imported puzzles shipped as rating-sorted JSON chunks under public/puzzles
+// Packs are fetched on demand, so only the ones near the player's rating are downloaded
+import { ChessPuzzle } from './puzzleData';
+
+export interface PuzzlePackInfo {
+  file: string; // Relative to the manifest
+  count: number;
+  minRating: number;
+  maxRating: number;
+}
+
+export interface PuzzlePackManifest {
+  version: number;
+  total: number;
+  packSize: number;
+  generatedAt: string;
+  packs: PuzzlePackInfo[];
+}
+
+export const PUZZLE_PACK_VERSION = 1;
+export const PUZZLE_PACK_BASE_URL = '/puzzles';
+export const PUZZLE_MANIFEST_FILE = 'manifest.json';
+
+// Most packs to fetch for one rating window
+const MAX_PACKS_PER_LOAD = 3;
+
+let manifestRequest: Promise<PuzzlePackManifest | null> | null = null;
+const packRequests = new Map<string, Promise<ChessPuzzle[]>>();
+
+// Resolves null when no packs have been imported
+export function loadPuzzleManifest(): Promise<PuzzlePackManifest | null> {
+  if (!manifestRequest) {
+    manifestRequest = fetch(`${PUZZLE_PACK_BASE_URL}/${PUZZLE_MANIFEST_FILE}`)
+      .then(async (response) => {
+        if (!response.ok) return null;
+        const manifest = (await response.json()) as PuzzlePackManifest;
+        return manifest.version === PUZZLE_PACK_VERSION ? manifest : null;
+      })
+      .catch((error) => {
+        console.log('Puzzle packs unavailable:', error);
+        return null;
+      });
+  }
+  return manifestRequest;
+}
+
+export function loadPuzzlePack(pack: PuzzlePackInfo): Promise<ChessPuzzle[]> {
+  let request = packRequests.get(pack.file);
+  if (!request) {
+    request = fetch(`${PUZZLE_PACK_BASE_URL}/${pack.file}`).then((response) => {
+      if (!response.ok) throw new Error(`Failed to load puzzle pack ${pack.file}: ${response.status}`);
+      return response.json() as Promise<ChessPuzzle[]>;
+    });
+    // Let a failed pack be retried later
+    request.catch(() => packRequests.delete(pack.file));
+    packRequests.set(pack.file, request);
+  }
+  return request;
+}
+
+// Packs overlapping the rating window, closest first
+export function selectPacksForRating(
+  manifest: PuzzlePackManifest,
+  rating: number,
+  window: number
+): PuzzlePackInfo[] {
+  const distance = (pack: PuzzlePackInfo) =>
+    rating < pack.minRating ? pack.minRating - rating : rating > pack.maxRating ? rating - pack.maxRating : 0;
+
+  const overlapping = manifest.packs.filter(pack => distance(pack) <= window);
+  const candidates = overlapping.length > 0 ? overlapping : manifest.packs;
+  return [...candidates].sort((a, b) => distance(a) - distance(b)).slice(0, MAX_PACKS_PER_LOAD);
+}
+
+// Imported puzzles around a rating, or an empty list when no packs are available
+export async function loadPuzzlesForRating(rating: number, window: number): Promise<ChessPuzzle[]> {
+  const manifest = await loadPuzzleManifest();
+  if (!manifest || manifest.packs.length === 0) return [];
+
+  const packs = await Promise.all(selectPacksForRating(manifest, rating, window).map(loadPuzzlePack));
+  return packs.flat();
+}
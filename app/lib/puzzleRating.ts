@@ -0,0 +1,230 @@
+// Puzzle ratings - Glicko-2 ratings for the player (overall and per theme) and for each puzzle
+// Every attempt is a rated game between the player and the puzzle, so both ratings move.
+// Ratings live in localStorage; on-chain ChessPuzzles ratings seed them when a wallet connects
+// See http://www.glicko.net/glicko/glicko2.pdf for the algorithm
+import { ChessPuzzle, PUZZLE_THEMES } from './puzzleData';
+
+export interface GlickoRating {
+  rating: number;
+  deviation: number; // RD - how uncertain the rating still is
+  volatility: number;
+}
+
+export interface PuzzleRatingProfile {
+  overall: GlickoRating;
+  themes: GlickoRating[]; // One entry per PUZZLE_THEMES index
+  puzzles: { [puzzleId: number]: GlickoRating };
+  attempts: number;
+  updatedAt: number;
+}
+
+export interface PuzzleAttemptResult {
+  profile: PuzzleRatingProfile;
+  ratingChange: number;
+  themeRatingChange: number;
+  puzzleRatingChange: number;
+}
+
+// On-chain values as returned by getPlayerStats and getThemeRating
+export interface ChainPuzzleRatings {
+  totalAttempts: number;
+  rating: number;
+  themeRatings?: (number | undefined)[]; // Missing entries are left unchanged
+}
+
+export const DEFAULT_RATING = 1500;
+export const DEFAULT_DEVIATION = 350;
+export const DEFAULT_VOLATILITY = 0.06;
+export const MIN_DEVIATION = 45;
+
+// Puzzles start with their curated rating, which is already a reasonable estimate
+const PUZZLE_DEVIATION = 150;
+// Deviation given to a rating seeded from the contract's Elo rating
+const CHAIN_SEED_DEVIATION = 200;
+// Constrains volatility changes; 0.3-1.2 is typical
+const TAU = 0.5;
+const GLICKO_SCALE = 173.7178;
+const CONVERGENCE = 0.000001;
+
+const STORAGE_KEY = 'puzzleRatings';
+
+export function createGlickoRating(
+  rating: number = DEFAULT_RATING,
+  deviation: number = DEFAULT_DEVIATION
+): GlickoRating {
+  return { rating, deviation, volatility: DEFAULT_VOLATILITY };
+}
+
+export function createPuzzleRatingProfile(): PuzzleRatingProfile {
+  return {
+    overall: createGlickoRating(),
+    themes: PUZZLE_THEMES.map(() => createGlickoRating()),
+    puzzles: {},
+    attempts: 0,
+    updatedAt: Date.now(),
+  };
+}
+
+function g(phi: number): number {
+  return 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+}
+
+// Chance of scoring against the opponent, on the Glicko-2 scale
+function expectedScore(mu: number, opponentMu: number, opponentPhi: number): number {
+  return 1 / (1 + Math.exp(-g(opponentPhi) * (mu - opponentMu)));
+}
+
+// New volatility via the Illinois algorithm (step 5 of the paper)
+function updateVolatility(phi: number, sigma: number, variance: number, delta: number): number {
+  const a = Math.log(sigma * sigma);
+  const f = (x: number) => {
+    const ex = Math.exp(x);
+    const d = phi * phi + variance + ex;
+    return (ex * (delta * delta - phi * phi - variance - ex)) / (2 * d * d) - (x - a) / (TAU * TAU);
+  };
+
+  let A = a;
+  let B: number;
+  if (delta * delta > phi * phi + variance) {
+    B = Math.log(delta * delta - phi * phi - variance);
+  } else {
+    let k = 1;
+    while (f(a - k * TAU) < 0) k++;
+    B = a - k * TAU;
+  }
+
+  let fA = f(A);
+  let fB = f(B);
+  while (Math.abs(B - A) > CONVERGENCE) {
+    const C = A + ((A - B) * fA) / (fB - fA);
+    const fC = f(C);
+    if (fC * fB <= 0) {
+      A = B;
+      fA = fB;
+    } else {
+      fA /= 2;
+    }
+    B = C;
+    fB = fC;
+  }
+
+  return Math.exp(A / 2);
+}
+
+// Rate one period of games. Scores are 1 for a win, 0.5 for a draw and 0 for a loss
+export function updateGlickoRating(
+  player: GlickoRating,
+  games: { opponent: GlickoRating; score: number }[]
+): GlickoRating {
+  const mu = (player.rating - DEFAULT_RATING) / GLICKO_SCALE;
+  const phi = player.deviation / GLICKO_SCALE;
+
+  // A period without games only increases the deviation
+  if (games.length === 0) {
+    const inflated = Math.sqrt(phi * phi + player.volatility * player.volatility) * GLICKO_SCALE;
+    return { ...player, deviation: Math.min(DEFAULT_DEVIATION, inflated) };
+  }
+
+  let varianceInverse = 0;
+  let improvement = 0;
+  for (const { opponent, score } of games) {
+    const opponentMu = (opponent.rating - DEFAULT_RATING) / GLICKO_SCALE;
+    const opponentPhi = opponent.deviation / GLICKO_SCALE;
+    const gPhi = g(opponentPhi);
+    const expected = expectedScore(mu, opponentMu, opponentPhi);
+    varianceInverse += gPhi * gPhi * expected * (1 - expected);
+    improvement += gPhi * (score - expected);
+  }
+
+  const variance = 1 / varianceInverse;
+  const volatility = updateVolatility(phi, player.volatility, variance, variance * improvement);
+  const phiStar = Math.sqrt(phi * phi + volatility * volatility);
+  const newPhi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / variance);
+  const newMu = mu + newPhi * newPhi * improvement;
+
+  return {
+    rating: newMu * GLICKO_SCALE + DEFAULT_RATING,
+    deviation: Math.max(MIN_DEVIATION, Math.min(DEFAULT_DEVIATION, newPhi * GLICKO_SCALE)),
+    volatility,
+  };
+}
+
+export function getPuzzleGlickoRating(profile: PuzzleRatingProfile, puzzle: ChessPuzzle): GlickoRating {
+  return profile.puzzles[puzzle.id] ?? createGlickoRating(puzzle.rating, PUZZLE_DEVIATION);
+}
+
+export function getThemeRating(profile: PuzzleRatingProfile, theme: number): GlickoRating {
+  return profile.themes[theme] ?? createGlickoRating();
+}
+
+// Rate an attempt: the player's overall and theme ratings play against the puzzle's rating
+export function recordPuzzleAttempt(
+  profile: PuzzleRatingProfile,
+  puzzle: ChessPuzzle,
+  solved: boolean
+): PuzzleAttemptResult {
+  const score = solved ? 1 : 0;
+  const puzzleRating = getPuzzleGlickoRating(profile, puzzle);
+  const themeRating = getThemeRating(profile, puzzle.theme);
+
+  const overall = updateGlickoRating(profile.overall, [{ opponent: puzzleRating, score }]);
+  const theme = updateGlickoRating(themeRating, [{ opponent: puzzleRating, score }]);
+  const updatedPuzzle = updateGlickoRating(puzzleRating, [{ opponent: profile.overall, score: 1 - score }]);
+
+  const themes = [...profile.themes];
+  themes[puzzle.theme] = theme;
+
+  return {
+    profile: {
+      overall,
+      themes,
+      puzzles: { ...profile.puzzles, [puzzle.id]: updatedPuzzle },
+      attempts: profile.attempts + 1,
+      updatedAt: Date.now(),
+    },
+    ratingChange: overall.rating - profile.overall.rating,
+    themeRatingChange: theme.rating - themeRating.rating,
+    puzzleRatingChange: updatedPuzzle.rating - puzzleRating.rating,
+  };
+}
+
+// Seed local ratings from the contract. The contract keeps a plain Elo rating, so it only
+// replaces a local rating that is less certain than a seeded one would be
+export function mergeChainRatings(profile: PuzzleRatingProfile, chain: ChainPuzzleRatings): PuzzleRatingProfile {
+  if (chain.totalAttempts === 0) return profile;
+
+  const seed = (local: GlickoRating, chainRating: number | undefined): GlickoRating => {
+    if (!chainRating || chainRating === DEFAULT_RATING || local.deviation <= CHAIN_SEED_DEVIATION) {
+      return local;
+    }
+    return createGlickoRating(chainRating, CHAIN_SEED_DEVIATION);
+  };
+
+  const overall = seed(profile.overall, chain.rating);
+  const themes = profile.themes.map((theme, index) => seed(theme, chain.themeRatings?.[index]));
+  const changed = overall !== profile.overall || themes.some((theme, index) => theme !== profile.themes[index]);
+
+  // Unchanged profiles are returned as-is so callers can skip saving
+  return changed ? { ...profile, overall, themes } : profile;
+}
+
+export function loadPuzzleRatings(): PuzzleRatingProfile {
+  if (typeof window === 'undefined') return createPuzzleRatingProfile();
+
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return createPuzzleRatingProfile();
+    const profile = JSON.parse(saved) as PuzzleRatingProfile;
+    // Themes added since the profile was saved start unrated
+    const themes = PUZZLE_THEMES.map((_, index) => profile.themes?.[index] ?? createGlickoRating());
+    return { ...createPuzzleRatingProfile(), ...profile, themes };
+  } catch (error) {
+    console.error('Could not load puzzle ratings:', error);
+    return createPuzzleRatingProfile();
+  }
+}
+
+export function savePuzzleRatings(profile: PuzzleRatingProfile): void {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+}
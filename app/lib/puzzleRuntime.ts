@@ -0,0 +1,233 @@
+// Puzzle runtime - checks the solver's moves, plays the opponent's replies and gives hints
+// A move is accepted when it matches the stored solution, delivers or forces mate, or scores
+// within a tolerance of the engine's best move (unless only mates are allowed). After an accepted alternative the stored
+// line no longer applies, so the engine plays the opponent's side, and the puzzle is only solved by mate or
+// by reaching the end of the line in a position the engine scores as well as the stored one. Engine checks are asynchronous
+// so board screens can run them in the engine worker
+import {
+  GameState,
+  GameStatus,
+  Move,
+  createStateFromFEN,
+  makeMove,
+  moveToUCI,
+  uciToMove,
+} from './chessEngine';
+import { MATE_SCORE, SearchOptions, SearchResult, searchPosition } from './chessAI';
+import { ChessPuzzle } from './puzzleData';
+
+export type PuzzleStatus = 'playing' | 'solved';
+export type PuzzleMoveVerdict = 'correct' | 'alternative' | 'incorrect';
+
+export interface PuzzleSession {
+  puzzle: ChessPuzzle;
+  state: GameState;
+  ply: number; // Index into puzzle.moves of the next move to be played
+  onSolution: boolean; // False once an alternative move has left the stored line
+  status: PuzzleStatus;
+  mistakes: number;
+  hintLevel: 0 | 1 | 2; // 0 none, 1 piece to move, 2 piece and target square
+  hintsUsed: number;
+  lastMove: Move | null;
+}
+
+export interface PuzzleMoveResult {
+  session: PuzzleSession;
+  verdict: PuzzleMoveVerdict;
+  awaitingReply: boolean; // The opponent moves next; call playOpponentReply
+}
+
+export interface PuzzleHint {
+  session: PuzzleSession;
+  from: number;
+  to: number | null; // Only revealed at the second hint level
+}
+
+// Runs an engine search, resolving null if it was cancelled
+export type PuzzleSearch = (state: GameState, options: SearchOptions) => Promise<SearchResult | null>;
+
+export interface PuzzleValidationOptions {
+  tolerance?: number; // Centipawns an alternative may fall short of the best move
+  maxDepth?: number;
+  timeLimitMs?: number;
+  search?: PuzzleSearch; // e.g. useChessEngine's worker search; defaults to searching on this thread
+  requireMate?: boolean; // Accept a move other than the stored one only when it mates or forces mate
+}
+
+const DEFAULT_TOLERANCE = 50;
+const DEFAULT_MAX_DEPTH = 6;
+const DEFAULT_TIME_LIMIT_MS = 400;
+const MATE_THRESHOLD = MATE_SCORE - 1000;
+
+export function createPuzzleSession(puzzle: ChessPuzzle): PuzzleSession {
+  return {
+    puzzle,
+    state: createStateFromFEN(puzzle.fen),
+    ply: 0,
+    onSolution: true,
+    status: 'playing',
+    mistakes: 0,
+    hintLevel: 0,
+    hintsUsed: 0,
+    lastMove: null,
+  };
+}
+
+function isGameOver(state: GameState): boolean {
+  return state.status === GameStatus.Checkmate ||
+    state.status === GameStatus.Stalemate ||
+    state.status === GameStatus.Draw;
+}
+
+const searchInline: PuzzleSearch = async (state, options) => searchPosition(state, options);
+
+async function searchBestMove(state: GameState, options: PuzzleValidationOptions): Promise<SearchResult> {
+  const search = options.search ?? searchInline;
+  const result = await search(state, {
+    maxDepth: options.maxDepth ?? DEFAULT_MAX_DEPTH,
+    timeLimitMs: options.timeLimitMs ?? DEFAULT_TIME_LIMIT_MS,
+  });
+  if (!result) {
+    throw new Error('Puzzle check was cancelled');
+  }
+  return result;
+}
+
+// The move the solver should play next: the stored one while on the solution, otherwise the engine's
+async function getSolutionMove(session: PuzzleSession, options: PuzzleValidationOptions): Promise<Move | null> {
+  if (session.onSolution) {
+    const stored = session.puzzle.moves[session.ply];
+    const move = stored ? uciToMove(stored, session.state) : null;
+    if (move) return move;
+  }
+  return (await searchBestMove(session.state, options)).bestMove;
+}
+
+// Whether a move other than the stored one is as good: mate, a forced mate, or close to the best score
+export async function isAcceptableAlternative(
+  state: GameState,
+  move: Move,
+  options: PuzzleValidationOptions = {}
+): Promise<boolean> {
+  const after = makeMove(state, move);
+  if (after.status === GameStatus.Checkmate) return true;
+  if (isGameOver(after)) return false;
+
+  const playedScore = -(await searchBestMove(after, options)).score;
+  if (playedScore > MATE_THRESHOLD) return true;
+  if (options.requireMate) return false;
+
+  const best = await searchBestMove(state, options);
+  const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+  return best.score - playedScore <= tolerance;
+}
+
+function advance(session: PuzzleSession, move: Move, onSolution: boolean): PuzzleSession {
+  const state = makeMove(session.state, move);
+  const ply = session.ply + 1;
+  const solved = state.status === GameStatus.Checkmate || (onSolution && ply >= session.puzzle.moves.length);
+
+  return {
+    ...session,
+    state,
+    ply,
+    onSolution,
+    status: solved ? 'solved' : 'playing',
+    hintLevel: 0,
+    lastMove: move,
+  };
+}
+
+// Engine score of a position for the solver, who moves at the even plies
+async function getSolverScore(state: GameState, solverToMove: boolean, options: PuzzleValidationOptions): Promise<number> {
+  if (state.status === GameStatus.Checkmate) return solverToMove ? -MATE_SCORE : MATE_SCORE;
+  if (isGameOver(state)) return 0;
+  const { score } = await searchBestMove(state, options);
+  return solverToMove ? score : -score;
+}
+
+// Off the stored line, reaching its length is not enough: the position must be mate-bound or score
+// within the tolerance of where the stored line ends. Otherwise play goes on
+async function checkAlternativeLine(session: PuzzleSession, options: PuzzleValidationOptions): Promise<PuzzleSession> {
+  const { moves } = session.puzzle;
+  if (session.status !== 'playing' || session.onSolution || session.ply < moves.length || isGameOver(session.state)) {
+    return session;
+  }
+
+  let end = createStateFromFEN(session.puzzle.fen);
+  for (const uci of moves) {
+    const move = uciToMove(uci, end);
+    if (!move) return session;
+    end = makeMove(end, move);
+  }
+
+  const target = await getSolverScore(end, moves.length % 2 === 0, options);
+  const score = await getSolverScore(session.state, session.ply % 2 === 0, options);
+  const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+  const solved = score > MATE_THRESHOLD || (target <= MATE_THRESHOLD && score >= target - tolerance);
+  return solved ? { ...session, status: 'solved' } : session;
+}
+
+// Check a move by the solver. Incorrect moves leave the position unchanged so the solver can retry
+export async function submitPuzzleMove(
+  session: PuzzleSession,
+  move: Move,
+  options: PuzzleValidationOptions = {}
+): Promise<PuzzleMoveResult> {
+  if (session.status !== 'playing') {
+    throw new Error('Puzzle is already solved');
+  }
+
+  const expected = session.onSolution ? session.puzzle.moves[session.ply] : undefined;
+  let verdict: PuzzleMoveVerdict;
+  if (expected && moveToUCI(move) === expected) {
+    verdict = 'correct';
+  } else if (await isAcceptableAlternative(session.state, move, options)) {
+    verdict = 'alternative';
+  } else {
+    verdict = 'incorrect';
+  }
+
+  if (verdict === 'incorrect') {
+    return {
+      session: { ...session, mistakes: session.mistakes + 1 },
+      verdict,
+      awaitingReply: false,
+    };
+  }
+
+  const next = await checkAlternativeLine(advance(session, move, session.onSolution && verdict === 'correct'), options);
+  return { session: next, verdict, awaitingReply: next.status === 'playing' };
+}
+
+// The opponent's reply: the stored move while on the solution, otherwise the engine's best move
+export async function getOpponentReply(session: PuzzleSession, options: PuzzleValidationOptions = {}): Promise<Move | null> {
+  if (session.status !== 'playing' || isGameOver(session.state)) return null;
+  return getSolutionMove(session, options);
+}
+
+export async function playOpponentReply(session: PuzzleSession, options: PuzzleValidationOptions = {}): Promise<PuzzleSession> {
+  const reply = await getOpponentReply(session, options);
+  if (!reply) {
+    return { ...session, status: 'solved' };
+  }
+  return checkAlternativeLine(advance(session, reply, session.onSolution), options);
+}
+
+// Reveal the next part of a hint: first the piece to move, then its target square
+export async function getPuzzleHint(session: PuzzleSession, options: PuzzleValidationOptions = {}): Promise<PuzzleHint | null> {
+  if (session.status !== 'playing') return null;
+
+  const move = await getSolutionMove(session, options);
+  if (!move) return null;
+
+  const hintLevel = session.hintLevel === 0 ? 1 : 2;
+  const next: PuzzleSession = {
+    ...session,
+    hintLevel,
+    hintsUsed: session.hintsUsed + (hintLevel > session.hintLevel ? 1 : 0),
+  };
+
+  return { session: next, from: move.from, to: hintLevel === 2 ? move.to : null };
+}
+
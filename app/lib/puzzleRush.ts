@@ -0,0 +1,210 @@
+// Puzzle Rush - timed runs of puzzles with rising ratings
+// Rush modes play against the clock and end after three mistakes; Survival has no clock
+// but climbs faster. Finished runs are kept in localStorage with a personal best per mode
+import { ChessPuzzle, getPuzzleForRating } from './puzzleData';
+
+export type RushMode = 'rush3' | 'rush5' | 'survival';
+export type RushEndReason = 'time' | 'mistakes' | 'exhausted' | 'abandoned';
+
+export interface RushModeConfig {
+  name: string;
+  durationMs: number | null; // null for untimed modes
+  maxMistakes: number;
+  startRating: number;
+  ratingStep: number; // Target rating increase per solved puzzle
+}
+
+export interface RushPuzzleResult {
+  puzzleId: number;
+  rating: number;
+  solved: boolean;
+  timeMs: number;
+  moves: string[]; // Solution line, for leaderboard submission
+}
+
+export interface RushRun {
+  mode: RushMode;
+  startedAt: number;
+  endsAt: number | null;
+  puzzleStartedAt: number;
+  score: number;
+  mistakes: number;
+  streak: number;
+  bestStreak: number;
+  results: RushPuzzleResult[];
+  endedAt: number | null;
+  endReason: RushEndReason | null;
+}
+
+export interface RushRunSummary {
+  mode: RushMode;
+  score: number;
+  mistakes: number;
+  bestStreak: number;
+  highestRating: number; // Highest rated puzzle solved
+  durationMs: number;
+  endReason: RushEndReason;
+  finishedAt: number;
+}
+
+export interface RushHistory {
+  runs: RushRunSummary[]; // Newest first
+  personalBests: { [mode in RushMode]?: number };
+}
+
+export const RUSH_MODES: { [mode in RushMode]: RushModeConfig } = {
+  rush3: { name: '3 Minute Rush', durationMs: 3 * 60 * 1000, maxMistakes: 3, startRating: 800, ratingStep: 50 },
+  rush5: { name: '5 Minute Rush', durationMs: 5 * 60 * 1000, maxMistakes: 3, startRating: 800, ratingStep: 40 },
+  survival: { name: 'Survival', durationMs: null, maxMistakes: 3, startRating: 800, ratingStep: 75 },
+};
+
+const HISTORY_KEY = 'puzzleRushHistory';
+const MAX_HISTORY = 50;
+// How far a rush puzzle may be from the target rating before the window widens
+const RUSH_RATING_WINDOW = 100;
+
+export function createRushRun(mode: RushMode, now: number = Date.now()): RushRun {
+  const { durationMs } = RUSH_MODES[mode];
+  return {
+    mode,
+    startedAt: now,
+    endsAt: durationMs === null ? null : now + durationMs,
+    puzzleStartedAt: now,
+    score: 0,
+    mistakes: 0,
+    streak: 0,
+    bestStreak: 0,
+    results: [],
+    endedAt: null,
+    endReason: null,
+  };
+}
+
+export function isRushFinished(run: RushRun): boolean {
+  return run.endReason !== null;
+}
+
+// Remaining time in milliseconds, or null in untimed modes
+export function getRushTimeLeft(run: RushRun, now: number = Date.now()): number | null {
+  if (run.endsAt === null) return null;
+  return Math.max(0, run.endsAt - (run.endedAt ?? now));
+}
+
+export function getRushTargetRating(run: RushRun): number {
+  const config = RUSH_MODES[run.mode];
+  return config.startRating + run.score * config.ratingStep;
+}
+
+export function endRushRun(run: RushRun, reason: RushEndReason, now: number = Date.now()): RushRun {
+  if (isRushFinished(run)) return run;
+  const endedAt = run.endsAt !== null ? Math.min(now, run.endsAt) : now;
+  return { ...run, endedAt, endReason: reason };
+}
+
+// End the run if its clock has run out
+export function checkRushClock(run: RushRun, now: number = Date.now()): RushRun {
+  if (!isRushFinished(run) && run.endsAt !== null && now >= run.endsAt) {
+    return endRushRun(run, 'time', now);
+  }
+  return run;
+}
+
+// Next puzzle near the run's target rating, never repeating one from this run
+export function selectRushPuzzle(
+  run: RushRun,
+  puzzles: ChessPuzzle[],
+  ratingOf: (puzzle: ChessPuzzle) => number = p => p.rating
+): ChessPuzzle | null {
+  const played = new Set(run.results.map(result => result.puzzleId));
+  const pool = puzzles.filter(puzzle => !played.has(puzzle.id));
+  if (pool.length === 0) return null;
+  return getPuzzleForRating(getRushTargetRating(run), RUSH_RATING_WINDOW, ratingOf, undefined, pool);
+}
+
+export function recordRushResult(
+  run: RushRun,
+  puzzle: ChessPuzzle,
+  solved: boolean,
+  now: number = Date.now()
+): RushRun {
+  const checked = checkRushClock(run, now);
+  if (isRushFinished(checked)) return checked;
+
+  const streak = solved ? checked.streak + 1 : 0;
+  const mistakes = checked.mistakes + (solved ? 0 : 1);
+  const next: RushRun = {
+    ...checked,
+    score: checked.score + (solved ? 1 : 0),
+    mistakes,
+    streak,
+    bestStreak: Math.max(checked.bestStreak, streak),
+    puzzleStartedAt: now,
+    results: [
+      ...checked.results,
+      {
+        puzzleId: puzzle.id,
+        rating: puzzle.rating,
+        solved,
+        timeMs: now - checked.puzzleStartedAt,
+        moves: puzzle.moves,
+      },
+    ],
+  };
+
+  return mistakes >= RUSH_MODES[run.mode].maxMistakes ? endRushRun(next, 'mistakes', now) : next;
+}
+
+export function summarizeRushRun(run: RushRun): RushRunSummary {
+  if (!run.endReason || run.endedAt === null) {
+    throw new Error('Cannot summarize a run that has not ended');
+  }
+  const solvedRatings = run.results.filter(r => r.solved).map(r => r.rating);
+  return {
+    mode: run.mode,
+    score: run.score,
+    mistakes: run.mistakes,
+    bestStreak: run.bestStreak,
+    highestRating: solvedRatings.length > 0 ? Math.max(...solvedRatings) : 0,
+    durationMs: run.endedAt - run.startedAt,
+    endReason: run.endReason,
+    finishedAt: run.endedAt,
+  };
+}
+
+export function createRushHistory(): RushHistory {
+  return { runs: [], personalBests: {} };
+}
+
+// Add a finished run to the history
+export function addRushRun(history: RushHistory, run: RushRun): { history: RushHistory; isPersonalBest: boolean } {
+  const summary = summarizeRushRun(run);
+  const previousBest = history.personalBests[summary.mode] ?? 0;
+  const isPersonalBest = summary.score > previousBest;
+
+  return {
+    history: {
+      runs: [summary, ...history.runs].slice(0, MAX_HISTORY),
+      personalBests: isPersonalBest
+        ? { ...history.personalBests, [summary.mode]: summary.score }
+        : history.personalBests,
+    },
+    isPersonalBest,
+  };
+}
+
+export function loadRushHistory(): RushHistory {
+  if (typeof window === 'undefined') return createRushHistory();
+
+  try {
+    const saved = localStorage.getItem(HISTORY_KEY);
+    return saved ? { ...createRushHistory(), ...JSON.parse(saved) } : createRushHistory();
+  } catch (error) {
+    console.error('Could not load puzzle rush history:', error);
+    return createRushHistory();
+  }
+}
+
+export function saveRushHistory(history: RushHistory): void {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(HISTORY_KEY, JSON.stringify(history));
+}
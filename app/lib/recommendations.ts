@@ -0,0 +1,293 @@
+// Learning recommender - ranks the next lessons and paths by how much they target the player's weaknesses
+// A weakness score per SkillCategory combines the skill level, puzzles still failing in the review queue
+// and mistakes from recently analyzed games. Every recommendation carries the reasons it was chosen
+import { GameAnalysis, MoveClassification } from './gameAnalysis';
+import {
+  LEARNING_PATHS,
+  LESSONS,
+  Lesson,
+  LearningPath,
+  SKILL_CATEGORY_NAMES,
+  SkillCategory,
+} from './lessonData';
+import { PUZZLE_THEMES } from './puzzleData';
+import { ReviewItem } from './reviewQueue';
+
+// Weighted mistakes from one side of an analyzed game
+export interface GameMistakeSummary {
+  gameId?: string; // Library game id, so the same game is only counted once
+  analyzedAt: number;
+  mistakes: number[]; // Indexed by SkillCategory
+}
+
+export interface RecommenderInput {
+  skillLevels: number[]; // 0-1000, indexed by SkillCategory
+  completedLessons: number[];
+  reviewItems?: ReviewItem[];
+  games?: GameMistakeSummary[];
+  now?: number;
+}
+
+export interface CategoryWeakness {
+  category: SkillCategory;
+  score: number; // 0-1, higher is weaker
+  reasons: string[];
+}
+
+export interface LessonRecommendation {
+  lesson: Lesson;
+  score: number;
+  reasons: string[];
+}
+
+export interface PathRecommendation {
+  path: LearningPath;
+  score: number;
+  reasons: string[];
+  nextLessonId: number;
+}
+
+export interface Recommendations {
+  weaknesses: CategoryWeakness[]; // Weakest first
+  lessons: LessonRecommendation[];
+  paths: PathRecommendation[];
+}
+
+const GAMES_KEY = 'recentGameMistakes';
+const MAX_STORED_GAMES = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Review items failed longer ago than this no longer count as recent
+const RECENT_FAILURE_DAYS = 30;
+const MAX_SKILL = 1000;
+const WEAK_SKILL_LEVEL = 300;
+
+// How much each signal contributes to a category's weakness score
+const SKILL_WEIGHT = 0.4;
+const PUZZLE_WEIGHT = 0.3;
+const GAME_WEIGHT = 0.3;
+// Signal strength at which the puzzle and game parts are saturated
+const PUZZLE_FAILURES_CAP = 5;
+const GAME_MISTAKES_PER_GAME_CAP = 3;
+
+const MISTAKE_WEIGHTS: { [key in MoveClassification]: number } = {
+  best: 0,
+  good: 0,
+  inaccuracy: 0.5,
+  mistake: 1,
+  blunder: 2,
+};
+
+// PUZZLE_THEMES index -> the skill the theme trains
+const THEME_CATEGORIES: SkillCategory[] = [
+  SkillCategory.Calculate, // Checkmate
+  SkillCategory.Tactics, // Tactics
+  SkillCategory.Endgame, // Endgame
+  SkillCategory.Opening, // Opening
+  SkillCategory.Middlegame, // Middlegame
+  SkillCategory.Tactics, // Trapped Piece
+  SkillCategory.Tactics, // Fork
+  SkillCategory.Tactics, // Pin
+  SkillCategory.Tactics, // Skewer
+  SkillCategory.Tactics, // Discovery
+];
+
+export function getThemeCategory(theme: number): SkillCategory {
+  return THEME_CATEGORIES[theme] ?? SkillCategory.Tactics;
+}
+
+// Sum one side's weighted mistakes per category; a move counts for both its phase and its theme
+export function summarizeGameMistakes(
+  analysis: GameAnalysis,
+  isWhite: boolean,
+  now: number = Date.now()
+): GameMistakeSummary {
+  const mistakes = SKILL_CATEGORY_NAMES.map(() => 0);
+  analysis.moves
+    .filter(move => move.isWhite === isWhite)
+    .forEach(move => {
+      const weight = MISTAKE_WEIGHTS[move.classification];
+      if (weight === 0) return;
+      mistakes[move.phase] += weight;
+      mistakes[move.theme] += weight;
+    });
+  return { analyzedAt: now, mistakes };
+}
+
+// Puzzles in the review queue that have not been passed since they were last failed
+function countPuzzleFailures(items: ReviewItem[], now: number): { [theme: number]: number } {
+  const failures: { [theme: number]: number } = {};
+  items
+    .filter(item => item.key.startsWith('puzzle:') && item.repetitions === 0)
+    .filter(item => now - (item.lastReviewedAt ?? item.dueAt) <= RECENT_FAILURE_DAYS * DAY_MS)
+    .forEach(item => {
+      failures[item.puzzle.theme] = (failures[item.puzzle.theme] ?? 0) + 1;
+    });
+  return failures;
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+export function scoreWeaknesses(input: RecommenderInput): CategoryWeakness[] {
+  const now = input.now ?? Date.now();
+  const failures = countPuzzleFailures(input.reviewItems ?? [], now);
+  const games = input.games ?? [];
+  const levels = SKILL_CATEGORY_NAMES.map((_, category) => input.skillLevels[category] ?? 0);
+  const lowestLevel = Math.min(...levels);
+  // A fresh profile has every skill at the same level, which says nothing about weaknesses
+  const skillsVary = levels.some(level => level !== lowestLevel);
+
+  const weaknesses = SKILL_CATEGORY_NAMES.map((name, category): CategoryWeakness => {
+    const reasons: string[] = [];
+    const level = Math.min(Math.max(levels[category], 0), MAX_SKILL);
+    let score = SKILL_WEIGHT * (1 - level / MAX_SKILL);
+    if (skillsVary && level === lowestLevel) {
+      reasons.push(`${name} is your weakest skill (${level}/${MAX_SKILL})`);
+    } else if (skillsVary && level < WEAK_SKILL_LEVEL) {
+      reasons.push(`${name} is still low (${level}/${MAX_SKILL})`);
+    }
+
+    const failedThemes = Object.keys(failures)
+      .map(Number)
+      .filter(theme => getThemeCategory(theme) === category)
+      .sort((a, b) => failures[b] - failures[a]);
+    const failedCount = failedThemes.reduce((total, theme) => total + failures[theme], 0);
+    if (failedCount > 0) {
+      score += PUZZLE_WEIGHT * Math.min(failedCount / PUZZLE_FAILURES_CAP, 1);
+      const themeNames = failedThemes.map(theme => (PUZZLE_THEMES[theme] ?? 'Tactics').toLowerCase());
+      reasons.push(`You recently missed ${plural(failedCount, 'puzzle')} (${themeNames.join(', ')})`);
+    }
+
+    const gameMistakes = games.reduce((total, game) => total + (game.mistakes[category] ?? 0), 0);
+    if (games.length > 0 && gameMistakes > 0) {
+      const perGame = gameMistakes / games.length;
+      score += GAME_WEIGHT * Math.min(perGame / GAME_MISTAKES_PER_GAME_CAP, 1);
+      reasons.push(
+        `${name} mistakes cost you in your last ${plural(games.length, 'analyzed game')} ` +
+        `(${perGame.toFixed(1)} per game)`
+      );
+    }
+
+    return { category, score, reasons };
+  });
+
+  return weaknesses.sort((a, b) => b.score - a.score);
+}
+
+// Difficulty (1-5) that suits a skill level
+function targetDifficulty(level: number): number {
+  return Math.min(5, 1 + Math.floor(level / 250));
+}
+
+export function recommendLessons(
+  input: RecommenderInput,
+  weaknesses: CategoryWeakness[] = scoreWeaknesses(input),
+  limit: number = 3
+): LessonRecommendation[] {
+  const completed = new Set(input.completedLessons);
+  // Lessons that continue a path the player has already started
+  const pathNext = new Map<number, LearningPath>();
+  LEARNING_PATHS.forEach(path => {
+    const started = path.lessonIds.some(id => completed.has(id));
+    const next = path.lessonIds.find(id => !completed.has(id));
+    if (started && next !== undefined && !pathNext.has(next)) pathNext.set(next, path);
+  });
+
+  return LESSONS
+    .filter(lesson => !completed.has(lesson.id))
+    .map(lesson => {
+      const weakness = weaknesses.find(w => w.category === lesson.category)!;
+      const level = input.skillLevels[lesson.category] ?? 0;
+      const difficultyGap = Math.abs(lesson.difficulty - targetDifficulty(level));
+      const reasons = [...weakness.reasons];
+      let score = weakness.score - 0.1 * difficultyGap;
+
+      const path = pathNext.get(lesson.id);
+      if (path) {
+        score += 0.1;
+        reasons.push(`Next lesson in ${path.title}`);
+      }
+      if (reasons.length === 0) {
+        reasons.push(difficultyGap === 0
+          ? `Matches your ${SKILL_CATEGORY_NAMES[lesson.category]} level`
+          : `Builds your ${SKILL_CATEGORY_NAMES[lesson.category]} skill`);
+      }
+      return { lesson, score, reasons };
+    })
+    .sort((a, b) => b.score - a.score || a.lesson.difficulty - b.lesson.difficulty)
+    .slice(0, limit);
+}
+
+export function recommendPaths(
+  input: RecommenderInput,
+  weaknesses: CategoryWeakness[] = scoreWeaknesses(input),
+  limit: number = 2
+): PathRecommendation[] {
+  const completed = new Set(input.completedLessons);
+
+  return LEARNING_PATHS
+    .filter(path => path.lessonIds.some(id => !completed.has(id)))
+    .map(path => {
+      const focus = weaknesses.filter(w => path.focusAreas.includes(w.category));
+      const averageLevel = path.focusAreas
+        .reduce((total, category) => total + (input.skillLevels[category] ?? 0), 0) / path.focusAreas.length;
+      const doneCount = path.lessonIds.filter(id => completed.has(id)).length;
+      const reasons = focus.flatMap(w => w.reasons);
+      let score = focus.reduce((total, w) => total + w.score, 0) / Math.max(focus.length, 1)
+        - 0.1 * Math.abs(path.difficulty - targetDifficulty(averageLevel));
+
+      if (doneCount > 0) {
+        score += 0.1;
+        reasons.push(`You are ${Math.round((doneCount / path.lessonIds.length) * 100)}% through it`);
+      }
+      if (reasons.length === 0) {
+        reasons.push(`Covers ${path.focusAreas.map(category => SKILL_CATEGORY_NAMES[category]).join(', ')}`);
+      }
+      return {
+        path,
+        score,
+        reasons,
+        nextLessonId: path.lessonIds.find(id => !completed.has(id))!,
+      };
+    })
+    .sort((a, b) => b.score - a.score || a.path.difficulty - b.path.difficulty)
+    .slice(0, limit);
+}
+
+export function getRecommendations(input: RecommenderInput): Recommendations {
+  const weaknesses = scoreWeaknesses(input);
+  return {
+    weaknesses,
+    lessons: recommendLessons(input, weaknesses),
+    paths: recommendPaths(input, weaknesses),
+  };
+}
+
+export function loadGameMistakes(): GameMistakeSummary[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const saved = localStorage.getItem(GAMES_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (error) {
+    console.error('Could not load game mistakes:', error);
+    return [];
+  }
+}
+
+export function hasGameMistakes(gameId: string): boolean {
+  return loadGameMistakes().some(game => game.gameId === gameId);
+}
+
+// Keep the mistakes of the most recent analyzed games for the recommender. Analyzing a game
+// again replaces its earlier entry instead of counting its mistakes twice
+export function recordGameMistakes(analysis: GameAnalysis, isWhite: boolean, gameId?: string): GameMistakeSummary[] {
+  const summary = { ...summarizeGameMistakes(analysis, isWhite), ...(gameId ? { gameId } : {}) };
+  const others = loadGameMistakes().filter(game => !gameId || game.gameId !== gameId);
+  const games = [summary, ...others].slice(0, MAX_STORED_GAMES);
+  if (typeof window !== 'undefined') {
+    localStorage.setItem(GAMES_KEY, JSON.stringify(games));
+  }
+  return games;
+}
@@ -0,0 +1,254 @@
+// Spaced-repetition review queue for missed puzzles and lesson positions
+// Scheduling follows SuperMemo SM-2: each review is graded 0-5, grades below 3 send the
+// item back to the start, and passing grades stretch the interval by the item's ease factor.
+// The queue keeps a copy of each puzzle so imported puzzles can be reviewed without their pack
+import { createInitialState, makeMove, moveToUCI, stateToFEN } from './chessEngine';
+import { parsePGN } from './chessPGN';
+import { Lesson, LESSONS, SkillCategory } from './lessonData';
+import { ChessPuzzle } from './puzzleData';
+
+export type ReviewQuality = 0 | 1 | 2 | 3 | 4 | 5;
+
+export interface ReviewItem {
+  key: string; // 'puzzle:<id>' or 'lesson:<lessonId>:<example>'
+  puzzle: ChessPuzzle;
+  easeFactor: number;
+  interval: number; // Days until the next review after a pass
+  repetitions: number; // Passing reviews in a row
+  lapses: number; // Times the item was failed
+  dueAt: number;
+  lastReviewedAt: number | null;
+}
+
+export interface ReviewQueue {
+  items: { [key: string]: ReviewItem };
+  updatedAt: number;
+}
+
+export interface PuzzleOutcome {
+  solved: boolean;
+  mistakes: number;
+  hintsUsed: number;
+  timeMs: number;
+}
+
+const QUEUE_KEY = 'reviewQueue';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+const PASSING_QUALITY = 3;
+// Clean solves under this time earn a perfect grade
+const FAST_SOLVE_MS = 30 * 1000;
+// Outcomes graded below this are queued for review
+export const REVIEW_QUEUE_BELOW: ReviewQuality = 4;
+
+// Dubious, mistake and blunder annotations mark example moves that should not be drilled
+const BAD_MOVE_NAGS = [2, 4, 6];
+// Lesson positions use negative ids so they never collide with puzzle ids
+const LESSON_ID_BASE = 1000;
+
+export function createReviewQueue(): ReviewQueue {
+  return { items: {}, updatedAt: 0 };
+}
+
+export function puzzleReviewKey(puzzle: ChessPuzzle): string {
+  return `puzzle:${puzzle.id}`;
+}
+
+export function lessonReviewKey(lessonId: number, example: number): string {
+  return `lesson:${lessonId}:${example}`;
+}
+
+// Lesson positions drill one remembered move, so only that move or a mate should pass
+export function isLessonReviewItem(item: ReviewItem): boolean {
+  return item.key.startsWith('lesson:');
+}
+
+// Grade a puzzle attempt on the SM-2 scale
+export function getReviewQuality(outcome: PuzzleOutcome): ReviewQuality {
+  if (!outcome.solved) return outcome.mistakes > 0 || outcome.hintsUsed > 0 ? 1 : 0;
+  if (outcome.hintsUsed > 0) return 2;
+  if (outcome.mistakes > 0) return 3;
+  return outcome.timeMs <= FAST_SOLVE_MS ? 5 : 4;
+}
+
+// Apply one SM-2 review to an item
+export function scheduleReview(item: ReviewItem, quality: ReviewQuality, now: number = Date.now()): ReviewItem {
+  const easeFactor = Math.max(
+    MIN_EASE,
+    item.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  if (quality < PASSING_QUALITY) {
+    return {
+      ...item,
+      easeFactor,
+      interval: 1,
+      repetitions: 0,
+      lapses: item.lapses + 1,
+      dueAt: now + DAY_MS,
+      lastReviewedAt: now,
+    };
+  }
+
+  const repetitions = item.repetitions + 1;
+  const interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(item.interval * easeFactor);
+  return {
+    ...item,
+    easeFactor,
+    interval,
+    repetitions,
+    dueAt: now + interval * DAY_MS,
+    lastReviewedAt: now,
+  };
+}
+
+function createReviewItem(key: string, puzzle: ChessPuzzle, dueAt: number): ReviewItem {
+  return {
+    key,
+    puzzle,
+    easeFactor: INITIAL_EASE,
+    interval: 0,
+    repetitions: 0,
+    lapses: 0,
+    dueAt,
+    lastReviewedAt: null,
+  };
+}
+
+function withItem(queue: ReviewQueue, item: ReviewItem, now: number): ReviewQueue {
+  return { items: { ...queue.items, [item.key]: item }, updatedAt: now };
+}
+
+// Grade a queued item after reviewing it
+export function recordReview(
+  queue: ReviewQueue,
+  key: string,
+  quality: ReviewQuality,
+  now: number = Date.now()
+): ReviewQueue {
+  const item = queue.items[key];
+  if (!item) throw new Error(`No review item ${key}`);
+  return withItem(queue, scheduleReview(item, quality, now), now);
+}
+
+// Record a puzzle played outside review: missed puzzles join the queue and
+// puzzles already in it are rescheduled by the new result
+export function recordPuzzleOutcome(
+  queue: ReviewQueue,
+  puzzle: ChessPuzzle,
+  outcome: PuzzleOutcome,
+  now: number = Date.now()
+): ReviewQueue {
+  const key = puzzleReviewKey(puzzle);
+  const quality = getReviewQuality(outcome);
+  const existing = queue.items[key];
+
+  if (existing) return withItem(queue, scheduleReview(existing, quality, now), now);
+  if (quality >= REVIEW_QUEUE_BELOW) return queue;
+  return withItem(queue, scheduleReview(createReviewItem(key, puzzle, now), quality, now), now);
+}
+
+// Key position of a lesson example such as "1.e4 e5 2.Nf3 Nc6 - Good development":
+// the position before the last move, with that move as the solution.
+// Prose-only examples and examples ending in an annotated bad move have none
+export function lessonExamplePuzzle(lesson: Lesson, example: number): ChessPuzzle | null {
+  const text = lesson.content.examples[example];
+  if (text === undefined) return null;
+
+  const [movetext, ...rest] = text.split(' - ');
+  const description = rest.join(' - ').trim();
+  if (!/^\d+\./.test(movetext.trim())) return null;
+
+  let moves;
+  try {
+    const [game] = parsePGN(movetext);
+    moves = game?.moves;
+  } catch {
+    return null;
+  }
+  if (!moves || moves.length === 0) return null;
+
+  const last = moves[moves.length - 1];
+  if (last.nags?.some(nag => BAD_MOVE_NAGS.includes(nag))) return null;
+
+  let state = createInitialState();
+  moves.slice(0, -1).forEach(({ move }) => {
+    state = makeMove(state, move);
+  });
+
+  const side = state.isWhiteTurn ? 'White' : 'Black';
+  return {
+    id: -(lesson.id * LESSON_ID_BASE + example + 1),
+    fen: stateToFEN(state),
+    moves: [moveToUCI(last.move)],
+    theme: lesson.category === SkillCategory.Opening ? 3 : 1,
+    difficulty: Math.max(0, Math.min(4, lesson.difficulty - 1)),
+    rating: 600 + lesson.difficulty * 200,
+    description: `${lesson.title}: ${description || 'find the key move'}. ${side} to move.`,
+    source: `lesson:${lesson.id}:${example}`,
+  };
+}
+
+// Queue the key positions of completed lessons that are not queued yet; they are due immediately
+export function addLessonReviews(
+  queue: ReviewQueue,
+  lessonIds: number[],
+  lessons: Lesson[] = LESSONS,
+  now: number = Date.now()
+): ReviewQueue {
+  let next = queue;
+  lessons
+    .filter(lesson => lessonIds.includes(lesson.id))
+    .forEach(lesson => {
+      lesson.content.examples.forEach((_, example) => {
+        const key = lessonReviewKey(lesson.id, example);
+        if (next.items[key]) return;
+        const puzzle = lessonExamplePuzzle(lesson, example);
+        if (puzzle) next = withItem(next, createReviewItem(key, puzzle, now), now);
+      });
+    });
+  return next;
+}
+
+// Due items, most overdue first
+export function getDueItems(queue: ReviewQueue, now: number = Date.now()): ReviewItem[] {
+  return Object.values(queue.items)
+    .filter(item => item.dueAt <= now)
+    .sort((a, b) => a.dueAt - b.dueAt);
+}
+
+export function getNextDueAt(queue: ReviewQueue): number | null {
+  const times = Object.values(queue.items).map(item => item.dueAt);
+  return times.length > 0 ? Math.min(...times) : null;
+}
+
+// Lessons completed on the learning dashboard, whose key positions join the queue
+export function loadCompletedLessonIds(): number[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const saved = localStorage.getItem('learningProgress');
+    return saved ? JSON.parse(saved).completedLessons ?? [] : [];
+  } catch (error) {
+    console.error('Could not load learning progress:', error);
+    return [];
+  }
+}
+
+export function loadReviewQueue(): ReviewQueue {
+  if (typeof window === 'undefined') return createReviewQueue();
+
+  try {
+    const saved = localStorage.getItem(QUEUE_KEY);
+    return saved ? { ...createReviewQueue(), ...JSON.parse(saved) } : createReviewQueue();
+  } catch (error) {
+    console.error('Could not load review queue:', error);
+    return createReviewQueue();
+  }
+}
+
+export function saveReviewQueue(queue: ReviewQueue): void {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+}
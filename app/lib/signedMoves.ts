@@ -0,0 +1,340 @@
+// Signed moves - off-chain play where each move is an EIP-712 Move message signed by the player making it
+// Every Move commits to the hash of the one before it, the same chain Chess.sol keeps in transcriptHashes,
+// so a transcript can be checked at any time: each signature must recover to the player to move and each
+// move must be legal in the position the earlier moves reach. Only a result signed by both players, or
+// the signed moves themselves in a dispute, are ever submitted to the contract
+import { Address, Hex, TypedDataDomain, hashStruct, isAddressEqual, recoverTypedDataAddress, zeroHash } from 'viem';
+import { GameState, GameStatus, Move, makeMove, squareToAlgebraic } from './chessEngine';
+import { findChainMove } from './gameSync';
+
+export const SIGNED_GAME_TYPES = {
+  Move: [
+    { name: 'gameId', type: 'uint256' },
+    { name: 'ply', type: 'uint256' },
+    { name: 'fromPos', type: 'uint8' },
+    { name: 'toPos', type: 'uint8' },
+    { name: 'prevHash', type: 'bytes32' },
+  ],
+  Result: [
+    { name: 'gameId', type: 'uint256' },
+    { name: 'result', type: 'uint8' },
+    { name: 'moveCount', type: 'uint256' },
+    { name: 'transcriptHash', type: 'bytes32' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+} as const;
+
+// Seconds a result offer stays open. Play going on after an offer declines it, and the deadline
+// stops the offer from being accepted and settled later
+export const RESULT_OFFER_TTL = 10 * 60;
+
+export type SignedResult = 'white' | 'black' | 'draw';
+
+// Chess.sol GameState values for each result
+export const SIGNED_RESULT_STATES: { [result in SignedResult]: number } = {
+  white: 1,
+  black: 2,
+  draw: 3,
+};
+
+export interface SignedMove {
+  ply: number; // Counts moves played on-chain too, so white signs even plies
+  from: number;
+  to: number;
+  prevHash: Hex;
+  signature: Hex;
+}
+
+export interface SignedTranscript {
+  gameId: number;
+  chainId: number;
+  verifyingContract: Address;
+  white: Address;
+  black: Address;
+  startPly: number; // Chess.sol moveCount when signed play began
+  startHash: Hex; // Chess.sol transcriptHashes entry at that point
+  moves: SignedMove[];
+}
+
+// A result being agreed; it can be settled once both players have signed it
+export interface ResultOffer {
+  result: SignedResult;
+  moveCount: number;
+  transcriptHash: Hex;
+  deadline: number; // Unix time in seconds
+  signatures: { white?: Hex; black?: Hex };
+}
+
+export type TranscriptCheck =
+  | { valid: true; state: GameState; lastMove: Move | null }
+  | { valid: false; error: string; ply: number };
+
+export function getSignedGameDomain(transcript: SignedTranscript): TypedDataDomain {
+  return {
+    name: 'BaseChess',
+    version: '1',
+    chainId: transcript.chainId,
+    verifyingContract: transcript.verifyingContract,
+  };
+}
+
+export function createSignedTranscript(params: Omit<SignedTranscript, 'moves'>): SignedTranscript {
+  return { ...params, moves: [] };
+}
+
+export function getNextPly(transcript: SignedTranscript): number {
+  return transcript.startPly + transcript.moves.length;
+}
+
+export function getPlayerToSign(transcript: SignedTranscript, ply: number): Address {
+  return ply % 2 === 0 ? transcript.white : transcript.black;
+}
+
+export function getMoveMessage(transcript: SignedTranscript, move: Omit<SignedMove, 'signature'>) {
+  return {
+    gameId: BigInt(transcript.gameId),
+    ply: BigInt(move.ply),
+    fromPos: move.from,
+    toPos: move.to,
+    prevHash: move.prevHash,
+  };
+}
+
+export function hashSignedMove(transcript: SignedTranscript, move: Omit<SignedMove, 'signature'>): Hex {
+  return hashStruct({ data: getMoveMessage(transcript, move), primaryType: 'Move', types: SIGNED_GAME_TYPES });
+}
+
+// Hash of each move played on-chain, by ply, as MoveMade reports it. Chess.sol only stores the last
+export function hashChainMoves(gameId: number, moves: { from: number; to: number }[]): Hex[] {
+  const hashes: Hex[] = [];
+  moves.forEach((move, ply) => {
+    const message = {
+      gameId: BigInt(gameId),
+      ply: BigInt(ply),
+      fromPos: move.from,
+      toPos: move.to,
+      prevHash: ply === 0 ? zeroHash : hashes[ply - 1],
+    };
+    hashes.push(hashStruct({ data: message, primaryType: 'Move', types: SIGNED_GAME_TYPES }));
+  });
+  return hashes;
+}
+
+// Hash of the transcript's last move, which the next move and any result commit to
+export function getTranscriptHash(transcript: SignedTranscript): Hex {
+  const last = transcript.moves[transcript.moves.length - 1];
+  return last ? hashSignedMove(transcript, last) : transcript.startHash;
+}
+
+// The unsigned move that would come next in the transcript
+export function prepareSignedMove(transcript: SignedTranscript, from: number, to: number): Omit<SignedMove, 'signature'> {
+  return { ply: getNextPly(transcript), from, to, prevHash: getTranscriptHash(transcript) };
+}
+
+export function recoverMoveSigner(transcript: SignedTranscript, move: SignedMove): Promise<Address> {
+  return recoverTypedDataAddress({
+    domain: getSignedGameDomain(transcript),
+    types: SIGNED_GAME_TYPES,
+    primaryType: 'Move',
+    message: getMoveMessage(transcript, move),
+    signature: move.signature,
+  });
+}
+
+function isGameOver(state: GameState): boolean {
+  return state.status === GameStatus.Checkmate || state.status === GameStatus.Stalemate || state.status === GameStatus.Draw;
+}
+
+// Check a signed move against the transcript and the position it reaches, then add it
+export async function appendSignedMove(
+  transcript: SignedTranscript,
+  state: GameState,
+  signed: SignedMove
+): Promise<{ transcript: SignedTranscript; state: GameState; move: Move }> {
+  const ply = getNextPly(transcript);
+  const label = `${squareToAlgebraic(signed.from)}${squareToAlgebraic(signed.to)}`;
+  if (signed.ply !== ply) {
+    throw new Error(`Signed move ${label} is for ply ${signed.ply}, expected ${ply}`);
+  }
+  if (signed.prevHash !== getTranscriptHash(transcript)) {
+    throw new Error(`Signed move ${label} does not follow the transcript`);
+  }
+  const signer = await recoverMoveSigner(transcript, signed);
+  if (!isAddressEqual(signer, getPlayerToSign(transcript, ply))) {
+    throw new Error(`Signed move ${label} was not signed by the player to move`);
+  }
+  if (isGameOver(state)) {
+    throw new Error(`Signed move ${label} was played after the game ended`);
+  }
+  // Chess.sol always promotes to a queen, so signed moves do the same
+  const move = findChainMove(state, signed.from, signed.to);
+  if (!move) {
+    throw new Error(`Signed move ${label} is not legal in this position`);
+  }
+  return {
+    transcript: { ...transcript, moves: [...transcript.moves, signed] },
+    state: makeMove(state, move),
+    move,
+  };
+}
+
+// Replay a whole transcript from the position signed play started in
+export async function verifyTranscript(transcript: SignedTranscript, startState: GameState): Promise<TranscriptCheck> {
+  if (startState.moveHistory.length !== transcript.startPly) {
+    return { valid: false, error: 'Start position does not match the transcript', ply: transcript.startPly };
+  }
+  let replayed = createSignedTranscript(transcript);
+  let state = startState;
+  let lastMove: Move | null = null;
+  for (const signed of transcript.moves) {
+    try {
+      const next = await appendSignedMove(replayed, state, signed);
+      replayed = next.transcript;
+      state = next.state;
+      lastMove = next.move;
+    } catch (error) {
+      return { valid: false, error: error instanceof Error ? error.message : 'Invalid move', ply: signed.ply };
+    }
+  }
+  return { valid: true, state, lastMove };
+}
+
+// True if the other transcript continues this one, rather than replacing any of its moves
+export function extendsTranscript(transcript: SignedTranscript, other: SignedTranscript): boolean {
+  if (
+    other.gameId !== transcript.gameId ||
+    other.chainId !== transcript.chainId ||
+    !isAddressEqual(other.verifyingContract, transcript.verifyingContract) ||
+    other.startPly !== transcript.startPly ||
+    other.startHash !== transcript.startHash ||
+    other.moves.length < transcript.moves.length
+  ) {
+    return false;
+  }
+  return transcript.moves.every((move, index) => other.moves[index].signature === move.signature);
+}
+
+// How a transcript lines up with the moves the contract has
+export type RebaseResult =
+  | { status: 'rebased'; transcript: SignedTranscript }
+  | { status: 'behind' } // The chain has moves past the end of the transcript
+  | { status: 'diverged' }; // The chain played other moves than the signed ones
+
+// Drop moves the contract already has, e.g. after a dispute. chainHashes are the on-chain moves'
+// hashes by ply; the last must be the signed move's, or the chain played something else
+export function rebaseTranscript(transcript: SignedTranscript, chainHashes: Hex[]): RebaseResult {
+  const moveCount = chainHashes.length;
+  const played = moveCount - transcript.startPly;
+  if (played <= 0) return { status: 'rebased', transcript };
+  if (played > transcript.moves.length) return { status: 'behind' };
+  const startHash = hashSignedMove(transcript, transcript.moves[played - 1]);
+  if (chainHashes[moveCount - 1] !== startHash) return { status: 'diverged' };
+  return { status: 'rebased', transcript: { ...transcript, startPly: moveCount, startHash, moves: transcript.moves.slice(played) } };
+}
+
+// First signed move the contract has a different move for, or null if the chain agrees with the
+// transcript. The hash chains never meet again once they differ, so this is a binary search
+export function findConflictingMove(transcript: SignedTranscript, chainHashes: Hex[]): SignedMove | null {
+  const played = transcript.moves.slice(0, Math.max(0, chainHashes.length - transcript.startPly));
+  let low = 0;
+  let high = played.length;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (chainHashes[played[mid].ply] === hashSignedMove(transcript, played[mid])) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return played[low] ?? null;
+}
+
+// Result decided on the board, if the game is over
+export function getBoardResult(state: GameState): SignedResult | null {
+  if (state.status === GameStatus.Checkmate) return state.isWhiteTurn ? 'black' : 'white';
+  if (state.status === GameStatus.Stalemate || state.status === GameStatus.Draw) return 'draw';
+  return null;
+}
+
+export function createResultOffer(transcript: SignedTranscript, result: SignedResult, now = Date.now()): ResultOffer {
+  return {
+    result,
+    moveCount: getNextPly(transcript),
+    transcriptHash: getTranscriptHash(transcript),
+    deadline: Math.floor(now / 1000) + RESULT_OFFER_TTL,
+    signatures: {},
+  };
+}
+
+export function isOfferExpired(offer: ResultOffer, now = Date.now()): boolean {
+  return Math.floor(now / 1000) > offer.deadline;
+}
+
+export function getResultMessage(transcript: SignedTranscript, offer: ResultOffer) {
+  return {
+    gameId: BigInt(transcript.gameId),
+    result: SIGNED_RESULT_STATES[offer.result],
+    moveCount: BigInt(offer.moveCount),
+    transcriptHash: offer.transcriptHash,
+    deadline: BigInt(offer.deadline),
+  };
+}
+
+// Add a player's signature to a result offer, checking who signed it
+export async function addResultSignature(transcript: SignedTranscript, offer: ResultOffer, signature: Hex): Promise<ResultOffer> {
+  const signer = await recoverTypedDataAddress({
+    domain: getSignedGameDomain(transcript),
+    types: SIGNED_GAME_TYPES,
+    primaryType: 'Result',
+    message: getResultMessage(transcript, offer),
+    signature,
+  });
+  if (isAddressEqual(signer, transcript.white)) return { ...offer, signatures: { ...offer.signatures, white: signature } };
+  if (isAddressEqual(signer, transcript.black)) return { ...offer, signatures: { ...offer.signatures, black: signature } };
+  throw new Error('Result was not signed by a player in this game');
+}
+
+// Re-check every signature on an offer received from the relay
+export async function verifyResultOffer(
+  transcript: SignedTranscript,
+  offer: ResultOffer,
+  now = Date.now()
+): Promise<ResultOffer> {
+  if (offer.moveCount !== getNextPly(transcript) || offer.transcriptHash !== getTranscriptHash(transcript)) {
+    throw new Error('Result offer does not match the transcript');
+  }
+  if (isOfferExpired(offer, now)) {
+    throw new Error('Result offer has expired');
+  }
+  let verified: ResultOffer = { ...offer, signatures: {} };
+  for (const signature of [offer.signatures.white, offer.signatures.black]) {
+    if (signature) verified = await addResultSignature(transcript, verified, signature);
+  }
+  return verified;
+}
+
+export function isResultSigned(offer: ResultOffer): boolean {
+  return !!offer.signatures.white && !!offer.signatures.black;
+}
+
+// A result both players signed that can still be settled, so signed play is over
+export function isResultFinal(offer: ResultOffer | null, now = Date.now()): boolean {
+  return !!offer && isResultSigned(offer) && !isOfferExpired(offer, now);
+}
+
+// Moves the contract does not have yet, in submitSignedMoves form
+export function getUnsubmittedMoves(transcript: SignedTranscript, moveCount: number) {
+  return transcript.moves
+    .filter(move => move.ply >= moveCount)
+    .map(move => ({ fromPos: move.from, toPos: move.to, signature: move.signature }));
+}
+
+// The on-chain moves from a ply on and the hash before them, which proveConflictingMove checks
+// against the contract's transcriptHashes entry
+export function getPlayedMoves(gameId: number, moves: { from: number; to: number }[], ply: number) {
+  const hashes = hashChainMoves(gameId, moves);
+  return {
+    prevHash: ply === 0 ? zeroHash : hashes[ply - 1],
+    playedMoves: moves.slice(ply).map(move => ({ fromPos: move.from, toPos: move.to })),
+  };
+}
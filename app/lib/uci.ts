@@ -0,0 +1,185 @@
+// UCI protocol helpers for the built-in engine
+// See scripts/uci.ts for the stdin/stdout front-end used by GUIs and tournament managers
+import {
+  ChessVariant,
+  GameState,
+  Move,
+  STANDARD_CHESS960_INDEX,
+  createInitialState,
+  createStateFromFEN,
+  makeMove,
+  moveToUCI,
+  uciToMove,
+} from './chessEngine';
+import { MATE_SCORE, SearchOptions, SearchProgress } from './chessAI';
+import { VARIANTS, getVariantFromUCI } from './chessVariants';
+
+export const ENGINE_NAME = 'Base Chess';
+export const ENGINE_AUTHOR = 'Base Chess contributors';
+
+// Time kept back per move for communication with the GUI
+const MOVE_OVERHEAD_MS = 50;
+// Assumed number of moves left when the GUI does not send movestogo
+const DEFAULT_MOVES_TO_GO = 30;
+
+export interface UCIGoParams {
+  wtime?: number;
+  btime?: number;
+  winc?: number;
+  binc?: number;
+  movestogo?: number;
+  movetime?: number;
+  depth?: number;
+  infinite?: boolean;
+}
+
+// Options the engine advertises after "uci". UCI_Chess960 makes castling moves king-takes-rook (e1h1);
+// UCI_Variant picks the other rule sets
+export const UCI_OPTIONS = [
+  'option name UCI_Chess960 type check default false',
+  `option name UCI_Variant type combo default chess ${VARIANTS.filter(v => v.id !== 'chess960').map(v => `var ${v.uciName}`).join(' ')}`,
+];
+
+export interface UCIVariantOptions {
+  chess960: boolean;
+  variant: ChessVariant; // From UCI_Variant
+}
+
+export const DEFAULT_UCI_VARIANT_OPTIONS: UCIVariantOptions = { chess960: false, variant: 'standard' };
+
+// Variant the next position command is played in
+export function getUCIVariant(options: UCIVariantOptions): ChessVariant {
+  return options.chess960 ? 'chess960' : options.variant;
+}
+
+// setoption name <id> [value <x>]; unknown options leave the settings unchanged
+export function applySetOption(options: UCIVariantOptions, args: string[]): UCIVariantOptions {
+  const valueIndex = args.indexOf('value');
+  const name = args.slice(1, valueIndex === -1 ? undefined : valueIndex).join(' ').toLowerCase();
+  const value = valueIndex === -1 ? '' : args.slice(valueIndex + 1).join(' ');
+
+  if (name === 'uci_chess960') {
+    return { ...options, chess960: value.toLowerCase() === 'true' };
+  }
+  if (name === 'uci_variant') {
+    const variant = getVariantFromUCI(value);
+    if (variant) return { ...options, variant };
+  }
+  return options;
+}
+
+// Split a command line into tokens, ignoring extra whitespace
+export function tokenizeUCI(line: string): string[] {
+  return line.trim().split(/\s+/).filter(token => token.length > 0);
+}
+
+// Apply a list of moves in UCI notation (e2e4, e7e8q...) to a state
+export function applyUCIMoves(state: GameState, moves: string[]): GameState {
+  let current = state;
+  for (const uci of moves) {
+    const move = uciToMove(uci, current);
+    if (!move) {
+      throw new Error(`Illegal move in position command: ${uci}`);
+    }
+    current = makeMove(current, move);
+  }
+  return current;
+}
+
+// position [startpos | fen <fen>] [moves <move1> ... <movei>]
+// Chess960 has no single start position, so startpos is the standard one (position 518)
+export function parsePositionCommand(args: string[], variant: ChessVariant = 'standard'): GameState {
+  const movesIndex = args.indexOf('moves');
+  const setup = movesIndex === -1 ? args : args.slice(0, movesIndex);
+  const moves = movesIndex === -1 ? [] : args.slice(movesIndex + 1);
+
+  let state: GameState;
+  if (setup[0] === 'startpos') {
+    state = createInitialState(variant, STANDARD_CHESS960_INDEX);
+  } else if (setup[0] === 'fen' && setup.length > 1) {
+    state = createStateFromFEN(setup.slice(1).join(' '), variant);
+  } else {
+    throw new Error(`Invalid position command: ${args.join(' ')}`);
+  }
+
+  return applyUCIMoves(state, moves);
+}
+
+// go [wtime <x>] [btime <x>] [winc <x>] [binc <x>] [movestogo <x>] [movetime <x>] [depth <x>] [infinite]
+export function parseGoCommand(args: string[]): UCIGoParams {
+  const params: UCIGoParams = {};
+  const numericKeys = ['wtime', 'btime', 'winc', 'binc', 'movestogo', 'movetime', 'depth'] as const;
+
+  for (let i = 0; i < args.length; i++) {
+    const token = args[i];
+    if (token === 'infinite') {
+      params.infinite = true;
+      continue;
+    }
+    const key = numericKeys.find(k => k === token);
+    if (key && i + 1 < args.length) {
+      const value = parseInt(args[i + 1]);
+      if (!isNaN(value)) params[key] = value;
+      i++;
+    }
+  }
+
+  // A bare "go" searches until stopped
+  if (
+    params.wtime === undefined && params.btime === undefined &&
+    params.movetime === undefined && params.depth === undefined
+  ) {
+    params.infinite = true;
+  }
+
+  return params;
+}
+
+// Turn go parameters into a search budget for the side to move
+export function getGoSearchOptions(params: UCIGoParams, isWhiteTurn: boolean): SearchOptions {
+  const maxDepth = params.depth;
+
+  if (params.infinite) {
+    return { timeLimitMs: Infinity, maxDepth };
+  }
+
+  if (params.movetime !== undefined) {
+    return { timeLimitMs: Math.max(1, params.movetime - MOVE_OVERHEAD_MS), maxDepth };
+  }
+
+  const time = isWhiteTurn ? params.wtime : params.btime;
+  if (time === undefined) {
+    return { timeLimitMs: Infinity, maxDepth }; // e.g. "go depth 8"
+  }
+
+  const increment = (isWhiteTurn ? params.winc : params.binc) ?? 0;
+  const movesToGo = Math.max(1, params.movestogo ?? DEFAULT_MOVES_TO_GO);
+  const budget = time / movesToGo + increment * 0.75;
+  const available = time - MOVE_OVERHEAD_MS;
+
+  return { timeLimitMs: Math.max(1, Math.min(budget, available)), maxDepth };
+}
+
+// "cp <x>" or "mate <y>" (moves, negative when the engine is getting mated)
+export function formatUCIScore(score: number): string {
+  if (Math.abs(score) > MATE_SCORE - 1000) {
+    const plies = MATE_SCORE - Math.abs(score);
+    const moves = Math.ceil(plies / 2);
+    return `mate ${score > 0 ? moves : -moves}`;
+  }
+  return `cp ${score}`;
+}
+
+export function formatInfoLine(progress: SearchProgress): string {
+  const nps = progress.elapsedMs > 0
+    ? Math.round((progress.nodes / progress.elapsedMs) * 1000)
+    : progress.nodes * 1000;
+  const pv = progress.pv.map(moveToUCI).join(' ');
+  return `info depth ${progress.depth} score ${formatUCIScore(progress.score)} ` +
+    `nodes ${progress.nodes} nps ${nps} time ${progress.elapsedMs} pv ${pv}`;
+}
+
+// UCI expects "0000" when there is no move to play
+export function formatBestMove(move: Move | null): string {
+  return `bestmove ${move ? moveToUCI(move) : '0000'}`;
+}
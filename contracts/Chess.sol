@@ -32,16 +32,47 @@ contract Chess {
         uint256 moveCount;
     }
     
+    // A move signed off-chain by the player making it, submitted in a dispute
+    struct SignedMove {
+        uint8 fromPos;
+        uint8 toPos;
+        bytes signature;
+    }
+    
+    // A move already played on-chain, given back in a fraud proof to recompute the game's hash chain
+    struct PlayedMove {
+        uint8 fromPos;
+        uint8 toPos;
+    }
+    
     mapping(uint256 => Game) public games;
     mapping(address => uint256[]) public playerGames;
     uint256 public gameCounter;
     
     uint256 public constant MOVE_TIMEOUT = 24 hours;
+    // A timeout claim only pays out after this window, in which the player to move can still answer it
+    // with a move, or with signed moves that show the game went on off-chain
+    uint256 public constant TIMEOUT_CHALLENGE_PERIOD = 12 hours;
+    
+    // EIP-712 types for off-chain play. Each Move commits to the hash of the previous one, so the
+    // moves of a game form a hash chain whether they were played on-chain or signed off-chain
+    bytes32 private constant DOMAIN_TYPEHASH = keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+    bytes32 public constant MOVE_TYPEHASH = keccak256("Move(uint256 gameId,uint256 ply,uint8 fromPos,uint8 toPos,bytes32 prevHash)");
+    bytes32 public constant RESULT_TYPEHASH = keccak256("Result(uint256 gameId,uint8 result,uint256 moveCount,bytes32 transcriptHash,uint256 deadline)");
+    
+    // Hash of the latest move of each game (zero before the first move), or the settled transcript
+    mapping(uint256 => bytes32) public transcriptHashes;
+    
+    // When each game's timeout claim was opened; a claim older than the game's last move is void
+    mapping(uint256 => uint256) public timeoutClaims;
     
     event GameCreated(uint256 indexed gameId, address indexed whitePlayer, address indexed blackPlayer, uint256 wager);
-    event MoveMade(uint256 indexed gameId, address indexed player, uint8 fromPos, uint8 toPos);
+    event MoveMade(uint256 indexed gameId, address indexed player, uint8 fromPos, uint8 toPos, bytes32 moveHash);
     event GameEnded(uint256 indexed gameId, GameState result);
     event GameAbandoned(uint256 indexed gameId, address winner);
+    event TimeoutClaimed(uint256 indexed gameId, address indexed claimant, uint256 payableAt);
+    event SignedGameSettled(uint256 indexed gameId, GameState result, uint256 moveCount, bytes32 transcriptHash);
+    event ConflictingMoveProven(uint256 indexed gameId, address indexed player, uint256 ply);
     
     modifier onlyPlayer(uint256 gameId) {
         require(
@@ -153,10 +184,17 @@ contract Chess {
         onlyPlayer(gameId) 
         gameActive(gameId) 
     {
+        playMove(gameId, msg.sender, fromPos, toPos);
+    }
+    
+    /**
+     * @dev Validate and play a move for a player, sent directly or signed off-chain
+     */
+    function playMove(uint256 gameId, address player, uint8 fromPos, uint8 toPos) private {
         Game storage game = games[gameId];
         require(game.blackPlayer != address(0), "Waiting for opponent");
         
-        bool isWhite = msg.sender == game.whitePlayer;
+        bool isWhite = player == game.whitePlayer;
         require(game.whiteTurn == isWhite, "Not your turn");
         
         require(fromPos < 64 && toPos < 64, "Invalid position");
@@ -178,11 +216,12 @@ contract Chess {
         // Execute move
         executeMove(gameId, fromPos, toPos);
         
+        transcriptHashes[gameId] = hashMove(gameId, game.moveCount, fromPos, toPos, transcriptHashes[gameId]);
         game.whiteTurn = !game.whiteTurn;
         game.lastMoveTime = block.timestamp;
         game.moveCount++;
         
-        emit MoveMade(gameId, msg.sender, fromPos, toPos);
+        emit MoveMade(gameId, player, fromPos, toPos, transcriptHashes[gameId]);
         
         // Check for checkmate or stalemate
         checkGameEnd(gameId);
@@ -593,7 +632,8 @@ contract Chess {
     }
     
     /**
-     * @dev Claim win by timeout
+     * @dev Claim win by timeout. Opens a claim first, then pays out when called again after
+     * TIMEOUT_CHALLENGE_PERIOD if no move was played in between
      */
     function claimTimeout(uint256 gameId) external onlyPlayer(gameId) {
         Game storage game = games[gameId];
@@ -601,6 +641,17 @@ contract Chess {
         require(block.timestamp - game.lastMoveTime >= MOVE_TIMEOUT, "Timeout period not reached");
         
         bool isWhite = msg.sender == game.whitePlayer;
+        require(game.whiteTurn != isWhite, "Cannot claim timeout on your own turn");
+        
+        // The first call opens the claim; calling again once the challenge period is over pays out
+        uint256 claimedAt = timeoutClaims[gameId];
+        if (claimedAt <= game.lastMoveTime) {
+            timeoutClaims[gameId] = block.timestamp;
+            emit TimeoutClaimed(gameId, msg.sender, block.timestamp + TIMEOUT_CHALLENGE_PERIOD);
+            return;
+        }
+        require(block.timestamp - claimedAt >= TIMEOUT_CHALLENGE_PERIOD, "Challenge period not over");
+        
         game.state = isWhite ? GameState.WhiteWon : GameState.BlackWon;
         
         payoutWinner(gameId);
@@ -617,6 +668,151 @@ contract Chess {
         emit GameEnded(gameId, GameState.Draw);
     }
     
+    /**
+     * @dev Settle a game played with signed moves, using a result both players signed
+     * @param moveCount Moves in the signed transcript, counting those played on-chain
+     * @param transcriptHash Hash of the transcript's last move
+     * @param deadline Time the offer lapses, so an offer the other player declined and played on from
+     * cannot be settled later
+     */
+    function settleSignedGame(
+        uint256 gameId,
+        GameState result,
+        uint256 moveCount,
+        bytes32 transcriptHash,
+        uint256 deadline,
+        bytes calldata whiteSignature,
+        bytes calldata blackSignature
+    ) external gameActive(gameId) {
+        Game storage game = games[gameId];
+        require(game.blackPlayer != address(0), "Waiting for opponent");
+        require(
+            result == GameState.WhiteWon || result == GameState.BlackWon || result == GameState.Draw,
+            "Invalid result"
+        );
+        require(block.timestamp <= deadline, "Result offer expired");
+        require(moveCount >= game.moveCount, "Transcript is behind the chain");
+        
+        bytes32 digest = hashTypedData(
+            keccak256(abi.encode(RESULT_TYPEHASH, gameId, uint8(result), moveCount, transcriptHash, deadline))
+        );
+        require(recoverSigner(digest, whiteSignature) == game.whitePlayer, "Invalid white signature");
+        require(recoverSigner(digest, blackSignature) == game.blackPlayer, "Invalid black signature");
+        
+        game.state = result;
+        transcriptHashes[gameId] = transcriptHash;
+        if (result == GameState.Draw) {
+            payoutDraw(gameId);
+        } else {
+            payoutWinner(gameId);
+        }
+        
+        emit SignedGameSettled(gameId, result, moveCount, transcriptHash);
+        emit GameEnded(gameId, result);
+    }
+    
+    /**
+     * @dev Dispute: play moves signed off-chain, continuing from the game's on-chain position.
+     * Play then continues on-chain, where MOVE_TIMEOUT applies to the player to move.
+     * The moves also void a pending timeout claim, since they refresh lastMoveTime
+     */
+    function submitSignedMoves(uint256 gameId, SignedMove[] calldata moves)
+        external
+        onlyPlayer(gameId)
+        gameActive(gameId)
+    {
+        Game storage game = games[gameId];
+        require(game.blackPlayer != address(0), "Waiting for opponent");
+        require(moves.length > 0, "No moves submitted");
+        
+        for (uint256 i = 0; i < moves.length && game.state == GameState.Active; i++) {
+            address mover = game.whiteTurn ? game.whitePlayer : game.blackPlayer;
+            bytes32 digest = hashTypedData(
+                hashMove(gameId, game.moveCount, moves[i].fromPos, moves[i].toPos, transcriptHashes[gameId])
+            );
+            require(recoverSigner(digest, moves[i].signature) == mover, "Invalid move signature");
+            playMove(gameId, mover, moves[i].fromPos, moves[i].toPos);
+        }
+    }
+    
+    /**
+     * @dev Fraud proof: a move signed for a ply that was played differently on-chain, from the same
+     * position. Playing one move on-chain, directly or signed, after signing another for that ply
+     * would void every signed move after it, so the player who signed both forfeits the game
+     * @param ply Ply of the signed move, which must already be played on-chain
+     * @param prevHash Hash of the on-chain move before ply, or zero for the first move
+     * @param playedMoves Moves played on-chain from ply on, as in MoveMade. Hashed onwards from prevHash
+     * they must reach transcriptHashes, which proves both hashes without storing every move's
+     */
+    function proveConflictingMove(
+        uint256 gameId,
+        uint256 ply,
+        SignedMove calldata move,
+        bytes32 prevHash,
+        PlayedMove[] calldata playedMoves
+    ) external onlyPlayer(gameId) gameActive(gameId) {
+        Game storage game = games[gameId];
+        require(ply < game.moveCount, "Ply not played on-chain");
+        require(playedMoves.length == game.moveCount - ply, "Wrong number of played moves");
+        
+        bytes32 playedHash = hashMove(gameId, ply, playedMoves[0].fromPos, playedMoves[0].toPos, prevHash);
+        bytes32 chainHash = playedHash;
+        for (uint256 i = 1; i < playedMoves.length; i++) {
+            chainHash = hashMove(gameId, ply + i, playedMoves[i].fromPos, playedMoves[i].toPos, chainHash);
+        }
+        require(chainHash == transcriptHashes[gameId], "Played moves do not match the chain");
+        
+        bytes32 structHash = hashMove(gameId, ply, move.fromPos, move.toPos, prevHash);
+        require(structHash != playedHash, "Move was played on-chain");
+        
+        address mover = ply % 2 == 0 ? game.whitePlayer : game.blackPlayer;
+        require(recoverSigner(hashTypedData(structHash), move.signature) == mover, "Invalid move signature");
+        
+        game.state = mover == game.whitePlayer ? GameState.BlackWon : GameState.WhiteWon;
+        payoutWinner(gameId);
+        
+        emit ConflictingMoveProven(gameId, mover, ply);
+        emit GameEnded(gameId, game.state);
+    }
+    
+    /**
+     * @dev EIP-712 domain separator for signed moves and results
+     */
+    function domainSeparator() public view returns (bytes32) {
+        return keccak256(abi.encode(
+            DOMAIN_TYPEHASH,
+            keccak256("BaseChess"),
+            keccak256("1"),
+            block.chainid,
+            address(this)
+        ));
+    }
+    
+    function hashMove(uint256 gameId, uint256 ply, uint8 fromPos, uint8 toPos, bytes32 prevHash) private pure returns (bytes32) {
+        return keccak256(abi.encode(MOVE_TYPEHASH, gameId, ply, fromPos, toPos, prevHash));
+    }
+    
+    function hashTypedData(bytes32 structHash) private view returns (bytes32) {
+        return keccak256(abi.encodePacked("\x19\x01", domainSeparator(), structHash));
+    }
+    
+    function recoverSigner(bytes32 digest, bytes calldata signature) private pure returns (address) {
+        require(signature.length == 65, "Invalid signature length");
+        bytes32 r = bytes32(signature[0:32]);
+        bytes32 s = bytes32(signature[32:64]);
+        uint8 v = uint8(signature[64]);
+        if (v < 27) v += 27;
+        
+        // Only accept the lower s value so a signature cannot be altered into a second valid one
+        require(
+            uint256(s) <= 0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF5D576E7357A4501DDFE92F46681B20A0,
+            "Invalid signature"
+        );
+        address signer = ecrecover(digest, v, r, s);
+        require(signer != address(0), "Invalid signature");
+        return signer;
+    }
+    
     function payoutWinner(uint256 gameId) private {
         Game storage game = games[gameId];
         if (game.wager > 0) {
@@ -0,0 +1,108 @@
+// Import a Lichess puzzle CSV into rating-sorted JSON packs:
+// npm run import-puzzles -- <lichess_db_puzzle.csv> [--out public/puzzles] [--pack-size 500]
+//   [--min-rating 600] [--max-rating 3000] [--limit 10000]
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { ChessPuzzle } from '../app/lib/puzzleData';
+import {
+  chunkPuzzlePacks,
+  convertLichessPuzzle,
+  createPackManifest,
+  parseLichessHeader,
+  parseLichessRow,
+} from '../app/lib/puzzleImport';
+import { PUZZLE_MANIFEST_FILE } from '../app/lib/puzzlePacks';
+
+interface ImportOptions {
+  input: string;
+  outDir: string;
+  packSize: number;
+  minRating: number;
+  maxRating: number;
+  limit: number;
+}
+
+function parseArgs(args: string[]): ImportOptions {
+  const options: ImportOptions = {
+    input: '',
+    outDir: path.join('public', 'puzzles'),
+    packSize: 500,
+    minRating: 0,
+    maxRating: Infinity,
+    limit: Infinity,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const value = args[i + 1];
+    switch (args[i]) {
+      case '--out': options.outDir = value; i++; break;
+      case '--pack-size': options.packSize = parseInt(value); i++; break;
+      case '--min-rating': options.minRating = parseInt(value); i++; break;
+      case '--max-rating': options.maxRating = parseInt(value); i++; break;
+      case '--limit': options.limit = parseInt(value); i++; break;
+      default: options.input = args[i];
+    }
+  }
+
+  if (!options.input) {
+    throw new Error('Usage: npm run import-puzzles -- <lichess_db_puzzle.csv> [--out dir] [--pack-size n]');
+  }
+  return options;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const lines = readline.createInterface({ input: fs.createReadStream(options.input), crlfDelay: Infinity });
+
+  let columns: { [column: string]: number } | null = null;
+  const puzzles: ChessPuzzle[] = [];
+  let lineNumber = 0;
+  let skipped = 0;
+  let rejected = 0;
+
+  for await (const line of lines) {
+    lineNumber++;
+    if (line.trim() === '') continue;
+    if (!columns) {
+      columns = parseLichessHeader(line);
+      continue;
+    }
+
+    try {
+      const row = parseLichessRow(line, columns);
+      if (row.rating < options.minRating || row.rating > options.maxRating) {
+        skipped++;
+        continue;
+      }
+      puzzles.push(convertLichessPuzzle(row));
+    } catch (error) {
+      rejected++;
+      console.warn(`Line ${lineNumber}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (puzzles.length >= options.limit) break;
+  }
+  lines.close();
+
+  const packs = chunkPuzzlePacks(puzzles, options.packSize);
+  fs.mkdirSync(options.outDir, { recursive: true });
+  for (const pack of packs) {
+    fs.writeFileSync(path.join(options.outDir, pack.info.file), JSON.stringify(pack.puzzles));
+  }
+  const manifest = createPackManifest(packs, options.packSize);
+  fs.writeFileSync(path.join(options.outDir, PUZZLE_MANIFEST_FILE), JSON.stringify(manifest, null, 2) + '\n');
+
+  console.log(
+    `Imported ${puzzles.length} puzzles into ${packs.length} packs in ${options.outDir} ` +
+    `(${rejected} rejected, ${skipped} outside the rating range)`
+  );
+  if (rejected > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,126 @@
+// Local move relay for signed-move games: npm run relay
+// A minimal WebSocket server that forwards each text message to the other sockets in the same room
+// (?room=...). It keeps no state; clients verify everything they receive. PORT overrides the default 8787
+import { createHash } from 'crypto';
+import { createServer, IncomingMessage } from 'http';
+import { Duplex } from 'stream';
+
+const PORT = Number(process.env.PORT) || 8787;
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_PAYLOAD = 1024 * 1024;
+
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+const rooms = new Map<string, Set<Duplex>>();
+
+function encodeFrame(opcode: number, payload: Buffer): Buffer {
+  let header: Buffer;
+  if (payload.length < 126) {
+    header = Buffer.from([0x80 | opcode, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+// Split complete client frames off the front of the buffer; client frames are always masked
+function decodeFrames(buffer: Buffer): { frames: { opcode: number; payload: Buffer }[]; rest: Buffer } {
+  const frames: { opcode: number; payload: Buffer }[] = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const opcode = buffer[offset] & 0x0f;
+    let length = buffer[offset + 1] & 0x7f;
+    let headerLength = 2;
+    if (length === 126) {
+      if (buffer.length - offset < 4) break;
+      length = buffer.readUInt16BE(offset + 2);
+      headerLength = 4;
+    } else if (length === 127) {
+      if (buffer.length - offset < 10) break;
+      length = Number(buffer.readBigUInt64BE(offset + 2));
+      headerLength = 10;
+    }
+    if (length > MAX_PAYLOAD) throw new Error('Frame too large');
+    const frameLength = headerLength + 4 + length;
+    if (buffer.length - offset < frameLength) break;
+    const mask = buffer.subarray(offset + headerLength, offset + headerLength + 4);
+    const payload = Buffer.from(buffer.subarray(offset + headerLength + 4, offset + frameLength));
+    for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    frames.push({ opcode, payload });
+    offset += frameLength;
+  }
+  return { frames, rest: buffer.subarray(offset) };
+}
+
+function joinRoom(room: string, socket: Duplex) {
+  const members = rooms.get(room) ?? new Set<Duplex>();
+  members.add(socket);
+  rooms.set(room, members);
+
+  let pending: Buffer = Buffer.alloc(0);
+  const leave = () => {
+    members.delete(socket);
+    if (members.size === 0) rooms.delete(room);
+  };
+
+  socket.on('data', (chunk: Buffer) => {
+    try {
+      const { frames, rest } = decodeFrames(Buffer.concat([pending, chunk]));
+      pending = rest;
+      frames.forEach(({ opcode, payload }) => {
+        if (opcode === OPCODE_TEXT) {
+          const frame = encodeFrame(OPCODE_TEXT, payload);
+          members.forEach(member => {
+            if (member !== socket) member.write(frame);
+          });
+        } else if (opcode === OPCODE_PING) {
+          socket.write(encodeFrame(OPCODE_PONG, payload));
+        } else if (opcode === OPCODE_CLOSE) {
+          socket.end(encodeFrame(OPCODE_CLOSE, Buffer.alloc(0)));
+        }
+      });
+    } catch (error) {
+      console.error(`Dropping connection in room ${room}:`, error instanceof Error ? error.message : error);
+      socket.destroy();
+    }
+  });
+  socket.on('close', leave);
+  socket.on('error', leave);
+}
+
+const server = createServer((_req, res) => {
+  res.writeHead(426, { 'Content-Type': 'text/plain' });
+  res.end('WebSocket connections only\n');
+});
+
+server.on('upgrade', (req: IncomingMessage, socket: Duplex) => {
+  const key = req.headers['sec-websocket-key'];
+  const room = new URL(req.url ?? '/', 'http://localhost').searchParams.get('room');
+  if (typeof key !== 'string' || !room) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  joinRoom(room, socket);
+});
+
+server.listen(PORT, () => {
+  console.log(`Move relay listening on ws://localhost:${PORT}`);
+});
@@ -0,0 +1,31 @@
+// Run the perft suite: npm run perft -- [maxDepth]
+import { runPerftSuite } from '../app/lib/perft';
+
+function main() {
+  const maxDepth = parseInt(process.argv[2] || '3');
+  console.log(`Running perft suite to depth ${maxDepth}...`);
+
+  const results = runPerftSuite(maxDepth);
+  let totalNodes = 0;
+  let totalMs = 0;
+
+  for (const result of results) {
+    totalNodes += result.nodes;
+    totalMs += result.elapsedMs;
+    const status = result.passed ? 'ok  ' : 'FAIL';
+    console.log(
+      `${status} ${result.name} depth ${result.depth}: ${result.nodes} nodes ` +
+      `(expected ${result.expected}) in ${result.elapsedMs}ms`
+    );
+  }
+
+  const failed = results.filter(r => !r.passed);
+  const nps = totalMs > 0 ? Math.round((totalNodes / totalMs) * 1000) : totalNodes;
+  console.log(`\n${results.length - failed.length}/${results.length} passed, ${totalNodes} nodes, ${nps} nodes/s`);
+
+  if (failed.length > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main();
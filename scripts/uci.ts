@@ -0,0 +1,144 @@
+// UCI front-end for the built-in engine: npm run uci
+// Point a GUI or tournament manager (e.g. cutechess-cli) at this command
+import * as path from 'path';
+import * as readline from 'readline';
+import { Worker } from 'worker_threads';
+import { GameState, createInitialState } from '../app/lib/chessEngine';
+import {
+  ENGINE_NAME,
+  ENGINE_AUTHOR,
+  UCI_OPTIONS,
+  DEFAULT_UCI_VARIANT_OPTIONS,
+  applySetOption,
+  getUCIVariant,
+  tokenizeUCI,
+  parsePositionCommand,
+  parseGoCommand,
+  getGoSearchOptions,
+  formatInfoLine,
+  formatBestMove,
+} from '../app/lib/uci';
+import type { UCIWorkerRequest, UCIWorkerResponse } from './uciWorker';
+
+// Worker threads do not inherit the TypeScript loader, so register it before loading the search thread
+const WORKER_BOOTSTRAP = `require('tsx/cjs'); require(${JSON.stringify(path.join(__dirname, 'uciWorker.ts'))});`;
+
+const stopFlag = new Int32Array(new SharedArrayBuffer(4));
+const worker = new Worker(WORKER_BOOTSTRAP, { eval: true, workerData: { stopFlag } });
+
+let variantOptions = DEFAULT_UCI_VARIANT_OPTIONS;
+let state: GameState = createInitialState();
+let searching = false;
+let infinite = false; // bestmove is held back until "stop" during infinite searches
+let stopRequested = false;
+let heldBestMove: string | null = null;
+let quitting = false;
+
+function send(line: string) {
+  process.stdout.write(line + '\n');
+}
+
+function request(message: UCIWorkerRequest) {
+  worker.postMessage(message);
+}
+
+worker.on('message', (message: UCIWorkerResponse) => {
+  if (message.type === 'info') {
+    send(formatInfoLine(message.progress));
+    return;
+  }
+
+  const bestMove = formatBestMove(message.result.bestMove);
+  searching = false;
+  if (infinite && !stopRequested) {
+    heldBestMove = bestMove;
+  } else {
+    send(bestMove);
+  }
+  if (quitting) shutdown();
+});
+
+worker.on('error', (error) => {
+  send(`info string engine error: ${error.message}`);
+  process.exit(1);
+});
+
+function stopSearch() {
+  stopRequested = true;
+  if (searching) {
+    Atomics.store(stopFlag, 0, 1);
+  } else if (heldBestMove) {
+    send(heldBestMove);
+    heldBestMove = null;
+  }
+}
+
+function shutdown() {
+  worker.terminate().then(() => process.exit(0));
+}
+
+function handleCommand(line: string) {
+  const [command, ...args] = tokenizeUCI(line);
+
+  switch (command) {
+    case 'uci':
+      send(`id name ${ENGINE_NAME}`);
+      send(`id author ${ENGINE_AUTHOR}`);
+      UCI_OPTIONS.forEach(send);
+      send('uciok');
+      break;
+    case 'isready':
+      send('readyok');
+      break;
+    case 'setoption':
+      variantOptions = applySetOption(variantOptions, args);
+      break;
+    case 'ucinewgame':
+      state = createInitialState();
+      request({ type: 'newgame' });
+      break;
+    case 'position':
+      try {
+        state = parsePositionCommand(args, getUCIVariant(variantOptions));
+      } catch (error) {
+        send(`info string ${error instanceof Error ? error.message : 'Invalid position'}`);
+      }
+      break;
+    case 'go': {
+      if (searching) break;
+      const params = parseGoCommand(args);
+      searching = true;
+      infinite = !!params.infinite;
+      stopRequested = false;
+      heldBestMove = null;
+      Atomics.store(stopFlag, 0, 0);
+      request({ type: 'go', state, options: getGoSearchOptions(params, state.isWhiteTurn) });
+      break;
+    }
+    case 'stop':
+      stopSearch();
+      break;
+    case 'quit':
+      quitting = true;
+      if (searching) {
+        stopSearch();
+      } else {
+        shutdown();
+      }
+      break;
+    default:
+      // Unknown commands (debug, ponderhit...) are ignored as the protocol requires
+      break;
+  }
+}
+
+const input = readline.createInterface({ input: process.stdin, terminal: false });
+input.on('line', handleCommand);
+input.on('close', () => {
+  quitting = true;
+  if (searching) {
+    stopSearch();
+  } else {
+    shutdown();
+  }
+});
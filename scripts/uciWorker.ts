@@ -0,0 +1,33 @@
+// Search thread for scripts/uci.ts - keeps stdin responsive while the engine thinks
+import { parentPort, workerData } from 'worker_threads';
+import { GameState } from '../app/lib/chessEngine';
+import { searchPosition, clearTranspositionTable, SearchOptions, SearchProgress, SearchResult } from '../app/lib/chessAI';
+
+export type UCIWorkerRequest =
+  | { type: 'go'; state: GameState; options: SearchOptions }
+  | { type: 'newgame' };
+
+export type UCIWorkerResponse =
+  | { type: 'info'; progress: SearchProgress }
+  | { type: 'done'; result: SearchResult };
+
+// Shared with the main thread, which sets it to 1 on "stop"
+const stopFlag: Int32Array = workerData.stopFlag;
+
+function post(message: UCIWorkerResponse) {
+  parentPort?.postMessage(message);
+}
+
+parentPort?.on('message', (request: UCIWorkerRequest) => {
+  if (request.type === 'newgame') {
+    clearTranspositionTable();
+    return;
+  }
+
+  const result = searchPosition(request.state, {
+    ...request.options,
+    onProgress: (progress) => post({ type: 'info', progress }),
+    shouldStop: () => Atomics.load(stopFlag, 0) === 1,
+  });
+  post({ type: 'done', result });
+});
@@ -124,12 +124,55 @@ describe("Chess Contract", function () {
       await ethers.provider.send("evm_increaseTime", [24 * 60 * 60 + 1]);
       await ethers.provider.send("evm_mine");
       
+      await chess.connect(player2).claimTimeout(0);
+      expect((await chess.getGameInfo(0)).state).to.equal(0); // Still active during the challenge period
+      
+      await ethers.provider.send("evm_increaseTime", [12 * 60 * 60 + 1]);
+      await ethers.provider.send("evm_mine");
+      
       await chess.connect(player2).claimTimeout(0);
       
       const gameInfo = await chess.getGameInfo(0);
       expect(gameInfo.state).to.equal(2); // BlackWon
     });
 
+    it("Should not pay out a timeout claim during the challenge period", async function () {
+      await chess.connect(player1).createGame(player2.address);
+      
+      await ethers.provider.send("evm_increaseTime", [24 * 60 * 60 + 1]);
+      await ethers.provider.send("evm_mine");
+      
+      await chess.connect(player2).claimTimeout(0);
+      await expect(
+        chess.connect(player2).claimTimeout(0)
+      ).to.be.revertedWith("Challenge period not over");
+    });
+
+    it("Should void a timeout claim answered with a move", async function () {
+      await chess.connect(player1).createGame(player2.address);
+      
+      await ethers.provider.send("evm_increaseTime", [24 * 60 * 60 + 1]);
+      await ethers.provider.send("evm_mine");
+      
+      await chess.connect(player2).claimTimeout(0);
+      await chess.connect(player1).makeMove(0, 52, 36); // e2-e4
+      
+      await expect(
+        chess.connect(player1).claimTimeout(0)
+      ).to.be.revertedWith("Timeout period not reached");
+    });
+
+    it("Should not allow claiming timeout on your own turn", async function () {
+      await chess.connect(player1).createGame(player2.address);
+      
+      await ethers.provider.send("evm_increaseTime", [24 * 60 * 60 + 1]);
+      await ethers.provider.send("evm_mine");
+      
+      await expect(
+        chess.connect(player1).claimTimeout(0)
+      ).to.be.revertedWith("Cannot claim timeout on your own turn");
+    });
+
     it("Should allow draw offer", async function () {
       await chess.connect(player1).createGame(player2.address);
       
@@ -140,6 +183,212 @@ describe("Chess Contract", function () {
     });
   });
 
+  describe("Signed Moves", function () {
+    const types = {
+      Move: [
+        { name: "gameId", type: "uint256" },
+        { name: "ply", type: "uint256" },
+        { name: "fromPos", type: "uint8" },
+        { name: "toPos", type: "uint8" },
+        { name: "prevHash", type: "bytes32" },
+      ],
+    };
+    const resultTypes = {
+      Result: [
+        { name: "gameId", type: "uint256" },
+        { name: "result", type: "uint8" },
+        { name: "moveCount", type: "uint256" },
+        { name: "transcriptHash", type: "bytes32" },
+        { name: "deadline", type: "uint256" },
+      ],
+    };
+    let domain;
+
+    async function getOfferDeadline() {
+      return (await ethers.provider.getBlock("latest")).timestamp + 10 * 60;
+    }
+
+    async function signMove(signer, ply, fromPos, toPos, prevHash) {
+      const move = { gameId: 0, ply, fromPos, toPos, prevHash };
+      const signature = await signer.signTypedData(domain, types, move);
+      return { move: { fromPos, toPos, signature }, hash: ethers.TypedDataEncoder.hashStruct("Move", types, move) };
+    }
+
+    // Moves played on-chain from a ply on, and the hash before them, read back from MoveMade
+    async function getPlayedMoves(ply) {
+      const logs = await chess.queryFilter(chess.filters.MoveMade(0));
+      const prevHash = ply === 0 ? ethers.ZeroHash : logs[ply - 1].args.moveHash;
+      return { prevHash, playedMoves: logs.slice(ply).map(log => ({ fromPos: log.args.fromPos, toPos: log.args.toPos })) };
+    }
+
+    beforeEach(async function () {
+      await chess.connect(player1).createGame(player2.address);
+      const { chainId } = await ethers.provider.getNetwork();
+      domain = { name: "BaseChess", version: "1", chainId, verifyingContract: await chess.getAddress() };
+    });
+
+    it("Should play submitted signed moves", async function () {
+      const e4 = await signMove(player1, 0, 52, 36, ethers.ZeroHash);
+      const e5 = await signMove(player2, 1, 12, 28, e4.hash);
+
+      await chess.connect(player1).submitSignedMoves(0, [e4.move, e5.move]);
+
+      const board = await chess.getBoard(0);
+      expect(board[36]).to.equal(1);
+      expect(board[28]).to.equal(7);
+      expect(await chess.transcriptHashes(0)).to.equal(e5.hash);
+    });
+
+    it("Should chain on-chain and signed moves", async function () {
+      await chess.connect(player1).makeMove(0, 52, 36);
+      const onChainHash = await chess.transcriptHashes(0);
+      const e5 = await signMove(player2, 1, 12, 28, onChainHash);
+
+      await chess.connect(player1).submitSignedMoves(0, [e5.move]);
+
+      const gameInfo = await chess.getGameInfo(0);
+      expect(gameInfo.moveCount).to.equal(2);
+    });
+
+    it("Should void a timeout claim answered with signed moves", async function () {
+      const e4 = await signMove(player1, 0, 52, 36, ethers.ZeroHash);
+      const e5 = await signMove(player2, 1, 12, 28, e4.hash);
+      
+      await ethers.provider.send("evm_increaseTime", [24 * 60 * 60 + 1]);
+      await ethers.provider.send("evm_mine");
+      
+      // Black claims while white is to move on-chain, though both kept playing off-chain
+      await chess.connect(player2).claimTimeout(0);
+      await chess.connect(player1).submitSignedMoves(0, [e4.move, e5.move]);
+      
+      await ethers.provider.send("evm_increaseTime", [12 * 60 * 60 + 1]);
+      await ethers.provider.send("evm_mine");
+      
+      await expect(
+        chess.connect(player2).claimTimeout(0)
+      ).to.be.revertedWith("Timeout period not reached");
+      expect((await chess.getGameInfo(0)).state).to.equal(0);
+    });
+
+    it("Should reject a move signed by the wrong player", async function () {
+      const e4 = await signMove(player2, 0, 52, 36, ethers.ZeroHash);
+      await expect(
+        chess.connect(player1).submitSignedMoves(0, [e4.move])
+      ).to.be.revertedWith("Invalid move signature");
+    });
+
+    it("Should forfeit a player who plays a move on-chain after signing another", async function () {
+      const e4 = await signMove(player1, 0, 52, 36, ethers.ZeroHash);
+      await signMove(player2, 1, 12, 28, e4.hash);
+      
+      // White takes back the signed e4 by playing d4 directly
+      await chess.connect(player1).makeMove(0, 51, 35);
+      const { prevHash, playedMoves } = await getPlayedMoves(0);
+      
+      await expect(chess.connect(player2).proveConflictingMove(0, 0, e4.move, prevHash, playedMoves))
+        .to.emit(chess, "ConflictingMoveProven")
+        .withArgs(0, player1.address, 0);
+      expect((await chess.getGameInfo(0)).state).to.equal(2); // BlackWon
+    });
+
+    it("Should forfeit a player who submits a second signed move for a ply", async function () {
+      const e4 = await signMove(player1, 0, 52, 36, ethers.ZeroHash);
+      const e5 = await signMove(player2, 1, 12, 28, e4.hash);
+      const nf3 = await signMove(player1, 2, 62, 45, e5.hash);
+      await signMove(player2, 3, 1, 18, nf3.hash);
+      
+      // White signs Bc4 instead of the Nf3 already sent, voiding black's reply
+      const bc4 = await signMove(player1, 2, 61, 34, e5.hash);
+      await chess.connect(player1).submitSignedMoves(0, [e4.move, e5.move, bc4.move]);
+      await chess.connect(player2).makeMove(0, 1, 18);
+      const { prevHash, playedMoves } = await getPlayedMoves(2);
+      
+      await chess.connect(player2).proveConflictingMove(0, 2, nf3.move, prevHash, playedMoves);
+      expect((await chess.getGameInfo(0)).state).to.equal(2); // BlackWon
+    });
+
+    it("Should not treat the move played on-chain as a conflicting one", async function () {
+      const e4 = await signMove(player1, 0, 52, 36, ethers.ZeroHash);
+      await chess.connect(player1).submitSignedMoves(0, [e4.move]);
+      const { prevHash, playedMoves } = await getPlayedMoves(0);
+      
+      await expect(
+        chess.connect(player2).proveConflictingMove(0, 0, e4.move, prevHash, playedMoves)
+      ).to.be.revertedWith("Move was played on-chain");
+      await expect(
+        chess.connect(player2).proveConflictingMove(0, 1, e4.move, e4.hash, [])
+      ).to.be.revertedWith("Ply not played on-chain");
+    });
+
+    it("Should not forfeit a player for a conflicting move the opponent signed", async function () {
+      const d4 = await signMove(player2, 0, 51, 35, ethers.ZeroHash);
+      await chess.connect(player1).makeMove(0, 52, 36);
+      const { prevHash, playedMoves } = await getPlayedMoves(0);
+      
+      await expect(
+        chess.connect(player2).proveConflictingMove(0, 0, d4.move, prevHash, playedMoves)
+      ).to.be.revertedWith("Invalid move signature");
+    });
+
+    it("Should not accept played moves that are not the chain's", async function () {
+      const e4 = await signMove(player1, 0, 52, 36, ethers.ZeroHash);
+      await chess.connect(player1).makeMove(0, 51, 35);
+      await chess.connect(player2).makeMove(0, 12, 28);
+      
+      // Claiming white played e4 on-chain, as signed, to hide the conflict
+      await expect(
+        chess.connect(player1).proveConflictingMove(0, 0, e4.move, ethers.ZeroHash, [{ fromPos: 52, toPos: 36 }])
+      ).to.be.revertedWith("Wrong number of played moves");
+      await expect(
+        chess.connect(player2).proveConflictingMove(0, 0, e4.move, ethers.ZeroHash, [
+          { fromPos: 52, toPos: 36 },
+          { fromPos: 12, toPos: 28 },
+        ])
+      ).to.be.revertedWith("Played moves do not match the chain");
+    });
+
+    it("Should settle a result signed by both players", async function () {
+      const deadline = await getOfferDeadline();
+      const value = { gameId: 0, result: 3, moveCount: 0, transcriptHash: ethers.ZeroHash, deadline };
+      const whiteSignature = await player1.signTypedData(domain, resultTypes, value);
+      const blackSignature = await player2.signTypedData(domain, resultTypes, value);
+
+      await chess.connect(owner).settleSignedGame(0, 3, 0, ethers.ZeroHash, deadline, whiteSignature, blackSignature);
+
+      const gameInfo = await chess.getGameInfo(0);
+      expect(gameInfo.state).to.equal(3); // Draw
+    });
+
+    it("Should not settle a result signed by one player", async function () {
+      const deadline = await getOfferDeadline();
+      const value = { gameId: 0, result: 1, moveCount: 0, transcriptHash: ethers.ZeroHash, deadline };
+      const whiteSignature = await player1.signTypedData(domain, resultTypes, value);
+
+      await expect(
+        chess.settleSignedGame(0, 1, 0, ethers.ZeroHash, deadline, whiteSignature, whiteSignature)
+      ).to.be.revertedWith("Invalid black signature");
+    });
+
+    it("Should not settle an offer that was declined and played on from", async function () {
+      const deadline = await getOfferDeadline();
+      const value = { gameId: 0, result: 3, moveCount: 0, transcriptHash: ethers.ZeroHash, deadline };
+      const whiteSignature = await player1.signTypedData(domain, resultTypes, value);
+      
+      // Black declines the draw and the game goes on off-chain, until black would rather take it
+      await signMove(player1, 0, 52, 36, ethers.ZeroHash);
+      await ethers.provider.send("evm_increaseTime", [60 * 60]);
+      await ethers.provider.send("evm_mine");
+      const blackSignature = await player2.signTypedData(domain, resultTypes, value);
+      
+      await expect(
+        chess.connect(player2).settleSignedGame(0, 3, 0, ethers.ZeroHash, deadline, whiteSignature, blackSignature)
+      ).to.be.revertedWith("Result offer expired");
+      await expect(
+        chess.connect(player2).settleSignedGame(0, 3, 0, ethers.ZeroHash, deadline + 60 * 60, whiteSignature, blackSignature)
+      ).to.be.revertedWith("Invalid white signature");
+    });
+  });
+
   describe("Wager System", function () {
     it("Should payout winner on checkmate", async function () {
       const wager = ethers.parseEther("0.1");
@@ -0,0 +1,87 @@
+import { expect } from "chai";
+import { createStateFromFEN } from "../app/lib/chessEngine";
+import {
+  ChessClock,
+  checkFlag,
+  createClock,
+  formatClockTime,
+  getFlagResult,
+  getRemainingMs,
+  getTimeControlById,
+  pauseClock,
+  pressClock,
+  resumeClock,
+} from "../app/lib/chessClock";
+
+const NOW = 1_700_000_000_000;
+const BLITZ = getTimeControlById("3+2")!;
+const DELAY = getTimeControlById("5d5")!;
+
+// A clock with white's time running since NOW, after black pressed it
+function whiteToMove(clock: ChessClock): ChessClock {
+  return { ...clock, active: "white", turnStartedAt: NOW };
+}
+
+describe("Chess Clock", function () {
+  it("Should not charge the opening move", function () {
+    const clock = pressClock(createClock(BLITZ), "white", NOW + 20_000);
+
+    expect(clock.remainingMs).to.deep.equal({ white: 180_000, black: 180_000 });
+    expect(clock.active).to.equal("black");
+    expect(clock.turnStartedAt).to.equal(NOW + 20_000);
+  });
+
+  it("Should charge the whole move and then add the increment", function () {
+    const clock = pressClock(whiteToMove(createClock(BLITZ)), "white", NOW + 5_000);
+
+    expect(clock.remainingMs.white).to.equal(180_000 - 5_000 + 2_000);
+    expect(clock.active).to.equal("black");
+  });
+
+  it("Should only charge time past the delay, without adding any", function () {
+    const quick = pressClock(whiteToMove(createClock(DELAY)), "white", NOW + 3_000);
+    const slow = pressClock(whiteToMove(createClock(DELAY)), "white", NOW + 8_000);
+
+    expect(quick.remainingMs.white).to.equal(300_000);
+    expect(slow.remainingMs.white).to.equal(300_000 - 3_000);
+  });
+
+  it("Should stop charging while paused", function () {
+    const paused = pauseClock(whiteToMove(createClock(BLITZ)), NOW + 10_000);
+    const resumed = resumeClock(paused, NOW + 70_000);
+
+    expect(paused.remainingMs.white).to.equal(170_000);
+    expect(getRemainingMs(paused, "white", NOW + 60_000)).to.equal(170_000);
+    expect(pressClock(resumed, "white", NOW + 75_000).remainingMs.white).to.equal(180_000 - 15_000 + 2_000);
+  });
+
+  it("Should apply the delay again to a resumed turn", function () {
+    const paused = pauseClock(whiteToMove(createClock(DELAY)), NOW + 8_000);
+    const resumed = resumeClock(paused, NOW + 60_000);
+
+    expect(pressClock(resumed, "white", NOW + 64_000).remainingMs.white).to.equal(300_000 - 3_000);
+  });
+
+  it("Should flag the side whose time runs out", function () {
+    const clock = { ...whiteToMove(createClock(BLITZ)), remainingMs: { white: 1_000, black: 60_000 } };
+
+    expect(checkFlag(clock, NOW + 999)).to.equal(clock);
+    const flagged = checkFlag(clock, NOW + 1_000);
+    expect(flagged).to.include({ flagged: "white", active: null, turnStartedAt: null });
+    expect(flagged.remainingMs.white).to.equal(0);
+    // Moving after the flag fell changes nothing
+    expect(pressClock(clock, "white", NOW + 2_000)).to.deep.equal(flagged);
+  });
+
+  it("Should draw a flag against a lone king", function () {
+    const loneKing = createStateFromFEN("4k3/8/8/8/8/8/4P3/4K3 w - - 0 1").board;
+
+    expect(getFlagResult(loneKing, "white")).to.equal("draw");
+    expect(getFlagResult(loneKing, "black")).to.equal("win");
+  });
+
+  it("Should show tenths under ten seconds", function () {
+    expect(formatClockTime(9_540)).to.equal("0:09.5");
+    expect(formatClockTime(61_200)).to.equal("1:02");
+  });
+});
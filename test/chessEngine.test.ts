@@ -0,0 +1,97 @@
+import { expect } from "chai";
+import {
+  GameState,
+  Piece,
+  algebraicToSquare,
+  createInitialState,
+  createStateFromFEN,
+  makeMove,
+  stateToFEN,
+  uciToMove,
+  undoMove,
+} from "../app/lib/chessEngine";
+
+function playUCI(state: GameState, uci: string) {
+  const move = uciToMove(uci, state);
+  if (!move) throw new Error(`${uci} is not legal here`);
+  return makeMove(state, move);
+}
+
+// Play each move, check that undoing it gives back the position before it, and return the end position
+function expectUndoRoundTrips(state: GameState, moves: string[]) {
+  for (const uci of moves) {
+    const next = playUCI(state, uci);
+    expect(undoMove(next), `undo ${uci}`).to.deep.equal(state);
+    state = next;
+  }
+  return state;
+}
+
+describe("Chess Engine", function () {
+  it("Should undo every kind of move back to the same state", function () {
+    // En passant, a capturing promotion, a capture, then castling
+    const end = expectUndoRoundTrips(createInitialState(), [
+      "e2e4", "a7a6", "e4e5", "d7d5", "e5d6", "a6a5", "d6c7", "a5a4",
+      "c7b8q", "a8b8", "g1f3", "e7e6", "f1e2", "g8f6", "e1g1",
+    ]);
+
+    expect(end.board[algebraicToSquare("g1")]).to.equal(Piece.WKing);
+    expect(end.moveHistory).to.have.length(15);
+  });
+
+  it("Should restore the Zobrist key, castling rights, en passant square and halfmove clock", function () {
+    const start = createStateFromFEN("r3k2r/pppp1ppp/8/4P3/8/8/PPPP1PPP/R3K2R b KQkq - 7 12");
+    const pushed = playUCI(start, "d7d5");
+    const castled = playUCI(pushed, "e1g1");
+
+    expect(pushed.enPassantSquare).to.equal(algebraicToSquare("d6"));
+    expect(castled.enPassantSquare).to.equal(null);
+    expect(castled.castlingRights).to.include({ whiteKingside: false, whiteQueenside: false });
+
+    const undone = undoMove(castled);
+    expect(undone.zobristKey).to.equal(pushed.zobristKey);
+    expect(undone.castlingRights).to.deep.equal(pushed.castlingRights);
+    expect(undone.enPassantSquare).to.equal(algebraicToSquare("d6"));
+    expect(undone.halfMoveClock).to.equal(0);
+    expect(undoMove(undone).halfMoveClock).to.equal(7);
+    expect(undoMove(undone).zobristKey).to.equal(start.zobristKey);
+  });
+
+  it("Should undo back to a position set up from FEN", function () {
+    const fen = "r1bqkbnr/pppp1ppp/2n5/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R w KQkq - 2 3";
+    const start = createStateFromFEN(fen);
+    const end = expectUndoRoundTrips(start, ["f1b5", "a7a6", "b5c6", "d7c6"]);
+
+    let undone = end;
+    while (undone.moveHistory.length > 0) undone = undoMove(undone);
+
+    expect(undone).to.deep.equal(start);
+    expect(stateToFEN(undone)).to.equal(fen);
+  });
+
+  it("Should replay from the FEN start when a state has no undo information", function () {
+    const fen = "4k3/8/8/8/8/8/4P3/4K3 w - - 0 40";
+    const state = playUCI(playUCI(createStateFromFEN(fen), "e2e4"), "e8d7");
+
+    const undone = undoMove({ ...state, irreversibleHistory: [] });
+
+    expect(stateToFEN(undone)).to.equal("4k3/8/8/8/4P3/8/8/4K3 b - e3 0 40");
+    expect(undone.zobristKey).to.equal(undoMove(state).zobristKey);
+  });
+
+  it("Should undo Chess960 castling where the king and rook swap squares", function () {
+    const start = createStateFromFEN("6k1/8/8/8/8/8/8/5KR1 w G - 0 1");
+    const castled = expectUndoRoundTrips(start, ["f1g1"]);
+
+    expect(castled.board[algebraicToSquare("g1")]).to.equal(Piece.WKing);
+    expect(castled.board[algebraicToSquare("f1")]).to.equal(Piece.WRook);
+  });
+
+  it("Should restore the checks given when undoing a Three-check move", function () {
+    const start = createStateFromFEN("4k3/8/8/8/8/8/8/4K2R w - - 0 1 +1+0");
+    const checked = expectUndoRoundTrips(start, ["h1h8"]);
+
+    expect(checked.checksGiven).to.deep.equal({ white: 2, black: 0 });
+    expect(undoMove(checked).checksGiven).to.deep.equal({ white: 1, black: 0 });
+  });
+});
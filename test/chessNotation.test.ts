@@ -0,0 +1,85 @@
+import { expect } from "chai";
+import {
+  createInitialState,
+  createStateFromFEN,
+  generateLegalMoves,
+  makeMove,
+  moveToAlgebraic,
+  moveToUCI,
+  parseAlgebraic,
+  stateToFEN,
+} from "../app/lib/chessEngine";
+
+// SAN of a move given in UCI, in the position the FEN sets up
+function toSAN(fen: string, uci: string) {
+  const state = createStateFromFEN(fen);
+  const move = generateLegalMoves(state).find(m => moveToUCI(m) === uci);
+  if (!move) throw new Error(`${uci} is not legal here`);
+  return moveToAlgebraic(move, state.board);
+}
+
+function parseUCI(fen: string, san: string) {
+  const move = parseAlgebraic(san, createStateFromFEN(fen));
+  return move && moveToUCI(move);
+}
+
+describe("Chess Notation", function () {
+  it("Should disambiguate by file, then rank, then both", function () {
+    const knights = "4k3/8/8/8/8/5N2/8/1N2K3 w - - 0 1";
+    const rooks = "7k/8/8/8/8/4R3/8/K3R3 w - - 0 1";
+    const queens = "8/8/1k6/8/4Q2Q/8/8/K6Q w - - 0 1";
+
+    expect(toSAN(knights, "b1d2")).to.equal("Nbd2");
+    expect(toSAN(knights, "f3d2")).to.equal("Nfd2");
+    expect(toSAN(rooks, "e1e2")).to.equal("R1e2");
+    expect(toSAN(rooks, "e3e2")).to.equal("R3e2");
+    expect(toSAN(queens, "h4e1")).to.equal("Qh4e1");
+    expect(toSAN(knights, "f3h4")).to.equal("Nh4");
+  });
+
+  it("Should parse disambiguated moves and reject ambiguous ones", function () {
+    const knights = "4k3/8/8/8/8/5N2/8/1N2K3 w - - 0 1";
+    const rooks = "7k/8/8/8/8/4R3/8/K3R3 w - - 0 1";
+    const queens = "8/8/1k6/8/4Q2Q/8/8/K6Q w - - 0 1";
+
+    expect(parseUCI(knights, "Nbd2")).to.equal("b1d2");
+    expect(parseUCI(knights, "Nd2")).to.equal(null);
+    expect(parseUCI(rooks, "R1e2")).to.equal("e1e2");
+    expect(parseUCI(rooks, "Re2")).to.equal(null);
+    expect(parseUCI(queens, "Qh4e1")).to.equal("h4e1");
+    expect(parseUCI(queens, "Qhe1")).to.equal(null);
+  });
+
+  it("Should write and read capturing promotions", function () {
+    const fen = "3rk3/4P3/8/8/8/8/8/4K3 w - - 0 1";
+
+    expect(toSAN(fen, "e7d8q")).to.equal("exd8=Q+");
+    expect(toSAN(fen, "e7d8n")).to.equal("exd8=N");
+    expect(parseUCI(fen, "exd8=Q+")).to.equal("e7d8q");
+    expect(parseUCI(fen, "exd8N")).to.equal("e7d8n");
+    expect(parseUCI(fen, "exd8")).to.equal(null);
+  });
+
+  it("Should mark checks and checkmates", function () {
+    let state = createInitialState();
+    for (const san of ["f3", "e5", "g4"]) state = makeMove(state, parseAlgebraic(san, state)!);
+    const mate = parseAlgebraic("Qh4", state)!;
+
+    expect(moveToAlgebraic(mate, state.board)).to.equal("Qh4#");
+    expect(toSAN("4k3/8/8/8/8/8/8/R3K3 w - - 0 1", "a1a8")).to.equal("Ra8+");
+    expect(parseUCI("4k3/8/8/8/8/8/8/R3K3 w - - 0 1", "Ra8+!?")).to.equal("a1a8");
+  });
+
+  it("Should round trip FEN", function () {
+    const fens = [
+      "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1",
+      "rnbqkbnr/ppp1pppp/8/3pP3/8/8/PPPP1PPP/RNBQKBNR w KQkq d6 0 3",
+      "r3k2r/8/8/8/8/8/8/R3K2R b Kq - 13 40",
+      "8/8/8/8/8/8/8/k6K w - - 99 120",
+    ];
+
+    for (const fen of fens) {
+      expect(stateToFEN(createStateFromFEN(fen))).to.equal(fen);
+    }
+  });
+});
@@ -0,0 +1,92 @@
+import { expect } from "chai";
+import { createInitialState, makeMove, moveToUCI, parseAlgebraic, stateToFEN } from "../app/lib/chessEngine";
+import { exportPGN, parsePGN, writePGN } from "../app/lib/chessPGN";
+
+const ITALIAN = "1. e4 e5 2. Nf3 Nc6 3. Bc4 Bc5";
+
+function playSAN(sans: string[]) {
+  let state = createInitialState();
+  for (const san of sans) {
+    const move = parseAlgebraic(san, state);
+    if (!move) throw new Error(`${san} is not legal here`);
+    state = makeMove(state, move);
+  }
+  return state;
+}
+
+describe("Chess PGN", function () {
+  it("Should castle with both O-O and 0-0", function () {
+    const [letters] = parsePGN(`${ITALIAN} 4. O-O Nf6 *`);
+    const [zeros] = parsePGN(`${ITALIAN} 4. 0-0 Nf6 *`);
+
+    expect(zeros.moves[6].san).to.equal("O-O");
+    expect(moveToUCI(zeros.moves[6].move)).to.equal("e1g1");
+    expect(stateToFEN(zeros.state)).to.equal(stateToFEN(letters.state));
+  });
+
+  it("Should start from the SetUp and FEN headers", function () {
+    const fen = "4k3/8/8/8/8/8/4P3/4K3 b - - 0 12";
+    const [game] = parsePGN(`[SetUp "1"]\n[FEN "${fen}"]\n\n12... Kd7 13. e4 *`);
+
+    expect(game.moves.map(m => m.san)).to.deep.equal(["Kd7", "e4"]);
+    expect(stateToFEN(game.state)).to.equal("8/3k4/8/8/4P3/8/8/4K3 b - e3 0 13");
+  });
+
+  it("Should read NAGs, suffix annotations and comments", function () {
+    const [game] = parsePGN("{Opening} 1. e4! $1 {Best by test} e5 $2 2. Nf3?! *");
+
+    expect(game.comment).to.equal("Opening");
+    expect(game.moves[0].nags).to.deep.equal([1]);
+    expect(game.moves[0].comment).to.equal("Best by test");
+    expect(game.moves[1].nags).to.deep.equal([2]);
+    expect(game.moves[2].nags).to.deep.equal([6]);
+  });
+
+  it("Should keep a comment at the start of a variation", function () {
+    const [game] = parsePGN("1. e4 ({Closed games} 1. d4 d5) 1... e5 *");
+    const [variation] = game.moves[0].variations!;
+
+    expect(variation[0].san).to.equal("d4");
+    expect(variation[0].commentBefore).to.equal("Closed games");
+    expect(variation[0].comment).to.equal(undefined);
+  });
+
+  it("Should read nested variations", function () {
+    const [game] = parsePGN("1. e4 e5 (1... c5 2. Nf3 (2. c3 d5) 2... d6) 2. Nf3 *");
+    const [sicilian] = game.moves[1].variations!;
+    const [alapin] = sicilian[1].variations!;
+
+    expect(game.moves.map(m => m.san)).to.deep.equal(["e4", "e5", "Nf3"]);
+    expect(sicilian.map(m => m.san)).to.deep.equal(["c5", "Nf3", "d6"]);
+    expect(alapin.map(m => m.san)).to.deep.equal(["c3", "d5"]);
+  });
+
+  it("Should parse its own export back to the same game", function () {
+    const state = playSAN(["e4", "e5", "Nf3", "Nc6", "Bc4", "Bc5", "O-O", "Nf6"]);
+    const pgn = exportPGN(state, {
+      headers: { White: "Alice", Black: "Bob" },
+      annotations: {
+        2: { comment: "Develops", nags: [1] },
+        3: { variations: [[parseAlgebraic("d6", playSAN(["e4", "e5", "Nf3"]))!]] },
+      },
+    });
+
+    const [game] = parsePGN(pgn);
+
+    expect(game.headers.White).to.equal("Alice");
+    expect(game.result).to.equal("*");
+    expect(game.moves.map(m => m.san)).to.deep.equal(["e4", "e5", "Nf3", "Nc6", "Bc4", "Bc5", "O-O", "Nf6"]);
+    expect(game.moves[2].comment).to.equal("Develops");
+    expect(game.moves[2].nags).to.deep.equal([1]);
+    expect(game.moves[3].variations![0].map(m => m.san)).to.deep.equal(["d6"]);
+    expect(stateToFEN(game.state)).to.equal(stateToFEN(state));
+  });
+
+  it("Should write a comment at the start of a variation back out", function () {
+    const [game] = parsePGN("1. e4 e5 ({Sicilian} 1... c5) 2. Nf3 *");
+    const pgn = writePGN(game);
+
+    expect(pgn).to.contain("({Sicilian} 1... c5)");
+    expect(parsePGN(pgn)[0].moves[1].variations![0][0].commentBefore).to.equal("Sicilian");
+  });
+});
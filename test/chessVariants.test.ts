@@ -0,0 +1,132 @@
+import { expect } from "chai";
+import {
+  GameStatus,
+  Piece,
+  STANDARD_CHESS960_INDEX,
+  algebraicToSquare,
+  createInitialState,
+  createStateFromFEN,
+  generateLegalMoves,
+  getChess960BackRank,
+  makeMove,
+  stateToFEN,
+  uciToMove,
+} from "../app/lib/chessEngine";
+import { getVariantFromPGN, getVariantFromUCI } from "../app/lib/chessVariants";
+
+function play(fen: string, uci: string, variant?: Parameters<typeof createStateFromFEN>[1]) {
+  const state = createStateFromFEN(fen, variant);
+  const move = uciToMove(uci, state);
+  if (!move) throw new Error(`${uci} is not legal here`);
+  return makeMove(state, move);
+}
+
+function castlingMoves(fen: string) {
+  return generateLegalMoves(createStateFromFEN(fen)).filter(move => move.isCastling);
+}
+
+describe("Chess Variants", function () {
+  it("Should generate every Chess960 back rank with bishops on opposite colours and the king between the rooks", function () {
+    const ranks = new Set<string>();
+
+    for (let index = 0; index < 960; index++) {
+      const rank = getChess960BackRank(index);
+      const bishops = rank.flatMap((piece, file) => piece === Piece.WBishop ? [file] : []);
+      const rooks = rank.flatMap((piece, file) => piece === Piece.WRook ? [file] : []);
+      const king = rank.indexOf(Piece.WKing);
+
+      expect(bishops).to.have.length(2);
+      expect(bishops[0] % 2).to.not.equal(bishops[1] % 2);
+      expect(rooks).to.have.length(2);
+      expect(king).to.be.greaterThan(rooks[0]).and.lessThan(rooks[1]);
+      expect(rank.filter(piece => piece === Piece.WKnight)).to.have.length(2);
+      expect(rank.filter(piece => piece === Piece.WQueen)).to.have.length(1);
+      ranks.add(rank.join(","));
+    }
+
+    expect(ranks.size).to.equal(960);
+    expect(() => getChess960BackRank(960)).to.throw("Invalid Chess960 position number");
+  });
+
+  it("Should number the standard start position 518", function () {
+    const state = createInitialState("chess960", STANDARD_CHESS960_INDEX);
+
+    expect(stateToFEN(state)).to.equal(stateToFEN(createInitialState()));
+    expect(stateToFEN(state, "shredder")).to.equal("rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w HAha - 0 1");
+  });
+
+  it("Should round trip Shredder-FEN and X-FEN castling rights", function () {
+    // The queenside rook on b1 is not the outermost one, so X-FEN names its file too
+    const xfen = "1r2k2r/8/8/8/8/8/8/RR2K2R w KBk - 0 1";
+    const shredder = "1r2k2r/8/8/8/8/8/8/RR2K2R w HBh - 0 1";
+
+    for (const fen of [xfen, shredder]) {
+      const state = createStateFromFEN(fen);
+
+      expect(state.variant).to.equal("chess960");
+      expect(state.castlingFiles).to.include({ whiteKingside: 7, whiteQueenside: 1, blackKingside: 7 });
+      expect(state.castlingRights.blackQueenside).to.equal(false);
+      expect(stateToFEN(state)).to.equal(xfen);
+      expect(stateToFEN(state, "shredder")).to.equal(shredder);
+    }
+
+    for (let index = 0; index < 960; index += 97) {
+      const state = createInitialState("chess960", index);
+      const fromShredder = createStateFromFEN(stateToFEN(state, "shredder"));
+
+      expect(fromShredder.castlingFiles).to.deep.equal(state.castlingFiles);
+      expect(stateToFEN(fromShredder)).to.equal(stateToFEN(state));
+    }
+  });
+
+  it("Should castle in Chess960 by moving the king onto its rook", function () {
+    const state = play("7k/8/8/8/8/8/8/1K5R w H - 0 1", "b1h1");
+
+    expect(state.board[algebraicToSquare("g1")]).to.equal(Piece.WKing);
+    expect(state.board[algebraicToSquare("f1")]).to.equal(Piece.WRook);
+    expect(state.board[algebraicToSquare("h1")]).to.equal(Piece.Empty);
+    expect(state.castlingRights.whiteKingside).to.equal(false);
+  });
+
+  it("Should not castle in Chess960 out of, through or into an attacked square", function () {
+    expect(castlingMoves("7k/8/8/8/8/8/8/1K5R w H - 0 1")).to.have.length(1);
+    // Out of check on b1, through d1 on the way to g1, and into g1
+    expect(castlingMoves("1r5k/8/8/8/8/8/8/1K5R w H - 0 1")).to.have.length(0);
+    expect(castlingMoves("3r3k/8/8/8/8/8/8/1K5R w H - 0 1")).to.have.length(0);
+    expect(castlingMoves("6rk/8/8/8/8/8/8/1K5R w H - 0 1")).to.have.length(0);
+  });
+
+  it("Should win King of the Hill by reaching a centre square", function () {
+    const fen = "4k3/8/8/8/8/3K4/8/8 w - - 0 1";
+
+    expect(createStateFromFEN(fen, "kingOfTheHill").status).to.equal(GameStatus.Active);
+    expect(play(fen, "d3d4", "kingOfTheHill").status).to.equal(GameStatus.VariantWin);
+    expect(play(fen, "d3c4", "kingOfTheHill").status).to.equal(GameStatus.Active);
+  });
+
+  it("Should win Three-check with the third check", function () {
+    const state = play("4k3/8/8/8/8/8/8/4K2R w - - 0 1 +2+0", "h1h8");
+
+    expect(state.variant).to.equal("threeCheck");
+    expect(state.checksGiven).to.deep.equal({ white: 3, black: 0 });
+    expect(state.status).to.equal(GameStatus.VariantWin);
+    expect(stateToFEN(state)).to.equal("4k2R/8/8/8/8/8/8/4K3 b - - 0+3 1 1");
+  });
+
+  it("Should read both Three-check FEN check counts", function () {
+    const remaining = createStateFromFEN("4k3/8/8/8/8/8/8/4K2R w - - 1+3 0 1");
+    const given = createStateFromFEN("4k3/8/8/8/8/8/8/4K2R w - - 0 1 +2+0");
+
+    expect(remaining.checksGiven).to.deep.equal({ white: 2, black: 0 });
+    expect(given.checksGiven).to.deep.equal(remaining.checksGiven);
+    expect(stateToFEN(createStateFromFEN(stateToFEN(given)))).to.equal(stateToFEN(given));
+  });
+
+  it("Should name variants as PGN tags and UCI options do", function () {
+    expect(getVariantFromPGN(undefined)).to.equal("standard");
+    expect(getVariantFromPGN("Fischerandom")).to.equal("chess960");
+    expect(getVariantFromPGN("King of the Hill")).to.equal("kingOfTheHill");
+    expect(getVariantFromUCI("3check")).to.equal("threeCheck");
+    expect(getVariantFromPGN("Atomic")).to.equal(null);
+  });
+});
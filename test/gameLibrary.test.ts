@@ -0,0 +1,111 @@
+import { expect } from "chai";
+import { GameState, Piece, algebraicToSquare, createInitialState, makeMove, stateToFEN, uciToMove } from "../app/lib/chessEngine";
+import {
+  LibraryGame,
+  getLibraryOutcome,
+  matchesLibraryFilter,
+  restoreGameState,
+  toLibraryGame,
+} from "../app/lib/gameLibrary";
+
+const NOW = 1_700_000_000_000;
+
+function playUCI(state: GameState, moves: string[]) {
+  for (const uci of moves) {
+    const move = uciToMove(uci, state);
+    if (!move) throw new Error(`${uci} is not legal here`);
+    state = makeMove(state, move);
+  }
+  return state;
+}
+
+function libraryGame(overrides: Partial<LibraryGame>): LibraryGame {
+  return {
+    id: "game-1",
+    mode: "ai",
+    opponent: "Stockfish Level 3",
+    playerColor: "white",
+    moves: [],
+    result: "*",
+    createdAt: NOW,
+    updatedAt: NOW,
+    ...overrides,
+  };
+}
+
+describe("Game Library", function () {
+  it("Should restore a saved game to the same position", function () {
+    const state = playUCI(createInitialState(), ["e2e4", "e7e5", "g1f3", "b8c6", "f1c4", "g8f6", "e1g1"]);
+
+    const game = toLibraryGame("game-1", state, { mode: "local", opponent: "Pass and play", playerColor: "white" }, NOW, NOW + 1);
+    const restored = restoreGameState(game);
+
+    expect(game).to.include({ result: "*", createdAt: NOW, updatedAt: NOW + 1 });
+    expect(game.moves).to.deep.equal(["e2e4", "e7e5", "g1f3", "b8c6", "f1c4", "g8f6", "e1g1"]);
+    expect(stateToFEN(restored)).to.equal(stateToFEN(state));
+    expect(restored.zobristKey).to.equal(state.zobristKey);
+    expect(restored.positionHistory).to.deep.equal(state.positionHistory);
+  });
+
+  it("Should keep a result decided off the board", function () {
+    const state = playUCI(createInitialState(), ["e2e4"]);
+
+    const game = toLibraryGame("game-1", state, {
+      mode: "ai",
+      opponent: "Stockfish Level 3",
+      playerColor: "black",
+      result: "1-0",
+      termination: "time forfeit",
+    }, NOW);
+
+    expect(game).to.include({ result: "1-0", termination: "time forfeit" });
+    expect(getLibraryOutcome(game)).to.equal("loss");
+  });
+
+  it("Should restore a Chess960 game from its start position, castling included", function () {
+    const start = createInitialState("chess960", 0);
+    // Clear the queen and knights from between the king on g1 and the rook on f1, then castle queenside
+    const state = playUCI(start, ["d1c3", "d8c6", "e1f3", "e8f6", "d2d4", "d7d5", "c1d2", "c8d7", "g1f1"]);
+
+    const game = toLibraryGame("game-1", state, {
+      mode: "local",
+      opponent: "Pass and play",
+      playerColor: "white",
+      variant: "chess960",
+      startFEN: start.startFEN,
+    }, NOW);
+    const restored = restoreGameState(game);
+
+    expect(game.startFEN).to.equal("bbqnnrkr/pppppppp/8/8/8/8/PPPPPPPP/BBQNNRKR w KQkq - 0 1");
+    expect(restored.variant).to.equal("chess960");
+    expect(restored.castlingFiles).to.deep.equal(start.castlingFiles);
+    expect(restored.board[algebraicToSquare("c1")]).to.equal(Piece.WKing);
+    expect(restored.board[algebraicToSquare("d1")]).to.equal(Piece.WRook);
+    expect(stateToFEN(restored)).to.equal(stateToFEN(state));
+  });
+
+  it("Should name the ply of an illegal saved move", function () {
+    expect(() => restoreGameState(libraryGame({ moves: ["e2e4", "e7e4"] }))).to.throw("illegal move e7e4 at ply 2");
+  });
+
+  it("Should score results from the player's side", function () {
+    expect(getLibraryOutcome(libraryGame({ result: "1-0" }))).to.equal("win");
+    expect(getLibraryOutcome(libraryGame({ result: "0-1" }))).to.equal("loss");
+    expect(getLibraryOutcome(libraryGame({ result: "0-1", playerColor: "black" }))).to.equal("win");
+    expect(getLibraryOutcome(libraryGame({ result: "1/2-1/2" }))).to.equal("draw");
+    expect(getLibraryOutcome(libraryGame({ result: "*" }))).to.equal("unfinished");
+  });
+
+  it("Should filter by mode, outcome, opponent and date", function () {
+    const game = libraryGame({ mode: "online", opponent: "0xAbC123", result: "0-1", playerColor: "black" });
+
+    expect(matchesLibraryFilter(game, {})).to.equal(true);
+    expect(matchesLibraryFilter(game, { mode: "online", outcome: "win", opponent: "abc" })).to.equal(true);
+    expect(matchesLibraryFilter(game, { mode: "ai" })).to.equal(false);
+    expect(matchesLibraryFilter(game, { outcome: "loss" })).to.equal(false);
+    expect(matchesLibraryFilter(game, { opponent: "def" })).to.equal(false);
+    expect(matchesLibraryFilter(game, { from: NOW, to: NOW })).to.equal(true);
+    expect(matchesLibraryFilter(game, { from: NOW + 1 })).to.equal(false);
+    expect(matchesLibraryFilter(game, { to: NOW - 1 })).to.equal(false);
+  });
+});
@@ -0,0 +1,100 @@
+import { expect } from "chai";
+import { algebraicToSquare, createInitialState } from "../app/lib/chessEngine";
+import {
+  ChainMove,
+  REORG_DEPTH,
+  applyLogBatch,
+  createGameSync,
+  findBlockAtTime,
+  getSyncRange,
+  matchesChainBoard,
+  replayChainMoves,
+  splitBlockRange,
+} from "../app/lib/gameSync";
+
+function chainMove(uci: string, blockNumber: number, logIndex = 0): ChainMove {
+  return {
+    blockNumber: BigInt(blockNumber),
+    logIndex,
+    transactionHash: `0x${blockNumber.toString(16)}${logIndex}`,
+    player: "0x0000000000000000000000000000000000000001",
+    from: algebraicToSquare(uci.slice(0, 2)),
+    to: algebraicToSquare(uci.slice(2, 4)),
+  };
+}
+
+describe("Game Sync", function () {
+  it("Should start the first sync from the game's creation block", function () {
+    const sync = createGameSync(7, BigInt(1000));
+
+    expect(getSyncRange(sync, BigInt(1500))).to.deep.equal({ fromBlock: BigInt(1000), toBlock: BigInt(1500) });
+  });
+
+  it("Should re-check the unconfirmed tail but not blocks before the game", function () {
+    const synced = { ...createGameSync(7, BigInt(1000)), syncedBlock: BigInt(1100) };
+    const young = { ...createGameSync(7, BigInt(1000)), syncedBlock: BigInt(1005) };
+
+    expect(getSyncRange(synced, BigInt(1200)).fromBlock).to.equal(BigInt(1100) - REORG_DEPTH + BigInt(1));
+    expect(getSyncRange(young, BigInt(1200)).fromBlock).to.equal(BigInt(1000));
+  });
+
+  it("Should split a range into chunks that meet at their boundaries", function () {
+    const chunks = splitBlockRange(BigInt(100), BigInt(10100), BigInt(5000));
+
+    expect(chunks).to.deep.equal([
+      { fromBlock: BigInt(100), toBlock: BigInt(5099) },
+      { fromBlock: BigInt(5100), toBlock: BigInt(10099) },
+      { fromBlock: BigInt(10100), toBlock: BigInt(10100) },
+    ]);
+  });
+
+  it("Should keep moves on both sides of a chunk boundary in chain order", function () {
+    const [first, second] = splitBlockRange(BigInt(0), BigInt(9), BigInt(5));
+    let sync = createGameSync(1);
+
+    sync = applyLogBatch(sync, { ...first, moves: [chainMove("e2e4", 2), chainMove("e7e5", 4)], ends: [] });
+    sync = applyLogBatch(sync, { ...second, moves: [chainMove("g1f3", 5)], ends: [] });
+
+    expect(sync.syncedBlock).to.equal(BigInt(9));
+    expect(sync.moves.map(move => move.blockNumber)).to.deep.equal([BigInt(2), BigInt(4), BigInt(5)]);
+  });
+
+  it("Should replace a reorged log in the tail", function () {
+    let sync = createGameSync(1);
+    sync = applyLogBatch(sync, {
+      fromBlock: BigInt(0),
+      toBlock: BigInt(20),
+      moves: [chainMove("e2e4", 5), chainMove("e7e5", 19)],
+      ends: [],
+    });
+
+    const range = getSyncRange(sync, BigInt(25));
+    sync = applyLogBatch(sync, { ...range, moves: [chainMove("c7c5", 21)], ends: [] });
+
+    expect(sync.moves.map(move => move.blockNumber)).to.deep.equal([BigInt(5), BigInt(21)]);
+    expect(replayChainMoves(sync.moves).state.moveHistory.map(move => move.to))
+      .to.deep.equal([algebraicToSquare("e4"), algebraicToSquare("c5")]);
+  });
+
+  it("Should find the first block at a timestamp", async function () {
+    const times = [0, 2, 4, 4, 4, 6, 8].map(BigInt);
+    const getBlockTime = async (block: bigint) => times[Number(block)];
+
+    expect(await findBlockAtTime(BigInt(4), BigInt(6), getBlockTime)).to.equal(BigInt(2));
+    expect(await findBlockAtTime(BigInt(5), BigInt(6), getBlockTime)).to.equal(BigInt(5));
+  });
+
+  it("Should not match a contract board that a replay did not reach", function () {
+    const { state } = replayChainMoves([chainMove("e2e4", 1), chainMove("e7e5", 2)]);
+    const chainBoard = replayChainMoves([chainMove("d2d4", 1), chainMove("e7e5", 2)]).state.board;
+
+    expect(matchesChainBoard(state, [...state.board], 2)).to.equal(true);
+    expect(matchesChainBoard(state, chainBoard, 2)).to.equal(false);
+    expect(matchesChainBoard(state, [...state.board], 3)).to.equal(false);
+  });
+
+  it("Should reject a replay with a move that is not legal", function () {
+    expect(() => replayChainMoves([chainMove("e2e5", 1)])).to.throw("not legal");
+    expect(replayChainMoves([]).state.board).to.deep.equal(createInitialState().board);
+  });
+});
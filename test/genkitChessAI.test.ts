@@ -0,0 +1,73 @@
+import { expect } from "chai";
+import { NextRequest } from "next/server";
+import { POST } from "../app/api/ai-move/route";
+import { createInitialState, generateLegalMoves, moveToUCI } from "../app/lib/chessEngine";
+import { createMockModel, getGeminiMove, getMoveModel, setMoveModel } from "../app/lib/genkitChessAI";
+
+describe("AI Move Model", function () {
+  afterEach(function () {
+    setMoveModel(undefined);
+    delete process.env.AI_MOVE_MODEL;
+  });
+
+  it("Should play the mock model's move", async function () {
+    const state = createInitialState();
+
+    const result = await getGeminiMove(state, "medium", createMockModel());
+
+    expect(result.model).to.equal("mock");
+    expect(result.attempts).to.equal(1);
+    expect(moveToUCI(result.move)).to.equal(moveToUCI(generateLegalMoves(state)[0]));
+  });
+
+  it("Should parse a move wrapped in extra text", async function () {
+    const model = createMockModel(['Here is my move: {"from": 52, "to": 36, "reasoning": "Take the centre"}']);
+
+    const result = await getGeminiMove(createInitialState(), "medium", model);
+
+    expect(moveToUCI(result.move)).to.equal("e2e4");
+    expect(result.reasoning).to.equal("Take the centre");
+  });
+
+  it("Should retry after an illegal move", async function () {
+    const model = createMockModel(['{"from": 52, "to": 28}', '{"from": 62, "to": 45}']);
+
+    const result = await getGeminiMove(createInitialState(), "medium", model);
+
+    expect(result.attempts).to.equal(2);
+    expect(moveToUCI(result.move)).to.equal("g1f3");
+  });
+
+  it("Should fail when the model never answers with a legal move", async function () {
+    let error: unknown;
+    try {
+      await getGeminiMove(createInitialState(), "medium", createMockModel(["not json"]));
+    } catch (err) {
+      error = err;
+    }
+    expect(error).to.be.instanceOf(Error);
+  });
+
+  it("Should use the mock model when AI_MOVE_MODEL is mock", function () {
+    process.env.AI_MOVE_MODEL = "mock";
+
+    expect(getMoveModel()?.name).to.equal("mock");
+  });
+
+  it("Should answer the AI move route with the mock model's move", async function () {
+    process.env.AI_MOVE_MODEL = "mock";
+    const state = createInitialState();
+    const request = new Request("http://localhost/api/ai-move", {
+      method: "POST",
+      body: JSON.stringify({ gameState: state, rating: 1200 }),
+    });
+
+    const response = await POST(request as NextRequest);
+    const data = await response.json();
+
+    const expected = generateLegalMoves(state)[0];
+    expect(response.status).to.equal(200);
+    expect(data.source).to.equal("gemini");
+    expect(data.move).to.deep.include({ from: expected.from, to: expected.to });
+  });
+});
@@ -0,0 +1,78 @@
+import { expect } from "chai";
+import { ChessPuzzle } from "../app/lib/puzzleData";
+import {
+  createGlickoRating,
+  createPuzzleRatingProfile,
+  mergeChainRatings,
+  recordPuzzleAttempt,
+  updateGlickoRating,
+} from "../app/lib/puzzleRating";
+
+const puzzle: ChessPuzzle = {
+  id: 7,
+  fen: "6k1/5ppp/8/8/8/8/5PPP/3R2K1 w - - 0 1",
+  moves: ["d1d8"],
+  theme: 1,
+  difficulty: 0,
+  rating: 1200,
+  description: "Back rank mate",
+};
+
+describe("Puzzle Rating", function () {
+  it("Should match the example in Glickman's Glicko-2 paper", function () {
+    const player = { rating: 1500, deviation: 200, volatility: 0.06 };
+
+    const rated = updateGlickoRating(player, [
+      { opponent: createGlickoRating(1400, 30), score: 1 },
+      { opponent: createGlickoRating(1550, 100), score: 0 },
+      { opponent: createGlickoRating(1700, 300), score: 0 },
+    ]);
+
+    expect(rated.rating).to.be.closeTo(1464.06, 0.01);
+    expect(rated.deviation).to.be.closeTo(151.52, 0.01);
+    expect(rated.volatility).to.be.closeTo(0.05999, 0.00001);
+  });
+
+  it("Should only widen the deviation in a period without games", function () {
+    const player = { rating: 1500, deviation: 200, volatility: 0.06 };
+
+    const rated = updateGlickoRating(player, []);
+
+    expect(rated.rating).to.equal(1500);
+    expect(rated.deviation).to.be.closeTo(Math.sqrt(200 * 200 + (0.06 * 173.7178) ** 2), 0.000001);
+    expect(updateGlickoRating(createGlickoRating(), []).deviation).to.equal(350);
+  });
+
+  it("Should move the player's and the puzzle's ratings in opposite directions", function () {
+    const solved = recordPuzzleAttempt(createPuzzleRatingProfile(), puzzle, true);
+    const failed = recordPuzzleAttempt(createPuzzleRatingProfile(), puzzle, false);
+
+    expect(solved.ratingChange).to.be.greaterThan(0);
+    expect(solved.themeRatingChange).to.equal(solved.ratingChange);
+    expect(solved.puzzleRatingChange).to.be.lessThan(0);
+    expect(failed.ratingChange).to.be.lessThan(0);
+    expect(failed.puzzleRatingChange).to.be.greaterThan(0);
+    expect(solved.profile.puzzles[puzzle.id].rating).to.equal(1200 + solved.puzzleRatingChange);
+    expect(solved.profile.attempts).to.equal(1);
+  });
+
+  it("Should seed only uncertain local ratings from the chain", function () {
+    const profile = createPuzzleRatingProfile();
+
+    const merged = mergeChainRatings(profile, { totalAttempts: 12, rating: 1720, themeRatings: [undefined, 1610, 1500] });
+
+    expect(merged.overall).to.deep.equal({ rating: 1720, deviation: 200, volatility: 0.06 });
+    expect(merged.themes[0]).to.equal(profile.themes[0]);
+    expect(merged.themes[1]).to.deep.equal({ rating: 1610, deviation: 200, volatility: 0.06 });
+    // The contract's default rating carries no information
+    expect(merged.themes[2]).to.equal(profile.themes[2]);
+  });
+
+  it("Should keep the profile when the chain has nothing to add", function () {
+    const profile = createPuzzleRatingProfile();
+    const settled = { ...profile, overall: createGlickoRating(1650, 120) };
+
+    expect(mergeChainRatings(profile, { totalAttempts: 0, rating: 1720 })).to.equal(profile);
+    expect(mergeChainRatings(settled, { totalAttempts: 12, rating: 1720 })).to.equal(settled);
+  });
+});
@@ -0,0 +1,47 @@
+import { expect } from "chai";
+import { Move, generateLegalMoves, moveToUCI } from "../app/lib/chessEngine";
+import { ChessPuzzle } from "../app/lib/puzzleData";
+import { PuzzleSession, createPuzzleSession, submitPuzzleMove } from "../app/lib/puzzleRuntime";
+
+function findMove(session: PuzzleSession, uci: string): Move {
+  const move = generateLegalMoves(session.state).find(m => moveToUCI(m) === uci);
+  if (!move) throw new Error(`${uci} is not legal here`);
+  return move;
+}
+
+function puzzle(fen: string, moves: string[]): ChessPuzzle {
+  return { id: 1, fen, moves, theme: 0, difficulty: 0, rating: 1000, description: "Test puzzle" };
+}
+
+describe("Puzzle Runtime", function () {
+  const search = { maxDepth: 3, timeLimitMs: 2000 };
+
+  it("Should solve the stored line", async function () {
+    const session = createPuzzleSession(puzzle("6k1/5ppp/8/8/8/8/8/R5K1 w - - 0 1", ["a1a8"]));
+
+    const result = await submitPuzzleMove(session, findMove(session, "a1a8"), search);
+
+    expect(result.verdict).to.equal("correct");
+    expect(result.session.status).to.equal("solved");
+  });
+
+  it("Should solve an alternative line that ends as well as the stored one", async function () {
+    const session = createPuzzleSession(puzzle("4k3/8/8/8/8/8/8/R3K3 w - - 0 1", ["a1a7"]));
+
+    const result = await submitPuzzleMove(session, findMove(session, "a1a6"), { ...search, tolerance: 200 });
+
+    expect(result.verdict).to.equal("alternative");
+    expect(result.session.status).to.equal("solved");
+  });
+
+  it("Should keep playing an alternative line that has not reached the stored mate", async function () {
+    const session = createPuzzleSession(puzzle("6k1/5ppp/8/8/8/8/8/R5K1 w - - 0 1", ["a1a8"]));
+
+    // A tolerance this wide accepts any move, but only mate matches the stored line's end
+    const result = await submitPuzzleMove(session, findMove(session, "g1f1"), { ...search, tolerance: 1000000 });
+
+    expect(result.verdict).to.equal("alternative");
+    expect(result.session.status).to.equal("playing");
+    expect(result.awaitingReply).to.equal(true);
+  });
+});
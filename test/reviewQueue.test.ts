@@ -0,0 +1,132 @@
+import { expect } from "chai";
+import { Lesson, SkillCategory } from "../app/lib/lessonData";
+import { ChessPuzzle } from "../app/lib/puzzleData";
+import {
+  ReviewItem,
+  addLessonReviews,
+  createReviewQueue,
+  getDueItems,
+  lessonExamplePuzzle,
+  lessonReviewKey,
+  puzzleReviewKey,
+  recordPuzzleOutcome,
+  scheduleReview,
+} from "../app/lib/reviewQueue";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = 1_700_000_000_000;
+
+const puzzle: ChessPuzzle = {
+  id: 7,
+  fen: "6k1/5ppp/8/8/8/8/5PPP/3R2K1 w - - 0 1",
+  moves: ["d1d8"],
+  theme: 1,
+  difficulty: 0,
+  rating: 1200,
+  description: "Back rank mate",
+};
+
+const lesson: Lesson = {
+  id: 4,
+  title: "Italian Game",
+  description: "Develop towards the centre",
+  category: SkillCategory.Opening,
+  difficulty: 2,
+  skillPointsReward: 10,
+  estimatedMinutes: 5,
+  content: {
+    introduction: "",
+    keyPoints: [],
+    examples: [
+      "1.e4 e5 2.Nf3 Nc6 3.Bc4 - Eyes f7",
+      "Control the centre with pawns and pieces",
+      "1.e4 e5 2.Qh5? - Too early",
+    ],
+  },
+  isActive: true,
+};
+
+function newItem(): ReviewItem {
+  return {
+    key: puzzleReviewKey(puzzle),
+    puzzle,
+    easeFactor: 2.5,
+    interval: 0,
+    repetitions: 0,
+    lapses: 0,
+    dueAt: NOW,
+    lastReviewedAt: null,
+  };
+}
+
+const cleanSolve = { solved: true, mistakes: 0, hintsUsed: 0, timeMs: 45_000 };
+const miss = { solved: false, mistakes: 1, hintsUsed: 0, timeMs: 20_000 };
+
+describe("Review Queue", function () {
+  it("Should space passing reviews 1 day, 6 days, then by the ease factor", function () {
+    let item = newItem();
+    const intervals = [];
+    for (let i = 0; i < 4; i++) {
+      item = scheduleReview(item, 4, NOW);
+      intervals.push(item.interval);
+    }
+
+    // A grade of 4 leaves the ease factor at 2.5
+    expect(intervals).to.deep.equal([1, 6, 15, 38]);
+    expect(item.easeFactor).to.equal(2.5);
+    expect(item.dueAt).to.equal(NOW + 38 * DAY_MS);
+  });
+
+  it("Should start a failed item over and count the lapse", function () {
+    let item = newItem();
+    for (let i = 0; i < 3; i++) item = scheduleReview(item, 5, NOW);
+
+    const failed = scheduleReview(item, 1, NOW);
+
+    expect(failed).to.include({ interval: 1, repetitions: 0, lapses: 1, dueAt: NOW + DAY_MS });
+    expect(failed.easeFactor).to.be.closeTo(item.easeFactor - 0.54, 0.000001);
+    expect(scheduleReview(failed, 4, NOW).interval).to.equal(1);
+  });
+
+  it("Should not let the ease factor fall below 1.3", function () {
+    let item = newItem();
+    for (let i = 0; i < 10; i++) item = scheduleReview(item, 0, NOW);
+
+    expect(item.easeFactor).to.equal(1.3);
+    expect(item.lapses).to.equal(10);
+  });
+
+  it("Should only queue puzzles that were not solved cleanly", function () {
+    const queue = createReviewQueue();
+
+    const solved = recordPuzzleOutcome(queue, puzzle, cleanSolve, NOW);
+    const missed = recordPuzzleOutcome(queue, puzzle, miss, NOW);
+
+    expect(solved).to.equal(queue);
+    expect(missed.items[puzzleReviewKey(puzzle)]).to.include({ repetitions: 0, lapses: 1, dueAt: NOW + DAY_MS });
+    // Once queued, a clean solve reschedules it instead of being ignored
+    const reviewed = recordPuzzleOutcome(missed, puzzle, cleanSolve, NOW + DAY_MS);
+    expect(reviewed.items[puzzleReviewKey(puzzle)]).to.include({ repetitions: 1, lastReviewedAt: NOW + DAY_MS });
+  });
+
+  it("Should turn a lesson example into the position before its last move", function () {
+    const example = lessonExamplePuzzle(lesson, 0)!;
+
+    expect(example.fen).to.equal("r1bqkbnr/pppp1ppp/2n5/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R w KQkq - 2 3");
+    expect(example.moves).to.deep.equal(["f1c4"]);
+    expect(example.id).to.equal(-4001);
+    expect(example.theme).to.equal(3);
+    expect(example.description).to.equal("Italian Game: Eyes f7. White to move.");
+  });
+
+  it("Should skip prose examples and examples ending in a bad move", function () {
+    expect(lessonExamplePuzzle(lesson, 1)).to.equal(null);
+    expect(lessonExamplePuzzle(lesson, 2)).to.equal(null);
+    expect(lessonExamplePuzzle(lesson, 3)).to.equal(null);
+
+    const queue = addLessonReviews(createReviewQueue(), [lesson.id], [lesson], NOW);
+
+    expect(Object.keys(queue.items)).to.deep.equal([lessonReviewKey(lesson.id, 0)]);
+    expect(getDueItems(queue, NOW)).to.have.length(1);
+  });
+});
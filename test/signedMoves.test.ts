@@ -0,0 +1,240 @@
+import { expect } from "chai";
+import { Hex, zeroHash } from "viem";
+import { PrivateKeyAccount, privateKeyToAccount } from "viem/accounts";
+import { GameState, algebraicToSquare, createInitialState } from "../app/lib/chessEngine";
+import {
+  RESULT_OFFER_TTL,
+  ResultOffer,
+  SIGNED_GAME_TYPES,
+  SignedMove,
+  SignedTranscript,
+  addResultSignature,
+  appendSignedMove,
+  createResultOffer,
+  createSignedTranscript,
+  extendsTranscript,
+  findConflictingMove,
+  getMoveMessage,
+  getPlayedMoves,
+  getResultMessage,
+  getSignedGameDomain,
+  hashChainMoves,
+  hashSignedMove,
+  isResultFinal,
+  prepareSignedMove,
+  rebaseTranscript,
+  verifyResultOffer,
+  verifyTranscript,
+} from "../app/lib/signedMoves";
+
+const white = privateKeyToAccount("0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d");
+const black = privateKeyToAccount("0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a");
+const stranger = privateKeyToAccount("0x7c852118294e51e653712a81e05800f419141751be58f605c371e15141b007a6");
+
+function newTranscript(): SignedTranscript {
+  return createSignedTranscript({
+    gameId: 3,
+    chainId: 84532,
+    verifyingContract: "0x5FbDB2315678afecb367f032d93F642f64180aa3",
+    white: white.address,
+    black: black.address,
+    startPly: 0,
+    startHash: zeroHash,
+  });
+}
+
+async function signMove(
+  transcript: SignedTranscript,
+  signer: PrivateKeyAccount,
+  uci: string,
+  overrides: { ply?: number; prevHash?: Hex } = {}
+): Promise<SignedMove> {
+  const unsigned = {
+    ...prepareSignedMove(transcript, algebraicToSquare(uci.slice(0, 2)), algebraicToSquare(uci.slice(2, 4))),
+    ...overrides,
+  };
+  const signature = await signer.signTypedData({
+    domain: getSignedGameDomain(transcript),
+    types: SIGNED_GAME_TYPES,
+    primaryType: "Move",
+    message: getMoveMessage(transcript, unsigned),
+  });
+  return { ...unsigned, signature };
+}
+
+// Sign and append moves alternately for white and black
+async function play(moves: string[], transcript = newTranscript(), state: GameState = createInitialState()) {
+  for (const uci of moves) {
+    const signer = transcript.moves.length % 2 === 0 ? white : black;
+    const next = await appendSignedMove(transcript, state, await signMove(transcript, signer, uci));
+    transcript = next.transcript;
+    state = next.state;
+  }
+  return { transcript, state };
+}
+
+// Hashes of a transcript's first moves as if they were played on-chain
+function chainHashes(transcript: SignedTranscript, moveCount: number) {
+  return hashChainMoves(transcript.gameId, transcript.moves.slice(0, moveCount));
+}
+
+async function signResult(transcript: SignedTranscript, offer: ResultOffer, signer: PrivateKeyAccount) {
+  return signer.signTypedData({
+    domain: getSignedGameDomain(transcript),
+    types: SIGNED_GAME_TYPES,
+    primaryType: "Result",
+    message: getResultMessage(transcript, offer),
+  });
+}
+
+describe("Signed Moves", function () {
+  it("Should append moves signed by the player to move", async function () {
+    const { transcript, state } = await play(["e2e4", "e7e5"]);
+
+    expect(transcript.moves.map(move => move.ply)).to.deep.equal([0, 1]);
+    expect(transcript.moves[1].prevHash).to.equal(hashSignedMove(transcript, transcript.moves[0]));
+    expect(state.moveHistory.length).to.equal(2);
+  });
+
+  it("Should reject a move signed by the wrong player", async function () {
+    const transcript = newTranscript();
+
+    for (const signer of [black, stranger]) {
+      const signed = await signMove(transcript, signer, "e2e4");
+      await expectRejection(appendSignedMove(transcript, createInitialState(), signed), "not signed by the player to move");
+    }
+  });
+
+  it("Should reject a move for the wrong ply or previous hash", async function () {
+    const { transcript, state } = await play(["e2e4"]);
+
+    const wrongPly = await signMove(transcript, black, "e7e5", { ply: 2 });
+    const wrongHash = await signMove(transcript, black, "e7e5", { prevHash: zeroHash });
+
+    await expectRejection(appendSignedMove(transcript, state, wrongPly), "is for ply 2, expected 1");
+    await expectRejection(appendSignedMove(transcript, state, wrongHash), "does not follow the transcript");
+  });
+
+  it("Should reject a move after the game ended", async function () {
+    const { transcript, state } = await play(["f2f3", "e7e5", "g2g4", "d8h4"]);
+
+    const afterMate = await signMove(transcript, white, "a2a3");
+
+    await expectRejection(appendSignedMove(transcript, state, afterMate), "after the game ended");
+  });
+
+  it("Should report the ply a transcript fails verification at", async function () {
+    const { transcript } = await play(["e2e4", "e7e5", "g1f3"]);
+    const forged = await signMove({ ...transcript, moves: transcript.moves.slice(0, 1) }, white, "e7e5");
+    const tampered = { ...transcript, moves: [transcript.moves[0], forged, transcript.moves[2]] };
+
+    expect((await verifyTranscript(transcript, createInitialState())).valid).to.equal(true);
+    expect(await verifyTranscript(tampered, createInitialState())).to.deep.include({ valid: false, ply: 1 });
+  });
+
+  it("Should only extend a transcript that keeps all of its moves", async function () {
+    const { transcript: short, state } = await play(["e2e4", "e7e5"]);
+    const { transcript: long } = await play(["g1f3"], short, state);
+    const { transcript: other } = await play(["e2e4", "c7c5", "g1f3"]);
+
+    expect(extendsTranscript(short, long)).to.equal(true);
+    expect(extendsTranscript(long, short)).to.equal(false);
+    expect(extendsTranscript(short, other)).to.equal(false);
+  });
+
+  it("Should rebase onto the moves a dispute put on-chain", async function () {
+    const { transcript } = await play(["e2e4", "e7e5", "g1f3", "b8c6"]);
+    const { state: disputed } = await play(["e2e4", "e7e5"]);
+
+    const rebase = rebaseTranscript(transcript, chainHashes(transcript, 2));
+
+    expect(rebase.status).to.equal("rebased");
+    const rebased = (rebase as { transcript: SignedTranscript }).transcript;
+    expect(rebased.startPly).to.equal(2);
+    expect(rebased.startHash).to.equal(hashSignedMove(transcript, transcript.moves[1]));
+    expect(rebased.moves.map(move => move.ply)).to.deep.equal([2, 3]);
+    expect((await verifyTranscript(rebased, disputed)).valid).to.equal(true);
+  });
+
+  it("Should not rebase onto a chain that played another move", async function () {
+    const { transcript } = await play(["e2e4", "e7e5", "g1f3"]);
+    // White played d4 on-chain after signing e4; the signed e5 is still legal after it
+    const { transcript: chain } = await play(["d2d4", "e7e5"]);
+
+    expect(rebaseTranscript(transcript, chainHashes(chain, 2)).status).to.equal("diverged");
+    expect(findConflictingMove(transcript, chainHashes(chain, 2))).to.equal(transcript.moves[0]);
+  });
+
+  it("Should find where a longer chain left the transcript", async function () {
+    const { transcript } = await play(["e2e4", "e7e5", "g1f3", "b8c6"]);
+    const { transcript: chain } = await play(["e2e4", "e7e5", "g1f3", "g8f6", "f3e5"]);
+
+    expect(rebaseTranscript(transcript, chainHashes(chain, 5)).status).to.equal("behind");
+    expect(findConflictingMove(transcript, chainHashes(chain, 5))).to.equal(transcript.moves[3]);
+    expect(findConflictingMove(transcript, chainHashes(chain, 3))).to.equal(null);
+  });
+
+  it("Should hash on-chain moves into the same chain as signed ones", async function () {
+    const { transcript, state } = await play(["e2e4", "e7e5", "g1f3"]);
+    const hashes = hashChainMoves(transcript.gameId, state.moveHistory);
+
+    expect(hashes).to.deep.equal(transcript.moves.map(move => hashSignedMove(transcript, move)));
+    expect(getPlayedMoves(transcript.gameId, state.moveHistory, 1)).to.deep.equal({
+      prevHash: hashes[0],
+      playedMoves: [
+        { fromPos: algebraicToSquare("e7"), toPos: algebraicToSquare("e5") },
+        { fromPos: algebraicToSquare("g1"), toPos: algebraicToSquare("f3") },
+      ],
+    });
+    expect(getPlayedMoves(transcript.gameId, state.moveHistory, 0).prevHash).to.equal(zeroHash);
+  });
+
+  it("Should verify a result offer signed by both players", async function () {
+    const { transcript } = await play(["e2e4", "e7e5"]);
+    const offer = createResultOffer(transcript, "draw");
+    const signed = {
+      ...offer,
+      signatures: { white: await signResult(transcript, offer, white), black: await signResult(transcript, offer, black) },
+    };
+
+    const verified = await verifyResultOffer(transcript, signed);
+
+    expect(verified.signatures).to.deep.equal(signed.signatures);
+  });
+
+  it("Should reject a result offer for another position or signer", async function () {
+    const { transcript } = await play(["e2e4", "e7e5"]);
+    const offer = createResultOffer(transcript, "white");
+
+    await expectRejection(verifyResultOffer(transcript, { ...offer, moveCount: 1 }), "does not match the transcript");
+    await expectRejection(
+      addResultSignature(transcript, offer, await signResult(transcript, offer, stranger)),
+      "not signed by a player in this game"
+    );
+  });
+
+  it("Should reject a result offer after its deadline", async function () {
+    const { transcript } = await play(["e2e4", "e7e5"]);
+    const offer = createResultOffer(transcript, "draw", 1_700_000_000_000);
+    const signed = {
+      ...offer,
+      signatures: { white: await signResult(transcript, offer, white), black: await signResult(transcript, offer, black) },
+    };
+
+    expect(offer.deadline).to.equal(1_700_000_000 + RESULT_OFFER_TTL);
+    expect(isResultFinal(signed, offer.deadline * 1000)).to.equal(true);
+    expect(isResultFinal(signed, (offer.deadline + 1) * 1000)).to.equal(false);
+    await verifyResultOffer(transcript, signed, offer.deadline * 1000);
+    await expectRejection(verifyResultOffer(transcript, signed, (offer.deadline + 1) * 1000), "has expired");
+  });
+});
+
+async function expectRejection(promise: Promise<unknown>, message: string) {
+  try {
+    await promise;
+  } catch (error) {
+    expect((error as Error).message).to.contain(message);
+    return;
+  }
+  expect.fail(`Expected a rejection containing "${message}"`);
+}